@@ -9,6 +9,12 @@ import Home from "@/pages/home";
 import Chat from "@/pages/chat";
 import Market from "@/pages/market";
 import News from "@/pages/news";
+import Screener from "@/pages/screener";
+import Backtest from "@/pages/backtest";
+import Optimize from "@/pages/optimize";
+import PaperTrading from "@/pages/paper-trading";
+import Invest from "@/pages/invest";
+import PortfolioPage from "@/pages/portfolio";
 import History from "@/pages/history";
 import Auth from "@/pages/auth";
 import AuthCallback from "@/pages/auth-callback";
@@ -24,6 +30,12 @@ function Router() {
         <Route path="/auth/callback" component={AuthCallback} />
         <Route path="/chat" component={Chat} />
         <Route path="/market" component={Market} />
+        <Route path="/screener" component={Screener} />
+        <Route path="/backtest/optimize" component={Optimize} />
+        <Route path="/backtest" component={Backtest} />
+        <Route path="/paper-trading" component={PaperTrading} />
+        <Route path="/invest" component={Invest} />
+        <Route path="/portfolio" component={PortfolioPage} />
         <Route path="/news" component={News} />
         <Route path="/history" component={History} />
         <Route component={NotFound} />
@@ -8,6 +8,11 @@ const navItems = [
   { path: "/", label: "Home", icon: "🏠" },
   { path: "/chat", label: "AI Chat", icon: "💬" },
   { path: "/market", label: "Market", icon: "📊" },
+  { path: "/screener", label: "Screener", icon: "🔎" },
+  { path: "/backtest", label: "Backtest", icon: "🧪" },
+  { path: "/paper-trading", label: "Paper Trading", icon: "💵" },
+  { path: "/invest", label: "Invest", icon: "🐷" },
+  { path: "/portfolio", label: "Portfolio", icon: "💼" },
   { path: "/news", label: "News", icon: "📰" },
   { path: "/history", label: "History", icon: "📜" },
 ];
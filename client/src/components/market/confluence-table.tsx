@@ -0,0 +1,121 @@
+import { Layers } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+type Direction = "bullish" | "bearish" | "neutral";
+
+interface Signal {
+  direction: Direction;
+  score: number;
+}
+
+export interface TimeframeAnalysis {
+  interval: string;
+  trend: Signal & { adx: number | null };
+  momentum: Signal & { rsi: number };
+  volatility: {
+    regime: "contracting" | "normal" | "expanding";
+    atrPercent: number;
+  };
+  direction: Direction;
+  score: number;
+}
+
+export interface ConfluenceReport {
+  timeframes: TimeframeAnalysis[];
+  unavailable: string[];
+  direction: Direction;
+  score: number;
+  agreement: number;
+  conflicts: string[];
+}
+
+const DIRECTION_CLASSES: Record<Direction, string> = {
+  bullish: "bg-emerald/20 text-emerald",
+  bearish: "bg-red-400/20 text-red-400",
+  neutral: "bg-white/10 text-cool-gray",
+};
+
+function DirectionBadge({ signal }: { signal: Signal }) {
+  return (
+    <Badge className={DIRECTION_CLASSES[signal.direction]}>
+      {signal.direction} {signal.score >= 0 ? "+" : ""}
+      {signal.score.toFixed(2)}
+    </Badge>
+  );
+}
+
+export default function ConfluenceTable({
+  confluence,
+}: {
+  confluence: ConfluenceReport;
+}) {
+  return (
+    <div data-testid="confluence-table">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-grotesk font-semibold text-lg flex items-center text-white">
+          <Layers className="h-5 w-5 mr-2 text-electric" />
+          Timeframe Confluence
+        </h4>
+        <Badge className={DIRECTION_CLASSES[confluence.direction]}>
+          {confluence.direction} · {Math.round(confluence.agreement * 100)}%
+          agree
+        </Badge>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Timeframe</TableHead>
+            <TableHead>Trend</TableHead>
+            <TableHead>Momentum</TableHead>
+            <TableHead className="text-right">RSI</TableHead>
+            <TableHead>Volatility</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {confluence.timeframes.map((timeframe) => (
+            <TableRow key={timeframe.interval}>
+              <TableCell className="font-mono text-white">
+                {timeframe.interval}
+              </TableCell>
+              <TableCell>
+                <DirectionBadge signal={timeframe.trend} />
+              </TableCell>
+              <TableCell>
+                <DirectionBadge signal={timeframe.momentum} />
+              </TableCell>
+              <TableCell className="text-right font-mono">
+                {timeframe.momentum.rsi.toFixed(1)}
+              </TableCell>
+              <TableCell className="text-cool-gray">
+                {timeframe.volatility.regime} · ATR{" "}
+                {timeframe.volatility.atrPercent.toFixed(2)}%
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {confluence.conflicts.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm text-amber">
+          {confluence.conflicts.map((conflict) => (
+            <li key={conflict}>⚠️ {conflict}</li>
+          ))}
+        </ul>
+      )}
+      {confluence.unavailable.length > 0 && (
+        <p className="mt-2 text-xs text-cool-gray/70">
+          Not enough data for {confluence.unavailable.join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
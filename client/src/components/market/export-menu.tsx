@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+
+// Indicator columns included in every export, same spec as the API
+const EXPORT_INDICATORS = "sma:20,ema:50,rsi:14,macd:12:26:9,bb:20:2";
+
+const EXPORT_FORMATS = [
+  { value: "csv", label: "CSV" },
+  { value: "jsonl", label: "JSON Lines" },
+];
+
+interface ExportMenuProps {
+  symbol: string;
+  interval: string;
+}
+
+export default function ExportMenu({ symbol, interval }: ExportMenuProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleExport = async (format: string) => {
+    setIsExporting(true);
+    try {
+      const params = new URLSearchParams({
+        interval,
+        format,
+        indicators: EXPORT_INDICATORS,
+        sentiment: "true",
+      });
+      const response = await fetch(
+        `/api/market/export/${symbol}?${params.toString()}`
+      );
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `Export failed (${response.status})`);
+      }
+
+      // Keep the server's file name, e.g. BTCUSDT_1h_2024-01-01_2024-02-11.csv
+      const disposition = response.headers.get("Content-Disposition") || "";
+      const fileName =
+        disposition.match(/filename="([^"]+)"/)?.[1] ||
+        `${symbol}_${interval}.${format}`;
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description:
+          error instanceof Error ? error.message : "Unable to export data",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isExporting}
+          data-testid="button-export-market"
+        >
+          {isExporting ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4 mr-2" />
+          )}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="bg-card border-electric/20" align="end">
+        <DropdownMenuLabel className="font-normal text-cool-gray">
+          {symbol} · {interval} · last 1000 candles
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator className="bg-electric/20" />
+        {EXPORT_FORMATS.map(({ value, label }) => (
+          <DropdownMenuItem
+            key={value}
+            onClick={() => handleExport(value)}
+            className="text-cool-gray hover:text-white hover:bg-electric/10"
+          >
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,87 @@
+import { LineChart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+// Specs in the same format as the indicators API
+const OVERLAY_OPTIONS = [
+  { spec: "sma:50", label: "SMA 50" },
+  { spec: "ema:20", label: "EMA 20" },
+  { spec: "bb:20:2", label: "Bollinger Bands" },
+  { spec: "kc:20:2:10", label: "Keltner Channels" },
+  { spec: "vwap", label: "VWAP" },
+  { spec: "psar:0.02:0.2", label: "Parabolic SAR" },
+  { spec: "ichimoku:9:26:52", label: "Ichimoku" },
+];
+
+const PANE_OPTIONS = [
+  { spec: "rsi:14", label: "RSI 14" },
+  { spec: "macd:12:26:9", label: "MACD" },
+  { spec: "stoch:14:3:3", label: "Stochastic" },
+  { spec: "adx:14", label: "ADX / DMI" },
+  { spec: "atr:14", label: "ATR 14" },
+  { spec: "obv", label: "OBV" },
+  { spec: "willr:14", label: "Williams %R" },
+];
+
+interface IndicatorPickerProps {
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+export default function IndicatorPicker({
+  selected,
+  onChange,
+}: IndicatorPickerProps) {
+  const toggle = (spec: string, checked: boolean) => {
+    onChange(
+      checked ? [...selected, spec] : selected.filter((item) => item !== spec)
+    );
+  };
+
+  const renderOptions = (options: typeof OVERLAY_OPTIONS) =>
+    options.map(({ spec, label }) => (
+      <DropdownMenuCheckboxItem
+        key={spec}
+        checked={selected.includes(spec)}
+        onCheckedChange={(checked) => toggle(spec, checked === true)}
+        // Keep the menu open to pick several indicators
+        onSelect={(event) => event.preventDefault()}
+        className="text-cool-gray hover:text-white hover:bg-electric/10"
+      >
+        {label}
+      </DropdownMenuCheckboxItem>
+    ));
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          data-testid="button-select-indicators"
+        >
+          <LineChart className="h-4 w-4 mr-2" />
+          Indicators{selected.length ? ` (${selected.length})` : ""}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="bg-card border-electric/20" align="end">
+        <DropdownMenuLabel className="font-normal text-cool-gray">
+          On price
+        </DropdownMenuLabel>
+        {renderOptions(OVERLAY_OPTIONS)}
+        <DropdownMenuSeparator className="bg-electric/20" />
+        <DropdownMenuLabel className="font-normal text-cool-gray">
+          Below price
+        </DropdownMenuLabel>
+        {renderOptions(PANE_OPTIONS)}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -20,6 +20,7 @@ import {
   CandlestickElement,
   OhlcElement,
 } from "chartjs-chart-financial";
+import { useLiveKline } from "@/hooks/use-market-stream";
 
 ChartJS.register(
   CategoryScale,
@@ -67,14 +68,282 @@ interface ChartData {
   };
 }
 
+export interface IndicatorSeries {
+  key: string; // e.g. bb:20:2
+  name: string;
+  params: number[];
+  overlay: boolean;
+  columns: { name: string; values: (number | null)[] }[];
+}
+
+export interface IndicatorData {
+  symbol: string;
+  interval: string;
+  candles: Candle[];
+  indicators: IndicatorSeries[];
+}
+
+export interface CandlePattern {
+  name: string;
+  label: string;
+  direction: "bullish" | "bearish" | "neutral";
+  time: number;
+  price: number;
+  strength: number;
+}
+
+export interface PriceLevel {
+  type: "support" | "resistance";
+  price: number;
+  low: number;
+  high: number;
+  touches: number;
+}
+
+export interface Trendline {
+  type: "support" | "resistance";
+  startTime: number;
+  startPrice: number;
+  endTime: number;
+  endPrice: number;
+  slope: number; // Price change per candle
+  touches: number;
+}
+
+export interface SupportResistanceLevels {
+  nearestSupport: PriceLevel | null;
+  nearestResistance: PriceLevel | null;
+  trendlines: {
+    support: Trendline | null;
+    resistance: Trendline | null;
+  };
+}
+
+interface DivergencePoint {
+  time: number;
+  price: number;
+  value: number;
+}
+
+export interface Divergence {
+  direction: "bullish" | "bearish";
+  label: string;
+  start: DivergencePoint;
+  end: DivergencePoint;
+  strength: number;
+}
+
 interface PriceChartProps {
   data: ChartData;
+  indicatorData?: IndicatorData;
+  patterns?: CandlePattern[];
+  levels?: SupportResistanceLevels;
+  divergences?: Divergence[];
   isLoading?: boolean;
   error?: Error | null;
 }
 
+const INDICATOR_COLORS = [
+  "#9B5DE5",
+  "#00BBF9",
+  "#F15BB5",
+  "#FEE440",
+  "#00F5D4",
+  "#FF924C",
+];
+
+const PATTERN_COLORS = {
+  bullish: "#26a69a",
+  bearish: "#ef5350",
+  neutral: "#FEE440",
+};
+
+// One marker per candle, so index tooltips line up with the candles. Markers
+// sit below the low for bullish patterns and above the high otherwise.
+function buildPatternDataset(candles: Candle[], patterns: CandlePattern[]) {
+  const markers = candles.map((candle) => {
+    const matches = patterns
+      .filter((pattern) => pattern.time === candle.time)
+      .sort((a, b) => b.strength - a.strength);
+    const strongest = matches[0];
+    return {
+      x: new Date(candle.time),
+      y: strongest
+        ? strongest.direction === "bullish"
+          ? candle.low * 0.997
+          : candle.high * 1.003
+        : null,
+      patterns: matches,
+    };
+  });
+
+  return {
+    label: "Patterns",
+    type: "line" as const,
+    data: markers,
+    showLine: false,
+    pointStyle: markers.map(({ patterns }) =>
+      patterns[0]?.direction === "neutral" ? "circle" : "triangle"
+    ),
+    pointRotation: markers.map(({ patterns }) =>
+      patterns[0]?.direction === "bearish" ? 180 : 0
+    ),
+    pointRadius: markers.map(({ patterns }) =>
+      patterns[0] ? 3 + patterns[0].strength * 3 : 0
+    ),
+    pointBackgroundColor: markers.map(({ patterns }) =>
+      patterns[0] ? PATTERN_COLORS[patterns[0].direction] : "transparent"
+    ),
+    pointBorderWidth: 0,
+    yAxisID: "y",
+  };
+}
+
+// Nearest zones as flat dashed lines and trendlines from their first pivot,
+// placed by candle index from the line's last candle
+function buildLevelDatasets(
+  candles: Candle[],
+  levels: SupportResistanceLevels
+) {
+  const datasets: any[] = [];
+  const color = (type: PriceLevel["type"]) =>
+    type === "support" ? PATTERN_COLORS.bullish : PATTERN_COLORS.bearish;
+
+  for (const level of [levels.nearestSupport, levels.nearestResistance]) {
+    if (!level) continue;
+    datasets.push({
+      label: `${level.type === "support" ? "Support" : "Resistance"} (${
+        level.touches
+      }x)`,
+      type: "line" as const,
+      data: candles.map((candle) => ({
+        x: new Date(candle.time),
+        y: level.price,
+      })),
+      borderColor: color(level.type),
+      borderWidth: 1,
+      borderDash: [6, 4],
+      pointRadius: 0,
+      fill: false,
+      yAxisID: "y",
+    });
+  }
+
+  for (const line of [
+    levels.trendlines.support,
+    levels.trendlines.resistance,
+  ]) {
+    if (!line) continue;
+    const endIndex = candles.findIndex(
+      (candle) => candle.time === line.endTime
+    );
+    if (endIndex === -1) continue;
+    datasets.push({
+      label: `${line.type === "support" ? "Support" : "Resistance"} trendline`,
+      type: "line" as const,
+      data: candles.map((candle, i) => ({
+        x: new Date(candle.time),
+        y:
+          candle.time >= line.startTime
+            ? line.endPrice + line.slope * (i - endIndex)
+            : null,
+      })),
+      borderColor: color(line.type),
+      borderWidth: 1.5,
+      pointRadius: 0,
+      fill: false,
+      yAxisID: "y",
+    });
+  }
+
+  return datasets;
+}
+
+// A dotted line between the two price pivots of each divergence, with gaps
+// spanned so it joins the points
+function buildDivergenceDatasets(candles: Candle[], divergences: Divergence[]) {
+  return divergences.map((divergence) => ({
+    label: divergence.label,
+    type: "line" as const,
+    data: candles.map((candle) => ({
+      x: new Date(candle.time),
+      y:
+        candle.time === divergence.start.time
+          ? divergence.start.price
+          : candle.time === divergence.end.time
+            ? divergence.end.price
+            : null,
+    })),
+    spanGaps: true,
+    borderColor: PATTERN_COLORS[divergence.direction],
+    borderWidth: 1 + divergence.strength,
+    borderDash: [2, 3],
+    pointRadius: 2,
+    pointBackgroundColor: PATTERN_COLORS[divergence.direction],
+    fill: false,
+    yAxisID: "y",
+  }));
+}
+
+// Price lines plus one stacked pane per oscillator, keyed by axis id
+function buildIndicatorChart(indicatorData?: IndicatorData) {
+  const datasets: any[] = [];
+  const panes: Record<string, any> = {};
+  let color = 0;
+
+  for (const series of indicatorData?.indicators || []) {
+    const axis = series.overlay ? "y" : `pane_${series.key}`;
+    if (!series.overlay) {
+      panes[axis] = {
+        type: "linear" as const,
+        position: "right" as const,
+        stack: "price",
+        stackWeight: 1,
+        offset: true,
+        grid: {
+          color: "rgba(255, 255, 255, 0.1)",
+        },
+        ticks: {
+          color: "rgba(255, 255, 255, 0.7)",
+          maxTicksLimit: 3,
+          font: {
+            size: 10,
+          },
+        },
+      };
+    }
+
+    for (const column of series.columns) {
+      const isPsar = series.name === "psar";
+      datasets.push({
+        label: column.name,
+        type: "line" as const,
+        data: indicatorData!.candles.map((candle, i) => ({
+          x: new Date(candle.time),
+          y: column.values[i],
+        })),
+        borderColor: INDICATOR_COLORS[color % INDICATOR_COLORS.length],
+        backgroundColor: INDICATOR_COLORS[color % INDICATOR_COLORS.length],
+        borderWidth: 1,
+        // SAR is drawn as dots, not a line
+        showLine: !isPsar,
+        pointRadius: isPsar ? 1.5 : 0,
+        fill: false,
+        yAxisID: axis,
+      });
+      color++;
+    }
+  }
+
+  return { datasets, panes };
+}
+
 export default function PriceChart({
   data,
+  indicatorData,
+  patterns,
+  levels,
+  divergences,
   isLoading,
   error,
 }: PriceChartProps) {
@@ -84,6 +353,11 @@ export default function PriceChart({
     any,
     unknown
   > | null>(null);
+  const { kline: liveKline } = useLiveKline(
+    data.symbol,
+    data.interval,
+    !!data?.candles?.length
+  );
 
   useEffect(() => {
     if (!chartRef.current || !data?.candles?.length) return;
@@ -102,6 +376,8 @@ export default function PriceChart({
       l: candle.low,
       c: candle.close,
     }));
+    const indicatorChart = buildIndicatorChart(indicatorData);
+    const hasPanes = Object.keys(indicatorChart.panes).length > 0;
 
     chartInstance.current = new ChartJS(ctx, {
       type: "line" as const,
@@ -158,6 +434,14 @@ export default function PriceChart({
             borderWidth: 1,
             yAxisID: "volume",
           },
+          ...indicatorChart.datasets,
+          ...(levels ? buildLevelDatasets(data.candles, levels) : []),
+          ...(divergences?.length
+            ? buildDivergenceDatasets(data.candles, divergences)
+            : []),
+          ...(patterns?.length
+            ? [buildPatternDataset(data.candles, patterns)]
+            : []),
         ],
       },
       options: {
@@ -187,6 +471,7 @@ export default function PriceChart({
               ) {
                 const dataset = context.dataset;
                 if (!context.raw) return undefined;
+                const value = (context.raw as { y: number | null }).y;
 
                 type CandleTooltipData = {
                   o: number;
@@ -204,9 +489,25 @@ export default function PriceChart({
                     `Close: $${candle.c?.toFixed(2)}`,
                   ];
                 }
-                return `${dataset.label}: $${(
-                  context.raw as { y: number }
-                ).y.toFixed(2)}`;
+                if (value === null) return undefined;
+                const { patterns: matches } = context.raw as {
+                  patterns?: CandlePattern[];
+                };
+                if (matches) {
+                  return matches.map(
+                    (pattern) =>
+                      `${pattern.label} (strength ${Math.round(
+                        pattern.strength * 100
+                      )}%)`
+                  );
+                }
+                // Oscillators are not prices
+                const prefix = (
+                  dataset as { yAxisID?: string }
+                ).yAxisID?.startsWith("pane_")
+                  ? ""
+                  : "$";
+                return `${dataset.label}: ${prefix}${value.toFixed(2)}`;
               },
             },
           },
@@ -231,6 +532,7 @@ export default function PriceChart({
             type: "linear" as const,
             id: "y",
             position: "right" as const,
+            ...(hasPanes ? { stack: "price", stackWeight: 3 } : {}),
             grid: {
               color: "rgba(255, 255, 255, 0.1)",
             },
@@ -263,6 +565,7 @@ export default function PriceChart({
               },
             },
           },
+          ...indicatorChart.panes,
         },
         interaction: {
           intersect: false,
@@ -277,7 +580,60 @@ export default function PriceChart({
         chartInstance.current = null;
       }
     };
-  }, [data, data?.candles]);
+  }, [
+    data.symbol,
+    data.interval,
+    data.candles,
+    data.indicators.sma20,
+    indicatorData,
+    patterns,
+    levels,
+    divergences,
+  ]);
+
+  // Apply streamed candles to the existing chart instead of rebuilding it
+  useEffect(() => {
+    const chart = chartInstance.current;
+    if (!chart || !liveKline) return;
+
+    const { candle } = liveKline;
+    const [priceSet, smaSet, volumeSet] = chart.data.datasets;
+    const prices = priceSet.data as CandleData[];
+    const last = prices[prices.length - 1];
+    const point: CandleData = {
+      x: new Date(candle.time),
+      o: candle.open,
+      h: candle.high,
+      l: candle.low,
+      c: candle.close,
+    };
+    const volumePoint = { x: point.x, y: candle.volume };
+    const isUp = candle.close > candle.open;
+    const colors = {
+      background: isUp ? "rgba(38, 166, 154, 0.3)" : "rgba(239, 83, 80, 0.3)",
+      border: isUp ? "#26a69a" : "#ef5350",
+    };
+    const volumeBackgrounds = volumeSet.backgroundColor as string[];
+    const volumeBorders = volumeSet.borderColor as string[];
+
+    if (last && last.x.getTime() === candle.time) {
+      const index = prices.length - 1;
+      prices[index] = point;
+      volumeSet.data[index] = volumePoint;
+      volumeBackgrounds[index] = colors.background;
+      volumeBorders[index] = colors.border;
+    } else if (!last || last.x.getTime() < candle.time) {
+      prices.push(point);
+      smaSet.data.push({ x: point.x, y: data.indicators.sma20 });
+      volumeSet.data.push(volumePoint);
+      volumeBackgrounds.push(colors.background);
+      volumeBorders.push(colors.border);
+    } else {
+      return;
+    }
+
+    chart.update("none");
+  }, [liveKline]);
 
   if (isLoading) {
     return (
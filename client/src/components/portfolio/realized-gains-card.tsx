@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Download, Loader2, Receipt } from "lucide-react";
+import GlassCard from "@/components/ui/glass-card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { RealizedGainsReport } from "@shared/types/portfolio";
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  error?: string;
+}
+
+// Tax years offered, counting back from the current one
+const YEARS_SHOWN = 6;
+
+function formatSigned(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toLocaleString("en-US", {
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+function pnlClass(value: number): string {
+  return value >= 0 ? "text-emerald" : "text-red-400";
+}
+
+interface RealizedGainsCardProps {
+  portfolioId: string;
+  userId?: string;
+}
+
+export default function RealizedGainsCard({
+  portfolioId,
+  userId,
+}: RealizedGainsCardProps) {
+  const currentYear = new Date().getUTCFullYear();
+  const [year, setYear] = useState(currentYear);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const { toast } = useToast();
+
+  const params = new URLSearchParams({ year: String(year) });
+  if (userId) params.set("userId", userId);
+  const gainsUrl = `/api/portfolios/${portfolioId}/gains?${params.toString()}`;
+  const { data: gainsResponse, isLoading } = useQuery<
+    ApiResponse<RealizedGainsReport>
+  >({
+    queryKey: [gainsUrl],
+  });
+  const report = gainsResponse?.data;
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const response = await fetch(`${gainsUrl}&format=csv`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `Export failed (${response.status})`);
+      }
+
+      const disposition = response.headers.get("Content-Disposition") || "";
+      const fileName =
+        disposition.match(/filename="([^"]+)"/)?.[1] ||
+        `realized-gains-${year}.csv`;
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <GlassCard className="p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Receipt className="text-electric" size={20} />
+          <h2 className="font-grotesk font-semibold text-xl">Realized Gains</h2>
+        </div>
+        <div className="flex gap-2">
+          <Select
+            value={String(year)}
+            onValueChange={(value) => setYear(Number(value))}
+          >
+            <SelectTrigger className="w-28 bg-white/5 border-white/20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: YEARS_SHOWN }, (_, i) => (
+                <SelectItem key={i} value={String(currentYear - i)}>
+                  {currentYear - i}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            onClick={handleDownload}
+            disabled={!report?.disposals.length || isDownloading}
+          >
+            {isDownloading ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-1" />
+            )}
+            CSV
+          </Button>
+        </div>
+      </div>
+
+      {report ? (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {[
+              { label: "Proceeds", value: report.totals.proceeds },
+              { label: "Cost Basis", value: report.totals.costBasis },
+              { label: "Gain", value: report.totals.gain, signed: true },
+              {
+                label: "Short Term",
+                value: report.totals.shortTermGain,
+                signed: true,
+              },
+              {
+                label: "Long Term",
+                value: report.totals.longTermGain,
+                signed: true,
+              },
+            ].map((item) => (
+              <div key={item.label} className="p-3 rounded-lg bg-white/5">
+                <div className="text-xs text-cool-gray">{item.label}</div>
+                <div
+                  className={`font-mono text-lg ${
+                    item.signed ? pnlClass(item.value) : "text-white"
+                  }`}
+                >
+                  {item.signed
+                    ? formatSigned(item.value)
+                    : item.value.toLocaleString("en-US", {
+                        maximumFractionDigits: 2,
+                      })}
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-cool-gray/70 mt-2">
+            {report.disposals.length} lots sold in {report.year}, matched by{" "}
+            {report.costMethod.toUpperCase()}, in {report.currency}.
+            {report.costMethod === "average" &&
+              " Average cost has no holding period, so gains aren't split by term."}
+          </p>
+        </>
+      ) : (
+        <p className="text-cool-gray text-sm">
+          {isLoading ? "Loading…" : "No report."}
+        </p>
+      )}
+    </GlassCard>
+  );
+}
@@ -0,0 +1,386 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Eye, Loader2, Upload } from "lucide-react";
+import GlassCard from "@/components/ui/glass-card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import type { TradeImportFormat } from "@shared/schema";
+import type { TradeImportPreview } from "@shared/types/portfolio";
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  error?: string;
+}
+
+const FORMAT_LABELS: Record<TradeImportFormat, string> = {
+  binance: "Binance trade history",
+  coinbase: "Coinbase transaction report",
+  kraken: "Kraken trades",
+  generic: "Other CSV (map columns)",
+};
+
+// Header names the generic format reads each field from
+const GENERIC_COLUMNS = [
+  { key: "date", label: "Date", required: true },
+  { key: "type", label: "Type", required: true },
+  { key: "asset", label: "Asset", required: true },
+  { key: "quantity", label: "Quantity", required: true },
+  { key: "price", label: "Price", required: false },
+  { key: "quote", label: "Price currency", required: false },
+  { key: "fee", label: "Fee", required: false },
+  { key: "feeAsset", label: "Fee currency", required: false },
+  { key: "id", label: "Trade ID", required: false },
+] as const;
+
+type GenericColumn = (typeof GENERIC_COLUMNS)[number]["key"];
+
+// Rows of the preview table; the counts cover the whole file
+const PREVIEW_ROWS = 100;
+
+function formatAmount(value: number | null): string {
+  if (value === null) return "—";
+  return value.toLocaleString("en-US", {
+    maximumFractionDigits: Math.abs(value) < 1 ? 6 : 2,
+  });
+}
+
+function formatChange(before: number, after: number): string {
+  return `${formatAmount(before)} → ${formatAmount(after)}`;
+}
+
+interface TradeImportCardProps {
+  portfolioId: string;
+  userId?: string;
+  onImported: () => void;
+}
+
+export default function TradeImportCard({
+  portfolioId,
+  userId,
+  onImported,
+}: TradeImportCardProps) {
+  const [format, setFormat] = useState<TradeImportFormat>("binance");
+  const [columns, setColumns] = useState<Record<GenericColumn, string>>({
+    date: "Date",
+    type: "Type",
+    asset: "Asset",
+    quantity: "Quantity",
+    price: "Price",
+    quote: "",
+    fee: "Fee",
+    feeAsset: "",
+    id: "",
+  });
+  const [fileName, setFileName] = useState("");
+  const [csv, setCsv] = useState("");
+  const [preview, setPreview] = useState<TradeImportPreview | null>(null);
+  const { toast } = useToast();
+
+  // The CSV is the body; the format and column mapping go in the query
+  const upload = async (path: string) => {
+    const params = new URLSearchParams({ format });
+    if (userId) params.set("userId", userId);
+    if (format === "generic") {
+      for (const { key } of GENERIC_COLUMNS) {
+        if (columns[key].trim()) params.set(key, columns[key].trim());
+      }
+    }
+    const response = await fetch(
+      `/api/portfolios/${portfolioId}/${path}?${params.toString()}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "text/csv" },
+        body: csv,
+        credentials: "include",
+      }
+    );
+    const body = (await response
+      .json()
+      .catch(() => null)) as ApiResponse<TradeImportPreview> | null;
+    if (!response.ok || !body) {
+      throw new Error(body?.error || `Import failed (${response.status})`);
+    }
+    return body.data;
+  };
+
+  const showError = (title: string) => (error: Error) =>
+    toast({ title, description: error.message, variant: "destructive" });
+
+  const previewMutation = useMutation({
+    mutationFn: () => upload("import/preview"),
+    onSuccess: setPreview,
+    onError: showError("Preview failed"),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () => upload("import"),
+    onSuccess: (result) => {
+      setPreview(null);
+      setCsv("");
+      setFileName("");
+      onImported();
+      toast({
+        title: `Imported ${result.imported} transactions`,
+        description: result.duplicateCount
+          ? `${result.duplicateCount} already imported`
+          : undefined,
+      });
+    },
+    onError: showError("Import failed"),
+  });
+
+  const readFile = async (file: File | undefined) => {
+    setPreview(null);
+    setFileName(file?.name ?? "");
+    setCsv(file ? await file.text() : "");
+  };
+
+  const mappingComplete = GENERIC_COLUMNS.every(
+    ({ key, required }) => !required || columns[key].trim()
+  );
+  const canPreview = csv !== "" && (format !== "generic" || mappingComplete);
+
+  return (
+    <GlassCard className="p-6 mb-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <Upload className="text-electric" size={20} />
+        <h2 className="font-grotesk font-semibold text-xl">Import Trades</h2>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3">
+        <label className="text-sm text-cool-gray">
+          Format
+          <Select
+            value={format}
+            onValueChange={(value) => {
+              setFormat(value as TradeImportFormat);
+              setPreview(null);
+            }}
+          >
+            <SelectTrigger className="mt-1 bg-white/5 border-white/20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </label>
+        <label className="text-sm text-cool-gray md:col-span-2">
+          CSV file
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            className="mt-1 bg-white/5 border-white/20"
+            onChange={(e) => readFile(e.target.files?.[0])}
+          />
+        </label>
+      </div>
+
+      {format === "generic" && (
+        <div className="mb-3">
+          <p className="text-xs text-cool-gray/70 mb-2">
+            Header names in your file. Types may be buy, sell, deposit or
+            withdrawal; prices without a currency column are in the portfolio
+            currency.
+          </p>
+          <div className="grid grid-cols-3 md:grid-cols-9 gap-2">
+            {GENERIC_COLUMNS.map(({ key, label, required }) => (
+              <label key={key} className="text-xs text-cool-gray">
+                {label}
+                {required && " *"}
+                <Input
+                  className="mt-1 bg-white/5 border-white/20"
+                  value={columns[key]}
+                  onChange={(e) =>
+                    setColumns({ ...columns, [key]: e.target.value })
+                  }
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2 mb-4">
+        <Button
+          variant="outline"
+          onClick={() => previewMutation.mutate()}
+          disabled={!canPreview || previewMutation.isPending}
+        >
+          {previewMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <Eye className="h-4 w-4 mr-1" />
+          )}
+          Preview
+        </Button>
+        <Button
+          onClick={() => importMutation.mutate()}
+          disabled={
+            !preview || preview.error !== null || importMutation.isPending
+          }
+          data-testid="button-import-trades"
+        >
+          {importMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <Upload className="h-4 w-4 mr-1" />
+          )}
+          Import {preview && !preview.error ? preview.newCount : ""}
+        </Button>
+        {fileName && (
+          <span className="self-center text-sm text-cool-gray truncate">
+            {fileName}
+          </span>
+        )}
+      </div>
+
+      {preview && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2 text-sm">
+            <Badge variant="outline">{preview.rows} rows</Badge>
+            <Badge>{preview.newCount} new</Badge>
+            <Badge variant="secondary">
+              {preview.duplicateCount} already imported
+            </Badge>
+            {preview.skipped.length > 0 && (
+              <Badge variant="destructive">
+                {preview.skipped.length} skipped
+              </Badge>
+            )}
+            <span className="text-cool-gray">
+              Lots matched by {preview.costMethod.toUpperCase()}, amounts in{" "}
+              {preview.currency}
+            </span>
+          </div>
+          {preview.error && (
+            <p className="text-sm text-red-400">{preview.error}</p>
+          )}
+
+          {preview.changes.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Asset</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Cost Basis</TableHead>
+                  <TableHead className="text-right">Realized P&L</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.changes.map((change) => (
+                  <TableRow key={change.asset}>
+                    <TableCell className="font-medium">
+                      {change.asset}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatChange(
+                        change.quantityBefore,
+                        change.quantityAfter
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatChange(
+                        change.costBasisBefore,
+                        change.costBasisAfter
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatChange(
+                        change.realizedPnlBefore,
+                        change.realizedPnlAfter
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {preview.skipped.length > 0 && (
+            <div className="text-sm text-cool-gray max-h-32 overflow-y-auto">
+              {preview.skipped.map((row) => (
+                <div key={`${row.row}-${row.reason}`}>
+                  Row {row.row}: {row.reason}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {preview.transactions.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Row</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Asset</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Fee</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.transactions.slice(0, PREVIEW_ROWS).map((row, i) => (
+                  <TableRow
+                    key={`${row.row}-${i}`}
+                    className={row.duplicate ? "opacity-50" : ""}
+                  >
+                    <TableCell>{row.row}</TableCell>
+                    <TableCell>
+                      {new Date(row.executedAt).toLocaleString("en-US")}
+                    </TableCell>
+                    <TableCell>{row.type.replace("_", " ")}</TableCell>
+                    <TableCell className="font-medium">{row.asset}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatAmount(row.quantity)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatAmount(row.price)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatAmount(row.fee)}
+                    </TableCell>
+                    <TableCell>
+                      {row.duplicate && (
+                        <Badge variant="secondary">duplicate</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          {preview.transactions.length > PREVIEW_ROWS && (
+            <p className="text-xs text-cool-gray/70">
+              Showing the first {PREVIEW_ROWS} of {preview.transactions.length}{" "}
+              transactions.
+            </p>
+          )}
+        </div>
+      )}
+    </GlassCard>
+  );
+}
@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  KlineStreamEvent,
+  MarketStreamChannel,
+  MarketStreamEvent,
+  MarketStreamReady,
+  TickerStreamEvent,
+} from "@shared/types/market-stream";
+
+export type MarketStreamStatus = "connecting" | "open" | "closed";
+
+// Ticker bursts are batched into one render per flush
+const TICKER_FLUSH_MS = 500;
+
+interface MarketStreamOptions {
+  interval?: string;
+  enabled?: boolean;
+}
+
+/**
+ * Subscribe to the server's live market stream (/api/stream) for the given
+ * symbols and channels. The handler is called for every event received.
+ * Events carry exchange pairs; `pairs` maps each symbol, upper-cased, to its
+ * pair once the server has resolved them.
+ */
+export function useMarketStream(
+  symbols: string[],
+  channels: MarketStreamChannel[],
+  onEvent: (event: MarketStreamEvent) => void,
+  { interval = "1m", enabled = true }: MarketStreamOptions = {}
+): { status: MarketStreamStatus; pairs: Record<string, string> } {
+  const [status, setStatus] = useState<MarketStreamStatus>("closed");
+  const [pairs, setPairs] = useState<Record<string, string>>({});
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+
+  const symbolsKey = symbols.join(",");
+  const channelsKey = channels.join(",");
+
+  useEffect(() => {
+    if (!enabled || !symbolsKey || typeof EventSource === "undefined") {
+      setStatus("closed");
+      return;
+    }
+
+    const params = new URLSearchParams({
+      symbols: symbolsKey,
+      channels: channelsKey,
+      interval,
+    });
+    const source = new EventSource(`/api/stream?${params.toString()}`);
+    setStatus("connecting");
+
+    const handleMessage = (message: MessageEvent) => {
+      try {
+        handlerRef.current(JSON.parse(message.data) as MarketStreamEvent);
+      } catch (error) {
+        console.warn("Invalid market stream event:", error);
+      }
+    };
+
+    source.addEventListener("ready", (message) => {
+      setPairs((JSON.parse(message.data) as MarketStreamReady).pairs);
+      setStatus("open");
+    });
+    channelsKey
+      .split(",")
+      .forEach((channel) =>
+        source.addEventListener(channel, handleMessage as EventListener)
+      );
+    // EventSource reconnects by itself unless the server refused the request
+    source.onerror = () =>
+      setStatus(
+        source.readyState === EventSource.CLOSED ? "closed" : "connecting"
+      );
+
+    return () => source.close();
+  }, [symbolsKey, channelsKey, interval, enabled]);
+
+  return { status, pairs };
+}
+
+/**
+ * Live 24h tickers for a list of symbols
+ */
+export function useLiveTickers(symbols: string[], enabled = true) {
+  const [tickers, setTickers] = useState<Record<string, TickerStreamEvent>>(
+    {}
+  );
+  const pending = useRef<Record<string, TickerStreamEvent>>({});
+  const flushTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(
+    () => () => {
+      if (flushTimer.current) clearTimeout(flushTimer.current);
+    },
+    []
+  );
+
+  const { status, pairs } = useMarketStream(
+    symbols,
+    ["ticker"],
+    (event) => {
+      if (event.type !== "ticker") return;
+      pending.current[event.symbol] = event;
+
+      if (!flushTimer.current) {
+        flushTimer.current = setTimeout(() => {
+          const updates = pending.current;
+          pending.current = {};
+          flushTimer.current = null;
+          setTickers((current) => ({ ...current, ...updates }));
+        }, TICKER_FLUSH_MS);
+      }
+    },
+    { enabled }
+  );
+
+  const getTicker = useCallback(
+    (symbol: string): TickerStreamEvent | undefined => {
+      const upper = symbol.toUpperCase();
+      return tickers[pairs[upper] ?? upper];
+    },
+    [tickers, pairs]
+  );
+
+  return { tickers, getTicker, status };
+}
+
+/**
+ * Latest (possibly still open) candle for a symbol and interval
+ */
+export function useLiveKline(
+  symbol: string,
+  interval: string,
+  enabled = true
+) {
+  const [kline, setKline] = useState<KlineStreamEvent | null>(null);
+
+  useEffect(() => {
+    setKline(null);
+  }, [symbol, interval]);
+
+  const { status } = useMarketStream(
+    [symbol],
+    ["kline"],
+    (event) => {
+      if (event.type === "kline" && event.interval === interval) {
+        setKline(event);
+      }
+    },
+    { interval, enabled: enabled && !!symbol }
+  );
+
+  return { kline, status };
+}
@@ -0,0 +1,965 @@
+import { useCallback, useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Copy,
+  FlaskConical,
+  Grid3x3,
+  Loader2,
+  Play,
+  Save,
+  Share2,
+  Trash2,
+} from "lucide-react";
+import YAML from "yaml";
+import { Link } from "wouter";
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import GlassCard from "@/components/ui/glass-card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/contexts/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type {
+  Strategy,
+  StrategyDefinition,
+  StrategyVersion,
+} from "@shared/schema";
+import {
+  DEFAULT_BACKTEST_SETTINGS,
+  type BacktestMetrics,
+  type BacktestResult,
+  type BacktestTrade,
+} from "@shared/types/backtest";
+import { describeStrategy } from "@shared/types/strategy";
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  error?: string;
+}
+
+const INTERVALS = ["15m", "1h", "4h", "1d"];
+
+type StrategyFormat = "json" | "yaml";
+
+// Starting points that can be edited as JSON or YAML
+const PRESETS: { label: string; strategy: StrategyDefinition }[] = [
+  {
+    label: "RSI bounce above SMA 50",
+    strategy: {
+      timeframe: "1h",
+      entry: {
+        all: [
+          {
+            left: { indicator: "rsi:14" },
+            operator: "crosses_above",
+            right: 30,
+          },
+          {
+            left: { price: "close" },
+            operator: ">",
+            right: { indicator: "sma:50" },
+          },
+        ],
+      },
+      exit: { left: { indicator: "rsi:14" }, operator: ">", right: 70 },
+      sizing: { type: "percent_equity", percent: 100 },
+      stopLoss: { type: "atr", multiple: 2 },
+      takeProfit: { type: "percent", percent: 8 },
+    },
+  },
+  {
+    label: "EMA 20/50 crossover",
+    strategy: {
+      timeframe: "1h",
+      entry: {
+        left: { indicator: "ema:20" },
+        operator: "crosses_above",
+        right: { indicator: "ema:50" },
+      },
+      exit: {
+        left: { indicator: "ema:20" },
+        operator: "crosses_below",
+        right: { indicator: "ema:50" },
+      },
+    },
+  },
+  {
+    label: "MACD with daily trend filter",
+    strategy: {
+      timeframe: "4h",
+      entry: {
+        all: [
+          {
+            left: { indicator: "macd:12:26:9", line: "macd_hist" },
+            operator: "crosses_above",
+            right: 0,
+          },
+          {
+            left: { price: "close", timeframe: "1d" },
+            operator: ">",
+            right: { indicator: "sma:50", timeframe: "1d" },
+          },
+        ],
+      },
+      exit: {
+        any: [
+          {
+            left: { indicator: "macd:12:26:9", line: "macd_hist" },
+            operator: "crosses_below",
+            right: 0,
+          },
+          { left: { indicator: "rsi:14" }, operator: ">", right: 75 },
+        ],
+      },
+      sizing: { type: "risk", percent: 1 },
+      stopLoss: { type: "percent", percent: 5 },
+    },
+  },
+];
+
+function formatStrategy(
+  definition: StrategyDefinition,
+  format: StrategyFormat
+): string {
+  return format === "json"
+    ? JSON.stringify(definition, null, 2)
+    : YAML.stringify(definition);
+}
+
+function getShareUrl(shareCode: string): string {
+  return `${window.location.origin}/backtest?share=${shareCode}`;
+}
+
+const EXIT_REASON_LABELS: Record<BacktestTrade["exitReason"], string> = {
+  signal: "signal",
+  stop_loss: "stop",
+  take_profit: "target",
+  end: "end",
+};
+
+function formatPercent(value: number | null): string {
+  if (value === null) return "—";
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+}
+
+function formatRatio(value: number | null): string {
+  return value === null ? "—" : value.toFixed(2);
+}
+
+function formatPrice(value: number): string {
+  return value.toLocaleString("en-US", {
+    maximumFractionDigits: value < 1 ? 6 : 2,
+  });
+}
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// Parse a yyyy-mm-dd input as a UTC day, inclusive of the whole end day
+function parseDate(value: string, endOfDay: boolean): number | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  if (Number.isNaN(time)) return undefined;
+  return endOfDay ? time + 24 * 60 * 60 * 1000 - 1 : time;
+}
+
+const METRICS: {
+  key: keyof BacktestMetrics;
+  label: string;
+  format: (value: number | null) => string;
+  signed?: boolean;
+}[] = [
+  {
+    key: "totalReturn",
+    label: "Total Return",
+    format: formatPercent,
+    signed: true,
+  },
+  { key: "cagr", label: "CAGR", format: formatPercent, signed: true },
+  { key: "sharpe", label: "Sharpe", format: formatRatio },
+  { key: "sortino", label: "Sortino", format: formatRatio },
+  {
+    key: "maxDrawdown",
+    label: "Max Drawdown",
+    format: (value) => (value === null ? "—" : `-${value.toFixed(2)}%`),
+  },
+  {
+    key: "winRate",
+    label: "Win Rate",
+    format: (value) => (value === null ? "—" : `${value.toFixed(1)}%`),
+  },
+  { key: "profitFactor", label: "Profit Factor", format: formatRatio },
+  {
+    key: "exposure",
+    label: "Time in Market",
+    format: (value) => (value === null ? "—" : `${value.toFixed(1)}%`),
+  },
+  {
+    key: "buyAndHoldReturn",
+    label: "Buy & Hold",
+    format: formatPercent,
+    signed: true,
+  },
+];
+
+function EquityChart({ result }: { result: BacktestResult }) {
+  const data = result.equity.map((point) => ({
+    time: point.time,
+    equity: point.equity,
+  }));
+
+  return (
+    <div className="h-72" data-testid="backtest-equity-chart">
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={data}>
+          <defs>
+            <linearGradient id="equityFill" x1="0" y1="0" x2="0" y2="1">
+              <stop offset="5%" stopColor="#00BBF9" stopOpacity={0.4} />
+              <stop offset="95%" stopColor="#00BBF9" stopOpacity={0} />
+            </linearGradient>
+          </defs>
+          <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={["dataMin", "dataMax"]}
+            tickFormatter={(time) => new Date(time).toLocaleDateString()}
+            stroke="#9ca3af"
+            fontSize={12}
+          />
+          <YAxis
+            domain={["auto", "auto"]}
+            tickFormatter={(value) => Math.round(value).toLocaleString()}
+            stroke="#9ca3af"
+            fontSize={12}
+            width={70}
+          />
+          <Tooltip
+            labelFormatter={(time) => formatTime(Number(time))}
+            formatter={(value: number) => [formatPrice(value), "Equity"]}
+            contentStyle={{
+              background: "rgba(15, 23, 42, 0.9)",
+              border: "1px solid rgba(255,255,255,0.1)",
+            }}
+          />
+          <Area
+            type="monotone"
+            dataKey="equity"
+            stroke="#00BBF9"
+            fill="url(#equityFill)"
+            strokeWidth={2}
+            dot={false}
+          />
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+export default function Backtest() {
+  const [symbol, setSymbol] = useState("BTC");
+  const [selectedInterval, setSelectedInterval] = useState("1h");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [initialCapital, setInitialCapital] = useState(
+    DEFAULT_BACKTEST_SETTINGS.initialCapital
+  );
+  const [feePercent, setFeePercent] = useState(
+    DEFAULT_BACKTEST_SETTINGS.feePercent
+  );
+  const [slippagePercent, setSlippagePercent] = useState(
+    DEFAULT_BACKTEST_SETTINGS.slippagePercent
+  );
+  const [format, setFormat] = useState<StrategyFormat>("json");
+  const [strategyText, setStrategyText] = useState(
+    formatStrategy(PRESETS[0].strategy, "json")
+  );
+  const [strategyName, setStrategyName] = useState("");
+  const [versionNote, setVersionNote] = useState("");
+  // The saved strategy being edited, or a shared one being viewed
+  const [selected, setSelected] = useState<Strategy | null>(null);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const ownerQuery = user ? `?userId=${encodeURIComponent(user.id)}` : "";
+  const strategiesUrl = `/api/strategies${ownerQuery}`;
+  const { data: strategiesResponse } = useQuery<ApiResponse<Strategy[]>>({
+    queryKey: [strategiesUrl],
+  });
+  const strategies = strategiesResponse?.data || [];
+  const isOwn = selected
+    ? strategies.some((strategy) => strategy.id === selected.id)
+    : false;
+
+  const versionsUrl = selected
+    ? `/api/strategies/${selected.id}/versions${ownerQuery}`
+    : null;
+  const { data: versionsResponse } = useQuery<ApiResponse<StrategyVersion[]>>({
+    queryKey: [versionsUrl],
+    enabled: isOwn && versionsUrl !== null,
+  });
+  const versions = versionsResponse?.data || [];
+
+  const showError = (title: string) => (error: Error) =>
+    toast({ title, description: error.message, variant: "destructive" });
+
+  const loadDefinition = useCallback(
+    (definition: StrategyDefinition) => {
+      setStrategyText(formatStrategy(definition, format));
+      setSelectedInterval(definition.timeframe);
+    },
+    [format]
+  );
+
+  const loadStrategy = useCallback(
+    (strategy: Strategy) => {
+      setSelected(strategy);
+      setStrategyName(strategy.name);
+      loadDefinition(strategy.definition);
+    },
+    [loadDefinition]
+  );
+
+  // Open a strategy shared by link, e.g. /backtest?share=abc123. It is held
+  // until loaded so a format change meanwhile doesn't fetch it again.
+  const [shared, setShared] = useState<Strategy | null>(null);
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get("share");
+    if (!code) return;
+    apiRequest("GET", `/api/strategies/shared/${encodeURIComponent(code)}`)
+      .then((response) => response.json())
+      .then((response: ApiResponse<Strategy>) => setShared(response.data))
+      .catch((error: Error) =>
+        toast({
+          title: "Failed to open shared strategy",
+          description: error.message,
+          variant: "destructive",
+        })
+      );
+  }, [toast]);
+
+  useEffect(() => {
+    if (!shared) return;
+    loadStrategy(shared);
+    setShared(null);
+  }, [shared, loadStrategy]);
+
+  const changeFormat = (next: StrategyFormat) => {
+    try {
+      const definition =
+        format === "json" ? JSON.parse(strategyText) : YAML.parse(strategyText);
+      setStrategyText(formatStrategy(definition, next));
+    } catch {
+      // Leave text that doesn't parse for the user to fix
+    }
+    setFormat(next);
+  };
+
+  // Validated by the server, which reports each invalid field
+  const parseStrategy = async (): Promise<StrategyDefinition> => {
+    const response = await apiRequest("POST", "/api/strategies/parse", {
+      source: strategyText,
+      format,
+    });
+    return ((await response.json()) as ApiResponse<StrategyDefinition>).data;
+  };
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const strategy = await parseStrategy();
+      const response = await apiRequest("POST", "/api/backtest", {
+        symbol,
+        interval: selectedInterval,
+        startTime: parseDate(startDate, false),
+        endTime: parseDate(endDate, true),
+        strategy,
+        initialCapital,
+        feePercent,
+        slippagePercent,
+      });
+      return ((await response.json()) as ApiResponse<BacktestResult>).data;
+    },
+    onSuccess: setResult,
+    onError: showError("Backtest failed"),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const definition = await parseStrategy();
+      const response = await apiRequest("POST", "/api/strategies", {
+        name: strategyName,
+        description: definition.description ?? null,
+        definition,
+        userId: user?.id ?? null,
+      });
+      return ((await response.json()) as ApiResponse<Strategy>).data;
+    },
+    onSuccess: (strategy) => {
+      queryClient.invalidateQueries({ queryKey: [strategiesUrl] });
+      setSelected(strategy);
+      toast({ title: "Strategy saved", description: strategy.name });
+    },
+    onError: showError("Failed to save strategy"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (strategy: Strategy) => {
+      const definition = await parseStrategy();
+      const response = await apiRequest(
+        "PUT",
+        `/api/strategies/${strategy.id}${ownerQuery}`,
+        {
+          name: strategyName,
+          definition,
+          note: versionNote || undefined,
+        }
+      );
+      return ((await response.json()) as ApiResponse<Strategy>).data;
+    },
+    onSuccess: (strategy) => {
+      queryClient.invalidateQueries({ queryKey: [strategiesUrl] });
+      queryClient.invalidateQueries({ queryKey: [versionsUrl] });
+      setSelected(strategy);
+      setVersionNote("");
+      toast({
+        title: "Strategy updated",
+        description: `${strategy.name} v${strategy.version}`,
+      });
+    },
+    onError: showError("Failed to update strategy"),
+  });
+
+  const copyMutation = useMutation({
+    mutationFn: async (shareCode: string) => {
+      const response = await apiRequest(
+        "POST",
+        `/api/strategies/shared/${shareCode}/copy`,
+        { userId: user?.id ?? null }
+      );
+      return ((await response.json()) as ApiResponse<Strategy>).data;
+    },
+    onSuccess: (strategy) => {
+      queryClient.invalidateQueries({ queryKey: [strategiesUrl] });
+      setSelected(strategy);
+      toast({ title: "Strategy copied", description: strategy.name });
+    },
+    onError: showError("Failed to copy strategy"),
+  });
+
+  const shareMutation = useMutation({
+    mutationFn: async (strategy: Strategy) => {
+      const response = await apiRequest(
+        strategy.shareCode ? "DELETE" : "POST",
+        `/api/strategies/${strategy.id}/share${ownerQuery}`
+      );
+      return ((await response.json()) as ApiResponse<Strategy>).data;
+    },
+    onSuccess: async (strategy) => {
+      queryClient.invalidateQueries({ queryKey: [strategiesUrl] });
+      setSelected(strategy);
+      if (!strategy.shareCode) {
+        toast({ title: "Stopped sharing", description: strategy.name });
+        return;
+      }
+      const url = getShareUrl(strategy.shareCode);
+      await navigator.clipboard?.writeText(url).catch(() => undefined);
+      toast({ title: "Share link copied", description: url });
+    },
+    onError: showError("Failed to share strategy"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/strategies/${id}${ownerQuery}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.invalidateQueries({ queryKey: [strategiesUrl] });
+      if (selected?.id === id) setSelected(null);
+    },
+    onError: showError("Failed to delete strategy"),
+  });
+
+  return (
+    <div className="pt-20">
+      <div className="max-w-7xl mx-auto px-6 py-8">
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="font-grotesk font-bold text-3xl mb-2">Backtester</h1>
+            <p className="text-cool-gray">
+              Test entry and exit rules on stored candles, with fees and
+              slippage, before risking anything
+            </p>
+          </div>
+          <Link href="/backtest/optimize">
+            <Button variant="outline" size="sm">
+              <Grid3x3 className="h-4 w-4 mr-1" />
+              Optimize Parameters
+            </Button>
+          </Link>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+          {/* Market and costs */}
+          <GlassCard className="p-6">
+            <div className="flex items-center space-x-2 mb-4">
+              <FlaskConical className="text-electric" size={20} />
+              <h2 className="font-grotesk font-semibold text-xl">Setup</h2>
+            </div>
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-sm text-cool-gray">
+                  Symbol
+                  <Input
+                    className="mt-1 bg-white/5 border-white/20"
+                    value={symbol}
+                    onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+                  />
+                </label>
+                <label className="text-sm text-cool-gray">
+                  Interval
+                  <Select
+                    value={selectedInterval}
+                    onValueChange={setSelectedInterval}
+                  >
+                    <SelectTrigger className="mt-1 bg-white/5 border-white/20">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INTERVALS.map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {value}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </label>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-sm text-cool-gray">
+                  From
+                  <Input
+                    type="date"
+                    className="mt-1 bg-white/5 border-white/20"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                  />
+                </label>
+                <label className="text-sm text-cool-gray">
+                  To
+                  <Input
+                    type="date"
+                    className="mt-1 bg-white/5 border-white/20"
+                    value={endDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                  />
+                </label>
+              </div>
+              <label className="block text-sm text-cool-gray">
+                Starting capital (USDT)
+                <Input
+                  type="number"
+                  min={1}
+                  className="mt-1 bg-white/5 border-white/20"
+                  value={initialCapital}
+                  onChange={(e) => setInitialCapital(Number(e.target.value))}
+                />
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-sm text-cool-gray">
+                  Fee per fill %
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    className="mt-1 bg-white/5 border-white/20"
+                    value={feePercent}
+                    onChange={(e) => setFeePercent(Number(e.target.value))}
+                  />
+                </label>
+                <label className="text-sm text-cool-gray">
+                  Slippage %
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    className="mt-1 bg-white/5 border-white/20"
+                    value={slippagePercent}
+                    onChange={(e) => setSlippagePercent(Number(e.target.value))}
+                  />
+                </label>
+              </div>
+              <p className="text-xs text-cool-gray/70">
+                Runs offline on candles already stored for the symbol; open its
+                chart or export the range first to load history.
+              </p>
+            </div>
+          </GlassCard>
+
+          {/* Strategy rules */}
+          <GlassCard className="p-6 lg:col-span-2">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="font-grotesk font-semibold text-xl">Strategy</h2>
+              <div className="flex flex-wrap gap-2">
+                {PRESETS.map((preset) => (
+                  <Button
+                    key={preset.label}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setSelected(null);
+                      loadDefinition(preset.strategy);
+                    }}
+                  >
+                    {preset.label}
+                  </Button>
+                ))}
+                <Select
+                  value={format}
+                  onValueChange={(value) =>
+                    changeFormat(value as StrategyFormat)
+                  }
+                >
+                  <SelectTrigger className="w-24 h-9 bg-white/5 border-white/20">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="json">JSON</SelectItem>
+                    <SelectItem value="yaml">YAML</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <Textarea
+              className="font-mono text-sm h-64 bg-white/5 border-white/20"
+              value={strategyText}
+              onChange={(e) => setStrategyText(e.target.value)}
+              spellCheck={false}
+              aria-label="Strategy definition"
+            />
+            <p className="text-xs text-cool-gray/70 mt-2">
+              Long only. A position opens at the next candle's open when the
+              entry rule holds on a close, and closes on the exit rule, the
+              stop-loss or the take-profit. Rules are conditions, or groups of
+              them under "all" or "any". Operands are a price field or an
+              indicator spec such as "rsi:14" or "macd:12:26:9" with a line like
+              "macd_hist", optionally on a longer timeframe.
+            </p>
+            <div className="flex flex-wrap items-center gap-2 mt-4">
+              <Button
+                onClick={() => runMutation.mutate()}
+                disabled={runMutation.isPending}
+                data-testid="button-run-backtest"
+              >
+                {runMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <Play className="h-4 w-4 mr-1" />
+                )}
+                Run Backtest
+              </Button>
+              <div className="flex flex-wrap items-center gap-2 ml-auto">
+                <Input
+                  placeholder="Strategy name"
+                  className="w-44 bg-white/5 border-white/20"
+                  value={strategyName}
+                  onChange={(e) => setStrategyName(e.target.value)}
+                />
+                {selected && isOwn && (
+                  <>
+                    <Input
+                      placeholder="Version note"
+                      className="w-44 bg-white/5 border-white/20"
+                      value={versionNote}
+                      onChange={(e) => setVersionNote(e.target.value)}
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateMutation.mutate(selected)}
+                      disabled={
+                        !strategyName.trim() || updateMutation.isPending
+                      }
+                    >
+                      <Save className="h-4 w-4 mr-1" />
+                      Save Version
+                    </Button>
+                  </>
+                )}
+                {selected && !isOwn && selected.shareCode ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => copyMutation.mutate(selected.shareCode!)}
+                    disabled={copyMutation.isPending}
+                  >
+                    <Copy className="h-4 w-4 mr-1" />
+                    Copy to My Strategies
+                  </Button>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => createMutation.mutate()}
+                    disabled={!strategyName.trim() || createMutation.isPending}
+                  >
+                    <Save className="h-4 w-4 mr-1" />
+                    Save as New
+                  </Button>
+                )}
+              </div>
+            </div>
+          </GlassCard>
+
+          {/* Saved strategies */}
+          <GlassCard className="p-6 lg:col-span-3">
+            <h2 className="font-grotesk font-semibold text-xl mb-4">
+              Saved Strategies
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {strategies.map((strategy) => (
+                <div
+                  key={strategy.id}
+                  className={`flex items-center justify-between p-2 rounded-lg ${
+                    selected?.id === strategy.id
+                      ? "bg-electric/10 border border-electric/30"
+                      : "bg-white/5"
+                  }`}
+                >
+                  <button
+                    className="text-left flex-1 min-w-0"
+                    onClick={() => loadStrategy(strategy)}
+                  >
+                    <div className="font-medium truncate">
+                      {strategy.name}
+                      <span className="text-xs text-cool-gray ml-2">
+                        v{strategy.version} · {strategy.definition.timeframe}
+                      </span>
+                    </div>
+                    <div className="text-xs text-cool-gray truncate">
+                      {describeStrategy(strategy.definition)[1]}
+                    </div>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title={
+                      strategy.shareCode ? "Stop sharing" : "Copy share link"
+                    }
+                    onClick={() => shareMutation.mutate(strategy)}
+                  >
+                    <Share2
+                      className={`h-4 w-4 ${
+                        strategy.shareCode ? "text-electric" : ""
+                      }`}
+                    />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(strategy.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {!strategies.length && (
+                <p className="text-cool-gray text-sm">
+                  No saved strategies yet.
+                </p>
+              )}
+            </div>
+            {selected && isOwn && versions.length > 1 && (
+              <div className="mt-4">
+                <h3 className="text-sm text-cool-gray mb-2">
+                  Versions of {selected.name}
+                </h3>
+                <div className="flex flex-wrap gap-2">
+                  {versions.map((version) => (
+                    <Button
+                      key={version.version}
+                      variant="outline"
+                      size="sm"
+                      title={version.note ?? undefined}
+                      onClick={() => loadDefinition(version.definition)}
+                    >
+                      v{version.version}
+                      {version.note && (
+                        <span className="text-cool-gray ml-1 max-w-32 truncate">
+                          {version.note}
+                        </span>
+                      )}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </GlassCard>
+        </div>
+
+        {result ? (
+          <>
+            <GlassCard className="p-6 mb-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="font-grotesk font-semibold text-xl">
+                  {result.symbol} · {result.interval}
+                </h2>
+                <span className="text-cool-gray text-sm">
+                  {result.candles} candles · {formatTime(result.startTime)} –{" "}
+                  {formatTime(result.endTime)}
+                  {result.source !== result.interval &&
+                    ` · built from ${result.source}`}
+                </span>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+                {METRICS.map((metric) => {
+                  const value = result.metrics[metric.key];
+                  return (
+                    <div key={metric.key} className="p-3 rounded-lg bg-white/5">
+                      <div className="text-xs text-cool-gray">
+                        {metric.label}
+                      </div>
+                      <div
+                        className={`font-mono text-lg ${
+                          metric.signed && value !== null
+                            ? value >= 0
+                              ? "text-emerald"
+                              : "text-red-400"
+                            : "text-white"
+                        }`}
+                      >
+                        {metric.format(value)}
+                      </div>
+                    </div>
+                  );
+                })}
+                <div className="p-3 rounded-lg bg-white/5">
+                  <div className="text-xs text-cool-gray">Final Equity</div>
+                  <div className="font-mono text-lg text-white">
+                    {formatPrice(result.metrics.finalEquity)}
+                  </div>
+                </div>
+              </div>
+              <ul className="text-sm text-cool-gray mb-6 space-y-1">
+                {describeStrategy(result.strategy).map((line) => (
+                  <li key={line}>{line}</li>
+                ))}
+              </ul>
+              <EquityChart result={result} />
+            </GlassCard>
+
+            <GlassCard className="p-6">
+              <h2 className="font-grotesk font-semibold text-xl mb-4">
+                Trades ({result.trades.length})
+              </h2>
+              {result.trades.length ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Entry</TableHead>
+                      <TableHead className="text-right">Entry Price</TableHead>
+                      <TableHead>Exit</TableHead>
+                      <TableHead className="text-right">Exit Price</TableHead>
+                      <TableHead className="text-right">Candles</TableHead>
+                      <TableHead className="text-right">Fees</TableHead>
+                      <TableHead className="text-right">P&L</TableHead>
+                      <TableHead className="text-right">Return</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.trades.map((trade) => (
+                      <TableRow key={trade.entryTime}>
+                        <TableCell>{formatTime(trade.entryTime)}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatPrice(trade.entryPrice)}
+                        </TableCell>
+                        <TableCell>
+                          {formatTime(trade.exitTime)}
+                          {trade.exitReason !== "signal" && (
+                            <Badge variant="outline" className="ml-2">
+                              {EXIT_REASON_LABELS[trade.exitReason]}
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatPrice(trade.exitPrice)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {trade.candles}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatPrice(trade.fees)}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right font-mono ${
+                            trade.pnl >= 0 ? "text-emerald" : "text-red-400"
+                          }`}
+                        >
+                          {formatPrice(trade.pnl)}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right font-mono ${
+                            trade.returnPercent >= 0
+                              ? "text-emerald"
+                              : "text-red-400"
+                          }`}
+                        >
+                          {formatPercent(trade.returnPercent)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-cool-gray text-sm">
+                  The entry conditions never held in this range.
+                </p>
+              )}
+            </GlassCard>
+          </>
+        ) : (
+          <GlassCard className="p-6">
+            <p className="text-cool-gray text-sm">
+              Run a backtest to see its equity curve, metrics and trades.
+            </p>
+          </GlassCard>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,26 @@
 import { ArrowRight, Brain, Newspaper, Lightbulb, MessageCircle, BarChart3 } from "lucide-react";
 import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import type { GlobalMarketStats } from "@shared/types/market-stats";
 import GlassCard from "@/components/ui/glass-card";
 import GradientButton from "@/components/ui/gradient-button";
 
+function formatCompactUsd(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    notation: "compact",
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
 export default function Home() {
+  const { data: statsResponse } = useQuery<{ success: boolean; data: GlobalMarketStats }>({
+    queryKey: ["/api/market/stats"],
+    refetchInterval: 120000,
+  });
+  const stats = statsResponse?.data;
+
   return (
     <div className="pt-20">
       {/* Hero Section */}
@@ -50,6 +67,36 @@ export default function Home() {
               </button>
             </Link>
           </div>
+
+          {/* Global Market Stats */}
+          {stats && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4" data-testid="home-market-stats">
+              <div>
+                <div className="text-cool-gray text-sm">Market Cap</div>
+                <div className="font-mono font-semibold text-lg">{formatCompactUsd(stats.totalMarketCap)}</div>
+                <div className={`text-xs ${stats.marketCapChangePercent24h >= 0 ? "text-emerald" : "text-red-400"}`}>
+                  {stats.marketCapChangePercent24h >= 0 ? "+" : ""}
+                  {stats.marketCapChangePercent24h.toFixed(2)}% 24h
+                </div>
+              </div>
+              <div>
+                <div className="text-cool-gray text-sm">24h Volume</div>
+                <div className="font-mono font-semibold text-lg">{formatCompactUsd(stats.totalVolume24h)}</div>
+              </div>
+              <div>
+                <div className="text-cool-gray text-sm">BTC Dominance</div>
+                <div className="font-mono font-semibold text-lg">{stats.btcDominance.toFixed(1)}%</div>
+              </div>
+              <div>
+                <div className="text-cool-gray text-sm">Advancers / Decliners</div>
+                <div className="font-mono font-semibold text-lg">
+                  <span className="text-emerald">{stats.breadth.advancers}</span>
+                  {" / "}
+                  <span className="text-red-400">{stats.breadth.decliners}</span>
+                </div>
+              </div>
+            </div>
+          )}
           
           {/* Feature Cards */}
           <div className="grid md:grid-cols-3 gap-6 mt-16">
@@ -0,0 +1,465 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, PiggyBank, Sparkles } from "lucide-react";
+import {
+  Area,
+  ComposedChart,
+  CartesianGrid,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import GlassCard from "@/components/ui/glass-card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  INVESTMENT_HORIZON_DAYS,
+  type InvestmentAnalysisResponse,
+  type InvestmentTimeframe,
+  type OutcomeSimulation,
+  type SimulationMethod,
+} from "@shared/types/market-analysis";
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  error?: string;
+}
+
+type RiskTolerance = "conservative" | "moderate" | "aggressive";
+
+const TIMEFRAME_LABELS: Record<InvestmentTimeframe, string> = {
+  short: `Short (${INVESTMENT_HORIZON_DAYS.short} days)`,
+  medium: `Medium (${INVESTMENT_HORIZON_DAYS.medium} days)`,
+  long: `Long (${INVESTMENT_HORIZON_DAYS.long} days)`,
+};
+
+const RISK_BADGES: Record<"low" | "medium" | "high", string> = {
+  low: "border-emerald/40 text-emerald",
+  medium: "border-yellow-400/40 text-yellow-400",
+  high: "border-red-400/40 text-red-400",
+};
+
+function formatAmount(value: number, currency: string): string {
+  return `${value.toLocaleString("en-US", {
+    maximumFractionDigits: Math.abs(value) < 1 ? 6 : 2,
+  })} ${currency}`;
+}
+
+function formatPercent(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(1)}%`;
+}
+
+function FanChart({
+  simulation,
+  currency,
+}: {
+  simulation: OutcomeSimulation;
+  currency: string;
+}) {
+  // Ranges for the shaded bands, the median as a line
+  const data = simulation.bands.map((band) => ({
+    day: band.day,
+    outer: [band.p5, band.p95],
+    inner: [band.p25, band.p75],
+    median: band.p50,
+  }));
+
+  return (
+    <div className="h-72" data-testid="outcome-fan-chart">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+          <XAxis
+            dataKey="day"
+            type="number"
+            domain={[0, simulation.days]}
+            tickFormatter={(day) => `${day}d`}
+            stroke="#9ca3af"
+            fontSize={12}
+          />
+          <YAxis
+            domain={["auto", "auto"]}
+            tickFormatter={(value) => Math.round(value).toLocaleString()}
+            stroke="#9ca3af"
+            fontSize={12}
+            width={70}
+          />
+          <Tooltip
+            labelFormatter={(day) => `Day ${day}`}
+            formatter={(value: number | number[], name: string) => {
+              const format = (amount: number) => formatAmount(amount, currency);
+              if (Array.isArray(value)) {
+                return [
+                  `${format(value[0])} – ${format(value[1])}`,
+                  name === "outer" ? "P5 – P95" : "P25 – P75",
+                ];
+              }
+              return [format(value), "Median"];
+            }}
+            contentStyle={{
+              background: "rgba(15, 23, 42, 0.9)",
+              border: "1px solid rgba(255,255,255,0.1)",
+            }}
+          />
+          <Area
+            type="monotone"
+            dataKey="outer"
+            stroke="none"
+            fill="#00BBF9"
+            fillOpacity={0.15}
+            isAnimationActive={false}
+          />
+          <Area
+            type="monotone"
+            dataKey="inner"
+            stroke="none"
+            fill="#00BBF9"
+            fillOpacity={0.3}
+            isAnimationActive={false}
+          />
+          <Line
+            type="monotone"
+            dataKey="median"
+            stroke="#00BBF9"
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+export default function Invest() {
+  const [amount, setAmount] = useState(1000);
+  const [currency, setCurrency] = useState("USD");
+  const [timeframe, setTimeframe] = useState<InvestmentTimeframe>("medium");
+  const [riskTolerance, setRiskTolerance] = useState<RiskTolerance>("moderate");
+  const [method, setMethod] = useState<SimulationMethod>("bootstrap");
+  const [result, setResult] = useState<InvestmentAnalysisResponse | null>(null);
+  const { toast } = useToast();
+
+  const analyzeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/investment-analysis", {
+        amount,
+        currency,
+        timeframe,
+        preferences: riskTolerance,
+        simulation: method,
+      });
+      return (
+        (await response.json()) as ApiResponse<InvestmentAnalysisResponse>
+      ).data;
+    },
+    onSuccess: setResult,
+    onError: (error: Error) =>
+      toast({
+        title: "Analysis failed",
+        description: error.message,
+        variant: "destructive",
+      }),
+  });
+
+  const simulation = result?.simulation ?? null;
+  const resultCurrency = result?.metadata.currency ?? currency;
+
+  return (
+    <div className="pt-20">
+      <div className="max-w-7xl mx-auto px-6 py-8">
+        <div className="mb-8">
+          <h1 className="font-grotesk font-bold text-3xl mb-2">
+            Investment Planner
+          </h1>
+          <p className="text-cool-gray">
+            Allocations scored from sentiment, technicals and fundamentals, with
+            a simulated range of where they could end up
+          </p>
+        </div>
+
+        <GlassCard className="p-6 mb-6">
+          <div className="flex items-center space-x-2 mb-4">
+            <PiggyBank className="text-electric" size={20} />
+            <h2 className="font-grotesk font-semibold text-xl">Plan</h2>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+            <label className="text-sm text-cool-gray">
+              Amount
+              <Input
+                type="number"
+                min={1}
+                className="mt-1 bg-white/5 border-white/20"
+                value={amount}
+                onChange={(e) => setAmount(Number(e.target.value))}
+              />
+            </label>
+            <label className="text-sm text-cool-gray">
+              Currency
+              <Input
+                className="mt-1 bg-white/5 border-white/20"
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+              />
+            </label>
+            <label className="text-sm text-cool-gray">
+              Timeframe
+              <Select
+                value={timeframe}
+                onValueChange={(value) =>
+                  setTimeframe(value as InvestmentTimeframe)
+                }
+              >
+                <SelectTrigger className="mt-1 bg-white/5 border-white/20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TIMEFRAME_LABELS) as InvestmentTimeframe[]).map(
+                    (value) => (
+                      <SelectItem key={value} value={value}>
+                        {TIMEFRAME_LABELS[value]}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+            </label>
+            <label className="text-sm text-cool-gray">
+              Risk tolerance
+              <Select
+                value={riskTolerance}
+                onValueChange={(value) =>
+                  setRiskTolerance(value as RiskTolerance)
+                }
+              >
+                <SelectTrigger className="mt-1 bg-white/5 border-white/20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="conservative">Conservative</SelectItem>
+                  <SelectItem value="moderate">Moderate</SelectItem>
+                  <SelectItem value="aggressive">Aggressive</SelectItem>
+                </SelectContent>
+              </Select>
+            </label>
+            <label className="text-sm text-cool-gray">
+              Simulation
+              <Select
+                value={method}
+                onValueChange={(value) => setMethod(value as SimulationMethod)}
+              >
+                <SelectTrigger className="mt-1 bg-white/5 border-white/20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="bootstrap">Bootstrap</SelectItem>
+                  <SelectItem value="gbm">GBM</SelectItem>
+                </SelectContent>
+              </Select>
+            </label>
+            <Button
+              onClick={() => analyzeMutation.mutate()}
+              disabled={analyzeMutation.isPending || amount <= 0}
+              data-testid="button-analyze-investment"
+            >
+              {analyzeMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <Sparkles className="h-4 w-4 mr-1" />
+              )}
+              Analyze
+            </Button>
+          </div>
+          <p className="text-xs text-cool-gray/70 mt-3">
+            Bootstrap resamples whole days of past daily returns; GBM draws from
+            a normal fit to them. Both keep how the coins move together.
+          </p>
+        </GlassCard>
+
+        {result ? (
+          <>
+            <GlassCard className="p-6 mb-6">
+              <h2 className="font-grotesk font-semibold text-xl mb-2">
+                Risk Assessment
+              </h2>
+              <p className="text-sm text-cool-gray mb-4">
+                {result.riskAssessment}
+              </p>
+              {simulation ? (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+                    {(["p5", "p50", "p95"] as const).map((key) => (
+                      <div key={key} className="p-3 rounded-lg bg-white/5">
+                        <div className="text-xs text-cool-gray">
+                          {key.toUpperCase()} after {simulation.days} days
+                        </div>
+                        <div className="font-mono text-lg text-white">
+                          {formatAmount(
+                            simulation.finalValue[key],
+                            resultCurrency
+                          )}
+                        </div>
+                        <div
+                          className={`text-xs font-mono ${
+                            simulation.finalReturn[key] >= 0
+                              ? "text-emerald"
+                              : "text-red-400"
+                          }`}
+                        >
+                          {formatPercent(simulation.finalReturn[key])}
+                        </div>
+                      </div>
+                    ))}
+                    <div className="p-3 rounded-lg bg-white/5">
+                      <div className="text-xs text-cool-gray">
+                        Probability of loss
+                      </div>
+                      <div className="font-mono text-lg text-white">
+                        {simulation.probabilityOfLoss.toFixed(1)}%
+                      </div>
+                    </div>
+                    <div className="p-3 rounded-lg bg-white/5">
+                      <div className="text-xs text-cool-gray">
+                        Expected max drawdown
+                      </div>
+                      <div className="font-mono text-lg text-red-400">
+                        -{simulation.expectedMaxDrawdown.toFixed(1)}%
+                      </div>
+                      <div className="text-xs text-cool-gray font-mono">
+                        P95 -{simulation.maxDrawdownP95.toFixed(1)}%
+                      </div>
+                    </div>
+                  </div>
+                  <FanChart simulation={simulation} currency={resultCurrency} />
+                  <p className="text-xs text-cool-gray/70 mt-2">
+                    {simulation.paths.toLocaleString()} paths over{" "}
+                    {simulation.historyDays} days of history (
+                    {simulation.method}
+                    ). Shaded bands cover P5–P95 and P25–P75 of portfolio value;
+                    the line is the median. Past returns don't bound future
+                    ones.
+                  </p>
+                </>
+              ) : (
+                <p className="text-cool-gray text-sm">
+                  Not enough price history to simulate these allocations.
+                </p>
+              )}
+            </GlassCard>
+
+            <GlassCard className="p-6 mb-6">
+              <h2 className="font-grotesk font-semibold text-xl mb-4">
+                Allocations
+              </h2>
+              {result.recommendations.length ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Coin</TableHead>
+                      <TableHead className="text-right">Allocation</TableHead>
+                      <TableHead className="text-right">Share</TableHead>
+                      <TableHead>Risk</TableHead>
+                      <TableHead className="text-right">Sentiment</TableHead>
+                      <TableHead className="text-right">Technical</TableHead>
+                      <TableHead className="text-right">Fundamental</TableHead>
+                      <TableHead>Reasoning</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.recommendations.map((rec) => (
+                      <TableRow key={rec.coin.symbol}>
+                        <TableCell>
+                          <div className="font-medium">{rec.coin.symbol}</div>
+                          <div className="text-xs text-cool-gray">
+                            {rec.coin.name}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(rec.allocation, resultCurrency)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {(
+                            (rec.allocation / result.metadata.amount) *
+                            100
+                          ).toFixed(1)}
+                          %
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant="outline"
+                            className={RISK_BADGES[rec.riskLevel]}
+                          >
+                            {rec.riskLevel}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {rec.sentimentScore.toFixed(1)}
+                        </TableCell>
+                        <TableCell
+                          className="text-right font-mono"
+                          title={rec.technicalFactors?.join("\n")}
+                        >
+                          {rec.technicalScore.toFixed(1)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {rec.fundamentalScore.toFixed(1)}
+                        </TableCell>
+                        <TableCell className="text-sm text-cool-gray">
+                          {rec.reasoning}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-cool-gray text-sm">
+                  No coin scored high enough to recommend right now.
+                </p>
+              )}
+            </GlassCard>
+
+            <GlassCard className="p-6">
+              <h2 className="font-grotesk font-semibold text-xl mb-4">
+                Analysis
+              </h2>
+              <div className="text-sm text-off-white/90 whitespace-pre-wrap">
+                {result.analysis}
+              </div>
+              <p className="text-xs text-cool-gray/70 mt-4">
+                {result.metadata.disclaimer}
+              </p>
+            </GlassCard>
+          </>
+        ) : (
+          <GlassCard className="p-6">
+            <p className="text-cool-gray text-sm">
+              Analyze an amount to see suggested allocations and the simulated
+              range of outcomes over the timeframe.
+            </p>
+          </GlassCard>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import {
   RefreshCw,
   PieChart,
   Thermometer,
+  GitCompareArrows,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -28,7 +29,19 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import GlassCard from "@/components/ui/glass-card";
-import PriceChart from "@/components/market/price-chart";
+import PriceChart, {
+  CandlePattern,
+  Divergence,
+  IndicatorData,
+  SupportResistanceLevels,
+} from "@/components/market/price-chart";
+import IndicatorPicker from "@/components/market/indicator-picker";
+import ExportMenu from "@/components/market/export-menu";
+import ConfluenceTable, {
+  ConfluenceReport,
+} from "@/components/market/confluence-table";
+import { useLiveTickers } from "@/hooks/use-market-stream";
+import type { GlobalMarketStats } from "@shared/types/market-stats";
 
 interface Candle {
   time: number;
@@ -64,13 +77,6 @@ interface Coin {
   marketCap: string;
 }
 
-interface MarketStats {
-  totalMarketCap: string;
-  totalVolume24h: string;
-  btcDominance: string;
-  fearGreedIndex: number;
-}
-
 interface ApiResponse<T> {
   success: boolean;
   data: T;
@@ -79,7 +85,9 @@ interface ApiResponse<T> {
 
 interface MarketData {
   coins: Coin[];
-  stats: MarketStats;
+  stats: GlobalMarketStats;
+  currency?: string;
+  conversionRate?: number; // Display currency units per USDT
 }
 
 interface TechnicalAnalysis {
@@ -101,17 +109,56 @@ interface AnalysisCoin {
 interface Analysis {
   coin: AnalysisCoin;
   technicalAnalysis: TechnicalAnalysis;
+  confluence?: ConfluenceReport | null;
   aiAnalysis: string;
   timestamp: string;
 }
 
+const DISPLAY_CURRENCIES = ["USD", "EUR", "GBP", "NGN"];
+
+function formatPrice(value: number, currency: string): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    ...(value !== 0 && Math.abs(value) < 1
+      ? { maximumSignificantDigits: 4 }
+      : {}),
+  }).format(value);
+}
+
+// Totals such as market cap, e.g. "$2.41T"
+function formatCompact(value: number, currency: string): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    notation: "compact",
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+function formatChange(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+}
+
 type MarketResponse = ApiResponse<MarketData>;
 type AnalysisResponse = ApiResponse<Analysis>;
 type ChartResponse = ApiResponse<ChartData>;
+type IndicatorResponse = ApiResponse<IndicatorData>;
+type PatternResponse = ApiResponse<{ patterns: CandlePattern[] }>;
+type LevelResponse = ApiResponse<SupportResistanceLevels>;
+type DivergenceResponse = ApiResponse<{
+  divergences: Divergence[];
+  alerts: { time: number; message: string; divergence: Divergence }[];
+}>;
+
+// Weaker patterns are too common to be worth a marker
+const MIN_PATTERN_STRENGTH = 0.5;
 
 export default function Market() {
   const [selectedCoin, setSelectedCoin] = useState<string>("BTC");
   const [selectedInterval, setSelectedInterval] = useState<string>("1h");
+  const [displayCurrency, setDisplayCurrency] = useState<string>("USD");
+  const [selectedIndicators, setSelectedIndicators] = useState<string[]>([]);
 
   const {
     data: marketResponse,
@@ -119,8 +166,8 @@ export default function Market() {
     refetch,
     error: marketError,
   } = useQuery<MarketResponse, Error>({
-    queryKey: ["/api/market"],
-    refetchInterval: 15000, // Update every 15 seconds
+    queryKey: [`/api/market?currency=${displayCurrency}`],
+    refetchInterval: 60000, // Prices stream live, this refreshes the list
     retry: 3,
     staleTime: 10000,
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
@@ -179,13 +226,109 @@ export default function Market() {
       }
       return data;
     },
-    refetchInterval: 15000,
+    // The chart patches in streamed candles, no polling needed
     enabled: !!selectedCoin,
     retry: 2,
     staleTime: 10000,
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
   });
 
+  // Fetch the indicators picked for the chart
+  const indicatorSpec = selectedIndicators.join(",");
+  const { data: indicatorResponse } = useQuery<IndicatorResponse, Error>({
+    queryKey: [
+      "/api/market/indicators",
+      selectedCoin,
+      selectedInterval,
+      indicatorSpec,
+    ],
+    queryFn: async (): Promise<IndicatorResponse> => {
+      const params = new URLSearchParams({
+        interval: selectedInterval,
+        limit: "100",
+        spec: indicatorSpec,
+      });
+      const response = await fetch(
+        `/api/market/indicators/${selectedCoin}USDT?${params.toString()}`
+      );
+      const data: IndicatorResponse = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to fetch indicators");
+      }
+      return data;
+    },
+    enabled: !!selectedCoin && !!indicatorSpec,
+    staleTime: 10000,
+  });
+
+  // Fetch candlestick patterns to mark on the chart
+  const { data: patternResponse } = useQuery<PatternResponse, Error>({
+    queryKey: ["/api/market/patterns", selectedCoin, selectedInterval],
+    queryFn: async (): Promise<PatternResponse> => {
+      const params = new URLSearchParams({
+        interval: selectedInterval,
+        limit: "100",
+        minStrength: String(MIN_PATTERN_STRENGTH),
+      });
+      const response = await fetch(
+        `/api/market/patterns/${selectedCoin}USDT?${params.toString()}`
+      );
+      const data: PatternResponse = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to fetch candle patterns");
+      }
+      return data;
+    },
+    enabled: !!selectedCoin,
+    staleTime: 60000,
+  });
+
+  // Fetch support/resistance zones and trendlines to draw on the chart
+  const { data: levelResponse } = useQuery<LevelResponse, Error>({
+    queryKey: ["/api/market/levels", selectedCoin, selectedInterval],
+    queryFn: async (): Promise<LevelResponse> => {
+      const params = new URLSearchParams({
+        interval: selectedInterval,
+        limit: "200",
+      });
+      const response = await fetch(
+        `/api/market/levels/${selectedCoin}USDT?${params.toString()}`
+      );
+      const data: LevelResponse = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to fetch support and resistance");
+      }
+      return data;
+    },
+    enabled: !!selectedCoin,
+    staleTime: 60000,
+  });
+
+  // Fetch price/oscillator divergences and alerts for recent ones
+  const { data: divergenceResponse } = useQuery<DivergenceResponse, Error>({
+    queryKey: ["/api/market/divergences", selectedCoin, selectedInterval],
+    queryFn: async (): Promise<DivergenceResponse> => {
+      const params = new URLSearchParams({
+        interval: selectedInterval,
+        limit: "200",
+      });
+      const response = await fetch(
+        `/api/market/divergences/${selectedCoin}USDT?${params.toString()}`
+      );
+      const data: DivergenceResponse = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to fetch divergences");
+      }
+      return data;
+    },
+    enabled: !!selectedCoin,
+    staleTime: 60000,
+  });
+
+  const { getTicker } = useLiveTickers(
+    (marketResponse?.data?.coins || []).map((coin) => coin.symbol)
+  );
+
   if (isLoading) {
     return (
       <div className="pt-20">
@@ -207,13 +350,10 @@ export default function Market() {
   }
 
   const coins = marketResponse?.data?.coins || [];
-  const stats = marketResponse?.data?.stats || {
-    totalMarketCap: "",
-    totalVolume24h: "",
-    btcDominance: "",
-    fearGreedIndex: 0,
-  };
+  const stats = marketResponse?.data?.stats;
   const analysis = analysisResponse?.data;
+  const currency = marketResponse?.data?.currency || "USD";
+  const conversionRate = marketResponse?.data?.conversionRate ?? 1;
 
   return (
     <div className="pt-20">
@@ -228,15 +368,36 @@ export default function Market() {
                 Real-time cryptocurrency market data with AI analysis
               </p>
             </div>
-            <Button
-              onClick={() => refetch()}
-              variant="outline"
-              size="sm"
-              data-testid="button-refresh-market"
-            >
-              <RefreshCw className="h-4 w-4 mr-2" />
-              Refresh Data
-            </Button>
+            <div className="flex items-center space-x-2">
+              <Select
+                value={displayCurrency}
+                onValueChange={setDisplayCurrency}
+              >
+                <SelectTrigger
+                  className="w-24"
+                  data-testid="select-display-currency"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DISPLAY_CURRENCIES.map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => refetch()}
+                variant="outline"
+                size="sm"
+                data-testid="button-refresh-market"
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh Data
+              </Button>
+              <ExportMenu symbol={selectedCoin} interval={selectedInterval} />
+            </div>
           </div>
         </div>
 
@@ -251,9 +412,19 @@ export default function Market() {
               className="font-mono font-semibold text-2xl number-roll"
               data-testid="text-market-cap"
             >
-              {stats.totalMarketCap || "$1.73T"}
+              {stats ? formatCompact(stats.totalMarketCap, currency) : "—"}
             </div>
-            <div className="text-emerald text-sm">+2.4% 24h</div>
+            {stats && (
+              <div
+                className={`text-sm ${
+                  stats.marketCapChangePercent24h >= 0
+                    ? "text-emerald"
+                    : "text-red-400"
+                }`}
+              >
+                {formatChange(stats.marketCapChangePercent24h)} 24h
+              </div>
+            )}
           </GlassCard>
 
           <GlassCard className="p-6">
@@ -265,9 +436,19 @@ export default function Market() {
               className="font-mono font-semibold text-2xl number-roll"
               data-testid="text-volume"
             >
-              {stats.totalVolume24h || "$86.2B"}
+              {stats ? formatCompact(stats.totalVolume24h, currency) : "—"}
             </div>
-            <div className="text-emerald text-sm">+12.1% 24h</div>
+            {stats && (
+              <div className="text-cool-gray text-sm">
+                <span className="text-emerald">
+                  {stats.breadth.advancers} up
+                </span>{" "}
+                /{" "}
+                <span className="text-red-400">
+                  {stats.breadth.decliners} down
+                </span>
+              </div>
+            )}
           </GlassCard>
 
           <GlassCard className="p-6">
@@ -281,9 +462,13 @@ export default function Market() {
               className="font-mono font-semibold text-2xl number-roll"
               data-testid="text-btc-dominance"
             >
-              {stats.btcDominance || "52.4%"}
+              {stats ? `${stats.btcDominance.toFixed(1)}%` : "—"}
             </div>
-            <div className="text-red-400 text-sm">-0.8% 24h</div>
+            {stats && (
+              <div className="text-cool-gray text-sm">
+                ETH {stats.ethDominance.toFixed(1)}%
+              </div>
+            )}
           </GlassCard>
 
           <GlassCard className="p-6">
@@ -295,9 +480,11 @@ export default function Market() {
               className="font-mono font-semibold text-2xl number-roll"
               data-testid="text-fear-greed"
             >
-              {stats.fearGreedIndex || "64"}
+              {stats?.fearGreedIndex ?? "—"}
+            </div>
+            <div className="text-amber text-sm">
+              {stats?.fearGreedLabel ?? "Unavailable"}
             </div>
-            <div className="text-amber text-sm">Greed</div>
           </GlassCard>
         </div>
 
@@ -412,8 +599,8 @@ export default function Market() {
                         {analysis.technicalAnalysis.rsi > 70
                           ? "Overbought"
                           : analysis.technicalAnalysis.rsi < 30
-                          ? "Oversold"
-                          : "Neutral"}
+                            ? "Oversold"
+                            : "Neutral"}
                       </p>
                     </div>
                     <div className="p-4 bg-white/5 rounded-lg">
@@ -437,6 +624,13 @@ export default function Market() {
                   </div>
                 </div>
 
+                {analysis.confluence && (
+                  <>
+                    <Separator className="bg-white/10" />
+                    <ConfluenceTable confluence={analysis.confluence} />
+                  </>
+                )}
+
                 <Separator className="bg-white/10" />
 
                 {/* AI Analysis */}
@@ -478,141 +672,207 @@ export default function Market() {
             Top Cryptocurrencies
           </h3>
           <div className="space-y-4">
-            {coins.map((coin) => (
-              <Card
-                key={coin.symbol}
-                className={`hover:shadow-lg transition-all ${
-                  selectedCoin === coin.symbol ? "ring-2 ring-electric" : ""
-                }`}
-              >
-                <CardHeader className="pb-2">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-3">
-                      <div
-                        className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                          coin.symbol === "BTC"
-                            ? "bg-amber"
-                            : coin.symbol === "ETH"
-                            ? "bg-blue-500"
-                            : coin.symbol === "SOL"
-                            ? "bg-purple-500"
-                            : "bg-blue-400"
-                        }`}
+            {coins.map((coin) => {
+              const liveTicker = getTicker(coin.symbol);
+              // Streamed prices are USDT quoted
+              const price = liveTicker
+                ? liveTicker.price * conversionRate
+                : parseFloat(coin.price);
+              const changePercent =
+                liveTicker?.priceChangePercent24h ??
+                parseFloat(coin.priceChangePercent24h);
+
+              return (
+                <Card
+                  key={coin.symbol}
+                  className={`hover:shadow-lg transition-all ${
+                    selectedCoin === coin.symbol ? "ring-2 ring-electric" : ""
+                  }`}
+                >
+                  <CardHeader className="pb-2">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-3">
+                        <div
+                          className={`w-8 h-8 rounded-full flex items-center justify-center ${
+                            coin.symbol === "BTC"
+                              ? "bg-amber"
+                              : coin.symbol === "ETH"
+                                ? "bg-blue-500"
+                                : coin.symbol === "SOL"
+                                  ? "bg-purple-500"
+                                  : "bg-blue-400"
+                          }`}
+                        >
+                          <span className="text-white text-xs font-bold">
+                            {coin.symbol === "BTC"
+                              ? "₿"
+                              : coin.symbol === "ETH"
+                                ? "Ξ"
+                                : coin.symbol.charAt(0)}
+                          </span>
+                        </div>
+                        <div>
+                          <CardTitle className="text-lg">{coin.name}</CardTitle>
+                          <CardDescription>{coin.symbol}</CardDescription>
+                        </div>
+                      </div>
+                      <Badge
+                        variant={changePercent >= 0 ? "default" : "destructive"}
                       >
-                        <span className="text-white text-xs font-bold">
-                          {coin.symbol === "BTC"
-                            ? "₿"
-                            : coin.symbol === "ETH"
-                            ? "Ξ"
-                            : coin.symbol.charAt(0)}
+                        {changePercent >= 0 ? "+" : ""}
+                        {changePercent.toFixed(2)}%
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      <div className="flex justify-between items-center">
+                        <span className="text-2xl font-mono font-medium">
+                          {formatPrice(price, currency)}
                         </span>
+                        <div className="flex items-center gap-1">
+                          {changePercent >= 0 ? (
+                            <TrendingUp className="h-4 w-4 text-emerald" />
+                          ) : (
+                            <TrendingDown className="h-4 w-4 text-red-400" />
+                          )}
+                        </div>
                       </div>
-                      <div>
-                        <CardTitle className="text-lg">{coin.name}</CardTitle>
-                        <CardDescription>{coin.symbol}</CardDescription>
-                      </div>
-                    </div>
-                    <Badge
-                      variant={
-                        parseFloat(coin.priceChangePercent24h) >= 0
-                          ? "default"
-                          : "destructive"
-                      }
-                    >
-                      {parseFloat(coin.priceChangePercent24h) >= 0 ? "+" : ""}
-                      {parseFloat(coin.priceChangePercent24h).toFixed(2)}%
-                    </Badge>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    <div className="flex justify-between items-center">
-                      <span className="text-2xl font-mono font-medium">
-                        ${parseFloat(coin.price).toLocaleString()}
-                      </span>
-                      <div className="flex items-center gap-1">
-                        {parseFloat(coin.priceChangePercent24h) >= 0 ? (
-                          <TrendingUp className="h-4 w-4 text-emerald" />
-                        ) : (
-                          <TrendingDown className="h-4 w-4 text-red-400" />
+
+                      {/* Interval and Indicator Selection */}
+                      <div className="flex gap-2 mb-4">
+                        {["1h", "4h", "1d"].map((int) => (
+                          <Button
+                            key={int}
+                            variant={
+                              selectedInterval === int ? "default" : "outline"
+                            }
+                            size="sm"
+                            onClick={() => setSelectedInterval(int)}
+                          >
+                            {int}
+                          </Button>
+                        ))}
+                        {selectedCoin === coin.symbol && (
+                          <div className="ml-auto">
+                            <IndicatorPicker
+                              selected={selectedIndicators}
+                              onChange={setSelectedIndicators}
+                            />
+                          </div>
                         )}
                       </div>
-                    </div>
-
-                    {/* Interval Selection */}
-                    <div className="flex gap-2 mb-4">
-                      {["1h", "4h", "1d"].map((int) => (
-                        <Button
-                          key={int}
-                          variant={
-                            selectedInterval === int ? "default" : "outline"
-                          }
-                          size="sm"
-                          onClick={() => setSelectedInterval(int)}
-                        >
-                          {int}
-                        </Button>
-                      ))}
-                    </div>
 
-                    {/* Chart Component */}
-                    <div className="h-24">
-                      <PriceChart
-                        data={{
-                          symbol: coin.symbol,
-                          interval: selectedInterval,
-                          candles:
-                            selectedCoin === coin.symbol &&
-                            chartResponse?.data?.candles
-                              ? chartResponse.data.candles
-                              : [],
-                          indicators:
-                            selectedCoin === coin.symbol &&
-                            chartResponse?.data?.indicators
-                              ? chartResponse.data.indicators
-                              : {
-                                  rsi: 0,
-                                  sma20: 0,
-                                  priceChange24h: 0,
-                                  volumeChange24h: 0,
-                                },
-                        }}
-                        isLoading={
-                          selectedCoin === coin.symbol && isChartLoading
+                      {/* Chart Component */}
+                      <div
+                        className={
+                          selectedCoin === coin.symbol &&
+                          selectedIndicators.length
+                            ? "h-64"
+                            : "h-24"
                         }
-                        error={selectedCoin === coin.symbol ? chartError : null}
-                      />
-                    </div>
+                      >
+                        <PriceChart
+                          data={{
+                            symbol: coin.symbol,
+                            interval: selectedInterval,
+                            candles:
+                              selectedCoin === coin.symbol &&
+                              chartResponse?.data?.candles
+                                ? chartResponse.data.candles
+                                : [],
+                            indicators:
+                              selectedCoin === coin.symbol &&
+                              chartResponse?.data?.indicators
+                                ? chartResponse.data.indicators
+                                : {
+                                    rsi: 0,
+                                    sma20: 0,
+                                    priceChange24h: 0,
+                                    volumeChange24h: 0,
+                                  },
+                          }}
+                          indicatorData={
+                            selectedCoin === coin.symbol && indicatorSpec
+                              ? indicatorResponse?.data
+                              : undefined
+                          }
+                          patterns={
+                            selectedCoin === coin.symbol
+                              ? patternResponse?.data?.patterns
+                              : undefined
+                          }
+                          levels={
+                            selectedCoin === coin.symbol
+                              ? levelResponse?.data
+                              : undefined
+                          }
+                          divergences={
+                            selectedCoin === coin.symbol
+                              ? divergenceResponse?.data?.divergences
+                              : undefined
+                          }
+                          isLoading={
+                            selectedCoin === coin.symbol && isChartLoading
+                          }
+                          error={
+                            selectedCoin === coin.symbol ? chartError : null
+                          }
+                        />
+                      </div>
 
-                    {/* Technical Indicators */}
-                    <div className="grid grid-cols-2 gap-4 pt-4 border-t border-white/10">
-                      <div>
-                        <div className="text-xs text-cool-gray">RSI (14)</div>
-                        <div className="font-mono">
-                          {selectedCoin === coin.symbol && chartResponse?.data
-                            ? chartResponse.data.indicators.rsi.toFixed(1)
-                            : "N/A"}
+                      {/* Technical Indicators */}
+                      <div className="grid grid-cols-2 gap-4 pt-4 border-t border-white/10">
+                        <div>
+                          <div className="text-xs text-cool-gray">RSI (14)</div>
+                          <div className="font-mono">
+                            {selectedCoin === coin.symbol && chartResponse?.data
+                              ? chartResponse.data.indicators.rsi.toFixed(1)
+                              : "N/A"}
+                          </div>
                         </div>
-                      </div>
-                      <div>
-                        <div className="text-xs text-cool-gray">24h Vol</div>
-                        <div className="font-mono">
-                          ${(parseFloat(coin.volume24h) / 1e6).toFixed(1)}M
+                        <div>
+                          <div className="text-xs text-cool-gray">24h Vol</div>
+                          <div className="font-mono">
+                            ${(parseFloat(coin.volume24h) / 1e6).toFixed(1)}M
+                          </div>
                         </div>
                       </div>
-                    </div>
 
-                    <Button
-                      className="w-full"
-                      variant="outline"
-                      onClick={() => setSelectedCoin(coin.symbol)}
-                    >
-                      View Analysis
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+                      {selectedCoin === coin.symbol &&
+                        !!divergenceResponse?.data?.alerts.length && (
+                          <ul
+                            className="space-y-1 text-xs"
+                            data-testid="divergence-alerts"
+                          >
+                            {divergenceResponse.data.alerts.map((alert) => (
+                              <li
+                                key={`${alert.divergence.label}-${alert.time}`}
+                                className={`flex items-start ${
+                                  alert.divergence.direction === "bullish"
+                                    ? "text-emerald"
+                                    : "text-red-400"
+                                }`}
+                              >
+                                <GitCompareArrows className="h-3 w-3 mr-1 mt-0.5 shrink-0" />
+                                {alert.message}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+
+                      <Button
+                        className="w-full"
+                        variant="outline"
+                        onClick={() => setSelectedCoin(coin.symbol)}
+                      >
+                        View Analysis
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
         </GlassCard>
       </div>
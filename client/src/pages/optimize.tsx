@@ -0,0 +1,839 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, Grid3x3, Loader2, Play, Plus, Trash2 } from "lucide-react";
+import GlassCard from "@/components/ui/glass-card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  optimizationObjectives,
+  type OptimizationObjective,
+  type StrategyParameter,
+} from "@shared/schema";
+import type {
+  OptimizationHeatmap,
+  OptimizationResult,
+  ParameterValues,
+} from "@shared/types/optimization";
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  error?: string;
+}
+
+const INTERVALS = ["15m", "1h", "4h", "1d"];
+
+const OBJECTIVE_LABELS: Record<OptimizationObjective, string> = {
+  totalReturn: "Total Return",
+  cagr: "CAGR",
+  sharpe: "Sharpe",
+  sortino: "Sortino",
+  profitFactor: "Profit Factor",
+  winRate: "Win Rate",
+};
+
+// Objectives that are percentages rather than ratios
+const PERCENT_OBJECTIVES: OptimizationObjective[] = [
+  "totalReturn",
+  "cagr",
+  "winRate",
+];
+
+// A parameter row as typed, either a comma separated list or a range
+interface ParameterRow {
+  name: string;
+  mode: "list" | "range";
+  values: string;
+  min: string;
+  max: string;
+  step: string;
+}
+
+const DEFAULT_TEMPLATE = {
+  timeframe: "1h",
+  entry: {
+    left: { indicator: "rsi:{{period}}" },
+    operator: "crosses_above",
+    right: "{{lower}}",
+  },
+  exit: {
+    left: { indicator: "rsi:{{period}}" },
+    operator: ">",
+    right: "{{upper}}",
+  },
+  stopLoss: { type: "percent", percent: 5 },
+};
+
+const DEFAULT_PARAMETERS: ParameterRow[] = [
+  {
+    name: "period",
+    mode: "range",
+    values: "",
+    min: "7",
+    max: "21",
+    step: "7",
+  },
+  {
+    name: "lower",
+    mode: "list",
+    values: "20, 25, 30, 35",
+    min: "",
+    max: "",
+    step: "",
+  },
+  {
+    name: "upper",
+    mode: "list",
+    values: "65, 70, 75",
+    min: "",
+    max: "",
+    step: "",
+  },
+];
+
+function toParameter(row: ParameterRow): StrategyParameter {
+  if (row.mode === "list") {
+    return {
+      name: row.name.trim(),
+      values: row.values
+        .split(",")
+        .map((value) => value.trim())
+        .filter(Boolean)
+        .map(Number),
+    };
+  }
+  return {
+    name: row.name.trim(),
+    min: Number(row.min),
+    max: Number(row.max),
+    step: Number(row.step),
+  };
+}
+
+function formatScore(
+  value: number | null,
+  objective: OptimizationObjective
+): string {
+  if (value === null) return "—";
+  return PERCENT_OBJECTIVES.includes(objective)
+    ? `${value.toFixed(2)}%`
+    : value.toFixed(2);
+}
+
+function formatPercent(value: number | null | undefined): string {
+  if (value === null || value === undefined) return "—";
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+}
+
+function formatParameters(parameters: ParameterValues | null): string {
+  if (!parameters) return "—";
+  return Object.entries(parameters)
+    .map(([name, value]) => `${name}=${value}`)
+    .join(", ");
+}
+
+function formatDate(time: number): string {
+  return new Date(time).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "2-digit",
+  });
+}
+
+// Parse a yyyy-mm-dd input as a UTC day, inclusive of the whole end day
+function parseDate(value: string, endOfDay: boolean): number | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  if (Number.isNaN(time)) return undefined;
+  return endOfDay ? time + 24 * 60 * 60 * 1000 - 1 : time;
+}
+
+// Red for the worst score in the map, green for the best
+function getCellColor(value: number | null, min: number, max: number) {
+  if (value === null) return "rgba(255,255,255,0.05)";
+  const ratio = max > min ? (value - min) / (max - min) : 1;
+  return `hsla(${Math.round(ratio * 140)}, 70%, 45%, 0.75)`;
+}
+
+function Heatmap({
+  heatmap,
+  objective,
+}: {
+  heatmap: OptimizationHeatmap;
+  objective: OptimizationObjective;
+}) {
+  const scores = heatmap.cells
+    .flat()
+    .filter((value): value is number => value !== null);
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+
+  return (
+    <div className="overflow-x-auto" data-testid="optimization-heatmap">
+      <table className="text-xs font-mono border-separate border-spacing-1">
+        <thead>
+          <tr>
+            <th className="text-cool-gray font-normal text-left pr-2">
+              {heatmap.y} \ {heatmap.x}
+            </th>
+            {heatmap.xValues.map((value) => (
+              <th key={value} className="text-cool-gray font-normal px-2">
+                {value}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {heatmap.yValues.map((yValue, y) => (
+            <tr key={yValue}>
+              <th className="text-cool-gray font-normal text-left pr-2">
+                {yValue}
+              </th>
+              {heatmap.cells[y].map((value, x) => (
+                <td
+                  key={heatmap.xValues[x]}
+                  className="px-2 py-2 rounded text-center text-white min-w-16"
+                  style={{ background: getCellColor(value, min, max) }}
+                  title={`${heatmap.x}=${heatmap.xValues[x]}, ${heatmap.y}=${yValue}`}
+                >
+                  {formatScore(value, objective)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function Optimize() {
+  const [symbol, setSymbol] = useState("BTC");
+  const [selectedInterval, setSelectedInterval] = useState("1h");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [templateText, setTemplateText] = useState(
+    JSON.stringify(DEFAULT_TEMPLATE, null, 2)
+  );
+  const [parameters, setParameters] =
+    useState<ParameterRow[]>(DEFAULT_PARAMETERS);
+  const [objective, setObjective] = useState<OptimizationObjective>("sharpe");
+  const [search, setSearch] = useState<"grid" | "random">("grid");
+  const [samples, setSamples] = useState(50);
+  const [minTrades, setMinTrades] = useState(3);
+  const [walkForward, setWalkForward] = useState(true);
+  const [windows, setWindows] = useState(4);
+  const [inSamplePercent, setInSamplePercent] = useState(75);
+  const [heatmapIndex, setHeatmapIndex] = useState(0);
+  const [result, setResult] = useState<OptimizationResult | null>(null);
+  const { toast } = useToast();
+
+  const updateParameter = (index: number, changes: Partial<ParameterRow>) =>
+    setParameters((rows) =>
+      rows.map((row, i) => (i === index ? { ...row, ...changes } : row))
+    );
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      let strategy: unknown;
+      try {
+        strategy = JSON.parse(templateText);
+      } catch {
+        throw new Error("The strategy template is not valid JSON");
+      }
+      const response = await apiRequest("POST", "/api/backtest/optimize", {
+        symbol,
+        interval: selectedInterval,
+        startTime: parseDate(startDate, false),
+        endTime: parseDate(endDate, true),
+        strategy,
+        parameters: parameters.map(toParameter),
+        search,
+        samples: search === "random" ? samples : undefined,
+        objective,
+        minTrades,
+        walkForward: walkForward ? { windows, inSamplePercent } : undefined,
+      });
+      return ((await response.json()) as ApiResponse<OptimizationResult>).data;
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      setHeatmapIndex(0);
+    },
+    onError: (error: Error) =>
+      toast({
+        title: "Optimization failed",
+        description: error.message,
+        variant: "destructive",
+      }),
+  });
+
+  const heatmap = result?.heatmaps[heatmapIndex];
+
+  return (
+    <div className="pt-20">
+      <div className="max-w-7xl mx-auto px-6 py-8">
+        <div className="mb-8">
+          <Link
+            href="/backtest"
+            className="inline-flex items-center text-sm text-cool-gray hover:text-white mb-2"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Backtester
+          </Link>
+          <h1 className="font-grotesk font-bold text-3xl mb-2">
+            Strategy Optimizer
+          </h1>
+          <p className="text-cool-gray">
+            Sweep strategy parameters on stored candles, then check the best
+            ones on data they weren't tuned on
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+          {/* Market and search */}
+          <GlassCard className="p-6">
+            <div className="flex items-center space-x-2 mb-4">
+              <Grid3x3 className="text-electric" size={20} />
+              <h2 className="font-grotesk font-semibold text-xl">Search</h2>
+            </div>
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-sm text-cool-gray">
+                  Symbol
+                  <Input
+                    className="mt-1 bg-white/5 border-white/20"
+                    value={symbol}
+                    onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+                  />
+                </label>
+                <label className="text-sm text-cool-gray">
+                  Interval
+                  <Select
+                    value={selectedInterval}
+                    onValueChange={setSelectedInterval}
+                  >
+                    <SelectTrigger className="mt-1 bg-white/5 border-white/20">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INTERVALS.map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {value}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </label>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-sm text-cool-gray">
+                  From
+                  <Input
+                    type="date"
+                    className="mt-1 bg-white/5 border-white/20"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                  />
+                </label>
+                <label className="text-sm text-cool-gray">
+                  To
+                  <Input
+                    type="date"
+                    className="mt-1 bg-white/5 border-white/20"
+                    value={endDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                  />
+                </label>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-sm text-cool-gray">
+                  Objective
+                  <Select
+                    value={objective}
+                    onValueChange={(value) =>
+                      setObjective(value as OptimizationObjective)
+                    }
+                  >
+                    <SelectTrigger className="mt-1 bg-white/5 border-white/20">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {optimizationObjectives.map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {OBJECTIVE_LABELS[value]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </label>
+                <label className="text-sm text-cool-gray">
+                  Min trades
+                  <Input
+                    type="number"
+                    min={0}
+                    className="mt-1 bg-white/5 border-white/20"
+                    value={minTrades}
+                    onChange={(e) => setMinTrades(Number(e.target.value))}
+                  />
+                </label>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-sm text-cool-gray">
+                  Search
+                  <Select
+                    value={search}
+                    onValueChange={(value) =>
+                      setSearch(value as "grid" | "random")
+                    }
+                  >
+                    <SelectTrigger className="mt-1 bg-white/5 border-white/20">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="grid">Full grid</SelectItem>
+                      <SelectItem value="random">Random sample</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </label>
+                {search === "random" && (
+                  <label className="text-sm text-cool-gray">
+                    Samples
+                    <Input
+                      type="number"
+                      min={1}
+                      className="mt-1 bg-white/5 border-white/20"
+                      value={samples}
+                      onChange={(e) => setSamples(Number(e.target.value))}
+                    />
+                  </label>
+                )}
+              </div>
+              <label className="flex items-center gap-2 text-sm text-cool-gray">
+                <input
+                  type="checkbox"
+                  checked={walkForward}
+                  onChange={(e) => setWalkForward(e.target.checked)}
+                />
+                Walk-forward validation
+              </label>
+              {walkForward && (
+                <div className="grid grid-cols-2 gap-2">
+                  <label className="text-sm text-cool-gray">
+                    Windows
+                    <Input
+                      type="number"
+                      min={1}
+                      max={10}
+                      className="mt-1 bg-white/5 border-white/20"
+                      value={windows}
+                      onChange={(e) => setWindows(Number(e.target.value))}
+                    />
+                  </label>
+                  <label className="text-sm text-cool-gray">
+                    In-sample %
+                    <Input
+                      type="number"
+                      min={50}
+                      max={90}
+                      className="mt-1 bg-white/5 border-white/20"
+                      value={inSamplePercent}
+                      onChange={(e) =>
+                        setInSamplePercent(Number(e.target.value))
+                      }
+                    />
+                  </label>
+                </div>
+              )}
+              <p className="text-xs text-cool-gray/70">
+                Each window tunes on its in-sample part and is scored on the
+                out-of-sample part that follows it.
+              </p>
+            </div>
+          </GlassCard>
+
+          {/* Template and parameters */}
+          <GlassCard className="p-6 lg:col-span-2">
+            <h2 className="font-grotesk font-semibold text-xl mb-4">
+              Strategy Template
+            </h2>
+            <Textarea
+              className="font-mono text-sm h-56 bg-white/5 border-white/20"
+              value={templateText}
+              onChange={(e) => setTemplateText(e.target.value)}
+              spellCheck={false}
+              aria-label="Strategy template"
+            />
+            <p className="text-xs text-cool-gray/70 mt-2">
+              A strategy definition in JSON with placeholders such as "rsi:
+              {"{{period}}"}" in an indicator spec, or "{"{{lower}}"}" on its
+              own for a number. Every placeholder needs a parameter below.
+            </p>
+
+            <div className="mt-4 space-y-2">
+              {parameters.map((row, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <Input
+                    placeholder="Name"
+                    className="w-28 bg-white/5 border-white/20"
+                    value={row.name}
+                    onChange={(e) =>
+                      updateParameter(index, { name: e.target.value })
+                    }
+                  />
+                  <Select
+                    value={row.mode}
+                    onValueChange={(value) =>
+                      updateParameter(index, {
+                        mode: value as ParameterRow["mode"],
+                      })
+                    }
+                  >
+                    <SelectTrigger className="w-24 h-9 bg-white/5 border-white/20">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="list">List</SelectItem>
+                      <SelectItem value="range">Range</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {row.mode === "list" ? (
+                    <Input
+                      placeholder="20, 25, 30"
+                      className="flex-1 min-w-40 bg-white/5 border-white/20"
+                      value={row.values}
+                      onChange={(e) =>
+                        updateParameter(index, { values: e.target.value })
+                      }
+                    />
+                  ) : (
+                    (["min", "max", "step"] as const).map((field) => (
+                      <Input
+                        key={field}
+                        type="number"
+                        placeholder={field}
+                        className="w-24 bg-white/5 border-white/20"
+                        value={row[field]}
+                        onChange={(e) =>
+                          updateParameter(index, { [field]: e.target.value })
+                        }
+                      />
+                    ))
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setParameters((rows) =>
+                        rows.filter((_, i) => i !== index)
+                      )
+                    }
+                    disabled={parameters.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 mt-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setParameters((rows) => [
+                    ...rows,
+                    {
+                      name: "",
+                      mode: "list",
+                      values: "",
+                      min: "",
+                      max: "",
+                      step: "",
+                    },
+                  ])
+                }
+                disabled={parameters.length >= 4}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Parameter
+              </Button>
+              <Button
+                className="ml-auto"
+                onClick={() => runMutation.mutate()}
+                disabled={runMutation.isPending}
+                data-testid="button-run-optimization"
+              >
+                {runMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <Play className="h-4 w-4 mr-1" />
+                )}
+                Run Optimization
+              </Button>
+            </div>
+          </GlassCard>
+        </div>
+
+        {result ? (
+          <>
+            <GlassCard className="p-6 mb-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="font-grotesk font-semibold text-xl">
+                  {result.symbol} · {result.interval}
+                </h2>
+                <span className="text-cool-gray text-sm">
+                  {result.combinations} of {result.gridSize} parameter sets ·{" "}
+                  {result.candles} candles · {formatDate(result.startTime)} –{" "}
+                  {formatDate(result.endTime)} · {result.workers} workers ·{" "}
+                  {(result.durationMs / 1000).toFixed(1)}s
+                </span>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="p-3 rounded-lg bg-white/5 md:col-span-2">
+                  <div className="text-xs text-cool-gray">Best parameters</div>
+                  <div className="font-mono text-lg text-white">
+                    {formatParameters(result.best?.parameters ?? null)}
+                  </div>
+                </div>
+                <div className="p-3 rounded-lg bg-white/5">
+                  <div className="text-xs text-cool-gray">
+                    {OBJECTIVE_LABELS[result.objective]}
+                    {result.walkForward && " (in-sample mean)"}
+                  </div>
+                  <div className="font-mono text-lg text-white">
+                    {formatScore(result.best?.score ?? null, result.objective)}
+                  </div>
+                </div>
+                {result.walkForward ? (
+                  <div className="p-3 rounded-lg bg-white/5">
+                    <div className="text-xs text-cool-gray">
+                      Out-of-sample return
+                    </div>
+                    <div
+                      className={`font-mono text-lg ${
+                        result.walkForward.outOfSampleReturn >= 0
+                          ? "text-emerald"
+                          : "text-red-400"
+                      }`}
+                    >
+                      {formatPercent(result.walkForward.outOfSampleReturn)}
+                    </div>
+                  </div>
+                ) : (
+                  <div className="p-3 rounded-lg bg-white/5">
+                    <div className="text-xs text-cool-gray">Total Return</div>
+                    <div className="font-mono text-lg text-white">
+                      {formatPercent(result.best?.metrics?.totalReturn)}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </GlassCard>
+
+            {heatmap && (
+              <GlassCard className="p-6 mb-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="font-grotesk font-semibold text-xl">
+                    {OBJECTIVE_LABELS[result.objective]} by {heatmap.x} and{" "}
+                    {heatmap.y}
+                  </h2>
+                  {result.heatmaps.length > 1 && (
+                    <Select
+                      value={String(heatmapIndex)}
+                      onValueChange={(value) => setHeatmapIndex(Number(value))}
+                    >
+                      <SelectTrigger className="w-44 h-9 bg-white/5 border-white/20">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {result.heatmaps.map((map, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {map.x} × {map.y}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+                <Heatmap heatmap={heatmap} objective={result.objective} />
+                <p className="text-xs text-cool-gray/70 mt-2">
+                  Each cell is the best score over the other parameters. A broad
+                  plateau is more trustworthy than a single bright cell.
+                </p>
+              </GlassCard>
+            )}
+
+            {result.walkForward && (
+              <GlassCard className="p-6 mb-6">
+                <h2 className="font-grotesk font-semibold text-xl mb-4">
+                  Walk-Forward Windows
+                </h2>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>In-sample</TableHead>
+                      <TableHead>Out-of-sample</TableHead>
+                      <TableHead>Parameters</TableHead>
+                      <TableHead className="text-right">IS score</TableHead>
+                      <TableHead className="text-right">OOS score</TableHead>
+                      <TableHead className="text-right">OOS return</TableHead>
+                      <TableHead className="text-right">OOS trades</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.walkForward.windows.map((window) => (
+                      <TableRow key={window.outOfSample.startTime}>
+                        <TableCell>
+                          {formatDate(window.inSample.startTime)} –{" "}
+                          {formatDate(window.inSample.endTime)}
+                        </TableCell>
+                        <TableCell>
+                          {formatDate(window.outOfSample.startTime)} –{" "}
+                          {formatDate(window.outOfSample.endTime)}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {formatParameters(window.parameters)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatScore(window.inSampleScore, result.objective)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatScore(
+                            window.outOfSampleScore,
+                            result.objective
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatPercent(
+                            window.outOfSampleMetrics?.totalReturn
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {window.outOfSampleMetrics?.trades ?? "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <p className="text-xs text-cool-gray/70 mt-2">
+                  Mean score{" "}
+                  {formatScore(
+                    result.walkForward.meanInSampleScore,
+                    result.objective
+                  )}{" "}
+                  in-sample against{" "}
+                  {formatScore(
+                    result.walkForward.meanOutOfSampleScore,
+                    result.objective
+                  )}{" "}
+                  out-of-sample; a large drop suggests the parameters were fit
+                  to noise.
+                </p>
+              </GlassCard>
+            )}
+
+            <GlassCard className="p-6">
+              <h2 className="font-grotesk font-semibold text-xl mb-4">
+                Runs ({result.runs.length})
+              </h2>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Parameters</TableHead>
+                    <TableHead className="text-right">
+                      {OBJECTIVE_LABELS[result.objective]}
+                    </TableHead>
+                    {result.walkForward && (
+                      <TableHead className="text-right">Per window</TableHead>
+                    )}
+                    {!result.walkForward && (
+                      <>
+                        <TableHead className="text-right">Return</TableHead>
+                        <TableHead className="text-right">Drawdown</TableHead>
+                        <TableHead className="text-right">Trades</TableHead>
+                      </>
+                    )}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.runs.slice(0, 50).map((run, index) => (
+                    <TableRow key={formatParameters(run.parameters)}>
+                      <TableCell className="font-mono text-xs">
+                        {formatParameters(run.parameters)}
+                        {index === 0 && run.score !== null && (
+                          <Badge variant="outline" className="ml-2">
+                            best
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatScore(run.score, result.objective)}
+                      </TableCell>
+                      {result.walkForward && (
+                        <TableCell className="text-right font-mono text-xs">
+                          {run.windowScores
+                            .map((score) =>
+                              formatScore(score, result.objective)
+                            )
+                            .join(" · ")}
+                        </TableCell>
+                      )}
+                      {!result.walkForward && (
+                        <>
+                          <TableCell className="text-right font-mono">
+                            {formatPercent(run.metrics?.totalReturn)}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {run.metrics
+                              ? `-${run.metrics.maxDrawdown.toFixed(2)}%`
+                              : "—"}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {run.metrics?.trades ?? "—"}
+                          </TableCell>
+                        </>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {result.runs.length > 50 && (
+                <p className="text-xs text-cool-gray/70 mt-2">
+                  Showing the 50 best of {result.runs.length} runs.
+                </p>
+              )}
+            </GlassCard>
+          </>
+        ) : (
+          <GlassCard className="p-6">
+            <p className="text-cool-gray text-sm">
+              Run an optimization to see the score heatmap, the best parameters
+              and how they held up out of sample.
+            </p>
+          </GlassCard>
+        )}
+      </div>
+    </div>
+  );
+}
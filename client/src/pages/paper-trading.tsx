@@ -0,0 +1,717 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Loader2,
+  Plus,
+  RotateCcw,
+  Send,
+  Trash2,
+  Wallet,
+  X,
+} from "lucide-react";
+import GlassCard from "@/components/ui/glass-card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/auth-context";
+import { apiRequest } from "@/lib/queryClient";
+import type {
+  PaperAccount,
+  PaperOrder,
+  PaperOrderSide,
+  PaperOrderStatus,
+  PaperOrderType,
+} from "@shared/schema";
+import type { PaperAccountSummary } from "@shared/types/paper-trading";
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  error?: string;
+}
+
+// Open orders are checked against the book each time the account is read
+const REFRESH_MS = 15000;
+
+const STATUS_VARIANTS: Record<
+  PaperOrderStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  open: "outline",
+  filled: "default",
+  cancelled: "secondary",
+  rejected: "destructive",
+};
+
+function formatAmount(value: number | string | null): string {
+  if (value === null) return "—";
+  const number = Number(value);
+  return number.toLocaleString("en-US", {
+    maximumFractionDigits: Math.abs(number) < 1 ? 6 : 2,
+  });
+}
+
+function formatSigned(value: number | null, suffix = ""): string {
+  if (value === null) return "—";
+  return `${value >= 0 ? "+" : ""}${formatAmount(value)}${suffix}`;
+}
+
+function pnlClass(value: number | string | null): string {
+  if (value === null) return "";
+  return Number(value) >= 0 ? "text-emerald" : "text-red-400";
+}
+
+function formatTime(time: string | Date | null): string {
+  if (!time) return "—";
+  return new Date(time).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function describePrice(order: PaperOrder): string {
+  if (order.type === "limit") return `limit ${formatAmount(order.limitPrice)}`;
+  if (order.type === "stop") return `stop ${formatAmount(order.stopPrice)}`;
+  return "market";
+}
+
+export default function PaperTrading() {
+  const [accountId, setAccountId] = useState<string | null>(null);
+  const [accountName, setAccountName] = useState("");
+  const [initialBalance, setInitialBalance] = useState(10000);
+  const [feePercent, setFeePercent] = useState(0.1);
+  const [symbol, setSymbol] = useState("BTC");
+  const [side, setSide] = useState<PaperOrderSide>("buy");
+  const [orderType, setOrderType] = useState<PaperOrderType>("market");
+  const [quantity, setQuantity] = useState("");
+  const [price, setPrice] = useState("");
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const ownerQuery = user ? `?userId=${encodeURIComponent(user.id)}` : "";
+  const accountsUrl = `/api/paper/accounts${ownerQuery}`;
+  const { data: accountsResponse } = useQuery<ApiResponse<PaperAccount[]>>({
+    queryKey: [accountsUrl],
+  });
+  const accounts = accountsResponse?.data || [];
+
+  // Select the newest account until the user picks one
+  useEffect(() => {
+    if (!accounts.length) {
+      setAccountId(null);
+    } else if (!accounts.some((account) => account.id === accountId)) {
+      setAccountId(accounts[0].id);
+    }
+  }, [accounts, accountId]);
+
+  const summaryUrl = accountId
+    ? `/api/paper/accounts/${accountId}${ownerQuery}`
+    : null;
+  const ordersUrl = accountId
+    ? `/api/paper/accounts/${accountId}/orders${ownerQuery}`
+    : null;
+  const { data: summaryResponse, isLoading: summaryLoading } = useQuery<
+    ApiResponse<PaperAccountSummary>
+  >({
+    queryKey: [summaryUrl],
+    enabled: summaryUrl !== null,
+    refetchInterval: REFRESH_MS,
+  });
+  const { data: ordersResponse } = useQuery<ApiResponse<PaperOrder[]>>({
+    queryKey: [ordersUrl],
+    enabled: ordersUrl !== null,
+    refetchInterval: REFRESH_MS,
+  });
+  const summary = summaryResponse?.data;
+  const history = (ordersResponse?.data || []).filter(
+    (order) => order.status !== "open"
+  );
+
+  const refreshAccount = () => {
+    queryClient.invalidateQueries({ queryKey: [summaryUrl] });
+    queryClient.invalidateQueries({ queryKey: [ordersUrl] });
+  };
+
+  const showError = (title: string) => (error: Error) =>
+    toast({ title, description: error.message, variant: "destructive" });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/paper/accounts", {
+        name: accountName,
+        initialBalance,
+        feePercent,
+        userId: user?.id ?? null,
+      });
+      return ((await response.json()) as ApiResponse<PaperAccount>).data;
+    },
+    onSuccess: (account) => {
+      queryClient.invalidateQueries({ queryKey: [accountsUrl] });
+      setAccountId(account.id);
+      setAccountName("");
+      toast({ title: "Paper account created", description: account.name });
+    },
+    onError: showError("Failed to create account"),
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/paper/accounts/${id}/reset${ownerQuery}`);
+    },
+    onSuccess: refreshAccount,
+    onError: showError("Failed to reset account"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/paper/accounts/${id}${ownerQuery}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [accountsUrl] });
+    },
+    onError: showError("Failed to delete account"),
+  });
+
+  const orderMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(
+        "POST",
+        `/api/paper/accounts/${accountId}/orders${ownerQuery}`,
+        {
+          symbol,
+          side,
+          type: orderType,
+          quantity: Number(quantity),
+          limitPrice: orderType === "limit" ? Number(price) : undefined,
+          stopPrice: orderType === "stop" ? Number(price) : undefined,
+        }
+      );
+      return ((await response.json()) as ApiResponse<PaperOrder>).data;
+    },
+    onSuccess: (order) => {
+      refreshAccount();
+      const title = `${order.side === "buy" ? "Buy" : "Sell"} ${formatAmount(
+        order.quantity
+      )} ${order.symbol}`;
+      if (order.status === "filled") {
+        toast({
+          title: `${title} filled`,
+          description: `Average ${formatAmount(
+            order.averagePrice
+          )}, fee ${formatAmount(order.fee)}`,
+        });
+      } else if (order.status === "rejected") {
+        toast({
+          title: `${title} rejected`,
+          description: order.rejectReason ?? undefined,
+          variant: "destructive",
+        });
+      } else {
+        toast({ title: `${title} open`, description: describePrice(order) });
+      }
+    },
+    onError: showError("Order failed"),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (orderId: string) => {
+      await apiRequest(
+        "DELETE",
+        `/api/paper/accounts/${accountId}/orders/${orderId}${ownerQuery}`
+      );
+    },
+    onSuccess: refreshAccount,
+    onError: showError("Failed to cancel order"),
+  });
+
+  const quote = summary?.account.quoteAsset ?? "USDT";
+  const canOrder =
+    accountId !== null &&
+    symbol.trim() !== "" &&
+    Number(quantity) > 0 &&
+    (orderType === "market" || Number(price) > 0);
+
+  return (
+    <div className="pt-20">
+      <div className="max-w-7xl mx-auto px-6 py-8">
+        <div className="mb-8">
+          <h1 className="font-grotesk font-bold text-3xl mb-2">
+            Paper Trading
+          </h1>
+          <p className="text-cool-gray">
+            Practise with a virtual balance. Orders fill against the live order
+            book with fees, so you see real slippage without risking money.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+          {/* Accounts */}
+          <GlassCard className="p-6">
+            <div className="flex items-center space-x-2 mb-4">
+              <Wallet className="text-electric" size={20} />
+              <h2 className="font-grotesk font-semibold text-xl">Accounts</h2>
+            </div>
+            <div className="space-y-2 mb-4">
+              {accounts.map((account) => (
+                <div
+                  key={account.id}
+                  className={`flex items-center justify-between p-2 rounded-lg ${
+                    account.id === accountId
+                      ? "bg-electric/10 border border-electric/30"
+                      : "bg-white/5"
+                  }`}
+                >
+                  <button
+                    className="text-left flex-1 min-w-0"
+                    onClick={() => setAccountId(account.id)}
+                  >
+                    <div className="font-medium truncate">{account.name}</div>
+                    <div className="text-xs text-cool-gray">
+                      Started with {formatAmount(account.initialBalance)}{" "}
+                      {account.quoteAsset} · {Number(account.feePercent)}% fee
+                    </div>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Reset to the starting balance"
+                    onClick={() => resetMutation.mutate(account.id)}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(account.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {!accounts.length && (
+                <p className="text-cool-gray text-sm">
+                  Create an account to start trading.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2 border-t border-white/10 pt-4">
+              <Input
+                placeholder="Account name"
+                className="bg-white/5 border-white/20"
+                value={accountName}
+                onChange={(e) => setAccountName(e.target.value)}
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-sm text-cool-gray">
+                  Balance (USDT)
+                  <Input
+                    type="number"
+                    min={1}
+                    className="mt-1 bg-white/5 border-white/20"
+                    value={initialBalance}
+                    onChange={(e) => setInitialBalance(Number(e.target.value))}
+                  />
+                </label>
+                <label className="text-sm text-cool-gray">
+                  Fee per fill %
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    className="mt-1 bg-white/5 border-white/20"
+                    value={feePercent}
+                    onChange={(e) => setFeePercent(Number(e.target.value))}
+                  />
+                </label>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => createMutation.mutate()}
+                disabled={
+                  !accountName.trim() ||
+                  initialBalance <= 0 ||
+                  createMutation.isPending
+                }
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                New Account
+              </Button>
+            </div>
+          </GlassCard>
+
+          {/* Order ticket */}
+          <GlassCard className="p-6">
+            <h2 className="font-grotesk font-semibold text-xl mb-4">
+              Place Order
+            </h2>
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  variant={side === "buy" ? "default" : "outline"}
+                  className={side === "buy" ? "bg-emerald" : ""}
+                  onClick={() => setSide("buy")}
+                >
+                  Buy
+                </Button>
+                <Button
+                  variant={side === "sell" ? "default" : "outline"}
+                  className={side === "sell" ? "bg-red-500" : ""}
+                  onClick={() => setSide("sell")}
+                >
+                  Sell
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-sm text-cool-gray">
+                  Symbol
+                  <Input
+                    className="mt-1 bg-white/5 border-white/20"
+                    value={symbol}
+                    onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+                  />
+                </label>
+                <label className="text-sm text-cool-gray">
+                  Type
+                  <Select
+                    value={orderType}
+                    onValueChange={(value) =>
+                      setOrderType(value as PaperOrderType)
+                    }
+                  >
+                    <SelectTrigger className="mt-1 bg-white/5 border-white/20">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="market">Market</SelectItem>
+                      <SelectItem value="limit">Limit</SelectItem>
+                      <SelectItem value="stop">Stop</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </label>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-sm text-cool-gray">
+                  Quantity
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    className="mt-1 bg-white/5 border-white/20"
+                    value={quantity}
+                    onChange={(e) => setQuantity(e.target.value)}
+                  />
+                </label>
+                {orderType !== "market" && (
+                  <label className="text-sm text-cool-gray">
+                    {orderType === "limit" ? "Limit price" : "Stop price"}
+                    <Input
+                      type="number"
+                      min={0}
+                      step="any"
+                      className="mt-1 bg-white/5 border-white/20"
+                      value={price}
+                      onChange={(e) => setPrice(e.target.value)}
+                    />
+                  </label>
+                )}
+              </div>
+              <Button
+                className="w-full"
+                onClick={() => orderMutation.mutate()}
+                disabled={!canOrder || orderMutation.isPending}
+                data-testid="button-place-order"
+              >
+                {orderMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4 mr-1" />
+                )}
+                {side === "buy" ? "Buy" : "Sell"} {symbol || "…"}
+              </Button>
+              <p className="text-xs text-cool-gray/70">
+                Market orders fill now against the book or are rejected. Limit
+                orders wait until the book can fill them in full at the limit or
+                better. Stop orders become market orders once the best price
+                reaches the stop.
+              </p>
+            </div>
+          </GlassCard>
+
+          {/* Balances */}
+          <GlassCard className="p-6">
+            <h2 className="font-grotesk font-semibold text-xl mb-4">
+              {summary?.account.name ?? "Balances"}
+            </h2>
+            {summary ? (
+              <div className="grid grid-cols-2 gap-3">
+                {[
+                  { label: "Equity", value: formatAmount(summary.equity) },
+                  { label: "Cash", value: formatAmount(summary.cash) },
+                  {
+                    label: "Available",
+                    value: formatAmount(summary.availableCash),
+                  },
+                  {
+                    label: "Held for orders",
+                    value: formatAmount(summary.reservedCash),
+                  },
+                  {
+                    label: "Realized P&L",
+                    value: formatSigned(summary.realizedPnl),
+                    className: pnlClass(summary.realizedPnl),
+                  },
+                  {
+                    label: "Unrealized P&L",
+                    value: formatSigned(summary.unrealizedPnl),
+                    className: pnlClass(summary.unrealizedPnl),
+                  },
+                  {
+                    label: "Total Return",
+                    value: formatSigned(summary.totalReturn, "%"),
+                    className: pnlClass(summary.totalReturn),
+                  },
+                ].map((item) => (
+                  <div key={item.label} className="p-3 rounded-lg bg-white/5">
+                    <div className="text-xs text-cool-gray">{item.label}</div>
+                    <div
+                      className={`font-mono text-lg ${
+                        item.className || "text-white"
+                      }`}
+                    >
+                      {item.value}
+                    </div>
+                  </div>
+                ))}
+                <p className="col-span-2 text-xs text-cool-gray/70">
+                  Amounts in {quote}. Positions are marked at the mid price.
+                </p>
+              </div>
+            ) : (
+              <p className="text-cool-gray text-sm">
+                {summaryLoading ? "Loading…" : "No account selected."}
+              </p>
+            )}
+          </GlassCard>
+        </div>
+
+        {summary && (
+          <>
+            <GlassCard className="p-6 mb-6">
+              <h2 className="font-grotesk font-semibold text-xl mb-4">
+                Positions ({summary.positions.length})
+              </h2>
+              {summary.positions.length ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Symbol</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead className="text-right">Avg Cost</TableHead>
+                      <TableHead className="text-right">Mark</TableHead>
+                      <TableHead className="text-right">Value</TableHead>
+                      <TableHead className="text-right">Unrealized</TableHead>
+                      <TableHead className="text-right">Realized</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summary.positions.map((position) => (
+                      <TableRow key={position.symbol}>
+                        <TableCell className="font-medium">
+                          {position.symbol}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(position.quantity)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(position.averageCost)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(position.markPrice)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(position.marketValue)}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right font-mono ${pnlClass(
+                            position.unrealizedPnl
+                          )}`}
+                        >
+                          {formatSigned(position.unrealizedPnl)}
+                          {position.unrealizedPnlPercent !== null &&
+                            ` (${formatSigned(
+                              position.unrealizedPnlPercent,
+                              "%"
+                            )})`}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right font-mono ${pnlClass(
+                            position.realizedPnl
+                          )}`}
+                        >
+                          {formatSigned(position.realizedPnl)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-cool-gray text-sm">No open positions.</p>
+              )}
+            </GlassCard>
+
+            <GlassCard className="p-6 mb-6">
+              <h2 className="font-grotesk font-semibold text-xl mb-4">
+                Open Orders ({summary.openOrders.length})
+              </h2>
+              {summary.openOrders.length ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Placed</TableHead>
+                      <TableHead>Symbol</TableHead>
+                      <TableHead>Side</TableHead>
+                      <TableHead>Price</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summary.openOrders.map((order) => (
+                      <TableRow key={order.id}>
+                        <TableCell>{formatTime(order.createdAt)}</TableCell>
+                        <TableCell className="font-medium">
+                          {order.symbol}
+                        </TableCell>
+                        <TableCell
+                          className={
+                            order.side === "buy"
+                              ? "text-emerald"
+                              : "text-red-400"
+                          }
+                        >
+                          {order.side}
+                        </TableCell>
+                        <TableCell>{describePrice(order)}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(order.quantity)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Cancel order"
+                            onClick={() => cancelMutation.mutate(order.id)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-cool-gray text-sm">No open orders.</p>
+              )}
+            </GlassCard>
+
+            <GlassCard className="p-6">
+              <h2 className="font-grotesk font-semibold text-xl mb-4">
+                Order History ({history.length})
+              </h2>
+              {history.length ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Closed</TableHead>
+                      <TableHead>Symbol</TableHead>
+                      <TableHead>Side</TableHead>
+                      <TableHead>Order</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead className="text-right">Avg Price</TableHead>
+                      <TableHead className="text-right">Fee</TableHead>
+                      <TableHead className="text-right">Realized</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {history.map((order) => (
+                      <TableRow key={order.id}>
+                        <TableCell>{formatTime(order.closedAt)}</TableCell>
+                        <TableCell className="font-medium">
+                          {order.symbol}
+                        </TableCell>
+                        <TableCell
+                          className={
+                            order.side === "buy"
+                              ? "text-emerald"
+                              : "text-red-400"
+                          }
+                        >
+                          {order.side}
+                        </TableCell>
+                        <TableCell>{describePrice(order)}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(order.quantity)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(order.averagePrice)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(order.fee)}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right font-mono ${pnlClass(
+                            order.realizedPnl
+                          )}`}
+                        >
+                          {order.realizedPnl === null
+                            ? "—"
+                            : formatSigned(Number(order.realizedPnl))}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={STATUS_VARIANTS[order.status]}
+                            title={order.rejectReason ?? undefined}
+                          >
+                            {order.status}
+                          </Badge>
+                          {order.bookSource === "stored" && (
+                            <span className="text-xs text-cool-gray ml-2">
+                              stored book
+                            </span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-cool-gray text-sm">No orders yet.</p>
+              )}
+            </GlassCard>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,926 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Briefcase, Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  Area,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Line,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import GlassCard from "@/components/ui/glass-card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/auth-context";
+import { apiRequest } from "@/lib/queryClient";
+import TradeImportCard from "@/components/portfolio/trade-import-card";
+import RealizedGainsCard from "@/components/portfolio/realized-gains-card";
+import type {
+  Portfolio,
+  PortfolioCostMethod,
+  PortfolioTransaction,
+  PortfolioTransactionType,
+} from "@shared/schema";
+import type {
+  PortfolioHolding,
+  PortfolioPerformance,
+  PortfolioSummary,
+} from "@shared/types/portfolio";
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  error?: string;
+}
+
+// Holdings are valued at live prices each time the summary is read
+const REFRESH_MS = 60000;
+
+const TYPE_LABELS: Record<PortfolioTransactionType, string> = {
+  buy: "Buy",
+  sell: "Sell",
+  transfer_in: "Transfer in",
+  transfer_out: "Transfer out",
+};
+
+// Which lots a sell is matched against
+const COST_METHOD_LABELS: Record<PortfolioCostMethod, string> = {
+  average: "Average cost",
+  fifo: "FIFO",
+  lifo: "LIFO",
+  hifo: "HIFO",
+};
+
+const SLICE_COLORS = [
+  "#9B5DE5",
+  "#00BBF9",
+  "#F15BB5",
+  "#FEE440",
+  "#00F5D4",
+  "#FF924C",
+];
+
+const PERFORMANCE_RANGES = [30, 90, 365];
+
+const tooltipStyle = {
+  background: "rgba(15, 23, 42, 0.9)",
+  border: "1px solid rgba(255,255,255,0.1)",
+};
+
+function formatAmount(value: number | string | null): string {
+  if (value === null) return "—";
+  const number = Number(value);
+  return number.toLocaleString("en-US", {
+    maximumFractionDigits: Math.abs(number) < 1 ? 6 : 2,
+  });
+}
+
+function formatSigned(value: number | null, suffix = ""): string {
+  if (value === null) return "—";
+  return `${value >= 0 ? "+" : ""}${formatAmount(value)}${suffix}`;
+}
+
+function pnlClass(value: number | null): string {
+  if (value === null) return "";
+  return value >= 0 ? "text-emerald" : "text-red-400";
+}
+
+function formatDate(time: string | number | Date): string {
+  return new Date(time).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+// Value for a datetime-local input, in local time
+function toLocalInput(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function AllocationChart({ holdings }: { holdings: PortfolioHolding[] }) {
+  const slices = holdings
+    .filter((holding) => holding.allocation !== null)
+    .map((holding) => ({
+      name: holding.asset,
+      value: holding.marketValue ?? 0,
+      allocation: holding.allocation ?? 0,
+    }));
+  if (!slices.length) {
+    return <p className="text-cool-gray text-sm">No priced holdings.</p>;
+  }
+
+  return (
+    <div className="flex items-center gap-4">
+      <div className="h-56 w-56 shrink-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <PieChart>
+            <Pie
+              data={slices}
+              dataKey="value"
+              nameKey="name"
+              innerRadius="60%"
+              outerRadius="100%"
+              stroke="none"
+              isAnimationActive={false}
+            >
+              {slices.map((slice, i) => (
+                <Cell
+                  key={slice.name}
+                  fill={SLICE_COLORS[i % SLICE_COLORS.length]}
+                />
+              ))}
+            </Pie>
+            <Tooltip
+              formatter={(value: number) => formatAmount(value)}
+              contentStyle={tooltipStyle}
+            />
+          </PieChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="space-y-1 text-sm min-w-0">
+        {slices.map((slice, i) => (
+          <div key={slice.name} className="flex items-center gap-2">
+            <span
+              className="h-3 w-3 rounded-sm shrink-0"
+              style={{ background: SLICE_COLORS[i % SLICE_COLORS.length] }}
+            />
+            <span className="font-medium">{slice.name}</span>
+            <span className="text-cool-gray font-mono">
+              {slice.allocation.toFixed(1)}%
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function PerformanceChart({
+  performance,
+}: {
+  performance: PortfolioPerformance;
+}) {
+  if (!performance.points.length) {
+    return <p className="text-cool-gray text-sm">No transactions yet.</p>;
+  }
+
+  return (
+    <div className="h-56">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={performance.points}>
+          <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={["dataMin", "dataMax"]}
+            tickFormatter={(time) =>
+              new Date(time).toLocaleDateString("en-US", {
+                month: "short",
+                day: "numeric",
+              })
+            }
+            stroke="#9ca3af"
+            fontSize={12}
+          />
+          <YAxis
+            domain={["auto", "auto"]}
+            tickFormatter={(value) => Math.round(value).toLocaleString()}
+            stroke="#9ca3af"
+            fontSize={12}
+            width={70}
+          />
+          <Tooltip
+            labelFormatter={(time) => formatDate(time)}
+            formatter={(value: number, name: string) => [
+              `${formatAmount(value)} ${performance.currency}`,
+              name === "value" ? "Value" : "Cost basis",
+            ]}
+            contentStyle={tooltipStyle}
+          />
+          <Area
+            type="monotone"
+            dataKey="value"
+            stroke="#00BBF9"
+            strokeWidth={2}
+            fill="#00BBF9"
+            fillOpacity={0.2}
+            isAnimationActive={false}
+          />
+          <Line
+            type="stepAfter"
+            dataKey="costBasis"
+            stroke="#9ca3af"
+            strokeDasharray="4 4"
+            dot={false}
+            isAnimationActive={false}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+export default function PortfolioPage() {
+  const [portfolioId, setPortfolioId] = useState<string | null>(null);
+  const [portfolioName, setPortfolioName] = useState("");
+  const [currency, setCurrency] = useState("USD");
+  const [costMethod, setCostMethod] = useState<PortfolioCostMethod>("average");
+  const [type, setType] = useState<PortfolioTransactionType>("buy");
+  const [asset, setAsset] = useState("BTC");
+  const [quantity, setQuantity] = useState("");
+  const [price, setPrice] = useState("");
+  const [fee, setFee] = useState("");
+  const [executedAt, setExecutedAt] = useState(() => toLocalInput(new Date()));
+  const [note, setNote] = useState("");
+  const [days, setDays] = useState(90);
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const ownerQuery = user ? `?userId=${encodeURIComponent(user.id)}` : "";
+  const portfoliosUrl = `/api/portfolios${ownerQuery}`;
+  const { data: portfoliosResponse } = useQuery<ApiResponse<Portfolio[]>>({
+    queryKey: [portfoliosUrl],
+  });
+  const portfolios = portfoliosResponse?.data || [];
+
+  // Select the newest portfolio until the user picks one
+  useEffect(() => {
+    if (!portfolios.length) {
+      setPortfolioId(null);
+    } else if (!portfolios.some((portfolio) => portfolio.id === portfolioId)) {
+      setPortfolioId(portfolios[0].id);
+    }
+  }, [portfolios, portfolioId]);
+
+  const base = portfolioId ? `/api/portfolios/${portfolioId}` : null;
+  const summaryUrl = base && `${base}${ownerQuery}`;
+  const transactionsUrl = base && `${base}/transactions${ownerQuery}`;
+  const performanceUrl =
+    base &&
+    `${base}/performance${ownerQuery ? `${ownerQuery}&` : "?"}days=${days}`;
+  const { data: summaryResponse, isLoading: summaryLoading } = useQuery<
+    ApiResponse<PortfolioSummary>
+  >({
+    queryKey: [summaryUrl],
+    enabled: summaryUrl !== null,
+    refetchInterval: REFRESH_MS,
+  });
+  const { data: transactionsResponse } = useQuery<
+    ApiResponse<PortfolioTransaction[]>
+  >({
+    queryKey: [transactionsUrl],
+    enabled: transactionsUrl !== null,
+  });
+  const { data: performanceResponse, isLoading: performanceLoading } = useQuery<
+    ApiResponse<PortfolioPerformance>
+  >({
+    queryKey: [performanceUrl],
+    enabled: performanceUrl !== null,
+  });
+  const summary = summaryResponse?.data;
+  const transactions = transactionsResponse?.data || [];
+  const performance = performanceResponse?.data;
+
+  // Every view of the selected portfolio, including its gains reports
+  const refreshPortfolio = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) =>
+        base !== null &&
+        typeof query.queryKey[0] === "string" &&
+        query.queryKey[0].startsWith(base),
+    });
+  };
+
+  const showError = (title: string) => (error: Error) =>
+    toast({ title, description: error.message, variant: "destructive" });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/portfolios", {
+        name: portfolioName,
+        currency,
+        costMethod,
+        userId: user?.id ?? null,
+      });
+      return ((await response.json()) as ApiResponse<Portfolio>).data;
+    },
+    onSuccess: (portfolio) => {
+      queryClient.invalidateQueries({ queryKey: [portfoliosUrl] });
+      setPortfolioId(portfolio.id);
+      setPortfolioName("");
+      toast({ title: "Portfolio created", description: portfolio.name });
+    },
+    onError: showError("Failed to create portfolio"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/portfolios/${id}${ownerQuery}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [portfoliosUrl] });
+    },
+    onError: showError("Failed to delete portfolio"),
+  });
+
+  const costMethodMutation = useMutation({
+    mutationFn: async (method: PortfolioCostMethod) => {
+      await apiRequest("PATCH", `/api/portfolios/${portfolioId}${ownerQuery}`, {
+        costMethod: method,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [portfoliosUrl] });
+      refreshPortfolio();
+    },
+    onError: showError("Failed to change cost method"),
+  });
+
+  const transactionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(
+        "POST",
+        `/api/portfolios/${portfolioId}/transactions${ownerQuery}`,
+        {
+          type,
+          asset,
+          quantity: Number(quantity),
+          price: type === "transfer_out" ? undefined : Number(price),
+          fee: fee ? Number(fee) : undefined,
+          note: note || undefined,
+          executedAt: new Date(executedAt).getTime(),
+        }
+      );
+      return ((await response.json()) as ApiResponse<PortfolioTransaction>)
+        .data;
+    },
+    onSuccess: (transaction) => {
+      refreshPortfolio();
+      setQuantity("");
+      setPrice("");
+      setFee("");
+      setNote("");
+      toast({
+        title: `${TYPE_LABELS[transaction.type]} recorded`,
+        description: `${formatAmount(transaction.quantity)} ${
+          transaction.asset
+        }`,
+      });
+    },
+    onError: showError("Failed to record transaction"),
+  });
+
+  const deleteTransactionMutation = useMutation({
+    mutationFn: async (transactionId: string) => {
+      await apiRequest(
+        "DELETE",
+        `/api/portfolios/${portfolioId}/transactions/${transactionId}${ownerQuery}`
+      );
+    },
+    onSuccess: refreshPortfolio,
+    onError: showError("Failed to delete transaction"),
+  });
+
+  const portfolioCurrency = summary?.portfolio.currency ?? "USD";
+  const canRecord =
+    portfolioId !== null &&
+    asset.trim() !== "" &&
+    Number(quantity) > 0 &&
+    (type === "transfer_out" || (price !== "" && Number(price) >= 0)) &&
+    executedAt !== "";
+
+  return (
+    <div className="pt-20">
+      <div className="max-w-7xl mx-auto px-6 py-8">
+        <div className="mb-8">
+          <h1 className="font-grotesk font-bold text-3xl mb-2">Portfolio</h1>
+          <p className="text-cool-gray">
+            Record your buys, sells and transfers, or import them from an
+            exchange. Holdings are kept at average cost or by tax lot and valued
+            at live prices.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+          {/* Portfolios */}
+          <GlassCard className="p-6">
+            <div className="flex items-center space-x-2 mb-4">
+              <Briefcase className="text-electric" size={20} />
+              <h2 className="font-grotesk font-semibold text-xl">Portfolios</h2>
+            </div>
+            <div className="space-y-2 mb-4">
+              {portfolios.map((portfolio) => (
+                <div
+                  key={portfolio.id}
+                  className={`flex items-center justify-between p-2 rounded-lg ${
+                    portfolio.id === portfolioId
+                      ? "bg-electric/10 border border-electric/30"
+                      : "bg-white/5"
+                  }`}
+                >
+                  <button
+                    className="text-left flex-1 min-w-0"
+                    onClick={() => setPortfolioId(portfolio.id)}
+                  >
+                    <div className="font-medium truncate">{portfolio.name}</div>
+                    <div className="text-xs text-cool-gray">
+                      In {portfolio.currency} ·{" "}
+                      {COST_METHOD_LABELS[portfolio.costMethod]} · since{" "}
+                      {formatDate(portfolio.createdAt)}
+                    </div>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(portfolio.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {!portfolios.length && (
+                <p className="text-cool-gray text-sm">
+                  Create a portfolio to start tracking.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2 border-t border-white/10 pt-4">
+              <div className="grid grid-cols-3 gap-2">
+                <Input
+                  placeholder="Portfolio name"
+                  className="col-span-2 bg-white/5 border-white/20"
+                  value={portfolioName}
+                  onChange={(e) => setPortfolioName(e.target.value)}
+                />
+                <Input
+                  placeholder="Currency"
+                  className="bg-white/5 border-white/20"
+                  value={currency}
+                  onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+                />
+              </div>
+              <Select
+                value={costMethod}
+                onValueChange={(value) =>
+                  setCostMethod(value as PortfolioCostMethod)
+                }
+              >
+                <SelectTrigger className="bg-white/5 border-white/20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(COST_METHOD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => createMutation.mutate()}
+                disabled={
+                  !portfolioName.trim() ||
+                  !currency.trim() ||
+                  createMutation.isPending
+                }
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                New Portfolio
+              </Button>
+            </div>
+          </GlassCard>
+
+          {/* Transaction form */}
+          <GlassCard className="p-6">
+            <h2 className="font-grotesk font-semibold text-xl mb-4">
+              Record Transaction
+            </h2>
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-sm text-cool-gray">
+                  Type
+                  <Select
+                    value={type}
+                    onValueChange={(value) =>
+                      setType(value as PortfolioTransactionType)
+                    }
+                  >
+                    <SelectTrigger className="mt-1 bg-white/5 border-white/20">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </label>
+                <label className="text-sm text-cool-gray">
+                  Asset
+                  <Input
+                    className="mt-1 bg-white/5 border-white/20"
+                    value={asset}
+                    onChange={(e) => setAsset(e.target.value.toUpperCase())}
+                  />
+                </label>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <label className="text-sm text-cool-gray">
+                  Quantity
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    className="mt-1 bg-white/5 border-white/20"
+                    value={quantity}
+                    onChange={(e) => setQuantity(e.target.value)}
+                  />
+                </label>
+                {type !== "transfer_out" && (
+                  <label className="text-sm text-cool-gray">
+                    {type === "transfer_in" ? "Cost / unit" : "Price"}
+                    <Input
+                      type="number"
+                      min={0}
+                      step="any"
+                      className="mt-1 bg-white/5 border-white/20"
+                      value={price}
+                      onChange={(e) => setPrice(e.target.value)}
+                    />
+                  </label>
+                )}
+                <label className="text-sm text-cool-gray">
+                  Fee
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    className="mt-1 bg-white/5 border-white/20"
+                    value={fee}
+                    onChange={(e) => setFee(e.target.value)}
+                  />
+                </label>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-sm text-cool-gray">
+                  Date
+                  <Input
+                    type="datetime-local"
+                    className="mt-1 bg-white/5 border-white/20"
+                    value={executedAt}
+                    onChange={(e) => setExecutedAt(e.target.value)}
+                  />
+                </label>
+                <label className="text-sm text-cool-gray">
+                  Note
+                  <Input
+                    className="mt-1 bg-white/5 border-white/20"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                  />
+                </label>
+              </div>
+              <Button
+                className="w-full"
+                onClick={() => transactionMutation.mutate()}
+                disabled={!canRecord || transactionMutation.isPending}
+                data-testid="button-record-transaction"
+              >
+                {transactionMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <Plus className="h-4 w-4 mr-1" />
+                )}
+                Record {TYPE_LABELS[type].toLowerCase()}
+              </Button>
+              <p className="text-xs text-cool-gray/70">
+                Prices and fees are in {portfolioCurrency}. Transfers in carry
+                the cost you paid elsewhere; transfers out leave at the average
+                cost without realizing a gain.
+              </p>
+            </div>
+          </GlassCard>
+
+          {/* Totals */}
+          <GlassCard className="p-6">
+            <h2 className="font-grotesk font-semibold text-xl mb-4">
+              {summary?.portfolio.name ?? "Summary"}
+            </h2>
+            {summary ? (
+              <div className="grid grid-cols-2 gap-3">
+                {[
+                  {
+                    label: "Market Value",
+                    value: formatAmount(summary.marketValue),
+                  },
+                  {
+                    label: "Cost Basis",
+                    value: formatAmount(summary.costBasis),
+                  },
+                  {
+                    label: "Unrealized P&L",
+                    value: formatSigned(summary.unrealizedPnl),
+                    className: pnlClass(summary.unrealizedPnl),
+                  },
+                  {
+                    label: "Realized P&L",
+                    value: formatSigned(summary.realizedPnl),
+                    className: pnlClass(summary.realizedPnl),
+                  },
+                  {
+                    label: "Total P&L",
+                    value: formatSigned(summary.totalPnl),
+                    className: pnlClass(summary.totalPnl),
+                  },
+                  {
+                    label: "Total Return",
+                    value: formatSigned(summary.totalReturn, "%"),
+                    className: pnlClass(summary.totalReturn),
+                  },
+                ].map((item) => (
+                  <div key={item.label} className="p-3 rounded-lg bg-white/5">
+                    <div className="text-xs text-cool-gray">{item.label}</div>
+                    <div
+                      className={`font-mono text-lg ${
+                        item.className || "text-white"
+                      }`}
+                    >
+                      {item.value}
+                    </div>
+                  </div>
+                ))}
+                <p className="col-span-2 text-xs text-cool-gray/70">
+                  Amounts in {portfolioCurrency}.
+                  {summary.unpriced.length > 0 &&
+                    ` No live price for ${summary.unpriced.join(
+                      ", "
+                    )}; left out of the market value.`}
+                </p>
+              </div>
+            ) : (
+              <p className="text-cool-gray text-sm">
+                {summaryLoading ? "Loading…" : "No portfolio selected."}
+              </p>
+            )}
+          </GlassCard>
+        </div>
+
+        {summary && (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+              <GlassCard className="p-6">
+                <h2 className="font-grotesk font-semibold text-xl mb-4">
+                  Allocation
+                </h2>
+                <AllocationChart holdings={summary.holdings} />
+              </GlassCard>
+
+              <GlassCard className="p-6 lg:col-span-2">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="font-grotesk font-semibold text-xl">
+                    Performance
+                  </h2>
+                  <div className="flex gap-1">
+                    {PERFORMANCE_RANGES.map((range) => (
+                      <Button
+                        key={range}
+                        variant={range === days ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setDays(range)}
+                      >
+                        {range}d
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                {performance ? (
+                  <>
+                    <PerformanceChart performance={performance} />
+                    {(performance.flat.length > 0 ||
+                      performance.unpriced.length > 0) && (
+                      <p className="text-xs text-cool-gray/70 mt-2">
+                        {performance.flat.length > 0 &&
+                          `No daily history for ${performance.flat.join(
+                            ", "
+                          )}; valued at today's price. `}
+                        {performance.unpriced.length > 0 &&
+                          `No price for ${performance.unpriced.join(
+                            ", "
+                          )}; left out.`}
+                      </p>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-cool-gray text-sm">
+                    {performanceLoading ? "Loading…" : "No history."}
+                  </p>
+                )}
+              </GlassCard>
+            </div>
+
+            <GlassCard className="p-6 mb-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="font-grotesk font-semibold text-xl">
+                  Holdings ({summary.holdings.length})
+                </h2>
+                <Select
+                  value={summary.portfolio.costMethod}
+                  onValueChange={(value) =>
+                    costMethodMutation.mutate(value as PortfolioCostMethod)
+                  }
+                  disabled={costMethodMutation.isPending}
+                >
+                  <SelectTrigger className="w-36 bg-white/5 border-white/20">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(COST_METHOD_LABELS).map(
+                      ([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              {summary.holdings.length ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Asset</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead className="text-right">Avg Cost</TableHead>
+                      <TableHead className="text-right">Price</TableHead>
+                      <TableHead className="text-right">Value</TableHead>
+                      <TableHead className="text-right">Allocation</TableHead>
+                      <TableHead className="text-right">Unrealized</TableHead>
+                      <TableHead className="text-right">Realized</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summary.holdings.map((holding) => (
+                      <TableRow key={holding.asset}>
+                        <TableCell className="font-medium">
+                          {holding.asset}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(holding.quantity)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(holding.averageCost)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(holding.price)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(holding.marketValue)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {holding.allocation === null
+                            ? "—"
+                            : `${holding.allocation.toFixed(1)}%`}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right font-mono ${pnlClass(
+                            holding.unrealizedPnl
+                          )}`}
+                        >
+                          {formatSigned(holding.unrealizedPnl)}
+                          {holding.unrealizedPnlPercent !== null &&
+                            ` (${formatSigned(
+                              holding.unrealizedPnlPercent,
+                              "%"
+                            )})`}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right font-mono ${pnlClass(
+                            holding.realizedPnl
+                          )}`}
+                        >
+                          {formatSigned(holding.realizedPnl)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-cool-gray text-sm">No open holdings.</p>
+              )}
+            </GlassCard>
+
+            <RealizedGainsCard
+              portfolioId={summary.portfolio.id}
+              userId={user?.id}
+            />
+
+            <TradeImportCard
+              portfolioId={summary.portfolio.id}
+              userId={user?.id}
+              onImported={refreshPortfolio}
+            />
+
+            <GlassCard className="p-6">
+              <h2 className="font-grotesk font-semibold text-xl mb-4">
+                Transactions ({transactions.length})
+              </h2>
+              {transactions.length ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Asset</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead className="text-right">Price</TableHead>
+                      <TableHead className="text-right">Fee</TableHead>
+                      <TableHead>Note</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {transactions.map((transaction) => (
+                      <TableRow key={transaction.id}>
+                        <TableCell>
+                          {formatDate(transaction.executedAt)}
+                        </TableCell>
+                        <TableCell
+                          className={
+                            transaction.type === "buy" ||
+                            transaction.type === "transfer_in"
+                              ? "text-emerald"
+                              : "text-red-400"
+                          }
+                        >
+                          {TYPE_LABELS[transaction.type]}
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          {transaction.asset}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(transaction.quantity)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(transaction.price)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatAmount(transaction.fee)}
+                        </TableCell>
+                        <TableCell className="text-cool-gray text-sm">
+                          {transaction.note}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Delete transaction"
+                            onClick={() =>
+                              deleteTransactionMutation.mutate(transaction.id)
+                            }
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-cool-gray text-sm">No transactions yet.</p>
+              )}
+            </GlassCard>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
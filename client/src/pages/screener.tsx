@@ -0,0 +1,718 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowDown,
+  ArrowUp,
+  Filter,
+  Loader2,
+  Play,
+  Plus,
+  Save,
+  Trash2,
+  X,
+} from "lucide-react";
+import GlassCard from "@/components/ui/glass-card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/auth-context";
+import { apiRequest } from "@/lib/queryClient";
+import type {
+  Screen,
+  ScreenerCondition,
+  ScreenerMetric,
+  ScreenerOperand,
+  ScreenerSort,
+} from "@shared/schema";
+import {
+  DEFAULT_SCREENER_PERIODS,
+  getOperandKey,
+  type ScreenerResult,
+  type ScreenerRun,
+} from "@shared/types/screener";
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  error?: string;
+}
+
+const METRIC_LABELS: Record<ScreenerMetric, string> = {
+  price: "Price",
+  change24h: "24h Change %",
+  volume24h: "24h Volume",
+  marketCap: "Market Cap",
+  rsi: "RSI",
+  sma: "SMA",
+  ema: "EMA",
+  avgVolume: "Avg Daily Volume",
+  sentimentScore: "News Sentiment Score",
+};
+
+const OPERATORS = ["<", "<=", ">", ">="] as const;
+
+// Ready-made conditions for the most common screens
+const PRESETS: { label: string; condition: ScreenerCondition }[] = [
+  {
+    label: "RSI(14) < 30",
+    condition: {
+      type: "compare",
+      left: { metric: "rsi", period: 14 },
+      operator: "<",
+      right: 30,
+    },
+  },
+  {
+    label: "Volume > 2× 7d avg",
+    condition: {
+      type: "compare",
+      left: { metric: "volume24h" },
+      operator: ">",
+      right: { metric: "avgVolume", period: 7 },
+      multiplier: 2,
+    },
+  },
+  {
+    label: "Price > SMA200",
+    condition: {
+      type: "compare",
+      left: { metric: "price" },
+      operator: ">",
+      right: { metric: "sma", period: 200 },
+    },
+  },
+  {
+    label: "Positive news",
+    condition: { type: "sentiment", sentiment: "positive" },
+  },
+];
+
+// Result columns that come from the ticker rather than the metrics
+const BASE_COLUMNS: { key: string; label: string; operand: ScreenerOperand }[] =
+  [
+    { key: "price", label: "Price", operand: { metric: "price" } },
+    { key: "change24h", label: "24h %", operand: { metric: "change24h" } },
+    { key: "volume24h", label: "Volume", operand: { metric: "volume24h" } },
+    { key: "marketCap", label: "Market Cap", operand: { metric: "marketCap" } },
+  ];
+
+function hasPeriod(metric: ScreenerMetric): boolean {
+  return metric in DEFAULT_SCREENER_PERIODS;
+}
+
+function withMetric(metric: ScreenerMetric): ScreenerOperand {
+  return hasPeriod(metric)
+    ? { metric, period: DEFAULT_SCREENER_PERIODS[metric] }
+    : { metric };
+}
+
+function describeOperand(operand: ScreenerOperand): string {
+  const label = METRIC_LABELS[operand.metric];
+  return hasPeriod(operand.metric)
+    ? `${label}(${operand.period ?? DEFAULT_SCREENER_PERIODS[operand.metric]})`
+    : label;
+}
+
+function parseOperandKey(key: string): ScreenerOperand {
+  const [metric, period] = key.split(":");
+  return period
+    ? { metric: metric as ScreenerMetric, period: Number(period) }
+    : { metric: metric as ScreenerMetric };
+}
+
+function getValue(result: ScreenerResult, key: string): number | null {
+  switch (key) {
+    case "price":
+      return result.price;
+    case "change24h":
+      return result.change24h;
+    case "volume24h":
+      return result.volume24h;
+    case "marketCap":
+      return result.marketCap;
+    default:
+      return result.metrics[key] ?? null;
+  }
+}
+
+function formatCompact(value: number | null): string {
+  if (value === null) return "—";
+  return new Intl.NumberFormat("en-US", {
+    notation: "compact",
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+function formatValue(value: number | null, key: string): string {
+  if (value === null) return "—";
+  if (key.startsWith("volume") || key.startsWith("avgVolume")) {
+    return formatCompact(value);
+  }
+  return value.toLocaleString("en-US", {
+    maximumFractionDigits: Math.abs(value) < 1 ? 4 : 2,
+  });
+}
+
+interface OperandPickerProps {
+  operand: ScreenerOperand;
+  onChange: (operand: ScreenerOperand) => void;
+}
+
+function OperandPicker({ operand, onChange }: OperandPickerProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={operand.metric}
+        onValueChange={(metric) =>
+          onChange(withMetric(metric as ScreenerMetric))
+        }
+      >
+        <SelectTrigger className="w-44 bg-white/5 border-white/20">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(METRIC_LABELS) as ScreenerMetric[]).map((metric) => (
+            <SelectItem key={metric} value={metric}>
+              {METRIC_LABELS[metric]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {hasPeriod(operand.metric) && (
+        <Input
+          type="number"
+          min={1}
+          max={365}
+          className="w-20 bg-white/5 border-white/20"
+          value={operand.period ?? DEFAULT_SCREENER_PERIODS[operand.metric]}
+          onChange={(e) =>
+            onChange({ ...operand, period: Number(e.target.value) || 1 })
+          }
+          aria-label="Period in days"
+        />
+      )}
+    </div>
+  );
+}
+
+interface ConditionRowProps {
+  condition: ScreenerCondition;
+  onChange: (condition: ScreenerCondition) => void;
+  onRemove: () => void;
+}
+
+function ConditionRow({ condition, onChange, onRemove }: ConditionRowProps) {
+  if (condition.type === "sentiment") {
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-cool-gray">News sentiment is</span>
+        <Select
+          value={condition.sentiment}
+          onValueChange={(sentiment) =>
+            onChange({
+              ...condition,
+              sentiment: sentiment as typeof condition.sentiment,
+            })
+          }
+        >
+          <SelectTrigger className="w-32 bg-white/5 border-white/20">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="positive">Positive</SelectItem>
+            <SelectItem value="neutral">Neutral</SelectItem>
+            <SelectItem value="negative">Negative</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="sm" onClick={onRemove}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  const rightIsValue = typeof condition.right === "number";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <OperandPicker
+        operand={condition.left}
+        onChange={(left) => onChange({ ...condition, left })}
+      />
+      <Select
+        value={condition.operator}
+        onValueChange={(operator) =>
+          onChange({
+            ...condition,
+            operator: operator as (typeof OPERATORS)[number],
+          })
+        }
+      >
+        <SelectTrigger className="w-20 bg-white/5 border-white/20">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {OPERATORS.map((operator) => (
+            <SelectItem key={operator} value={operator}>
+              {operator}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={rightIsValue ? "value" : "metric"}
+        onValueChange={(kind) =>
+          onChange({
+            ...condition,
+            right: kind === "value" ? 0 : withMetric("sma"),
+            multiplier: undefined,
+          })
+        }
+      >
+        <SelectTrigger className="w-28 bg-white/5 border-white/20">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="value">Value</SelectItem>
+          <SelectItem value="metric">Metric</SelectItem>
+        </SelectContent>
+      </Select>
+      {typeof condition.right === "number" ? (
+        <Input
+          type="number"
+          className="w-28 bg-white/5 border-white/20"
+          value={condition.right}
+          onChange={(e) =>
+            onChange({ ...condition, right: Number(e.target.value) })
+          }
+          aria-label="Value"
+        />
+      ) : (
+        <>
+          <Input
+            type="number"
+            min={0}
+            step={0.1}
+            className="w-20 bg-white/5 border-white/20"
+            value={condition.multiplier ?? 1}
+            onChange={(e) =>
+              onChange({
+                ...condition,
+                multiplier: Number(e.target.value) || undefined,
+              })
+            }
+            aria-label="Multiplier"
+          />
+          <span className="text-cool-gray">×</span>
+          <OperandPicker
+            operand={condition.right}
+            onChange={(right) => onChange({ ...condition, right })}
+          />
+        </>
+      )}
+      <Button variant="ghost" size="sm" onClick={onRemove}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+export default function Screener() {
+  const [conditions, setConditions] = useState<ScreenerCondition[]>([
+    PRESETS[0].condition,
+  ]);
+  const [sort, setSort] = useState<ScreenerSort | null>(null);
+  const [screenName, setScreenName] = useState("");
+  const [run, setRun] = useState<ScreenerRun | null>(null);
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const screensUrl = user
+    ? `/api/screener/screens?userId=${encodeURIComponent(user.id)}`
+    : "/api/screener/screens";
+  const { data: screensResponse } = useQuery<ApiResponse<Screen[]>>({
+    queryKey: [screensUrl],
+  });
+  const screens = screensResponse?.data || [];
+
+  const showError = (title: string) => (error: Error) =>
+    toast({ title, description: error.message, variant: "destructive" });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/screener/run", {
+        conditions,
+        sort: sort ?? undefined,
+      });
+      return ((await response.json()) as ApiResponse<ScreenerRun>).data;
+    },
+    onSuccess: setRun,
+    onError: showError("Screener failed"),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/screener/screens", {
+        name: screenName,
+        conditions,
+        sort,
+        userId: user?.id ?? null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [screensUrl] });
+      setScreenName("");
+      toast({ title: "Screen saved", description: screenName });
+    },
+    onError: showError("Failed to save screen"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/screener/screens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [screensUrl] });
+    },
+    onError: showError("Failed to delete screen"),
+  });
+
+  const loadScreen = (screen: Screen) => {
+    setConditions(screen.conditions);
+    setSort(screen.sort);
+    setScreenName(screen.name);
+    setRun(null);
+  };
+
+  const updateCondition = (index: number, condition: ScreenerCondition) => {
+    setConditions((current) =>
+      current.map((existing, i) => (i === index ? condition : existing))
+    );
+  };
+
+  const metricColumns = useMemo(() => {
+    const keys = new Set<string>();
+    run?.results.forEach((result) =>
+      Object.keys(result.metrics).forEach((key) => keys.add(key))
+    );
+    return Array.from(keys).filter(
+      (key) => !BASE_COLUMNS.some((column) => column.key === key)
+    );
+  }, [run]);
+
+  // Results are re-sorted locally, the sort is saved with the screen
+  const sortedResults = useMemo(() => {
+    const results = [...(run?.results || [])];
+    if (!sort) return results;
+
+    const key = getOperandKey(sort.by);
+    const direction = sort.direction === "asc" ? 1 : -1;
+    return results.sort((a, b) => {
+      const left = getValue(a, key);
+      const right = getValue(b, key);
+      if (left === null) return right === null ? 0 : 1;
+      if (right === null) return -1;
+      return (left - right) * direction;
+    });
+  }, [run, sort]);
+
+  const toggleSort = (operand: ScreenerOperand) => {
+    const key = getOperandKey(operand);
+    setSort((current) =>
+      current && getOperandKey(current.by) === key
+        ? {
+            by: operand,
+            direction: current.direction === "desc" ? "asc" : "desc",
+          }
+        : { by: operand, direction: "desc" }
+    );
+  };
+
+  const renderSortableHead = (
+    key: string,
+    label: string,
+    operand: ScreenerOperand
+  ) => {
+    const active = sort && getOperandKey(sort.by) === key;
+    return (
+      <TableHead
+        key={key}
+        className="cursor-pointer select-none text-right"
+        onClick={() => toggleSort(operand)}
+      >
+        <span className="inline-flex items-center gap-1">
+          {label}
+          {active &&
+            (sort.direction === "desc" ? (
+              <ArrowDown className="h-3 w-3" />
+            ) : (
+              <ArrowUp className="h-3 w-3" />
+            ))}
+        </span>
+      </TableHead>
+    );
+  };
+
+  return (
+    <div className="pt-20">
+      <div className="max-w-7xl mx-auto px-6 py-8">
+        <div className="mb-8">
+          <h1 className="font-grotesk font-bold text-3xl mb-2">
+            Coin Screener
+          </h1>
+          <p className="text-cool-gray">
+            Filter the top coins by indicators on daily candles, volume and news
+            sentiment
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 mb-8">
+          {/* Conditions */}
+          <GlassCard className="p-6 lg:col-span-3">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center space-x-2">
+                <Filter className="text-electric" size={20} />
+                <h2 className="font-grotesk font-semibold text-xl">
+                  Conditions
+                </h2>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {PRESETS.map((preset) => (
+                  <Button
+                    key={preset.label}
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      setConditions((current) => [...current, preset.condition])
+                    }
+                  >
+                    <Plus className="h-3 w-3 mr-1" />
+                    {preset.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-3 mb-6">
+              {conditions.map((condition, index) => (
+                <ConditionRow
+                  key={index}
+                  condition={condition}
+                  onChange={(next) => updateCondition(index, next)}
+                  onRemove={() =>
+                    setConditions((current) =>
+                      current.filter((_, i) => i !== index)
+                    )
+                  }
+                />
+              ))}
+              {!conditions.length && (
+                <p className="text-cool-gray text-sm">
+                  No conditions, every scanned coin will match.
+                </p>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setConditions((current) => [
+                    ...current,
+                    {
+                      type: "compare",
+                      left: { metric: "change24h" },
+                      operator: ">",
+                      right: 0,
+                    },
+                  ])
+                }
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Condition
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => runMutation.mutate()}
+                disabled={runMutation.isPending}
+                data-testid="button-run-screener"
+              >
+                {runMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <Play className="h-4 w-4 mr-1" />
+                )}
+                Run Screen
+              </Button>
+              <div className="flex items-center gap-2 ml-auto">
+                <Input
+                  placeholder="Screen name"
+                  className="w-48 bg-white/5 border-white/20"
+                  value={screenName}
+                  onChange={(e) => setScreenName(e.target.value)}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => saveMutation.mutate()}
+                  disabled={!screenName.trim() || saveMutation.isPending}
+                >
+                  <Save className="h-4 w-4 mr-1" />
+                  Save
+                </Button>
+              </div>
+            </div>
+          </GlassCard>
+
+          {/* Saved screens */}
+          <GlassCard className="p-6">
+            <h2 className="font-grotesk font-semibold text-xl mb-4">
+              Saved Screens
+            </h2>
+            <div className="space-y-2">
+              {screens.map((screen) => (
+                <div
+                  key={screen.id}
+                  className="flex items-center justify-between p-2 rounded-lg bg-white/5"
+                >
+                  <button
+                    className="text-left flex-1 min-w-0"
+                    onClick={() => loadScreen(screen)}
+                  >
+                    <div className="font-medium truncate">{screen.name}</div>
+                    <div className="text-xs text-cool-gray truncate">
+                      {screen.conditions
+                        .map((condition) =>
+                          condition.type === "sentiment"
+                            ? `News ${condition.sentiment}`
+                            : describeOperand(condition.left)
+                        )
+                        .join(", ")}
+                    </div>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(screen.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {!screens.length && (
+                <p className="text-cool-gray text-sm">No saved screens yet.</p>
+              )}
+            </div>
+          </GlassCard>
+        </div>
+
+        {/* Results */}
+        <GlassCard className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="font-grotesk font-semibold text-xl">Results</h2>
+            {run && (
+              <span className="text-cool-gray text-sm">
+                {run.matched} of {run.scanned} coins matched · {run.source}
+              </span>
+            )}
+          </div>
+
+          {run ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Coin</TableHead>
+                  {BASE_COLUMNS.map((column) =>
+                    renderSortableHead(column.key, column.label, column.operand)
+                  )}
+                  {metricColumns.map((key) => {
+                    const operand = parseOperandKey(key);
+                    return renderSortableHead(
+                      key,
+                      describeOperand(operand),
+                      operand
+                    );
+                  })}
+                  <TableHead>Sentiment</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedResults.map((result) => (
+                  <TableRow key={result.pair}>
+                    <TableCell>
+                      <div className="font-medium">{result.symbol}</div>
+                      <div className="text-xs text-cool-gray">
+                        {result.name}
+                      </div>
+                    </TableCell>
+                    {BASE_COLUMNS.map((column) => (
+                      <TableCell
+                        key={column.key}
+                        className={`text-right font-mono ${
+                          column.key === "change24h"
+                            ? result.change24h >= 0
+                              ? "text-emerald"
+                              : "text-red-400"
+                            : ""
+                        }`}
+                      >
+                        {column.key === "marketCap"
+                          ? formatCompact(result.marketCap)
+                          : formatValue(
+                              getValue(result, column.key),
+                              column.key
+                            )}
+                      </TableCell>
+                    ))}
+                    {metricColumns.map((key) => (
+                      <TableCell key={key} className="text-right font-mono">
+                        {formatValue(getValue(result, key), key)}
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      {result.sentiment ? (
+                        <Badge
+                          variant={
+                            result.sentiment.label === "negative"
+                              ? "destructive"
+                              : "default"
+                          }
+                        >
+                          {result.sentiment.label} · {result.sentiment.articles}
+                        </Badge>
+                      ) : (
+                        <span className="text-cool-gray">—</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-cool-gray text-sm">
+              Run a screen to see matching coins.
+            </p>
+          )}
+        </GlassCard>
+      </div>
+    </div>
+  );
+}
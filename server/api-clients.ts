@@ -1,5 +1,8 @@
 import fetch from "node-fetch";
 import { getEnvVar } from "./config/env-validator";
+import { symbolRegistry } from "./services/symbol-registry";
+import { UpstreamHttpError } from "./utils/errors";
+import type { FearGreedReading } from "../shared/types/market-stats";
 
 // ===== COINGECKO CLIENT =====
 class CoinGeckoClient {
@@ -25,7 +28,10 @@ class CoinGeckoClient {
       clearTimeout(timeoutId);
 
       if (!response.ok) {
-        throw new Error(`CoinGecko API error: ${response.status}`);
+        throw new UpstreamHttpError(
+          `CoinGecko API error: ${response.status}`,
+          response.status
+        );
       }
 
       const data = await response.json();
@@ -48,6 +54,89 @@ class CoinGeckoClient {
     }
   }
 
+  async getCoinMarkets(page: number = 1, perPage: number = 250) {
+    try {
+      console.log(`Fetching coin list page ${page} from CoinGecko...`);
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 10000);
+
+      const response = await fetch(
+        `${this.baseUrl}/coins/markets?vs_currency=usd&order=market_cap_desc&per_page=${perPage}&page=${page}&sparkline=false`,
+        {
+          headers: {
+            "User-Agent": "TradingApp/1.0",
+          },
+          signal: controller.signal,
+        }
+      );
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        throw new UpstreamHttpError(
+          `CoinGecko coin list error: ${response.status}`,
+          response.status
+        );
+      }
+
+      const data = await response.json();
+
+      return Array.isArray(data)
+        ? data.map((coin: any) => ({
+            id: coin.id as string,
+            symbol: (coin.symbol as string).toUpperCase(),
+            name: coin.name as string,
+            price: coin.current_price ?? undefined,
+            circulatingSupply: coin.circulating_supply ?? undefined,
+            marketCapRank: coin.market_cap_rank ?? undefined,
+          }))
+        : [];
+    } catch (error) {
+      console.error("CoinGecko coin list error:", error);
+      throw error;
+    }
+  }
+
+  // BTC-denominated rates for fiat currencies and major assets
+  async getExchangeRates() {
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 5000);
+
+      const response = await fetch(`${this.baseUrl}/exchange_rates`, {
+        headers: {
+          "User-Agent": "TradingApp/1.0",
+        },
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        throw new Error(`CoinGecko exchange rates error: ${response.status}`);
+      }
+
+      const data = (await response.json()) as any;
+      const rates: Record<
+        string,
+        { name: string; value: number; type: "fiat" | "crypto" | "commodity" }
+      > = {};
+
+      for (const [code, rate] of Object.entries<any>(data.rates || {})) {
+        rates[code.toUpperCase()] = {
+          name: rate.name,
+          value: rate.value,
+          type: rate.type,
+        };
+      }
+
+      return rates;
+    } catch (error) {
+      console.error("CoinGecko exchange rates error:", error);
+      throw error;
+    }
+  }
+
   async getMarketStats() {
     try {
       const controller = new AbortController();
@@ -100,7 +189,10 @@ class CoinGeckoClient {
       clearTimeout(timeoutId);
 
       if (!response.ok) {
-        throw new Error(`CoinGecko OHLC error: ${response.status}`);
+        throw new UpstreamHttpError(
+          `CoinGecko OHLC error: ${response.status}`,
+          response.status
+        );
       }
 
       const data = await response.json();
@@ -121,29 +213,8 @@ class CoinGeckoClient {
     }
   }
 
-  // Convert symbol to CoinGecko ID
-  private getCoinGeckoId(symbol: string): string {
-    const symbolMap: Record<string, string> = {
-      BTC: "bitcoin",
-      ETH: "ethereum", 
-      BNB: "binancecoin",
-      SOL: "solana",
-      XRP: "ripple",
-      DOGE: "dogecoin",
-      ADA: "cardano",
-      MATIC: "matic-network",
-      DOT: "polkadot",
-      AVAX: "avalanche-2",
-      LINK: "chainlink",
-      UNI: "uniswap",
-      LTC: "litecoin",
-      BCH: "bitcoin-cash",
-    };
-    return symbolMap[symbol.toUpperCase()] || symbol.toLowerCase();
-  }
-
   getCoinIdFromSymbol(symbol: string): string {
-    return this.getCoinGeckoId(symbol);
+    return symbolRegistry.getCoinGeckoId(symbol);
   }
 }
 
@@ -210,8 +281,9 @@ class BinanceClient {
       clearTimeout(timeoutId);
 
       if (!response.ok) {
-        throw new Error(
-          `Binance API error: ${response.status} ${response.statusText}`
+        throw new UpstreamHttpError(
+          `Binance API error: ${response.status} ${response.statusText}`,
+          response.status
         );
       }
 
@@ -227,11 +299,15 @@ class BinanceClient {
             .slice(0, limit)
             .map((coin) => ({
               symbol: coin.symbol.replace("USDT", ""),
-              name: this.getCoinName(coin.symbol.replace("USDT", "")),
+              name: symbolRegistry.getName(coin.symbol.replace("USDT", "")),
               price: parseFloat(coin.lastPrice),
               priceChangePercent24h: parseFloat(coin.priceChangePercent),
               volume24h: parseFloat(coin.quoteVolume),
-              marketCap: parseFloat(coin.lastPrice) * parseFloat(coin.volume), // Approximation
+              marketCap:
+                symbolRegistry.getMarketCap(
+                  coin.symbol.replace("USDT", ""),
+                  parseFloat(coin.lastPrice)
+                ) ?? parseFloat(coin.lastPrice) * parseFloat(coin.volume), // Approximation without supply data
               high24h: parseFloat(coin.highPrice),
               low24h: parseFloat(coin.lowPrice),
             }))
@@ -239,48 +315,6 @@ class BinanceClient {
     });
   }
 
-  async getMarketStats() {
-    return this.tryEndpoints(async (baseUrl: string) => {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000);
-
-      const response = await fetch(`${baseUrl}/api/v3/ticker/24hr`, {
-        headers: {
-          "X-MBX-APIKEY": this.apiKey,
-          "User-Agent": "TradingApp/1.0",
-        },
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new Error(`Binance API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const usdtPairs = Array.isArray(data)
-        ? data.filter((coin) => coin.symbol.endsWith("USDT"))
-        : [];
-
-      return {
-        totalMarketCap: usdtPairs.reduce(
-          (sum, coin) =>
-            sum + parseFloat(coin.lastPrice) * parseFloat(coin.volume),
-          0
-        ),
-        total24hVolume: usdtPairs.reduce(
-          (sum, coin) => sum + parseFloat(coin.quoteVolume),
-          0
-        ),
-        totalCoins: usdtPairs.length,
-        activeTradingPairs: usdtPairs.filter(
-          (coin) => parseFloat(coin.volume) > 0
-        ).length,
-      };
-    });
-  }
-
   async getKlines({
     symbol,
     interval = "1h",
@@ -315,22 +349,6 @@ class BinanceClient {
     });
   }
 
-  private getCoinName(symbol: string): string {
-    const coinNames: Record<string, string> = {
-      BTC: "Bitcoin",
-      ETH: "Ethereum",
-      BNB: "BNB",
-      SOL: "Solana",
-      XRP: "XRP",
-      DOGE: "Dogecoin",
-      ADA: "Cardano",
-      MATIC: "Polygon",
-      DOT: "Polkadot",
-      AVAX: "Avalanche",
-    };
-    return coinNames[symbol] || symbol;
-  }
-
   private getFallbackMarketData() {
     return [
       {
@@ -367,6 +385,79 @@ class BinanceClient {
   }
 }
 
+// ===== FEAR & GREED CLIENT =====
+class FearGreedClient {
+  private baseUrl: string = "https://api.alternative.me";
+
+  async getIndex() {
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 5000);
+
+      const response = await fetch(`${this.baseUrl}/fng/?limit=1`, {
+        headers: {
+          "User-Agent": "TradingApp/1.0",
+        },
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        throw new Error(`Fear & Greed API error: ${response.status}`);
+      }
+
+      const data = (await response.json()) as any;
+      const latest = data.data?.[0];
+      if (!latest) {
+        throw new Error("Fear & Greed API returned no data");
+      }
+
+      return {
+        value: parseInt(latest.value, 10),
+        classification: latest.value_classification as string,
+        timestamp: new Date(parseInt(latest.timestamp, 10) * 1000).toISOString(),
+      };
+    } catch (error) {
+      console.error("Fear & Greed API error:", error);
+      throw error;
+    }
+  }
+
+  // Every daily reading since the index started in 2018, oldest first
+  async getHistory(): Promise<FearGreedReading[]> {
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 10000);
+
+      const response = await fetch(`${this.baseUrl}/fng/?limit=0`, {
+        headers: {
+          "User-Agent": "TradingApp/1.0",
+        },
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        throw new Error(`Fear & Greed API error: ${response.status}`);
+      }
+
+      const data = (await response.json()) as any;
+      return (Array.isArray(data.data) ? data.data : [])
+        .map((reading: any) => ({
+          time: parseInt(reading.timestamp, 10) * 1000,
+          value: parseInt(reading.value, 10),
+          classification: reading.value_classification as string,
+        }))
+        .sort((a: FearGreedReading, b: FearGreedReading) => a.time - b.time);
+    } catch (error) {
+      console.error("Fear & Greed history error:", error);
+      throw error;
+    }
+  }
+}
+
 // ===== NEWS CLIENT =====
 class NewsClient {
   private apiKey: string;
@@ -857,6 +948,7 @@ class AIClient {
 // Export instances
 export const coinGeckoClient = new CoinGeckoClient();
 export const binanceClient = new BinanceClient();
+export const fearGreedClient = new FearGreedClient();
 export const newsClient = new NewsClient();
 export const sentimentClient = new SentimentClient();
 export const twitterClient = new TwitterClient();
@@ -209,6 +209,7 @@ export const AI_ENSEMBLE_CONFIG: AIEnsembleConfig = {
       costPerRequest: 0.0005,
       strengths: [
         "price_pattern_recognition",
+        "candlestick_patterns",
         "volume_analysis",
         "trend_identification",
         "support_resistance",
@@ -0,0 +1,134 @@
+import { AssetMetadata } from "../types/symbols";
+
+/**
+ * Bootstrap metadata for major assets, used until the symbol registry has
+ * synced from the exchanges (or when it cannot reach them). Supplies and
+ * reference prices are rough values and are replaced by the first sync.
+ */
+export const SEED_ASSETS: AssetMetadata[] = [
+  {
+    symbol: "BTC",
+    name: "Bitcoin",
+    providerIds: { coingecko: "bitcoin" },
+    circulatingSupply: 19800000,
+    referencePrice: 65000,
+  },
+  {
+    symbol: "ETH",
+    name: "Ethereum",
+    providerIds: { coingecko: "ethereum" },
+    circulatingSupply: 120000000,
+    referencePrice: 3500,
+  },
+  {
+    symbol: "BNB",
+    name: "BNB",
+    providerIds: { coingecko: "binancecoin" },
+    circulatingSupply: 160000000,
+    referencePrice: 550,
+  },
+  {
+    symbol: "SOL",
+    name: "Solana",
+    providerIds: { coingecko: "solana" },
+    circulatingSupply: 400000000,
+    referencePrice: 180,
+  },
+  {
+    symbol: "XRP",
+    name: "XRP",
+    providerIds: { coingecko: "ripple" },
+    circulatingSupply: 50000000000,
+    referencePrice: 0.65,
+  },
+  {
+    symbol: "DOGE",
+    name: "Dogecoin",
+    providerIds: { coingecko: "dogecoin" },
+    circulatingSupply: 130000000000,
+    referencePrice: 0.18,
+  },
+  {
+    symbol: "ADA",
+    name: "Cardano",
+    providerIds: { coingecko: "cardano" },
+    circulatingSupply: 35000000000,
+    referencePrice: 0.55,
+  },
+  {
+    symbol: "MATIC",
+    name: "Polygon",
+    providerIds: { coingecko: "matic-network" },
+    circulatingSupply: 8000000000,
+    referencePrice: 0.92,
+  },
+  {
+    symbol: "DOT",
+    name: "Polkadot",
+    providerIds: { coingecko: "polkadot" },
+    circulatingSupply: 1400000000,
+    referencePrice: 8.5,
+  },
+  {
+    symbol: "AVAX",
+    name: "Avalanche",
+    providerIds: { coingecko: "avalanche-2" },
+    circulatingSupply: 300000000,
+    referencePrice: 42,
+  },
+  {
+    symbol: "LINK",
+    name: "Chainlink",
+    providerIds: { coingecko: "chainlink" },
+    circulatingSupply: 540000000,
+  },
+  {
+    symbol: "UNI",
+    name: "Uniswap",
+    providerIds: { coingecko: "uniswap" },
+    circulatingSupply: 1000000000,
+  },
+  {
+    symbol: "LTC",
+    name: "Litecoin",
+    providerIds: { coingecko: "litecoin" },
+    circulatingSupply: 75000000,
+  },
+  {
+    symbol: "BCH",
+    name: "Bitcoin Cash",
+    providerIds: { coingecko: "bitcoin-cash" },
+    circulatingSupply: 19800000,
+  },
+  {
+    symbol: "XLM",
+    name: "Stellar",
+    providerIds: { coingecko: "stellar" },
+    circulatingSupply: 29000000000,
+  },
+  {
+    symbol: "TRX",
+    name: "Tron",
+    providerIds: { coingecko: "tron" },
+    circulatingSupply: 100000000000,
+  },
+  {
+    symbol: "ATOM",
+    name: "Cosmos",
+    providerIds: { coingecko: "cosmos" },
+    circulatingSupply: 250000000,
+  },
+  {
+    symbol: "XMR",
+    name: "Monero",
+    providerIds: { coingecko: "monero" },
+    circulatingSupply: 18000000,
+  },
+  {
+    symbol: "USDT",
+    name: "Tether",
+    providerIds: { coingecko: "tether" },
+    circulatingSupply: 70000000000,
+    referencePrice: 1,
+  },
+];
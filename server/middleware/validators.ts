@@ -1,26 +1,19 @@
 import { Request, Response, NextFunction } from "express";
 import { CustomAPIError } from "../utils/errors";
-
-const SUPPORTED_INTERVALS = [
-  "1m",
-  "3m",
-  "5m",
-  "15m",
-  "30m",
-  "1h",
-  "2h",
-  "4h",
-  "6h",
-  "8h",
-  "12h",
-  "1d",
-  "3d",
-  "1w",
-  "1M",
-];
+import {
+  INTERVAL_MS,
+  isValidInterval,
+  parseTimestamp,
+} from "../utils/intervals";
+import { parseIndicatorSpec } from "../services/indicator-series";
+import { EXPORT_FORMATS } from "../services/market-export";
+import { DIVERGENCE_OSCILLATORS } from "../services/divergences";
 
 const MAX_LIMIT = 1000;
 
+// Session offsets must stay within a day, in minutes
+const MAX_OFFSET_MINUTES = 1439;
+
 export function validateSymbol(
   req: Request,
   res: Response,
@@ -32,32 +25,69 @@ export function validateSymbol(
     throw new CustomAPIError("Symbol is required", 400, "VALIDATION_ERROR");
   }
 
-  // Basic symbol validation
-  if (!/^[A-Za-z0-9]{2,10}$/.test(symbol)) {
+  // Asset or pair, optionally separated (e.g. BTC, ETHBTC, ETH-BTC, SOL/USDC)
+  if (!/^[A-Za-z0-9]{2,10}([-/_:][A-Za-z0-9]{2,10})?$/.test(symbol)) {
     throw new CustomAPIError("Invalid symbol format", 400, "VALIDATION_ERROR");
   }
 
   next();
 }
 
+export function validateCurrency(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const { currency } = req.query;
+
+  // Display currency, either fiat (USD, EUR, NGN) or an asset (BTC)
+  if (
+    currency !== undefined &&
+    (typeof currency !== "string" || !/^[A-Za-z0-9]{2,10}$/.test(currency))
+  ) {
+    throw new CustomAPIError(
+      "Invalid currency format",
+      400,
+      "VALIDATION_ERROR"
+    );
+  }
+
+  next();
+}
+
 export function validateKlinesParams(
   req: Request,
   res: Response,
   next: NextFunction
 ) {
-  const { interval, limit } = req.query;
+  const { interval, limit, offset } = req.query;
 
-  // Validate interval
-  if (interval && !SUPPORTED_INTERVALS.includes(interval as string)) {
+  // Validate interval, native or custom (e.g. 90m, 2h, 10d)
+  if (interval && !isValidInterval(interval as string)) {
     throw new CustomAPIError(
-      `Invalid interval. Supported intervals: ${SUPPORTED_INTERVALS.join(
+      `Invalid interval. Supported intervals: ${Object.keys(INTERVAL_MS).join(
         ", "
-      )}`,
+      )}, or custom intervals such as 90m, 2h or 10d`,
       400,
       "VALIDATION_ERROR"
     );
   }
 
+  // Validate session offset in minutes
+  if (offset !== undefined) {
+    const parsedOffset = Number(offset);
+    if (
+      !Number.isInteger(parsedOffset) ||
+      Math.abs(parsedOffset) > MAX_OFFSET_MINUTES
+    ) {
+      throw new CustomAPIError(
+        `Offset must be a whole number of minutes between -${MAX_OFFSET_MINUTES} and ${MAX_OFFSET_MINUTES}`,
+        400,
+        "VALIDATION_ERROR"
+      );
+    }
+  }
+
   // Validate limit
   if (limit) {
     const parsedLimit = parseInt(limit as string, 10);
@@ -94,3 +124,315 @@ export function validateOrderBookParams(
 
   next();
 }
+
+const MAX_NOTIONALS = 10;
+
+export function validateOrderBookAnalyticsParams(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const { notional, side } = req.query;
+
+  // Validate notional, a comma separated list of order sizes
+  if (notional !== undefined) {
+    const values = String(notional).split(",");
+    if (
+      values.length > MAX_NOTIONALS ||
+      values.some((value) => {
+        const parsed = Number(value);
+        return !Number.isFinite(parsed) || parsed <= 0;
+      })
+    ) {
+      throw new CustomAPIError(
+        `Notional must be up to ${MAX_NOTIONALS} comma separated positive numbers`,
+        400,
+        "VALIDATION_ERROR"
+      );
+    }
+  }
+
+  // Validate side
+  if (side !== undefined && side !== "buy" && side !== "sell") {
+    throw new CustomAPIError(
+      "Side must be buy or sell",
+      400,
+      "VALIDATION_ERROR"
+    );
+  }
+
+  next();
+}
+
+// Market stats history is kept for a week
+const MAX_HISTORY_HOURS = 168;
+
+export function validateMarketStatsParams(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const { history } = req.query;
+
+  // Validate history window, in hours
+  if (history !== undefined) {
+    const hours = Number(history);
+    if (!Number.isInteger(hours) || hours < 1 || hours > MAX_HISTORY_HOURS) {
+      throw new CustomAPIError(
+        `History must be between 1 and ${MAX_HISTORY_HOURS} hours`,
+        400,
+        "VALIDATION_ERROR"
+      );
+    }
+  }
+
+  next();
+}
+
+export function validateExportParams(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const { interval, format, start, end, indicators, offset, sentiment } =
+    req.query;
+
+  // Validate interval, native or custom (e.g. 90m, 2h, 10d)
+  if (interval && !isValidInterval(interval as string)) {
+    throw new CustomAPIError(
+      `Invalid interval. Supported intervals: ${Object.keys(INTERVAL_MS).join(
+        ", "
+      )}, or custom intervals such as 90m, 2h or 10d`,
+      400,
+      "VALIDATION_ERROR"
+    );
+  }
+
+  // Validate format
+  if (
+    format !== undefined &&
+    !EXPORT_FORMATS.includes(String(format) as (typeof EXPORT_FORMATS)[number])
+  ) {
+    throw new CustomAPIError(
+      `Format must be one of: ${EXPORT_FORMATS.join(", ")}`,
+      400,
+      "VALIDATION_ERROR"
+    );
+  }
+
+  // Validate range, epoch milliseconds or ISO 8601 dates
+  const startTime = start !== undefined ? parseTimestamp(String(start)) : 0;
+  const endTime =
+    end !== undefined ? parseTimestamp(String(end)) : Number.MAX_SAFE_INTEGER;
+  if (startTime === null || endTime === null) {
+    throw new CustomAPIError(
+      "Start and end must be epoch milliseconds or ISO 8601 dates",
+      400,
+      "VALIDATION_ERROR"
+    );
+  }
+  if (startTime > endTime) {
+    throw new CustomAPIError(
+      "Start must be before end",
+      400,
+      "VALIDATION_ERROR"
+    );
+  }
+
+  // Validate session offset in minutes
+  if (offset !== undefined) {
+    const parsedOffset = Number(offset);
+    if (
+      !Number.isInteger(parsedOffset) ||
+      Math.abs(parsedOffset) > MAX_OFFSET_MINUTES
+    ) {
+      throw new CustomAPIError(
+        `Offset must be a whole number of minutes between -${MAX_OFFSET_MINUTES} and ${MAX_OFFSET_MINUTES}`,
+        400,
+        "VALIDATION_ERROR"
+      );
+    }
+  }
+
+  // Validate sentiment flag
+  if (
+    sentiment !== undefined &&
+    sentiment !== "true" &&
+    sentiment !== "false"
+  ) {
+    throw new CustomAPIError(
+      "Sentiment must be true or false",
+      400,
+      "VALIDATION_ERROR"
+    );
+  }
+
+  // Validate indicator spec, e.g. rsi:14,ema:50
+  if (indicators !== undefined) {
+    parseIndicatorSpec(String(indicators));
+  }
+
+  next();
+}
+
+export function validateIndicatorParams(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const { spec } = req.query;
+
+  // Validate indicator spec, e.g. rsi:14,ema:50,bb:20:2
+  if (typeof spec !== "string" || !spec.trim()) {
+    throw new CustomAPIError(
+      "Indicator spec is required, e.g. spec=rsi:14,ema:50",
+      400,
+      "VALIDATION_ERROR"
+    );
+  }
+  parseIndicatorSpec(spec);
+
+  next();
+}
+
+export function validatePatternParams(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const { minStrength } = req.query;
+
+  // Validate minimum pattern strength
+  if (minStrength !== undefined) {
+    const parsed = Number(minStrength);
+    if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+      throw new CustomAPIError(
+        "minStrength must be a number from 0 to 1",
+        400,
+        "VALIDATION_ERROR"
+      );
+    }
+  }
+
+  next();
+}
+
+export function validateLevelParams(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const { pivotStrength } = req.query;
+
+  // Validate candles on each side of a swing high or low
+  if (pivotStrength !== undefined) {
+    const parsed = Number(pivotStrength);
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > 10) {
+      throw new CustomAPIError(
+        "pivotStrength must be an integer from 1 to 10",
+        400,
+        "VALIDATION_ERROR"
+      );
+    }
+  }
+
+  next();
+}
+
+// Most intervals a confluence report compares
+const MAX_CONFLUENCE_INTERVALS = 6;
+
+export function validateConfluenceParams(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const { intervals } = req.query;
+
+  // Validate comma separated intervals, e.g. 15m,1h,4h,1d
+  if (intervals !== undefined) {
+    const list = String(intervals)
+      .split(",")
+      .map((interval) => interval.trim())
+      .filter(Boolean);
+    if (!list.length || list.length > MAX_CONFLUENCE_INTERVALS) {
+      throw new CustomAPIError(
+        `intervals must list 1 to ${MAX_CONFLUENCE_INTERVALS} intervals`,
+        400,
+        "VALIDATION_ERROR"
+      );
+    }
+    const invalid = list.find((interval) => !isValidInterval(interval));
+    if (invalid) {
+      throw new CustomAPIError(
+        `Invalid interval in intervals: ${invalid}`,
+        400,
+        "VALIDATION_ERROR"
+      );
+    }
+    if (new Set(list).size !== list.length) {
+      throw new CustomAPIError(
+        "intervals must not repeat an interval",
+        400,
+        "VALIDATION_ERROR"
+      );
+    }
+  }
+
+  next();
+}
+
+export function validateDivergenceParams(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const { oscillators, lookback, minStrength } = req.query;
+
+  // Validate comma separated oscillators, e.g. rsi,macd
+  if (oscillators !== undefined) {
+    const list = String(oscillators)
+      .split(",")
+      .map((oscillator) => oscillator.trim());
+    if (
+      list.some(
+        (oscillator) =>
+          !(DIVERGENCE_OSCILLATORS as string[]).includes(oscillator)
+      )
+    ) {
+      throw new CustomAPIError(
+        `Invalid oscillator. Supported oscillators: ${DIVERGENCE_OSCILLATORS.join(
+          ", "
+        )}`,
+        400,
+        "VALIDATION_ERROR"
+      );
+    }
+  }
+
+  // Validate candles searched for divergences
+  if (lookback !== undefined) {
+    const parsed = Number(lookback);
+    if (!Number.isInteger(parsed) || parsed < 10 || parsed > MAX_LIMIT) {
+      throw new CustomAPIError(
+        `lookback must be an integer from 10 to ${MAX_LIMIT}`,
+        400,
+        "VALIDATION_ERROR"
+      );
+    }
+  }
+
+  // Validate minimum divergence strength
+  if (minStrength !== undefined) {
+    const parsed = Number(minStrength);
+    if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+      throw new CustomAPIError(
+        "minStrength must be a number from 0 to 1",
+        400,
+        "VALIDATION_ERROR"
+      );
+    }
+  }
+
+  next();
+}
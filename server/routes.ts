@@ -5,6 +5,13 @@ import { insertChatHistorySchema, ChatMessage } from "@shared/schema";
 import newsRoutes from "./routes/news";
 import chatRoutes from "./routes/chat";
 import marketRoutes from "./routes/market";
+import streamRoutes from "./routes/stream";
+import screenerRoutes from "./routes/screener";
+import backtestRoutes from "./routes/backtest";
+import strategyRoutes from "./routes/strategies";
+import paperTradingRoutes from "./routes/paper-trading";
+import investmentRoutes from "./routes/investment";
+import portfolioRoutes from "./routes/portfolio";
 
 // Simple in-memory cache
 class SimpleCache {
@@ -55,42 +62,28 @@ import {
 } from "@shared/types/market-analysis";
 import { randomUUID } from "crypto";
 import {
-  binanceClient,
-  coinGeckoClient,
   newsClient,
   sentimentClient,
   twitterClient,
   aiClient,
 } from "./api-clients";
+import { calculateRSI, calculateSMA } from "./utils/technical-indicators";
 import { determineMessageIntent } from "./utils/message-intent";
 import { callGeminiAPI, generateChatPrompt } from "./services/gemini-service";
 import { generateMarketAnalysis } from "./services/market-analysis-service";
+import { getKlines } from "./services/market-service";
+import { exchangeRegistry } from "./services/exchanges/exchange-registry";
+import { symbolRegistry } from "./services/symbol-registry";
+import { currencyService } from "./services/currency-service";
+import { marketStatsService } from "./services/market-stats-service";
+import { ValidationError } from "./utils/errors";
 
 // Helper functions for fallback data
 function getBasePriceForSymbol(symbol: string): number {
-  const prices: Record<string, number> = {
-    BTC: 65000,
-    BTCUSDT: 65000,
-    ETH: 3500,
-    ETHUSDT: 3500,
-    BNB: 550,
-    BNBUSDT: 550,
-    SOL: 180,
-    SOLUSDT: 180,
-    XRP: 0.65,
-    XRPUSDT: 0.65,
-    DOGE: 0.18,
-    DOGEUSDT: 0.18,
-    ADA: 0.55,
-    ADAUSDT: 0.55,
-    MATIC: 0.92,
-    MATICUSDT: 0.92,
-    DOT: 8.5,
-    DOTUSDT: 8.5,
-    AVAX: 42,
-    AVAXUSDT: 42,
-  };
-  return prices[symbol.toUpperCase()] || 100;
+  return (
+    symbolRegistry.getReferencePrice(symbolRegistry.resolveBaseAsset(symbol)) ??
+    100
+  );
 }
 
 function generateSampleCandles(
@@ -244,14 +237,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     "/api/market",
     cacheMiddleware(180000), // 3 minutes cache
     asyncHandler(async (req, res) => {
-      console.log("Fetching real market data from Binance...");
+      console.log("Fetching real market data...");
+
+      const currency =
+        typeof req.query.currency === "string"
+          ? req.query.currency.toUpperCase()
+          : "USD";
+      if (!/^[A-Z0-9]{2,10}$/.test(currency)) {
+        throw new CustomAPIError(
+          "Invalid currency format",
+          400,
+          "INVALID_REQUEST"
+        );
+      }
+      const conversionRate = await currencyService
+        .getRate("USDT", currency)
+        .catch((error) => {
+          throw new CustomAPIError(
+            `Unable to convert prices to ${currency}`,
+            error instanceof ValidationError ? 400 : 503,
+            "CURRENCY_UNAVAILABLE",
+            { currency }
+          );
+        });
 
       try {
         const startTime = Date.now();
-        const [realMarketData, realMarketStats] = await Promise.all([
-          binanceClient.getTopCryptocurrencies(20),
-          binanceClient.getMarketStats(),
+        const [tickers, realMarketStats] = await Promise.all([
+          exchangeRegistry.getTickers({ limit: 20 }),
+          marketStatsService.getGlobalStats(),
         ]);
+        const realMarketData = tickers.data.map((ticker) => ({
+          ...ticker,
+          price: ticker.price * conversionRate,
+          priceChange24h: ticker.priceChange24h * conversionRate,
+          volume24h: ticker.volume24h * conversionRate,
+          high24h: ticker.high24h * conversionRate,
+          low24h: ticker.low24h * conversionRate,
+          marketCap: ticker.marketCap * conversionRate,
+        }));
 
         const duration = Date.now() - startTime;
         console.log(`Market data fetched in ${duration}ms`);
@@ -268,8 +292,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           success: true,
           data: {
             coins: realMarketData,
-            stats: realMarketStats,
-            dataSource: "Real-time market data",
+            stats: {
+              ...realMarketStats,
+              totalMarketCap: realMarketStats.totalMarketCap * conversionRate,
+              totalVolume24h: realMarketStats.totalVolume24h * conversionRate,
+            },
+            currency,
+            conversionRate,
+            dataSource: `Real-time market data (${tickers.source})`,
             lastUpdated: new Date().toISOString(),
             responseTime: duration,
           },
@@ -294,6 +324,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             data: {
               coins: fallbackData,
               stats: fallbackStats,
+              currency: "USD",
               dataSource: "Fallback data",
               lastUpdated: new Date().toISOString(),
             },
@@ -328,20 +359,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       try {
-        const candleData = (await binanceClient.getKlines({
-          symbol: symbol as string,
-          interval: interval as string,
-          limit: parseInt(limit as string),
-        })) as [number, string, string, string, string, string][];
-
-        const candles = candleData.map((candle) => ({
-          time: candle[0],
-          open: parseFloat(candle[1]),
-          high: parseFloat(candle[2]),
-          low: parseFloat(candle[3]),
-          close: parseFloat(candle[4]),
-          volume: parseFloat(candle[5]),
-        }));
+        // Served from the local candle store, backfilled from Binance
+        const candles = await getKlines(
+          symbol as string,
+          interval as string,
+          parseInt(limit as string)
+        );
 
         const closePrices = candles.map((c) => c.close);
 
@@ -429,15 +452,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       try {
         // Get market data for the specific coin
-        let marketData, coin;
-        try {
-          marketData = await binanceClient.getTopCryptocurrencies();
-          coin = marketData.find((c) => c.symbol === symbol);
-        } catch (binanceError) {
-          // Use CoinGecko as fallback when Binance API is unavailable
-          marketData = await coinGeckoClient.getTopCryptocurrencies();
-          coin = marketData.find((c) => c.symbol === symbol);
-        }
+        const { data: marketData } = await exchangeRegistry.getTickers();
+        const coin = marketData.find((c) => c.symbol === symbol);
 
         if (!coin) {
           throw new CustomAPIError(
@@ -448,7 +464,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Generate market analysis
-        const analysis = await generateMarketAnalysis(coin);
+        const analysis = await generateMarketAnalysis({
+          symbol: coin.symbol,
+          name: coin.name,
+          price: String(coin.price),
+          priceChangePercent24h: String(coin.priceChangePercent24h),
+          volume24h: String(coin.volume24h),
+          marketCap: String(coin.marketCap),
+        });
 
         res.json({
           success: true,
@@ -641,7 +664,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post(
     "/api/investment-analysis",
     asyncHandler(async (req, res) => {
-      const { amount, timeframe, riskLevel } = req.body;
+      const {
+        amount,
+        timeframe,
+        riskLevel,
+        currency = "USD",
+        simulation = "bootstrap",
+      } = req.body;
 
       if (!amount || typeof amount !== "number" || amount <= 0) {
         throw new CustomAPIError(
@@ -664,12 +693,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
         );
       }
 
+      if (
+        typeof currency !== "string" ||
+        !/^[A-Za-z0-9]{2,10}$/.test(currency)
+      ) {
+        throw new CustomAPIError(
+          "Valid currency is required",
+          400,
+          "INVALID_REQUEST",
+          {
+            details: "Currency must be a code such as USD, EUR, NGN or BTC",
+          }
+        );
+      }
+
+      if (simulation !== "bootstrap" && simulation !== "gbm") {
+        throw new CustomAPIError(
+          "Valid simulation method is required",
+          400,
+          "INVALID_REQUEST",
+          { details: "Simulation must be bootstrap or gbm" }
+        );
+      }
+
       try {
         const response =
           await investmentAnalysisService.analyzeInvestmentOptions(
             amount,
             timeframe,
-            req.body.preferences
+            req.body.preferences,
+            currency.toUpperCase(),
+            simulation
           );
 
         res.json({
@@ -711,9 +765,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         let marketContext;
 
         try {
-          const [marketData, marketStats] = await Promise.all([
-            binanceClient.getTopCryptocurrencies(),
-            binanceClient.getMarketStats(),
+          const [{ data: marketData }, marketStats] = await Promise.all([
+            exchangeRegistry.getTickers(),
+            marketStatsService.getGlobalStats(),
           ]);
 
           marketContext = {
@@ -792,6 +846,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use("/api", newsRoutes);
   app.use("/api/chat", chatRoutes);
   app.use("/api/market", marketRoutes);
+  app.use("/api/stream", streamRoutes);
+  app.use("/api/screener", screenerRoutes);
+  app.use("/api/backtest", backtestRoutes);
+  app.use("/api/strategies", strategyRoutes);
+  app.use("/api/paper", paperTradingRoutes);
+  app.use("/api/investment-analysis", investmentRoutes);
+  app.use("/api/portfolios", portfolioRoutes);
+
+  // Record global market stats so history is available from startup
+  marketStatsService.startSampling();
 
   // Register error handling middleware last
   app.use(errorHandler);
@@ -799,51 +863,3 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   return httpServer;
 }
-
-// Helper functions for market analysis
-function calculateSMA(prices: number[], period: number): number[] {
-  const sma: number[] = [];
-  for (let i = 0; i < prices.length; i++) {
-    if (i < period - 1) {
-      sma.push(prices[i]);
-      continue;
-    }
-    const sum = prices.slice(i - period + 1, i + 1).reduce((a, b) => a + b, 0);
-    sma.push(sum / period);
-  }
-  return sma;
-}
-
-function calculateRSI(prices: number[], period: number = 14): number[] {
-  if (prices.length < period + 1) {
-    return new Array(prices.length).fill(50);
-  }
-
-  const gains: number[] = [];
-  const losses: number[] = [];
-
-  for (let i = 1; i < prices.length; i++) {
-    const difference = prices[i] - prices[i - 1];
-    gains.push(difference > 0 ? difference : 0);
-    losses.push(difference < 0 ? -difference : 0);
-  }
-
-  const rsi: number[] = [];
-  let avgGain = gains.slice(0, period).reduce((a, b) => a + b) / period;
-  let avgLoss = losses.slice(0, period).reduce((a, b) => a + b) / period;
-
-  rsi.push(100 - 100 / (1 + avgGain / avgLoss));
-
-  for (let i = period; i < gains.length; i++) {
-    avgGain = (avgGain * (period - 1) + gains[i]) / period;
-    avgLoss = (avgLoss * (period - 1) + losses[i]) / period;
-
-    if (avgLoss === 0) {
-      rsi.push(100);
-    } else {
-      rsi.push(100 - 100 / (1 + avgGain / avgLoss));
-    }
-  }
-
-  return [...new Array(period).fill(50), ...rsi];
-}
@@ -0,0 +1,77 @@
+import { Router, Request, Response } from "express";
+import {
+  backtestRequestSchema,
+  optimizationRequestSchema,
+} from "../../shared/schema";
+import { backtestService } from "../services/backtest-service";
+import { optimizationService } from "../services/optimization-service";
+import { CustomAPIError, ValidationError } from "../utils/errors";
+import { ApiResponse } from "../types/market";
+
+const router = Router();
+
+function sendData<T>(res: Response, data: T) {
+  const response: ApiResponse<T> = {
+    success: true,
+    data,
+    timestamp: new Date().toISOString(),
+  };
+  res.json(response);
+}
+
+// The caller's account, from the query string or the body
+function getUserId(req: Request): string | undefined {
+  const userId = req.query.userId ?? req.body?.userId;
+  return typeof userId === "string" && userId ? userId : undefined;
+}
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  res.status(error instanceof CustomAPIError ? error.statusCode : 503).json({
+    success: false,
+    error: error instanceof Error ? error.message : fallback,
+    ...(error instanceof CustomAPIError && error.details
+      ? { details: error.details }
+      : {}),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+// Run a strategy over stored candles
+router.post("/", async (req, res) => {
+  try {
+    const result = backtestRequestSchema.safeParse(req.body);
+    if (!result.success) {
+      throw new ValidationError("Invalid backtest request", {
+        issues: result.error.issues.map((issue) => ({
+          path: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+    sendData(res, await backtestService.run(result.data, getUserId(req)));
+  } catch (error) {
+    console.error("Backtest error:", error);
+    sendError(res, error, "Failed to run backtest");
+  }
+});
+
+// Sweep strategy parameters over stored candles, optionally walk-forward
+router.post("/optimize", async (req, res) => {
+  try {
+    const result = optimizationRequestSchema.safeParse(req.body);
+    if (!result.success) {
+      throw new ValidationError("Invalid optimization request", {
+        issues: result.error.issues.map((issue) => ({
+          path: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+    sendData(res, await optimizationService.run(result.data));
+  } catch (error) {
+    console.error("Optimization error:", error);
+    sendError(res, error, "Failed to run optimization");
+  }
+});
+
+export default router;
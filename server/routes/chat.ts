@@ -8,12 +8,24 @@ import {
 import { determineMessageIntent } from "../utils/message-intent";
 import { randomUUID } from "crypto";
 import { storage } from "../storage";
-import { binanceClient } from "../services/binance-service";
+import { exchangeRegistry } from "../services/exchanges/exchange-registry";
+import {
+  classifyMarketTrend,
+  marketStatsService,
+} from "../services/market-stats-service";
 import newsClient from "../services/news-service";
 import { twitterService } from "../services/twitter-service";
 import { callGeminiAPI, generateChatPrompt } from "../services/gemini-service";
 import { aiConfigManager } from "../config/ai-ensemble-config";
 import { asyncHandler } from "../utils/async-handler";
+import { getKlines, normalizeSymbol } from "../services/market-service";
+import {
+  detectDivergences,
+  getDivergenceAlerts,
+} from "../services/divergences";
+import { DivergenceAlert } from "../types/market";
+import { strategyService } from "../services/strategy-service";
+import type { StrategySignals } from "../../shared/types/strategy";
 
 // Define types for our chat system
 interface ChatMessage {
@@ -40,17 +52,103 @@ interface MarketContext {
   recentNews: any[];
   socialTrends: any[];
   marketTrend: "bullish" | "bearish" | "neutral";
+  divergenceAlerts: DivergenceAlert[];
+  strategySignals: StrategySignals | null;
   timestamp: string;
 }
 
 const router = Router();
 
+// Candles checked for divergence alerts in the chat context
+const DIVERGENCE_INTERVAL = "1h";
+const DIVERGENCE_CANDLES = 200;
+
+// The coin the message mentions by symbol or name, or the top coin
+function findMentionedCoin(message: string, coins: any[]): any {
+  const words = new Set(message.toUpperCase().match(/[A-Z0-9]+/g) || []);
+  return (
+    coins.find(
+      (c) =>
+        words.has(String(c.symbol).toUpperCase()) ||
+        (c.name && words.has(String(c.name).toUpperCase()))
+    ) || coins[0]
+  );
+}
+
+/**
+ * Recent divergence alerts for the coin the message mentions, or the top
+ * coin when it names none. Empty when candles can't be loaded.
+ */
+async function gatherDivergenceAlerts(
+  message: string,
+  coins: any[]
+): Promise<DivergenceAlert[]> {
+  const coin = findMentionedCoin(message, coins);
+  if (!coin) return [];
+
+  try {
+    const pair = coin.pair || coin.symbol;
+    const candles = await getKlines(
+      pair,
+      DIVERGENCE_INTERVAL,
+      DIVERGENCE_CANDLES
+    );
+    return getDivergenceAlerts(
+      normalizeSymbol(pair),
+      DIVERGENCE_INTERVAL,
+      candles,
+      detectDivergences(candles)
+    );
+  } catch (error) {
+    console.warn("Divergence alerts unavailable for chat context:", error);
+    return [];
+  }
+}
+
+/**
+ * Whether a saved strategy's rules hold now on the coin the message mentions,
+ * so the chat can discuss it. Null without a strategy the caller may read,
+ * or without candles.
+ */
+async function gatherStrategySignals(
+  strategyId: unknown,
+  userId: unknown,
+  message: string,
+  coins: any[]
+): Promise<StrategySignals | null> {
+  if (typeof strategyId !== "string" || !strategyId) return null;
+  const coin = findMentionedCoin(message, coins);
+  const strategy = await storage.getStrategy(strategyId);
+  if (!coin || !strategy) return null;
+  // Strategies without an account are open to everyone
+  if (strategy.userId && strategy.userId !== userId) return null;
+
+  try {
+    return await strategyService.getSignals(
+      strategy.definition,
+      coin.pair || coin.symbol
+    );
+  } catch (error) {
+    console.warn("Strategy signals unavailable for chat context:", error);
+    return null;
+  }
+}
+
 // Helper function to gather market context
-async function gatherMarketContext() {
+async function gatherMarketContext(
+  message = "",
+  strategyId?: unknown,
+  userId?: unknown
+): Promise<MarketContext> {
   try {
-    const [marketData, marketStats, newsData, twitterData] = await Promise.all([
-      binanceClient.getMarketData(),
-      binanceClient.getMarketStats(),
+    const [
+      { data: marketData },
+      marketStats,
+      newsData,
+      twitterData,
+    ] = await Promise.all([
+      exchangeRegistry.getTickers(),
+      marketStatsService.getGlobalStats(),
       newsClient.fetchCryptoNews().catch(() => storage.getNewsArticles()),
       twitterService.getSentiment("MARKET").catch(() => ({
         symbol: "MARKET",
@@ -68,10 +166,14 @@ async function gatherMarketContext() {
       stats: marketStats,
       recentNews: newsData?.slice(0, 5) || [],
       socialTrends: twitterData.topTweets.slice(0, 3),
-      marketTrend:
-        marketStats.btcDominance.replace("%", "") > "50"
-          ? "bullish"
-          : "bearish",
+      marketTrend: classifyMarketTrend(marketStats),
+      divergenceAlerts: await gatherDivergenceAlerts(message, marketData),
+      strategySignals: await gatherStrategySignals(
+        strategyId,
+        userId,
+        message,
+        marketData
+      ),
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
@@ -86,7 +188,14 @@ async function gatherMarketContext() {
       stats,
       recentNews: [],
       socialTrends: [],
-      marketTrend: "neutral",
+      marketTrend: classifyMarketTrend(stats),
+      divergenceAlerts: await gatherDivergenceAlerts(message, coins),
+      strategySignals: await gatherStrategySignals(
+        strategyId,
+        userId,
+        message,
+        coins
+      ),
       timestamp: new Date().toISOString(),
     };
   }
@@ -96,7 +205,8 @@ async function gatherMarketContext() {
 router.post(
   "/enhanced",
   asyncHandler(async (req, res) => {
-    const { message, conversationId, preferences } = req.body;
+    const { message, conversationId, preferences, strategyId, userId } =
+      req.body;
 
     if (!message || typeof message !== "string") {
       throw new CustomAPIError("Message is required", 400, "INVALID_REQUEST", {
@@ -110,7 +220,11 @@ router.post(
       const intent = determineMessageIntent(message);
       console.log(`Message intent: ${intent}`);
 
-      const marketContext = await gatherMarketContext();
+      const marketContext = await gatherMarketContext(
+        message,
+        strategyId,
+        userId
+      );
 
       // Get optimal configuration based on message intent and context
       const queryAnalysis = {
@@ -230,7 +344,11 @@ router.post(
 
       try {
         console.log("Falling back to single-model response...");
-        const marketContext = await gatherMarketContext();
+        const marketContext = await gatherMarketContext(
+          message,
+          strategyId,
+          userId
+        );
         const fallbackPrompt = generateChatPrompt(message, marketContext);
         const aiResponse = await callGeminiAPI(fallbackPrompt);
 
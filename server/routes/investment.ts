@@ -0,0 +1,48 @@
+import { Router, Response } from "express";
+import { recommenderEvaluationRequestSchema } from "../../shared/schema";
+import { recommenderEvaluationService } from "../services/recommender-evaluation-service";
+import { CustomAPIError, ValidationError } from "../utils/errors";
+import { ApiResponse } from "../types/market";
+
+const router = Router();
+
+function sendData<T>(res: Response, data: T) {
+  const response: ApiResponse<T> = {
+    success: true,
+    data,
+    timestamp: new Date().toISOString(),
+  };
+  res.json(response);
+}
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  res.status(error instanceof CustomAPIError ? error.statusCode : 503).json({
+    success: false,
+    error: error instanceof Error ? error.message : fallback,
+    ...(error instanceof CustomAPIError && error.details
+      ? { details: error.details }
+      : {}),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+// Replay the recommender at past dates against BTC and equal-weight holdings
+router.post("/evaluate", async (req, res) => {
+  try {
+    const result = recommenderEvaluationRequestSchema.safeParse(req.body);
+    if (!result.success) {
+      throw new ValidationError("Invalid evaluation request", {
+        issues: result.error.issues.map((issue) => ({
+          path: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+    sendData(res, await recommenderEvaluationService.evaluate(result.data));
+  } catch (error) {
+    console.error("Recommender evaluation error:", error);
+    sendError(res, error, "Failed to evaluate recommendations");
+  }
+});
+
+export default router;
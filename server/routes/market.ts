@@ -1,38 +1,122 @@
 import { Router } from "express";
 import {
   validateSymbol,
+  validateCurrency,
   validateKlinesParams,
   validateOrderBookParams,
+  validateOrderBookAnalyticsParams,
+  validateMarketStatsParams,
+  validateExportParams,
+  validateIndicatorParams,
+  validatePatternParams,
+  validateLevelParams,
+  validateConfluenceParams,
+  validateDivergenceParams,
 } from "../middleware/validators";
 import {
-  getPrice,
   getMarketSummary,
   getKlines,
   getOrderBook,
+  normalizeSymbol,
 } from "../services/market-service";
-import { ApiResponse } from "../types/market";
+import { exchangeRegistry } from "../services/exchanges/exchange-registry";
+import { symbolRegistry } from "../services/symbol-registry";
+import { currencyService } from "../services/currency-service";
+import { marketStatsService } from "../services/market-stats-service";
+import {
+  buildMarketExport,
+  ExportFormat,
+  EXPORT_CONTENT_TYPES,
+  formatMarketExport,
+  getExportFileName,
+} from "../services/market-export";
+import {
+  computeIndicatorSeries,
+  getIndicatorLookback,
+  parseIndicatorSpec,
+} from "../services/indicator-series";
+import {
+  alignOpenTime,
+  parseTimestamp,
+  shiftOpenTime,
+} from "../utils/intervals";
+import { Readable } from "stream";
+import { CustomAPIError } from "../utils/errors";
+import { analyzeOrderBook } from "../services/orderbook-analytics";
+import {
+  detectCandlePatterns,
+  summarizeCandlePatterns,
+} from "../services/candle-patterns";
+import {
+  analyzeSupportResistance,
+  DEFAULT_PIVOT_STRENGTH,
+} from "../services/support-resistance";
+import {
+  DEFAULT_DIVERGENCE_LOOKBACK,
+  detectDivergences,
+  DIVERGENCE_OSCILLATORS,
+  getDivergenceAlerts,
+} from "../services/divergences";
+import {
+  confluenceService,
+  DEFAULT_CONFLUENCE_INTERVALS,
+} from "../services/confluence-service";
+import {
+  ApiResponse,
+  CandlePatternAnalysis,
+  ConfluenceReport,
+  DivergenceAnalysis,
+  DivergenceOscillator,
+  IndicatorData,
+  OrderBookAnalytics,
+  OrderSide,
+  SupportResistanceAnalysis,
+} from "../types/market";
+import {
+  GlobalMarketStats,
+  MarketStatsSnapshot,
+} from "../../shared/types/market-stats";
 
 const router = Router();
 
-// Get current price for a symbol
-router.get("/price/:symbol", validateSymbol, async (req, res) => {
-  try {
-    const price = await getPrice(req.params.symbol);
-    const response: ApiResponse<{ price: number }> = {
-      success: true,
-      data: { price },
-      timestamp: new Date().toISOString(),
-    };
-    res.json(response);
-  } catch (error) {
-    console.error("Price fetch error:", error);
-    res.status(503).json({
-      success: false,
-      error: error instanceof Error ? error.message : "Failed to fetch price",
-      timestamp: new Date().toISOString(),
-    });
+// Get current price for an asset or pair, optionally in a display currency
+router.get(
+  "/price/:symbol",
+  validateSymbol,
+  validateCurrency,
+  async (req, res) => {
+    try {
+      const quote = await currencyService.getPairPrice(req.params.symbol);
+      const currency =
+        typeof req.query.currency === "string"
+          ? req.query.currency.toUpperCase()
+          : quote.quote;
+      const price = await currencyService.convert(
+        quote.price,
+        quote.quote,
+        currency
+      );
+
+      const data = { ...quote, price, currency };
+      const response: ApiResponse<typeof data> = {
+        success: true,
+        data,
+        timestamp: new Date().toISOString(),
+      };
+      res.json(response);
+    } catch (error) {
+      console.error("Price fetch error:", error);
+      res
+        .status(error instanceof CustomAPIError ? error.statusCode : 503)
+        .json({
+          success: false,
+          error:
+            error instanceof Error ? error.message : "Failed to fetch price",
+          timestamp: new Date().toISOString(),
+        });
+    }
   }
-});
+);
 
 // Get market summary for a symbol
 router.get("/market-summary/:symbol", validateSymbol, async (req, res) => {
@@ -57,38 +141,409 @@ router.get("/market-summary/:symbol", validateSymbol, async (req, res) => {
   }
 });
 
-// Get klines/candlestick data
+// Get klines/candlestick data, optionally priced in a display currency
 router.get(
   "/klines/:symbol",
   validateSymbol,
+  validateCurrency,
   validateKlinesParams,
   async (req, res) => {
     try {
       const { symbol } = req.params;
-      const { interval = "1h", limit = "100" } = req.query;
+      const { interval = "1h", limit = "100", offset = "0" } = req.query;
 
       const klines = await getKlines(
         symbol,
         interval as string,
-        parseInt(limit as string, 10)
+        parseInt(limit as string, 10),
+        // Offset is given in minutes
+        { offset: Number(offset) * 60 * 1000 }
       );
 
-      const response: ApiResponse<typeof klines> = {
+      // Candles are in the pair's quote; convert them at the current rate
+      const rate =
+        typeof req.query.currency === "string"
+          ? await currencyService.getRate(
+              symbolRegistry.parseSymbol(symbol).quote,
+              req.query.currency
+            )
+          : 1;
+      const data = klines.map((candle) => ({
+        ...candle,
+        open: candle.open * rate,
+        high: candle.high * rate,
+        low: candle.low * rate,
+        close: candle.close * rate,
+      }));
+
+      const response: ApiResponse<typeof data> = {
         success: true,
-        data: klines,
+        data,
         timestamp: new Date().toISOString(),
       };
       res.json(response);
     } catch (error) {
       console.error("Klines fetch error:", error);
-      res.status(503).json({
-        success: false,
-        error:
-          error instanceof Error
-            ? error.message
-            : "Failed to fetch klines data",
+      res
+        .status(error instanceof CustomAPIError ? error.statusCode : 503)
+        .json({
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to fetch klines data",
+          timestamp: new Date().toISOString(),
+        });
+    }
+  }
+);
+
+// Get candles with aligned series for a set of indicators
+router.get(
+  "/indicators/:symbol",
+  validateSymbol,
+  validateKlinesParams,
+  validateIndicatorParams,
+  async (req, res) => {
+    try {
+      const { symbol } = req.params;
+      const {
+        interval = "1h",
+        limit = "100",
+        offset = "0",
+      } = req.query as Record<string, string | undefined>;
+      const specs = parseIndicatorSpec(req.query.spec as string);
+      const candleLimit = parseInt(limit, 10);
+
+      // Extra candles warm the indicators up, so the first candle has values
+      const candles = await getKlines(
+        symbol,
+        interval,
+        candleLimit + getIndicatorLookback(specs),
+        // Offset is given in minutes
+        { offset: Number(offset) * 60 * 1000 }
+      );
+      const warmup = Math.max(candles.length - candleLimit, 0);
+      const indicators = computeIndicatorSeries(candles, specs).map(
+        (series) => ({
+          ...series,
+          columns: series.columns.map((column) => ({
+            ...column,
+            values: column.values.slice(warmup),
+          })),
+        })
+      );
+
+      const response: ApiResponse<IndicatorData> = {
+        success: true,
+        data: {
+          symbol: normalizeSymbol(symbol),
+          interval,
+          candles: candles.slice(warmup),
+          indicators,
+        },
         timestamp: new Date().toISOString(),
+      };
+      res.json(response);
+    } catch (error) {
+      console.error("Indicators fetch error:", error);
+      res
+        .status(error instanceof CustomAPIError ? error.statusCode : 503)
+        .json({
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to compute indicators",
+          timestamp: new Date().toISOString(),
+        });
+    }
+  }
+);
+
+// Get candlestick patterns with a strength score, oldest first
+router.get(
+  "/patterns/:symbol",
+  validateSymbol,
+  validateKlinesParams,
+  validatePatternParams,
+  async (req, res) => {
+    try {
+      const { symbol } = req.params;
+      const {
+        interval = "1h",
+        limit = "100",
+        offset = "0",
+        minStrength = "0",
+      } = req.query as Record<string, string | undefined>;
+
+      const candles = await getKlines(
+        symbol,
+        interval,
+        parseInt(limit, 10),
+        // Offset is given in minutes
+        { offset: Number(offset) * 60 * 1000 }
+      );
+      const patterns = detectCandlePatterns(candles, {
+        minStrength: Number(minStrength),
       });
+
+      const response: ApiResponse<CandlePatternAnalysis> = {
+        success: true,
+        data: {
+          symbol: normalizeSymbol(symbol),
+          interval,
+          patterns,
+          summary: summarizeCandlePatterns(patterns, candles.length),
+          timestamp: new Date().toISOString(),
+        },
+        timestamp: new Date().toISOString(),
+      };
+      res.json(response);
+    } catch (error) {
+      console.error("Candle pattern error:", error);
+      res
+        .status(error instanceof CustomAPIError ? error.statusCode : 503)
+        .json({
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to detect candle patterns",
+          timestamp: new Date().toISOString(),
+        });
+    }
+  }
+);
+
+// Get support/resistance zones, trendlines and a channel from swing pivots
+router.get(
+  "/levels/:symbol",
+  validateSymbol,
+  validateKlinesParams,
+  validateLevelParams,
+  async (req, res) => {
+    try {
+      const { symbol } = req.params;
+      const {
+        interval = "1h",
+        limit = "200",
+        offset = "0",
+        pivotStrength = String(DEFAULT_PIVOT_STRENGTH),
+      } = req.query as Record<string, string | undefined>;
+
+      const candles = await getKlines(
+        symbol,
+        interval,
+        parseInt(limit, 10),
+        // Offset is given in minutes
+        { offset: Number(offset) * 60 * 1000 }
+      );
+
+      const response: ApiResponse<SupportResistanceAnalysis> = {
+        success: true,
+        data: {
+          symbol: normalizeSymbol(symbol),
+          interval,
+          ...analyzeSupportResistance(candles, {
+            pivotStrength: Number(pivotStrength),
+          }),
+          timestamp: new Date().toISOString(),
+        },
+        timestamp: new Date().toISOString(),
+      };
+      res.json(response);
+    } catch (error) {
+      console.error("Support/resistance error:", error);
+      res
+        .status(error instanceof CustomAPIError ? error.statusCode : 503)
+        .json({
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to detect support and resistance",
+          timestamp: new Date().toISOString(),
+        });
+    }
+  }
+);
+
+// Get regular and hidden divergences between price pivots and oscillators
+router.get(
+  "/divergences/:symbol",
+  validateSymbol,
+  validateKlinesParams,
+  validateLevelParams,
+  validateDivergenceParams,
+  async (req, res) => {
+    try {
+      const { symbol } = req.params;
+      const {
+        interval = "1h",
+        limit = "200",
+        offset = "0",
+        oscillators,
+        lookback = String(DEFAULT_DIVERGENCE_LOOKBACK),
+        pivotStrength = String(DEFAULT_PIVOT_STRENGTH),
+        minStrength = "0",
+      } = req.query as Record<string, string | undefined>;
+
+      const candles = await getKlines(
+        symbol,
+        interval,
+        parseInt(limit, 10),
+        // Offset is given in minutes
+        { offset: Number(offset) * 60 * 1000 }
+      );
+      const divergences = detectDivergences(candles, {
+        lookback: Number(lookback),
+        pivotStrength: Number(pivotStrength),
+        oscillators: oscillators
+          ? (oscillators
+              .split(",")
+              .map((oscillator) => oscillator.trim()) as DivergenceOscillator[])
+          : DIVERGENCE_OSCILLATORS,
+        minStrength: Number(minStrength),
+      });
+      const pair = normalizeSymbol(symbol);
+
+      const response: ApiResponse<DivergenceAnalysis> = {
+        success: true,
+        data: {
+          symbol: pair,
+          interval,
+          divergences,
+          alerts: getDivergenceAlerts(
+            pair,
+            interval,
+            candles,
+            divergences,
+            Number(pivotStrength)
+          ),
+          timestamp: new Date().toISOString(),
+        },
+        timestamp: new Date().toISOString(),
+      };
+      res.json(response);
+    } catch (error) {
+      console.error("Divergence error:", error);
+      res
+        .status(error instanceof CustomAPIError ? error.statusCode : 503)
+        .json({
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to detect divergences",
+          timestamp: new Date().toISOString(),
+        });
+    }
+  }
+);
+
+// Get trend, momentum and volatility agreement across several intervals
+router.get(
+  "/confluence/:symbol",
+  validateSymbol,
+  validateConfluenceParams,
+  async (req, res) => {
+    try {
+      const { intervals } = req.query as Record<string, string | undefined>;
+      const report = await confluenceService.analyze(
+        req.params.symbol,
+        intervals
+          ? intervals
+              .split(",")
+              .map((interval) => interval.trim())
+              .filter(Boolean)
+          : DEFAULT_CONFLUENCE_INTERVALS
+      );
+
+      const response: ApiResponse<ConfluenceReport> = {
+        success: true,
+        data: report,
+        timestamp: new Date().toISOString(),
+      };
+      res.json(response);
+    } catch (error) {
+      console.error("Confluence error:", error);
+      res
+        .status(error instanceof CustomAPIError ? error.statusCode : 503)
+        .json({
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to analyze timeframe confluence",
+          timestamp: new Date().toISOString(),
+        });
+    }
+  }
+);
+
+// Rows exported when no start time is given
+const DEFAULT_EXPORT_CANDLES = 1000;
+
+// Export candles with indicator columns as a CSV or JSON Lines download
+router.get(
+  "/export/:symbol",
+  validateSymbol,
+  validateExportParams,
+  async (req, res) => {
+    try {
+      const { symbol } = req.params;
+      const {
+        interval = "1h",
+        format = "csv",
+        start,
+        end,
+        indicators = "",
+        offset = "0",
+        sentiment = "false",
+      } = req.query as Record<string, string | undefined>;
+
+      // Offset is given in minutes
+      const offsetMs = Number(offset) * 60 * 1000;
+      const endTime = end ? parseTimestamp(end)! : Date.now();
+      const startTime = start
+        ? parseTimestamp(start)!
+        : shiftOpenTime(
+            alignOpenTime(endTime, interval, offsetMs),
+            interval,
+            -(DEFAULT_EXPORT_CANDLES - 1),
+            offsetMs
+          );
+
+      // Load everything before streaming, so failures still get a JSON error
+      const data = await buildMarketExport(symbol, {
+        interval,
+        startTime,
+        endTime,
+        indicators: parseIndicatorSpec(indicators),
+        offset: offsetMs,
+        sentiment: sentiment === "true",
+      });
+      const exportFormat = format as ExportFormat;
+
+      res.setHeader("Content-Type", EXPORT_CONTENT_TYPES[exportFormat]);
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${getExportFileName(data, exportFormat)}"`
+      );
+      Readable.from(formatMarketExport(data, exportFormat)).pipe(res);
+    } catch (error) {
+      console.error("Market export error:", error);
+      res
+        .status(error instanceof CustomAPIError ? error.statusCode : 503)
+        .json({
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to export market data",
+          timestamp: new Date().toISOString(),
+        });
     }
   }
 );
@@ -126,4 +581,106 @@ router.get(
   }
 );
 
+// Get spread, depth, imbalance and slippage estimates for an order book
+router.get(
+  "/orderbook/:symbol/analytics",
+  validateSymbol,
+  validateOrderBookParams,
+  validateOrderBookAnalyticsParams,
+  async (req, res) => {
+    try {
+      const { symbol } = req.params;
+      // Deep books are needed to measure liquidity 2% away from the mid
+      const { limit = "1000", notional, side } = req.query;
+
+      const orderBook = await getOrderBook(
+        symbol,
+        parseInt(limit as string, 10)
+      );
+      const analytics = analyzeOrderBook(orderBook, {
+        notionals: notional
+          ? String(notional).split(",").map(Number)
+          : undefined,
+        sides: side ? [side as OrderSide] : undefined,
+      });
+
+      const response: ApiResponse<OrderBookAnalytics> = {
+        success: true,
+        data: analytics,
+        timestamp: new Date().toISOString(),
+      };
+      res.json(response);
+    } catch (error) {
+      console.error("Order book analytics error:", error);
+      res
+        .status(error instanceof CustomAPIError ? error.statusCode : 503)
+        .json({
+          success: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to analyze order book",
+          timestamp: new Date().toISOString(),
+        });
+    }
+  }
+);
+
+// Get global market stats, optionally with recorded history
+router.get("/stats", validateMarketStatsParams, async (req, res) => {
+  try {
+    const stats = await marketStatsService.getGlobalStats();
+    const data: GlobalMarketStats & { history?: MarketStatsSnapshot[] } =
+      req.query.history !== undefined
+        ? {
+            ...stats,
+            history: marketStatsService.getHistory(Number(req.query.history)),
+          }
+        : stats;
+
+    const response: ApiResponse<typeof data> = {
+      success: true,
+      data,
+      timestamp: new Date().toISOString(),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Market stats error:", error);
+    res.status(503).json({
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to fetch market stats",
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// Get registered exchanges and their health
+router.get("/exchanges", (req, res) => {
+  const response: ApiResponse<ReturnType<typeof exchangeRegistry.getStatus>> =
+    {
+      success: true,
+      data: exchangeRegistry.getStatus(),
+      timestamp: new Date().toISOString(),
+    };
+  res.json(response);
+});
+
+// Get known assets and trading pairs, optionally filtered by quote asset
+router.get("/symbols", (req, res) => {
+  const quote = typeof req.query.quote === "string" ? req.query.quote : "";
+  const data = {
+    syncedAt: symbolRegistry.getStatus().syncedAt,
+    assets: symbolRegistry.listAssets(),
+    pairs: symbolRegistry.listPairs(quote || undefined),
+  };
+
+  const response: ApiResponse<typeof data> = {
+    success: true,
+    data,
+    timestamp: new Date().toISOString(),
+  };
+  res.json(response);
+});
+
 export default router;
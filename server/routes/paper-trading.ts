@@ -0,0 +1,185 @@
+import { Request, Response, Router } from "express";
+import { z } from "zod";
+import {
+  paperAccountRequestSchema,
+  paperOrderRequestSchema,
+  type PaperAccount,
+  type PaperOrderStatus,
+} from "../../shared/schema";
+import { paperTradingService } from "../services/paper-trading-service";
+import { storage } from "../storage";
+import {
+  AuthorizationError,
+  CustomAPIError,
+  ValidationError,
+} from "../utils/errors";
+import { ApiResponse } from "../types/market";
+
+const router = Router();
+
+const ORDER_STATUSES: PaperOrderStatus[] = [
+  "open",
+  "filled",
+  "cancelled",
+  "rejected",
+];
+
+function parseBody<T extends z.ZodTypeAny>(
+  schema: T,
+  body: unknown
+): z.infer<T> {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new ValidationError("Invalid paper trading request", {
+      issues: result.error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      })),
+    });
+  }
+  return result.data;
+}
+
+function sendData<T>(res: Response, data: T, status: number = 200) {
+  const response: ApiResponse<T> = {
+    success: true,
+    data,
+    timestamp: new Date().toISOString(),
+  };
+  res.status(status).json(response);
+}
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  res.status(error instanceof CustomAPIError ? error.statusCode : 503).json({
+    success: false,
+    error: error instanceof Error ? error.message : fallback,
+    ...(error instanceof CustomAPIError && error.details
+      ? { details: error.details }
+      : {}),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+// The caller's account, from the query string or the body
+function getUserId(req: Request): string | undefined {
+  const userId = req.query.userId ?? req.body?.userId;
+  return typeof userId === "string" && userId ? userId : undefined;
+}
+
+// Paper accounts without a user are open to everyone, like saved screens
+async function findOwnAccount(req: Request): Promise<PaperAccount> {
+  const account = await storage.getPaperAccount(req.params.id);
+  if (!account) {
+    throw new CustomAPIError("Paper account not found", 404, "NOT_FOUND", {
+      id: req.params.id,
+    });
+  }
+  if (account.userId && account.userId !== getUserId(req)) {
+    throw new AuthorizationError("Paper account belongs to another user", {
+      id: req.params.id,
+    });
+  }
+  return account;
+}
+
+router.get("/accounts", async (req, res) => {
+  try {
+    sendData(res, await storage.getPaperAccounts(getUserId(req)));
+  } catch (error) {
+    console.error("Paper account list error:", error);
+    sendError(res, error, "Failed to fetch paper accounts");
+  }
+});
+
+router.post("/accounts", async (req, res) => {
+  try {
+    const request = parseBody(paperAccountRequestSchema, req.body);
+    sendData(res, await paperTradingService.createAccount(request), 201);
+  } catch (error) {
+    console.error("Paper account create error:", error);
+    sendError(res, error, "Failed to create paper account");
+  }
+});
+
+// Balances, positions marked to the order book and open orders. Open limit
+// and stop orders are checked against the book first.
+router.get("/accounts/:id", async (req, res) => {
+  try {
+    const account = await findOwnAccount(req);
+    sendData(res, await paperTradingService.getSummary(account));
+  } catch (error) {
+    console.error("Paper account error:", error);
+    sendError(res, error, "Failed to fetch paper account");
+  }
+});
+
+router.delete("/accounts/:id", async (req, res) => {
+  try {
+    await findOwnAccount(req);
+    await storage.deletePaperAccount(req.params.id);
+    sendData(res, { id: req.params.id });
+  } catch (error) {
+    console.error("Paper account delete error:", error);
+    sendError(res, error, "Failed to delete paper account");
+  }
+});
+
+// Start over from the initial balance
+router.post("/accounts/:id/reset", async (req, res) => {
+  try {
+    await findOwnAccount(req);
+    sendData(res, await storage.resetPaperAccount(req.params.id));
+  } catch (error) {
+    console.error("Paper account reset error:", error);
+    sendError(res, error, "Failed to reset paper account");
+  }
+});
+
+// Order history, newest first, optionally for one status
+router.get("/accounts/:id/orders", async (req, res) => {
+  try {
+    const account = await findOwnAccount(req);
+    const status = req.query.status as PaperOrderStatus | undefined;
+    if (status !== undefined && !ORDER_STATUSES.includes(status)) {
+      throw new ValidationError("Unknown order status", {
+        status,
+        allowed: ORDER_STATUSES,
+      });
+    }
+    await paperTradingService.processOpenOrders(account.id);
+    const orders = await storage.getPaperOrders(account.id);
+    sendData(
+      res,
+      status ? orders.filter((order) => order.status === status) : orders
+    );
+  } catch (error) {
+    console.error("Paper order list error:", error);
+    sendError(res, error, "Failed to fetch paper orders");
+  }
+});
+
+router.post("/accounts/:id/orders", async (req, res) => {
+  try {
+    const account = await findOwnAccount(req);
+    const request = parseBody(paperOrderRequestSchema, req.body);
+    sendData(res, await paperTradingService.placeOrder(account, request), 201);
+  } catch (error) {
+    console.error("Paper order error:", error);
+    sendError(res, error, "Failed to place paper order");
+  }
+});
+
+router.delete("/accounts/:id/orders/:orderId", async (req, res) => {
+  try {
+    const account = await findOwnAccount(req);
+    sendData(
+      res,
+      await paperTradingService.cancelOrder(account, req.params.orderId)
+    );
+  } catch (error) {
+    console.error("Paper order cancel error:", error);
+    sendError(res, error, "Failed to cancel paper order");
+  }
+});
+
+export default router;
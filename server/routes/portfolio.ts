@@ -0,0 +1,263 @@
+import express, { Request, Response, Router } from "express";
+import { Readable } from "stream";
+import { z } from "zod";
+import {
+  portfolioRequestSchema,
+  portfolioTransactionRequestSchema,
+  tradeImportQuerySchema,
+  updatePortfolioRequestSchema,
+  type Portfolio,
+} from "../../shared/schema";
+import {
+  formatRealizedGainsCsv,
+  portfolioService,
+} from "../services/portfolio-service";
+import { tradeImportService } from "../services/trade-import-service";
+import { storage } from "../storage";
+import {
+  AuthorizationError,
+  CustomAPIError,
+  ValidationError,
+} from "../utils/errors";
+import { ApiResponse } from "../types/market";
+
+const router = Router();
+
+// Trade history uploads are sent as the raw CSV
+const csvBody = express.text({
+  type: ["text/csv", "text/plain"],
+  limit: "5mb",
+});
+
+function parseBody<T extends z.ZodTypeAny>(
+  schema: T,
+  body: unknown
+): z.infer<T> {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new ValidationError("Invalid portfolio request", {
+      issues: result.error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      })),
+    });
+  }
+  return result.data;
+}
+
+function sendData<T>(res: Response, data: T, status: number = 200) {
+  const response: ApiResponse<T> = {
+    success: true,
+    data,
+    timestamp: new Date().toISOString(),
+  };
+  res.status(status).json(response);
+}
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  res.status(error instanceof CustomAPIError ? error.statusCode : 503).json({
+    success: false,
+    error: error instanceof Error ? error.message : fallback,
+    ...(error instanceof CustomAPIError && error.details
+      ? { details: error.details }
+      : {}),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+// The caller's account, from the query string or the body
+function getUserId(req: Request): string | undefined {
+  const userId = req.query.userId ?? req.body?.userId;
+  return typeof userId === "string" && userId ? userId : undefined;
+}
+
+function getCsvBody(req: Request): string {
+  if (typeof req.body !== "string" || !req.body.trim()) {
+    throw new ValidationError("Send the trade history as a text/csv body");
+  }
+  return req.body;
+}
+
+// Portfolios without a user are open to everyone, like saved screens
+async function findOwnPortfolio(req: Request): Promise<Portfolio> {
+  const portfolio = await storage.getPortfolio(req.params.id);
+  if (!portfolio) {
+    throw new CustomAPIError("Portfolio not found", 404, "NOT_FOUND", {
+      id: req.params.id,
+    });
+  }
+  if (portfolio.userId && portfolio.userId !== getUserId(req)) {
+    throw new AuthorizationError("Portfolio belongs to another user", {
+      id: req.params.id,
+    });
+  }
+  return portfolio;
+}
+
+router.get("/", async (req, res) => {
+  try {
+    sendData(res, await storage.getPortfolios(getUserId(req)));
+  } catch (error) {
+    console.error("Portfolio list error:", error);
+    sendError(res, error, "Failed to fetch portfolios");
+  }
+});
+
+router.post("/", async (req, res) => {
+  try {
+    const request = parseBody(portfolioRequestSchema, req.body);
+    sendData(res, await portfolioService.createPortfolio(request), 201);
+  } catch (error) {
+    console.error("Portfolio create error:", error);
+    sendError(res, error, "Failed to create portfolio");
+  }
+});
+
+// Holdings by the portfolio's cost method, valued at live prices
+router.get("/:id", async (req, res) => {
+  try {
+    const portfolio = await findOwnPortfolio(req);
+    sendData(res, await portfolioService.getSummary(portfolio));
+  } catch (error) {
+    console.error("Portfolio error:", error);
+    sendError(res, error, "Failed to fetch portfolio");
+  }
+});
+
+router.patch("/:id", async (req, res) => {
+  try {
+    await findOwnPortfolio(req);
+    const request = parseBody(updatePortfolioRequestSchema, req.body);
+    sendData(res, await storage.updatePortfolio(req.params.id, request));
+  } catch (error) {
+    console.error("Portfolio update error:", error);
+    sendError(res, error, "Failed to update portfolio");
+  }
+});
+
+router.delete("/:id", async (req, res) => {
+  try {
+    await findOwnPortfolio(req);
+    await storage.deletePortfolio(req.params.id);
+    sendData(res, { id: req.params.id });
+  } catch (error) {
+    console.error("Portfolio delete error:", error);
+    sendError(res, error, "Failed to delete portfolio");
+  }
+});
+
+// Daily value and cost basis, ?days= back from today
+router.get("/:id/performance", async (req, res) => {
+  try {
+    const portfolio = await findOwnPortfolio(req);
+    const days =
+      req.query.days === undefined ? undefined : Number(req.query.days);
+    sendData(res, await portfolioService.getPerformance(portfolio, days));
+  } catch (error) {
+    console.error("Portfolio performance error:", error);
+    sendError(res, error, "Failed to fetch portfolio performance");
+  }
+});
+
+// Newest first
+router.get("/:id/transactions", async (req, res) => {
+  try {
+    const portfolio = await findOwnPortfolio(req);
+    const transactions = await storage.getPortfolioTransactions(portfolio.id);
+    sendData(res, transactions.reverse());
+  } catch (error) {
+    console.error("Portfolio transaction list error:", error);
+    sendError(res, error, "Failed to fetch transactions");
+  }
+});
+
+router.post("/:id/transactions", async (req, res) => {
+  try {
+    const portfolio = await findOwnPortfolio(req);
+    const request = parseBody(portfolioTransactionRequestSchema, req.body);
+    sendData(
+      res,
+      await portfolioService.addTransaction(portfolio, request),
+      201
+    );
+  } catch (error) {
+    console.error("Portfolio transaction error:", error);
+    sendError(res, error, "Failed to record transaction");
+  }
+});
+
+router.delete("/:id/transactions/:transactionId", async (req, res) => {
+  try {
+    const portfolio = await findOwnPortfolio(req);
+    sendData(
+      res,
+      await portfolioService.deleteTransaction(
+        portfolio,
+        req.params.transactionId
+      )
+    );
+  } catch (error) {
+    console.error("Portfolio transaction delete error:", error);
+    sendError(res, error, "Failed to delete transaction");
+  }
+});
+
+// New transactions in an exchange export and how they would change the
+// holdings, without saving them
+router.post("/:id/import/preview", csvBody, async (req, res) => {
+  try {
+    const portfolio = await findOwnPortfolio(req);
+    const query = parseBody(tradeImportQuerySchema, req.query);
+    sendData(
+      res,
+      await tradeImportService.preview(portfolio, query, getCsvBody(req))
+    );
+  } catch (error) {
+    console.error("Portfolio import preview error:", error);
+    sendError(res, error, "Failed to preview import");
+  }
+});
+
+router.post("/:id/import", csvBody, async (req, res) => {
+  try {
+    const portfolio = await findOwnPortfolio(req);
+    const query = parseBody(tradeImportQuerySchema, req.query);
+    sendData(
+      res,
+      await tradeImportService.commit(portfolio, query, getCsvBody(req)),
+      201
+    );
+  } catch (error) {
+    console.error("Portfolio import error:", error);
+    sendError(res, error, "Failed to import transactions");
+  }
+});
+
+// Realized gains for ?year=, as JSON or a CSV download with ?format=csv
+router.get("/:id/gains", async (req, res) => {
+  try {
+    const portfolio = await findOwnPortfolio(req);
+    const year = Number(req.query.year ?? new Date().getUTCFullYear());
+    const format = req.query.format ?? "json";
+    if (format !== "json" && format !== "csv") {
+      throw new ValidationError("Format must be json or csv", { format });
+    }
+    const report = await portfolioService.getRealizedGains(portfolio, year);
+    if (format === "json") {
+      sendData(res, report);
+      return;
+    }
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="realized-gains-${year}-${report.costMethod}.csv"`
+    );
+    Readable.from(formatRealizedGainsCsv(report)).pipe(res);
+  } catch (error) {
+    console.error("Portfolio gains error:", error);
+    sendError(res, error, "Failed to fetch realized gains");
+  }
+});
+
+export default router;
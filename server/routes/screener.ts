@@ -0,0 +1,132 @@
+import { Router, Response } from "express";
+import { z } from "zod";
+import { insertScreenSchema, screenerQuerySchema } from "../../shared/schema";
+import { screenerService } from "../services/screener-service";
+import { storage } from "../storage";
+import { CustomAPIError, ValidationError } from "../utils/errors";
+import { ApiResponse } from "../types/market";
+
+const router = Router();
+
+function parseBody<T extends z.ZodTypeAny>(
+  schema: T,
+  body: unknown
+): z.infer<T> {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new ValidationError("Invalid screener request", {
+      issues: result.error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      })),
+    });
+  }
+  return result.data;
+}
+
+function sendData<T>(res: Response, data: T, status: number = 200) {
+  const response: ApiResponse<T> = {
+    success: true,
+    data,
+    timestamp: new Date().toISOString(),
+  };
+  res.status(status).json(response);
+}
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  res.status(error instanceof CustomAPIError ? error.statusCode : 503).json({
+    success: false,
+    error: error instanceof Error ? error.message : fallback,
+    ...(error instanceof CustomAPIError && error.details
+      ? { details: error.details }
+      : {}),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+async function findScreen(id: string) {
+  const screen = await storage.getScreen(id);
+  if (!screen) {
+    throw new CustomAPIError("Screen not found", 404, "NOT_FOUND", { id });
+  }
+  return screen;
+}
+
+// Run an ad hoc screen
+router.post("/run", async (req, res) => {
+  try {
+    const query = parseBody(screenerQuerySchema, req.body);
+    sendData(res, await screenerService.run(query));
+  } catch (error) {
+    console.error("Screener run error:", error);
+    sendError(res, error, "Failed to run screener");
+  }
+});
+
+// List saved screens, optionally for one user
+router.get("/screens", async (req, res) => {
+  try {
+    const userId =
+      typeof req.query.userId === "string" ? req.query.userId : undefined;
+    sendData(res, await storage.getScreens(userId));
+  } catch (error) {
+    console.error("Screen list error:", error);
+    sendError(res, error, "Failed to fetch screens");
+  }
+});
+
+// Save a named screen
+router.post("/screens", async (req, res) => {
+  try {
+    const screen = parseBody(insertScreenSchema, req.body);
+    sendData(res, await storage.createScreen(screen), 201);
+  } catch (error) {
+    console.error("Screen save error:", error);
+    sendError(res, error, "Failed to save screen");
+  }
+});
+
+// Rename a screen or change its conditions
+router.put("/screens/:id", async (req, res) => {
+  try {
+    await findScreen(req.params.id);
+    const update = parseBody(
+      insertScreenSchema.omit({ userId: true }).partial(),
+      req.body
+    );
+    sendData(res, await storage.updateScreen(req.params.id, update));
+  } catch (error) {
+    console.error("Screen update error:", error);
+    sendError(res, error, "Failed to update screen");
+  }
+});
+
+router.delete("/screens/:id", async (req, res) => {
+  try {
+    await findScreen(req.params.id);
+    await storage.deleteScreen(req.params.id);
+    sendData(res, { id: req.params.id });
+  } catch (error) {
+    console.error("Screen delete error:", error);
+    sendError(res, error, "Failed to delete screen");
+  }
+});
+
+// Run a saved screen
+router.post("/screens/:id/run", async (req, res) => {
+  try {
+    const screen = await findScreen(req.params.id);
+    sendData(
+      res,
+      await screenerService.run({
+        conditions: screen.conditions,
+        sort: screen.sort ?? undefined,
+      })
+    );
+  } catch (error) {
+    console.error("Saved screen run error:", error);
+    sendError(res, error, "Failed to run screen");
+  }
+});
+
+export default router;
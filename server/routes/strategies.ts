@@ -0,0 +1,298 @@
+import { randomBytes } from "crypto";
+import { Request, Response, Router } from "express";
+import { z } from "zod";
+import {
+  insertStrategySchema,
+  updateStrategySchema,
+  type Strategy,
+} from "../../shared/schema";
+import {
+  STRATEGY_FORMATS,
+  StrategyFormat,
+  parseStrategySource,
+  serializeStrategy,
+  strategyService,
+  validateStrategyDefinition,
+} from "../services/strategy-service";
+import { storage } from "../storage";
+import {
+  AuthorizationError,
+  CustomAPIError,
+  ValidationError,
+} from "../utils/errors";
+import { ApiResponse } from "../types/market";
+
+const router = Router();
+
+const parseRequestSchema = z.object({
+  source: z.string().min(1).max(20000),
+  format: z.enum(["json", "yaml"]).optional(),
+});
+
+function parseBody<T extends z.ZodTypeAny>(
+  schema: T,
+  body: unknown
+): z.infer<T> {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new ValidationError("Invalid strategy request", {
+      issues: result.error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      })),
+    });
+  }
+  return result.data;
+}
+
+function sendData<T>(res: Response, data: T, status: number = 200) {
+  const response: ApiResponse<T> = {
+    success: true,
+    data,
+    timestamp: new Date().toISOString(),
+  };
+  res.status(status).json(response);
+}
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  res.status(error instanceof CustomAPIError ? error.statusCode : 503).json({
+    success: false,
+    error: error instanceof Error ? error.message : fallback,
+    ...(error instanceof CustomAPIError && error.details
+      ? { details: error.details }
+      : {}),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function getFormat(value: unknown): StrategyFormat {
+  if (value === undefined) return "json";
+  if (!STRATEGY_FORMATS.includes(value as StrategyFormat)) {
+    throw new ValidationError("Format must be json or yaml", { format: value });
+  }
+  return value as StrategyFormat;
+}
+
+// The caller's account, from the query string or the body
+function getUserId(req: Request): string | undefined {
+  const userId = req.query.userId ?? req.body?.userId;
+  return typeof userId === "string" && userId ? userId : undefined;
+}
+
+// Strategies without an account are open to everyone, like saved screens
+async function findOwnStrategy(req: Request): Promise<Strategy> {
+  const strategy = await storage.getStrategy(req.params.id);
+  if (!strategy) {
+    throw new CustomAPIError("Strategy not found", 404, "NOT_FOUND", {
+      id: req.params.id,
+    });
+  }
+  if (strategy.userId && strategy.userId !== getUserId(req)) {
+    throw new AuthorizationError("Strategy belongs to another account", {
+      id: req.params.id,
+    });
+  }
+  return strategy;
+}
+
+async function findSharedStrategy(code: string): Promise<Strategy> {
+  const strategy = await storage.getStrategyByShareCode(code);
+  if (!strategy) {
+    throw new CustomAPIError("Shared strategy not found", 404, "NOT_FOUND", {
+      code,
+    });
+  }
+  return strategy;
+}
+
+// Validate a JSON or YAML strategy file
+router.post("/parse", (req, res) => {
+  try {
+    const { source, format = "json" } = parseBody(parseRequestSchema, req.body);
+    sendData(res, parseStrategySource(source, format));
+  } catch (error) {
+    sendError(res, error, "Failed to parse strategy");
+  }
+});
+
+// List saved strategies, optionally for one account
+router.get("/", async (req, res) => {
+  try {
+    sendData(res, await storage.getStrategies(getUserId(req)));
+  } catch (error) {
+    console.error("Strategy list error:", error);
+    sendError(res, error, "Failed to fetch strategies");
+  }
+});
+
+router.post("/", async (req, res) => {
+  try {
+    const strategy = parseBody(insertStrategySchema, req.body);
+    validateStrategyDefinition(strategy.definition);
+    sendData(res, await storage.createStrategy(strategy), 201);
+  } catch (error) {
+    console.error("Strategy save error:", error);
+    sendError(res, error, "Failed to save strategy");
+  }
+});
+
+// Read a strategy shared by link
+router.get("/shared/:code", async (req, res) => {
+  try {
+    sendData(res, await findSharedStrategy(req.params.code));
+  } catch (error) {
+    sendError(res, error, "Failed to fetch shared strategy");
+  }
+});
+
+// Copy a shared strategy into the caller's account as a new strategy
+router.post("/shared/:code/copy", async (req, res) => {
+  try {
+    const shared = await findSharedStrategy(req.params.code);
+    const copy = await storage.createStrategy({
+      userId: getUserId(req) ?? null,
+      name: shared.name,
+      description: shared.description,
+      definition: shared.definition,
+    });
+    sendData(res, copy, 201);
+  } catch (error) {
+    console.error("Shared strategy copy error:", error);
+    sendError(res, error, "Failed to copy strategy");
+  }
+});
+
+router.get("/:id", async (req, res) => {
+  try {
+    sendData(res, await findOwnStrategy(req));
+  } catch (error) {
+    sendError(res, error, "Failed to fetch strategy");
+  }
+});
+
+// Rename, describe or change the definition, which saves a new version
+router.put("/:id", async (req, res) => {
+  try {
+    await findOwnStrategy(req);
+    const update = parseBody(updateStrategySchema, req.body);
+    if (update.definition) validateStrategyDefinition(update.definition);
+    sendData(res, await storage.updateStrategy(req.params.id, update));
+  } catch (error) {
+    console.error("Strategy update error:", error);
+    sendError(res, error, "Failed to update strategy");
+  }
+});
+
+router.delete("/:id", async (req, res) => {
+  try {
+    await findOwnStrategy(req);
+    await storage.deleteStrategy(req.params.id);
+    sendData(res, { id: req.params.id });
+  } catch (error) {
+    console.error("Strategy delete error:", error);
+    sendError(res, error, "Failed to delete strategy");
+  }
+});
+
+// Version history, newest first
+router.get("/:id/versions", async (req, res) => {
+  try {
+    await findOwnStrategy(req);
+    sendData(res, await storage.getStrategyVersions(req.params.id));
+  } catch (error) {
+    sendError(res, error, "Failed to fetch strategy versions");
+  }
+});
+
+router.get("/:id/versions/:version", async (req, res) => {
+  try {
+    await findOwnStrategy(req);
+    const version = await storage.getStrategyVersion(
+      req.params.id,
+      Number(req.params.version)
+    );
+    if (!version) {
+      throw new CustomAPIError("Strategy version not found", 404, "NOT_FOUND", {
+        id: req.params.id,
+        version: req.params.version,
+      });
+    }
+    sendData(res, version);
+  } catch (error) {
+    sendError(res, error, "Failed to fetch strategy version");
+  }
+});
+
+// Start sharing by link, keeping an existing code
+router.post("/:id/share", async (req, res) => {
+  try {
+    const strategy = await findOwnStrategy(req);
+    sendData(
+      res,
+      strategy.shareCode
+        ? strategy
+        : await storage.setStrategyShareCode(
+            strategy.id,
+            randomBytes(6).toString("base64url")
+          )
+    );
+  } catch (error) {
+    console.error("Strategy share error:", error);
+    sendError(res, error, "Failed to share strategy");
+  }
+});
+
+router.delete("/:id/share", async (req, res) => {
+  try {
+    await findOwnStrategy(req);
+    sendData(res, await storage.setStrategyShareCode(req.params.id, null));
+  } catch (error) {
+    console.error("Strategy unshare error:", error);
+    sendError(res, error, "Failed to stop sharing strategy");
+  }
+});
+
+// Download the definition as a JSON or YAML file
+router.get("/:id/export", async (req, res) => {
+  try {
+    const strategy = await findOwnStrategy(req);
+    const format = getFormat(req.query.format);
+    const fileName = strategy.name.replace(/[^a-z0-9]+/gi, "-").toLowerCase();
+
+    res.setHeader(
+      "Content-Type",
+      format === "json" ? "application/json" : "application/yaml"
+    );
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${fileName || "strategy"}.${format}"`
+    );
+    res.send(
+      serializeStrategy({ name: strategy.name, ...strategy.definition }, format)
+    );
+  } catch (error) {
+    sendError(res, error, "Failed to export strategy");
+  }
+});
+
+// Whether the entry or exit rules hold on the last closed candle, for alerts
+router.get("/:id/signals", async (req, res) => {
+  try {
+    const strategy = await findOwnStrategy(req);
+    const symbol = typeof req.query.symbol === "string" ? req.query.symbol : "";
+    if (!symbol) {
+      throw new ValidationError("Symbol is required", {
+        required: ["symbol"],
+      });
+    }
+    sendData(
+      res,
+      await strategyService.getSignals(strategy.definition, symbol)
+    );
+  } catch (error) {
+    console.error("Strategy signals error:", error);
+    sendError(res, error, "Failed to evaluate strategy");
+  }
+});
+
+export default router;
@@ -0,0 +1,114 @@
+import { Router } from "express";
+import {
+  MARKET_STREAM_CHANNELS,
+  MarketStreamChannel,
+  MarketStreamReady,
+} from "../../shared/types/market-stream";
+import {
+  buildStreamName,
+  marketStreamHub,
+} from "../services/market-stream-hub";
+import { symbolRegistry } from "../services/symbol-registry";
+import { isSupportedInterval } from "../utils/intervals";
+
+const router = Router();
+
+// Keeps proxies from closing idle connections
+const HEARTBEAT_INTERVAL_MS = 15000;
+const MAX_SYMBOLS = 25;
+
+// Server-Sent Events stream of live tickers, trades and klines
+// e.g. /api/stream?symbols=BTC,ETH-BTC&channels=ticker,kline&interval=1h
+router.get("/", (req, res) => {
+  const symbols = String(req.query.symbols || "")
+    .split(",")
+    .map((symbol) => symbol.trim())
+    .filter(Boolean);
+  const channels = String(req.query.channels || "ticker")
+    .split(",")
+    .map((channel) => channel.trim()) as MarketStreamChannel[];
+  const interval = String(req.query.interval || "1m");
+
+  if (!symbols.length || symbols.length > MAX_SYMBOLS) {
+    return res.status(400).json({
+      success: false,
+      error: `Between 1 and ${MAX_SYMBOLS} symbols are required`,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  // Assets or pairs in any quote, resolved like the REST routes
+  const parsed = symbols.map((symbol) => symbolRegistry.parseSymbol(symbol));
+  if (
+    parsed.some(
+      ({ base, quote }) =>
+        !/^[A-Z0-9]{2,10}$/.test(base) || !/^[A-Z0-9]{2,10}$/.test(quote)
+    )
+  ) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid symbol format",
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  if (channels.some((channel) => !MARKET_STREAM_CHANNELS.includes(channel))) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid channel. Supported channels: ${MARKET_STREAM_CHANNELS.join(
+        ", "
+      )}`,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  if (channels.includes("kline") && !isSupportedInterval(interval)) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid kline interval",
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  const streams = symbols.flatMap((symbol) =>
+    channels.map((channel) => buildStreamName(symbol, channel, interval))
+  );
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  const ready: MarketStreamReady = {
+    streams,
+    pairs: Object.fromEntries(
+      symbols.map((symbol, i) => [symbol.toUpperCase(), parsed[i].pair])
+    ),
+  };
+  res.write(`event: ready\ndata: ${JSON.stringify(ready)}\n\n`);
+
+  const unsubscribe = marketStreamHub.subscribe(streams, (event) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+
+  const heartbeat = setInterval(() => {
+    res.write(": heartbeat\n\n");
+  }, HEARTBEAT_INTERVAL_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+// Get stream hub statistics
+router.get("/stats", (req, res) => {
+  res.json({
+    success: true,
+    data: marketStreamHub.getStats(),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+export default router;
@@ -0,0 +1,289 @@
+import type { StrategyDefinition, StrategySizing } from "../../shared/schema";
+import {
+  BacktestMetrics,
+  BacktestResult,
+  BacktestSettings,
+  BacktestTrade,
+  DEFAULT_BACKTEST_SETTINGS,
+  EquityPoint,
+} from "../../shared/types/backtest";
+import { CandleStick } from "../types/market";
+import { ValidationError } from "../utils/errors";
+import { getIntervalMs } from "../utils/intervals";
+import { compileStrategy } from "./strategy-engine";
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+interface OpenPosition {
+  index: number;
+  time: number;
+  price: number;
+  quantity: number;
+  cost: number; // Cash spent, fees included
+  fee: number;
+  stopPrice: number | null;
+  targetPrice: number | null;
+}
+
+/**
+ * Cash to put into a new position, fees included. Positions only open when
+ * flat, so the cash is the whole equity.
+ */
+function getPositionBudget(
+  sizing: StrategySizing | undefined,
+  cash: number,
+  price: number,
+  stopPrice: number | null,
+  fee: number
+): number {
+  if (!sizing) return cash;
+  switch (sizing.type) {
+    case "percent_equity":
+      return (cash * sizing.percent) / 100;
+    case "fixed":
+      return Math.min(sizing.amount, cash);
+    case "risk": {
+      // Quantity that loses the risked share of equity if the stop is hit
+      if (stopPrice === null || stopPrice >= price) return 0;
+      const quantity = (cash * sizing.percent) / 100 / (price - stopPrice);
+      return Math.min(quantity * price * (1 + fee), cash);
+    }
+  }
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Annualized ratio of the mean per-candle return to its deviation. Sortino
+ * only counts returns below zero as deviation.
+ */
+function annualizedRatio(
+  returns: number[],
+  periodsPerYear: number,
+  downsideOnly: boolean
+): number | null {
+  if (returns.length < 2) return null;
+  const average = mean(returns);
+  const deviation = downsideOnly
+    ? Math.sqrt(
+        returns.reduce((sum, value) => sum + Math.min(value, 0) ** 2, 0) /
+          returns.length
+      )
+    : Math.sqrt(
+        returns.reduce((sum, value) => sum + (value - average) ** 2, 0) /
+          (returns.length - 1)
+      );
+  return deviation > 0
+    ? (average / deviation) * Math.sqrt(periodsPerYear)
+    : null;
+}
+
+function calculateMetrics(
+  candles: CandleStick[],
+  interval: string,
+  equity: EquityPoint[],
+  trades: BacktestTrade[],
+  exposedCandles: number,
+  settings: BacktestSettings
+): BacktestMetrics {
+  const intervalMs = getIntervalMs(interval);
+  const finalEquity = equity[equity.length - 1].equity;
+  const growth = finalEquity / settings.initialCapital;
+
+  const returns = equity
+    .slice(1)
+    .map((point, i) => point.equity / equity[i].equity - 1);
+  const periodsPerYear = YEAR_MS / intervalMs;
+
+  const years =
+    (candles[candles.length - 1].time - candles[0].time + intervalMs) / YEAR_MS;
+  const cagr =
+    years * 365.25 < 1
+      ? null
+      : growth > 0
+        ? (growth ** (1 / years) - 1) * 100
+        : -100;
+
+  const grossProfit = trades
+    .filter((trade) => trade.pnl > 0)
+    .reduce((sum, trade) => sum + trade.pnl, 0);
+  const grossLoss = -trades
+    .filter((trade) => trade.pnl < 0)
+    .reduce((sum, trade) => sum + trade.pnl, 0);
+
+  const fee = settings.feePercent / 100;
+  const slippage = settings.slippagePercent / 100;
+  const buyAndHold =
+    (candles[candles.length - 1].close * (1 - slippage) * (1 - fee)) /
+    (candles[0].open * (1 + slippage) * (1 + fee));
+
+  return {
+    finalEquity,
+    totalReturn: (growth - 1) * 100,
+    cagr,
+    sharpe: annualizedRatio(returns, periodsPerYear, false),
+    sortino: annualizedRatio(returns, periodsPerYear, true),
+    maxDrawdown: Math.max(0, ...equity.map((point) => point.drawdown)),
+    winRate: trades.length
+      ? (trades.filter((trade) => trade.pnl > 0).length / trades.length) * 100
+      : null,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    trades: trades.length,
+    exposure: (exposedCandles / candles.length) * 100,
+    buyAndHoldReturn: (buyAndHold - 1) * 100,
+  };
+}
+
+/**
+ * Simulate a long-only strategy over candles, oldest first. Signals are read
+ * on each candle's close and filled at the next candle's open, with slippage
+ * against the fill and a fee on its notional. Stop-losses and take-profits
+ * trigger inside a candle, the stop first when both are touched, and fill at
+ * the open when the price gaps through them. A position still open after the
+ * last candle is closed at its close.
+ *
+ * Trading starts at candle `from`; earlier candles only warm up the
+ * indicators, so a window can be tested with the history before it.
+ */
+export function runBacktest(
+  candles: CandleStick[],
+  interval: string,
+  definition: StrategyDefinition,
+  settings: BacktestSettings = DEFAULT_BACKTEST_SETTINGS,
+  from: number = 0
+): Pick<BacktestResult, "metrics" | "equity" | "trades"> {
+  const strategy = compileStrategy(candles, interval, definition);
+  if (candles.length < strategy.lookback + 2) {
+    throw new ValidationError(
+      `Backtest needs at least ${strategy.lookback + 2} candles for its indicators`,
+      { candles: candles.length }
+    );
+  }
+
+  const fee = settings.feePercent / 100;
+  const slippage = settings.slippagePercent / 100;
+
+  const trades: BacktestTrade[] = [];
+  const equity: EquityPoint[] = [];
+  let cash = settings.initialCapital;
+  let position: OpenPosition | null = null;
+  let pending: "buy" | "sell" | null = null;
+  let peak = cash;
+  let exposedCandles = 0;
+
+  const closePosition = (
+    open: OpenPosition,
+    index: number,
+    price: number,
+    exitReason: BacktestTrade["exitReason"]
+  ) => {
+    const exitPrice = price * (1 - slippage);
+    const proceeds = open.quantity * exitPrice;
+    const exitFee = proceeds * fee;
+    cash += proceeds - exitFee;
+    const pnl = proceeds - exitFee - open.cost;
+    trades.push({
+      entryTime: open.time,
+      entryPrice: open.price,
+      exitTime: candles[index].time,
+      exitPrice,
+      quantity: open.quantity,
+      fees: open.fee + exitFee,
+      pnl,
+      returnPercent: (pnl / open.cost) * 100,
+      // Signal exits fill at the open, the others during the candle
+      candles: index - open.index + (exitReason === "signal" ? 0 : 1),
+      exitReason,
+    });
+  };
+
+  candles.forEach((candle, i) => {
+    if (i < from) return;
+    if (pending === "buy") {
+      const price = candle.open * (1 + slippage);
+      const stopPrice = strategy.getStopPrice(i - 1, price);
+      const budget = getPositionBudget(
+        definition.sizing,
+        cash,
+        price,
+        stopPrice,
+        fee
+      );
+      if (budget > 0) {
+        const quantity = budget / (price * (1 + fee));
+        position = {
+          index: i,
+          time: candle.time,
+          price,
+          quantity,
+          cost: budget,
+          fee: quantity * price * fee,
+          stopPrice,
+          targetPrice: strategy.getTargetPrice(i - 1, price),
+        };
+        cash -= budget;
+      }
+    } else if (pending === "sell" && position) {
+      closePosition(position, i, candle.open, "signal");
+      position = null;
+    }
+    pending = null;
+
+    if (position) {
+      const { stopPrice, targetPrice } = position;
+      if (stopPrice !== null && candle.low <= stopPrice) {
+        closePosition(
+          position,
+          i,
+          Math.min(candle.open, stopPrice),
+          "stop_loss"
+        );
+        position = null;
+      } else if (targetPrice !== null && candle.high >= targetPrice) {
+        closePosition(
+          position,
+          i,
+          Math.max(candle.open, targetPrice),
+          "take_profit"
+        );
+        position = null;
+      }
+    }
+
+    if (i < candles.length - 1) {
+      if (!position && strategy.shouldEnter(i)) pending = "buy";
+      else if (position && strategy.shouldExit(i)) pending = "sell";
+    }
+
+    if (position) {
+      exposedCandles++;
+      if (i === candles.length - 1) {
+        closePosition(position, i, candle.close, "end");
+        position = null;
+      }
+    }
+
+    const value = cash + (position ? position.quantity * candle.close : 0);
+    peak = Math.max(peak, value);
+    equity.push({
+      time: candle.time,
+      equity: value,
+      drawdown: peak > 0 ? ((peak - value) / peak) * 100 : 0,
+    });
+  });
+
+  return {
+    metrics: calculateMetrics(
+      candles.slice(from),
+      interval,
+      equity,
+      trades,
+      exposedCandles,
+      settings
+    ),
+    equity,
+    trades,
+  };
+}
@@ -0,0 +1,191 @@
+import type { BacktestRequest, StrategyDefinition } from "../../shared/schema";
+import {
+  BacktestResult,
+  BacktestSettings,
+  DEFAULT_BACKTEST_SETTINGS,
+} from "../../shared/types/backtest";
+import { storage } from "../storage";
+import { CandleStick } from "../types/market";
+import { CustomAPIError, ValidationError } from "../utils/errors";
+import { alignOpenTime, isValidInterval } from "../utils/intervals";
+import { candleStore, TimeRange } from "./candle-store";
+import { getSourceIntervals, resampleCandles } from "./candle-resampler";
+import { normalizeSymbol } from "./market-service";
+import { runBacktest } from "./backtest-engine";
+
+// Most candles a single backtest simulates
+export const MAX_BACKTEST_CANDLES = 20000;
+
+/**
+ * Read closed candles from the local store only. The interval itself is
+ * preferred, otherwise the coarsest interval it can be resampled from that is
+ * stored without gaps. A start time of 0 reads from the first stored candle.
+ */
+export async function loadStoredCandles(
+  symbol: string,
+  interval: string,
+  startTime: number,
+  endTime: number
+): Promise<{ candles: CandleStick[]; source: string }> {
+  const sources = [
+    interval,
+    ...getSourceIntervals(interval)
+      .filter((source) => source !== interval)
+      .reverse(),
+  ];
+
+  // Stop before the candle that is still open
+  const closedEnd = Math.min(endTime, alignOpenTime(Date.now(), interval) - 1);
+  let gaps: TimeRange[] | null = null;
+
+  for (const source of sources) {
+    const stored = await candleStore.getCandles(
+      symbol,
+      source,
+      startTime,
+      closedEnd
+    );
+    if (!stored.length) continue;
+
+    const missing = await candleStore.getMissingRanges(
+      symbol,
+      source,
+      startTime || stored[0].time,
+      closedEnd
+    );
+    if (missing.length) {
+      if (!gaps) gaps = missing;
+      continue;
+    }
+
+    const candles =
+      source === interval ? stored : resampleCandles(stored, interval);
+    return { candles, source };
+  }
+
+  if (gaps) {
+    throw new ValidationError(
+      `Stored candles for ${symbol} ${interval} have gaps; load the range through the market endpoints first`,
+      { symbol, interval, startTime, endTime, missing: gaps.slice(0, 10) }
+    );
+  }
+  throw new ValidationError(
+    `No stored candles for ${symbol} ${interval}; load the range through the market endpoints first`,
+    { symbol, interval, startTime, endTime }
+  );
+}
+
+/**
+ * Runs rule-based strategies over candles already held in the candle store,
+ * without calling the exchanges
+ */
+export class BacktestService {
+  async run(
+    request: BacktestRequest,
+    userId?: string
+  ): Promise<BacktestResult> {
+    const { definition, strategyId, version } = await this.resolveStrategy(
+      request,
+      userId
+    );
+    const interval = request.interval ?? definition.timeframe;
+    if (!isValidInterval(interval)) {
+      throw new ValidationError("Unsupported kline interval", { interval });
+    }
+
+    const symbol = normalizeSymbol(request.symbol);
+    const startTime = request.startTime ?? 0;
+    const endTime = request.endTime ?? Date.now();
+    if (startTime >= endTime) {
+      throw new ValidationError("Start time must be before end time", {
+        startTime,
+        endTime,
+      });
+    }
+
+    const { candles, source } = await loadStoredCandles(
+      symbol,
+      interval,
+      startTime,
+      endTime
+    );
+    if (candles.length > MAX_BACKTEST_CANDLES) {
+      throw new ValidationError(
+        `Backtest range exceeds ${MAX_BACKTEST_CANDLES} candles; narrow the start and end times`,
+        { candles: candles.length }
+      );
+    }
+
+    const settings: BacktestSettings = {
+      initialCapital:
+        request.initialCapital ?? DEFAULT_BACKTEST_SETTINGS.initialCapital,
+      feePercent: request.feePercent ?? DEFAULT_BACKTEST_SETTINGS.feePercent,
+      slippagePercent:
+        request.slippagePercent ?? DEFAULT_BACKTEST_SETTINGS.slippagePercent,
+    };
+
+    return {
+      symbol,
+      interval,
+      source,
+      startTime: candles[0].time,
+      endTime: candles[candles.length - 1].time,
+      candles: candles.length,
+      strategy: definition,
+      strategyId,
+      version,
+      settings,
+      ...runBacktest(candles, interval, definition, settings),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * The inline definition, or a saved strategy at its latest or a given
+   * version. Another account's strategy is reported as not found.
+   */
+  private async resolveStrategy(
+    request: BacktestRequest,
+    userId: string | undefined
+  ): Promise<{
+    definition: StrategyDefinition;
+    strategyId: string | null;
+    version: number | null;
+  }> {
+    if (!request.strategyId) {
+      return { definition: request.strategy!, strategyId: null, version: null };
+    }
+
+    const strategy = await storage.getStrategy(request.strategyId);
+    if (!strategy || (strategy.userId && strategy.userId !== userId)) {
+      throw new CustomAPIError("Strategy not found", 404, "NOT_FOUND", {
+        id: request.strategyId,
+      });
+    }
+    if (!request.version || request.version === strategy.version) {
+      return {
+        definition: strategy.definition,
+        strategyId: strategy.id,
+        version: strategy.version,
+      };
+    }
+
+    const saved = await storage.getStrategyVersion(
+      strategy.id,
+      request.version
+    );
+    if (!saved) {
+      throw new CustomAPIError("Strategy version not found", 404, "NOT_FOUND", {
+        id: strategy.id,
+        version: request.version,
+      });
+    }
+    return {
+      definition: saved.definition,
+      strategyId: strategy.id,
+      version: saved.version,
+    };
+  }
+}
+
+export const backtestService = new BacktestService();
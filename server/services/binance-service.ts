@@ -1,21 +1,30 @@
 import crypto from "crypto";
+import { BinanceKlineRow } from "../types/binance";
+import { UpstreamHttpError } from "../utils/errors";
+import { symbolRegistry } from "./symbol-registry";
 
 export interface BinanceTickerData {
-  quoteAssetVolume(quoteAssetVolume: any): number;
-  highPrice(highPrice: any): number;
-  lowPrice(lowPrice: any): number;
-  priceChange(priceChange: any): number;
   symbol: string;
-  price: string;
+  priceChange: string;
   priceChangePercent: string;
+  lastPrice: string;
+  highPrice: string;
+  lowPrice: string;
   volume: string;
+  quoteVolume: string;
+  openTime: number;
+  closeTime: number;
   count: number;
 }
 
-export interface BinanceMarketStats {
-  totalMarketCap: string;
-  totalVolume24h: string;
-  btcDominance: string;
+export interface BinanceExchangeInfo {
+  symbols: Array<{
+    symbol: string;
+    status: string;
+    baseAsset: string;
+    quoteAsset: string;
+    filters: Array<{ filterType: string; [key: string]: any }>;
+  }>;
 }
 
 const BINANCE_ENDPOINTS = [
@@ -53,7 +62,9 @@ class BinanceService {
   ): Promise<any> {
     try {
       const isPublicEndpoint =
-        endpoint.includes("/ticker/") || endpoint.includes("/exchangeInfo");
+        endpoint.includes("/ticker/") ||
+        endpoint.includes("/exchangeInfo") ||
+        endpoint.includes("/klines");
 
       // Try different endpoints if the current one fails
       while (this.retryCount < this.maxRetries) {
@@ -98,8 +109,9 @@ class BinanceService {
 
           if (!response.ok) {
             const errorText = await response.text();
-            throw new Error(
-              `${response.status} ${response.statusText} - ${errorText}`
+            throw new UpstreamHttpError(
+              `${response.status} ${response.statusText} - ${errorText}`,
+              response.status
             );
           }
 
@@ -145,7 +157,9 @@ class BinanceService {
       return Array.isArray(data) ? data : [data];
     } catch (error) {
       console.error("Failed to fetch Binance ticker data:", error);
-      throw new Error("Unable to fetch real-time market data from Binance");
+      throw new Error("Unable to fetch real-time market data from Binance", {
+        cause: error,
+      });
     }
   }
 
@@ -153,36 +167,39 @@ class BinanceService {
     try {
       console.log("Fetching top cryptocurrencies from Binance...");
 
-      // Get 24hr ticker for major cryptocurrencies
-      const majorSymbols = [
-        "BTCUSDT",
-        "ETHUSDT",
-        "ADAUSDT",
-        "DOTUSDT",
-        "LINKUSDT",
-        "LTCUSDT",
-        "BCHUSDT",
-        "XLMUSDT",
-      ];
       const tickerData = await this.get24hrTicker();
 
-      // Filter for major cryptocurrencies and format
+      // Rank USDT pairs by market cap where the circulating supply is known
       const majorTickers = tickerData
-        .filter((ticker) => majorSymbols.includes(ticker.symbol))
-        .map((ticker) => ({
-          id: ticker.symbol.replace("USDT", "").toLowerCase(),
-          symbol: ticker.symbol.replace("USDT", ""),
-          name: this.getSymbolName(ticker.symbol.replace("USDT", "")),
-          price: parseFloat(ticker.price).toFixed(2),
-          priceChangePercent24h: parseFloat(ticker.priceChangePercent).toFixed(
-            2
-          ),
-          volume24h: parseFloat(ticker.volume).toFixed(0),
-          marketCap: this.estimateMarketCap(
-            ticker.symbol.replace("USDT", ""),
-            parseFloat(ticker.price)
-          ),
-        }))
+        .filter((ticker) => {
+          const pair = symbolRegistry.getPair(ticker.symbol);
+          return pair
+            ? pair.quoteAsset === "USDT" && pair.status === "trading"
+            : ticker.symbol.endsWith("USDT");
+        })
+        .map((ticker) => {
+          const symbol = symbolRegistry.resolveBaseAsset(ticker.symbol);
+          const marketCap = symbolRegistry.getMarketCap(
+            symbol,
+            parseFloat(ticker.lastPrice)
+          );
+
+          return {
+            id: symbol.toLowerCase(),
+            symbol,
+            name: symbolRegistry.getName(symbol),
+            price: parseFloat(ticker.lastPrice).toFixed(2),
+            priceChangePercent24h: parseFloat(
+              ticker.priceChangePercent
+            ).toFixed(2),
+            volume24h: parseFloat(ticker.volume).toFixed(0),
+            marketCap: marketCap !== undefined ? marketCap.toFixed(0) : null,
+          };
+        })
+        .filter(
+          (ticker): ticker is typeof ticker & { marketCap: string } =>
+            ticker.marketCap !== null
+        )
         .sort((a, b) => parseFloat(b.marketCap) - parseFloat(a.marketCap))
         .slice(0, 8);
 
@@ -193,114 +210,49 @@ class BinanceService {
     }
   }
 
-  private getSymbolName(symbol: string): string {
-    const names: Record<string, string> = {
-      BTC: "Bitcoin",
-      ETH: "Ethereum",
-      ADA: "Cardano",
-      DOT: "Polkadot",
-      LINK: "Chainlink",
-      LTC: "Litecoin",
-      BCH: "Bitcoin Cash",
-      XLM: "Stellar",
-      USDT: "Tether",
-      BNB: "Binance Coin",
-      XRP: "Ripple",
-      SOL: "Solana",
-      DOGE: "Dogecoin",
-      MATIC: "Polygon",
-      AVAX: "Avalanche",
-      UNI: "Uniswap",
-      TRX: "Tron",
-      ATOM: "Cosmos",
-      XMR: "Monero",
-    };
-    return names[symbol] || symbol;
-  }
-
-  private estimateMarketCap(symbol: string, price: number): string {
-    // Rough estimates for market cap calculation
-    const circulatingSupplies: Record<string, number> = {
-      BTC: 19800000,
-      ETH: 120000000,
-      ADA: 35000000000,
-      DOT: 1400000000,
-      LINK: 540000000,
-      LTC: 75000000,
-      BCH: 19800000,
-      XLM: 29000000000,
-      USDT: 70000000000,
-      BNB: 160000000,
-      XRP: 50000000000,
-      SOL: 400000000,
-      DOGE: 130000000000,
-      MATIC: 8000000000,
-      AVAX: 300000000,
-      UNI: 1000000000,
-      TRX: 100000000000,
-      ATOM: 250000000,
-      XMR: 18000000,
-    };
-
-    const supply = circulatingSupplies[symbol] || 1000000;
-    return (price * supply).toFixed(0);
+  async getMarketData(): Promise<any[]> {
+    return this.getTopCryptocurrencies();
   }
 
-  async getMarketStats(): Promise<BinanceMarketStats> {
+  async getExchangeInfo(): Promise<BinanceExchangeInfo> {
     try {
-      console.log("Calculating market statistics from Binance data...");
-
-      const tickers = await this.getTopCryptocurrencies();
-
-      // Calculate total market cap and volume
-      let totalMarketCap = 0;
-      let totalVolume = 0;
-      let btcMarketCap = 0;
-
-      tickers.forEach((ticker) => {
-        const marketCap = parseFloat(ticker.marketCap);
-        const volume = parseFloat(ticker.volume24h);
-
-        totalMarketCap += marketCap;
-        totalVolume += volume;
-
-        if (ticker.symbol === "BTC") {
-          btcMarketCap = marketCap;
-        }
-      });
-
-      const btcDominance =
-        totalMarketCap > 0
-          ? ((btcMarketCap / totalMarketCap) * 100).toFixed(1)
-          : "0";
-
-      return {
-        totalMarketCap: this.formatNumber(totalMarketCap),
-        totalVolume24h: this.formatNumber(totalVolume),
-        btcDominance: `${btcDominance}%`,
-      };
+      console.log("Fetching exchange info from Binance...");
+      return await this.makeRequest("/api/v3/exchangeInfo");
     } catch (error) {
-      console.error("Failed to calculate market stats:", error);
-      throw error;
+      console.error("Failed to fetch Binance exchange info:", error);
+      throw new Error("Unable to fetch exchange info from Binance", {
+        cause: error,
+      });
     }
   }
 
-  private formatNumber(num: number): string {
-    if (num >= 1e12) {
-      return `$${(num / 1e12).toFixed(2)}T`;
-    } else if (num >= 1e9) {
-      return `$${(num / 1e9).toFixed(2)}B`;
-    } else if (num >= 1e6) {
-      return `$${(num / 1e6).toFixed(2)}M`;
-    } else {
-      return `$${num.toFixed(2)}`;
+  async getKlines(
+    symbol: string,
+    interval: string,
+    options: { startTime?: number; endTime?: number; limit?: number } = {}
+  ): Promise<BinanceKlineRow[]> {
+    try {
+      console.log(`Fetching ${interval} klines for ${symbol} from Binance...`);
+      const params: Record<string, string> = { symbol, interval };
+      if (options.startTime !== undefined) {
+        params.startTime = options.startTime.toString();
+      }
+      if (options.endTime !== undefined) {
+        params.endTime = options.endTime.toString();
+      }
+      if (options.limit !== undefined) {
+        params.limit = options.limit.toString();
+      }
+      const data = await this.makeRequest("/api/v3/klines", params);
+      return Array.isArray(data) ? data : [];
+    } catch (error) {
+      console.error("Failed to fetch Binance klines:", error);
+      throw new Error("Unable to fetch candlestick data from Binance", {
+        cause: error,
+      });
     }
   }
 
-  async getMarketData(): Promise<any[]> {
-    return this.getTopCryptocurrencies();
-  }
-
   async getDepth(
     symbol: string,
     limit: number = 100
@@ -316,7 +268,9 @@ class BinanceService {
       return data;
     } catch (error) {
       console.error("Failed to fetch Binance depth data:", error);
-      throw new Error("Unable to fetch order book data from Binance");
+      throw new Error("Unable to fetch order book data from Binance", {
+        cause: error,
+      });
     }
   }
 }
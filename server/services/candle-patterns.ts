@@ -0,0 +1,597 @@
+import {
+  CandlePattern,
+  CandlePatternName,
+  CandlePatternSummary,
+  CandleStick,
+  PatternDirection,
+} from "../types/market";
+
+// Candles before a pattern used to measure the prior trend
+const TREND_LOOKBACK = 10;
+
+// Normalized prior move below which the market counts as trendless
+const TREND_THRESHOLD = 0.25;
+
+// Candles averaged for the typical range and volume
+const RANGE_LOOKBACK = 14;
+const VOLUME_LOOKBACK = 20;
+
+// Patterns ending within this many candles count as recent
+export const RECENT_PATTERN_CANDLES = 5;
+
+// Share of the strength score from shape, prior trend and volume
+const STRENGTH_WEIGHTS = { shape: 0.6, trend: 0.2, volume: 0.2 };
+
+interface Shape {
+  open: number;
+  close: number;
+  high: number;
+  low: number;
+  body: number;
+  range: number;
+  upper: number; // Upper shadow
+  lower: number; // Lower shadow
+  mid: number; // Body midpoint
+  bullish: boolean;
+  bearish: boolean;
+}
+
+interface PatternDefinition {
+  name: CandlePatternName;
+  label: string;
+  direction: PatternDirection;
+  length: number;
+  // Trend a reversal pattern follows, null for patterns that don't need one
+  trend: "up" | "down" | null;
+  // Shapes that only mean something after a trend, e.g. hammer vs hanging man
+  trendRequired?: boolean;
+  // Shape quality from 0 to 1, or null when the candles don't form the
+  // pattern. Candles are oldest first.
+  match(shapes: Shape[], averageRange: number): number | null;
+}
+
+export interface CandlePatternOptions {
+  minStrength?: number;
+}
+
+function shapeOf(candle: CandleStick): Shape {
+  const top = Math.max(candle.open, candle.close);
+  const bottom = Math.min(candle.open, candle.close);
+  return {
+    open: candle.open,
+    close: candle.close,
+    high: candle.high,
+    low: candle.low,
+    body: top - bottom,
+    range: candle.high - candle.low,
+    upper: candle.high - top,
+    lower: bottom - candle.low,
+    mid: (top + bottom) / 2,
+    bullish: candle.close > candle.open,
+    bearish: candle.close < candle.open,
+  };
+}
+
+function clamp(value: number, min = 0, max = 1): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function average(values: number[]): number {
+  return values.length
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+}
+
+function isDoji(shape: Shape): boolean {
+  return shape.range > 0 && shape.body <= shape.range * 0.1;
+}
+
+// A candle with a real body, at least half the typical range
+function isLong(shape: Shape, averageRange: number): boolean {
+  return shape.body >= averageRange * 0.5 && shape.body >= shape.range * 0.5;
+}
+
+// Long lower shadow, small upper one: hammer and hanging man
+function matchHammerShape([shape]: Shape[]): number | null {
+  if (isDoji(shape) || shape.body === 0) return null;
+  if (shape.lower < shape.body * 2) return null;
+  if (shape.upper > Math.max(shape.body * 0.5, shape.range * 0.1)) return null;
+  return clamp(shape.lower / shape.body / 4);
+}
+
+// Long upper shadow, small lower one: inverted hammer and shooting star
+function matchInvertedHammerShape([shape]: Shape[]): number | null {
+  if (isDoji(shape) || shape.body === 0) return null;
+  if (shape.upper < shape.body * 2) return null;
+  if (shape.lower > Math.max(shape.body * 0.5, shape.range * 0.1)) return null;
+  return clamp(shape.upper / shape.body / 4);
+}
+
+function matchEngulfing(bullish: boolean) {
+  return ([previous, current]: Shape[]): number | null => {
+    const reversed = bullish
+      ? previous.bearish && current.bullish
+      : previous.bullish && current.bearish;
+    if (!reversed || current.body <= previous.body) return null;
+    if (
+      Math.max(current.open, current.close) <
+        Math.max(previous.open, previous.close) ||
+      Math.min(current.open, current.close) >
+        Math.min(previous.open, previous.close)
+    ) {
+      return null;
+    }
+    return clamp(current.body / previous.body / 3);
+  };
+}
+
+function matchHarami(bullish: boolean) {
+  return ([previous, current]: Shape[], averageRange: number) => {
+    const reversed = bullish
+      ? previous.bearish && current.bullish
+      : previous.bullish && current.bearish;
+    if (!reversed || !isLong(previous, averageRange)) return null;
+    if (current.body > previous.body * 0.5) return null;
+    if (
+      Math.max(current.open, current.close) >
+        Math.max(previous.open, previous.close) ||
+      Math.min(current.open, current.close) <
+        Math.min(previous.open, previous.close)
+    ) {
+      return null;
+    }
+    return clamp(1 - current.body / previous.body);
+  };
+}
+
+// Piercing line and dark cloud cover: a close past the prior body's midpoint
+function matchPenetration(bullish: boolean) {
+  return ([previous, current]: Shape[], averageRange: number) => {
+    if (!isLong(previous, averageRange)) return null;
+    if (bullish) {
+      if (!previous.bearish || !current.bullish) return null;
+      if (current.open > previous.close) return null;
+      if (current.close <= previous.mid || current.close >= previous.open) {
+        return null;
+      }
+      return clamp(
+        (current.close - previous.mid) / (previous.open - previous.mid)
+      );
+    }
+
+    if (!previous.bullish || !current.bearish) return null;
+    if (current.open < previous.close) return null;
+    if (current.close >= previous.mid || current.close <= previous.open) {
+      return null;
+    }
+    return clamp(
+      (previous.mid - current.close) / (previous.mid - previous.open)
+    );
+  };
+}
+
+function matchTweezer(bottom: boolean) {
+  return ([previous, current]: Shape[], averageRange: number) => {
+    const reversed = bottom
+      ? previous.bearish && current.bullish
+      : previous.bullish && current.bearish;
+    if (!reversed || averageRange === 0) return null;
+
+    const tolerance = averageRange * 0.05;
+    const difference = bottom
+      ? Math.abs(previous.low - current.low)
+      : Math.abs(previous.high - current.high);
+    return difference <= tolerance ? clamp(1 - difference / tolerance) : null;
+  };
+}
+
+function matchStar(morning: boolean) {
+  return ([first, star, last]: Shape[], averageRange: number) => {
+    if (!isLong(first, averageRange)) return null;
+    if (star.body > first.body * 0.3) return null;
+
+    if (morning) {
+      if (!first.bearish || !last.bullish) return null;
+      if (star.mid > first.close) return null;
+      if (last.close <= first.mid) return null;
+      return clamp((last.close - first.mid) / (first.open - first.mid));
+    }
+
+    if (!first.bullish || !last.bearish) return null;
+    if (star.mid < first.close) return null;
+    if (last.close >= first.mid) return null;
+    return clamp((first.mid - last.close) / (first.mid - first.open));
+  };
+}
+
+function matchThreeCandles(bullish: boolean) {
+  return (shapes: Shape[], averageRange: number) => {
+    for (let i = 0; i < shapes.length; i++) {
+      const shape = shapes[i];
+      if (bullish ? !shape.bullish : !shape.bearish) return null;
+      if (shape.body < averageRange * 0.5) return null;
+      // Closes near the extreme
+      const shadow = bullish ? shape.upper : shape.lower;
+      if (shadow > shape.body * 0.3) return null;
+
+      if (i > 0) {
+        const previous = shapes[i - 1];
+        const top = Math.max(previous.open, previous.close);
+        const bottom = Math.min(previous.open, previous.close);
+        // Each opens within the previous body and closes beyond it
+        if (shape.open < bottom || shape.open > top) return null;
+        if (
+          bullish
+            ? shape.close <= previous.close
+            : shape.close >= previous.close
+        ) {
+          return null;
+        }
+      }
+    }
+    return clamp(average(shapes.map((shape) => shape.body / shape.range)));
+  };
+}
+
+const PATTERNS: PatternDefinition[] = [
+  {
+    name: "doji",
+    label: "Doji",
+    direction: "neutral",
+    length: 1,
+    trend: null,
+    match: ([shape]) => {
+      if (!isDoji(shape)) return null;
+      // Dragonfly and gravestone doji are reported on their own
+      if (shape.lower >= shape.range * 0.6 || shape.upper >= shape.range * 0.6)
+        return null;
+      return clamp(1 - shape.body / (shape.range * 0.1));
+    },
+  },
+  {
+    name: "dragonfly_doji",
+    label: "Dragonfly Doji",
+    direction: "bullish",
+    length: 1,
+    trend: "down",
+    match: ([shape]) =>
+      isDoji(shape) &&
+      shape.lower >= shape.range * 0.6 &&
+      shape.upper <= shape.range * 0.1
+        ? clamp(shape.lower / shape.range)
+        : null,
+  },
+  {
+    name: "gravestone_doji",
+    label: "Gravestone Doji",
+    direction: "bearish",
+    length: 1,
+    trend: "up",
+    match: ([shape]) =>
+      isDoji(shape) &&
+      shape.upper >= shape.range * 0.6 &&
+      shape.lower <= shape.range * 0.1
+        ? clamp(shape.upper / shape.range)
+        : null,
+  },
+  {
+    name: "hammer",
+    label: "Hammer",
+    direction: "bullish",
+    length: 1,
+    trend: "down",
+    trendRequired: true,
+    match: matchHammerShape,
+  },
+  {
+    name: "hanging_man",
+    label: "Hanging Man",
+    direction: "bearish",
+    length: 1,
+    trend: "up",
+    trendRequired: true,
+    match: matchHammerShape,
+  },
+  {
+    name: "inverted_hammer",
+    label: "Inverted Hammer",
+    direction: "bullish",
+    length: 1,
+    trend: "down",
+    trendRequired: true,
+    match: matchInvertedHammerShape,
+  },
+  {
+    name: "shooting_star",
+    label: "Shooting Star",
+    direction: "bearish",
+    length: 1,
+    trend: "up",
+    trendRequired: true,
+    match: matchInvertedHammerShape,
+  },
+  {
+    name: "bullish_marubozu",
+    label: "Bullish Marubozu",
+    direction: "bullish",
+    length: 1,
+    trend: null,
+    match: ([shape], averageRange) =>
+      shape.bullish &&
+      shape.body >= shape.range * 0.9 &&
+      shape.range >= averageRange
+        ? clamp((shape.body / shape.range - 0.9) * 10)
+        : null,
+  },
+  {
+    name: "bearish_marubozu",
+    label: "Bearish Marubozu",
+    direction: "bearish",
+    length: 1,
+    trend: null,
+    match: ([shape], averageRange) =>
+      shape.bearish &&
+      shape.body >= shape.range * 0.9 &&
+      shape.range >= averageRange
+        ? clamp((shape.body / shape.range - 0.9) * 10)
+        : null,
+  },
+  {
+    name: "bullish_engulfing",
+    label: "Bullish Engulfing",
+    direction: "bullish",
+    length: 2,
+    trend: "down",
+    match: matchEngulfing(true),
+  },
+  {
+    name: "bearish_engulfing",
+    label: "Bearish Engulfing",
+    direction: "bearish",
+    length: 2,
+    trend: "up",
+    match: matchEngulfing(false),
+  },
+  {
+    name: "bullish_harami",
+    label: "Bullish Harami",
+    direction: "bullish",
+    length: 2,
+    trend: "down",
+    match: matchHarami(true),
+  },
+  {
+    name: "bearish_harami",
+    label: "Bearish Harami",
+    direction: "bearish",
+    length: 2,
+    trend: "up",
+    match: matchHarami(false),
+  },
+  {
+    name: "inside_bar",
+    label: "Inside Bar",
+    direction: "neutral",
+    length: 2,
+    trend: null,
+    match: ([previous, current]) =>
+      current.high < previous.high && current.low > previous.low
+        ? clamp(1 - current.range / previous.range)
+        : null,
+  },
+  {
+    name: "piercing_line",
+    label: "Piercing Line",
+    direction: "bullish",
+    length: 2,
+    trend: "down",
+    match: matchPenetration(true),
+  },
+  {
+    name: "dark_cloud_cover",
+    label: "Dark Cloud Cover",
+    direction: "bearish",
+    length: 2,
+    trend: "up",
+    match: matchPenetration(false),
+  },
+  {
+    name: "tweezer_bottom",
+    label: "Tweezer Bottom",
+    direction: "bullish",
+    length: 2,
+    trend: "down",
+    trendRequired: true,
+    match: matchTweezer(true),
+  },
+  {
+    name: "tweezer_top",
+    label: "Tweezer Top",
+    direction: "bearish",
+    length: 2,
+    trend: "up",
+    trendRequired: true,
+    match: matchTweezer(false),
+  },
+  {
+    name: "morning_star",
+    label: "Morning Star",
+    direction: "bullish",
+    length: 3,
+    trend: "down",
+    match: matchStar(true),
+  },
+  {
+    name: "evening_star",
+    label: "Evening Star",
+    direction: "bearish",
+    length: 3,
+    trend: "up",
+    match: matchStar(false),
+  },
+  {
+    name: "three_white_soldiers",
+    label: "Three White Soldiers",
+    direction: "bullish",
+    length: 3,
+    trend: "down",
+    match: matchThreeCandles(true),
+  },
+  {
+    name: "three_black_crows",
+    label: "Three Black Crows",
+    direction: "bearish",
+    length: 3,
+    trend: "up",
+    match: matchThreeCandles(false),
+  },
+];
+
+/**
+ * Move into the candle at `start`, in multiples of the typical range. Positive
+ * for an uptrend, clamped to ±1.
+ */
+function measurePriorTrend(
+  candles: CandleStick[],
+  start: number,
+  averageRange: number
+): number {
+  if (start < 1 || averageRange === 0) return 0;
+  const from = candles[Math.max(0, start - 1 - TREND_LOOKBACK)];
+  const to = candles[start - 1];
+  return clamp((to.close - from.close) / (averageRange * 3), -1, 1);
+}
+
+/**
+ * Find candlestick patterns in a candle series, oldest first. Each pattern's
+ * strength blends its shape quality with how well the prior trend and volume
+ * confirm it.
+ */
+export function detectCandlePatterns(
+  candles: CandleStick[],
+  options: CandlePatternOptions = {}
+): CandlePattern[] {
+  const { minStrength = 0 } = options;
+  const shapes = candles.map(shapeOf);
+  const patterns: CandlePattern[] = [];
+
+  for (let end = 0; end < candles.length; end++) {
+    for (const definition of PATTERNS) {
+      const start = end - definition.length + 1;
+      if (start < 0) continue;
+
+      // Typical range before the pattern, or of the pattern itself at the start
+      const context = shapes.slice(Math.max(0, start - RANGE_LOOKBACK), start);
+      const averageRange = average(
+        (context.length ? context : shapes.slice(start, end + 1)).map(
+          (shape) => shape.range
+        )
+      );
+
+      const quality = definition.match(
+        shapes.slice(start, end + 1),
+        averageRange
+      );
+      if (quality === null) continue;
+
+      const trend = measurePriorTrend(candles, start, averageRange);
+      let trendScore = 0.5;
+      if (definition.trend) {
+        const aligned = definition.trend === "up" ? trend : -trend;
+        if (definition.trendRequired && aligned < TREND_THRESHOLD) continue;
+        trendScore = clamp(aligned);
+      }
+
+      const volumes = candles
+        .slice(Math.max(0, end - VOLUME_LOOKBACK), end)
+        .map((candle) => candle.volume);
+      const averageVolume = average(volumes);
+      // Twice the usual volume or more is full confirmation
+      const volumeScore = averageVolume
+        ? clamp(candles[end].volume / averageVolume / 2)
+        : 0.5;
+
+      const strength =
+        quality * STRENGTH_WEIGHTS.shape +
+        trendScore * STRENGTH_WEIGHTS.trend +
+        volumeScore * STRENGTH_WEIGHTS.volume;
+      if (strength < minStrength) continue;
+
+      patterns.push({
+        name: definition.name,
+        label: definition.label,
+        direction: definition.direction,
+        index: end,
+        time: candles[end].time,
+        length: definition.length,
+        price:
+          definition.direction === "bullish"
+            ? candles[end].low
+            : candles[end].high,
+        strength: Math.round(strength * 100) / 100,
+      });
+    }
+  }
+
+  return patterns;
+}
+
+/**
+ * Counts and a strength weighted bias for the patterns ending in the last
+ * few candles
+ */
+export function summarizeCandlePatterns(
+  patterns: CandlePattern[],
+  candleCount: number,
+  recentCandles: number = RECENT_PATTERN_CANDLES
+): CandlePatternSummary {
+  const recent = patterns
+    .filter((pattern) => pattern.index >= candleCount - recentCandles)
+    .sort((a, b) => b.strength - a.strength);
+
+  const count = (direction: PatternDirection) =>
+    recent.filter((pattern) => pattern.direction === direction).length;
+  const directional = recent.filter(
+    (pattern) => pattern.direction !== "neutral"
+  );
+  const totalStrength = directional.reduce(
+    (sum, pattern) => sum + pattern.strength,
+    0
+  );
+  const score = totalStrength
+    ? directional.reduce(
+        (sum, pattern) =>
+          sum +
+          (pattern.direction === "bullish"
+            ? pattern.strength
+            : -pattern.strength),
+        0
+      ) / totalStrength
+    : 0;
+
+  return {
+    bullish: count("bullish"),
+    bearish: count("bearish"),
+    neutral: count("neutral"),
+    score,
+    bias: score > 0.2 ? "bullish" : score < -0.2 ? "bearish" : "neutral",
+    recent,
+  };
+}
+
+/**
+ * One line description of the recent patterns for analysis prompts, e.g.
+ * "bullish bias (score 0.62): Hammer (bullish, strength 0.81), Doji (...)"
+ */
+export function describeCandlePatterns(summary: CandlePatternSummary): string {
+  if (!summary.recent.length) {
+    return "no notable patterns";
+  }
+  const patterns = summary.recent
+    .map(
+      (pattern) =>
+        `${pattern.label} (${pattern.direction}, strength ${pattern.strength.toFixed(2)})`
+    )
+    .join(", ");
+  return `${summary.bias} bias (score ${summary.score.toFixed(2)}): ${patterns}`;
+}
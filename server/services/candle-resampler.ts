@@ -0,0 +1,97 @@
+import { CandleStick } from "../types/market";
+import { alignOpenTime, getIntervalMs, INTERVAL_MS } from "../utils/intervals";
+
+const DAY_MS = INTERVAL_MS["1d"];
+const WEEK_MS = INTERVAL_MS["1w"];
+
+// Weekly candles open on Monday, four days after the epoch
+const WEEK_OFFSET_MS = 4 * DAY_MS;
+
+// Native intervals usable as a resampling source, finest first. Weekly and
+// monthly candles don't share epoch alignment with the rest.
+const SOURCE_INTERVALS = Object.keys(INTERVAL_MS).filter(
+  (interval) => interval !== "1w" && interval !== "1M"
+);
+
+/**
+ * Whether every candle of `target` is made of whole `source` candles
+ */
+export function canResample(
+  source: string,
+  target: string,
+  offset: number = 0
+): boolean {
+  if (!SOURCE_INTERVALS.includes(source)) return false;
+
+  const sourceMs = getIntervalMs(source);
+  const targetMs = getIntervalMs(target);
+  if (sourceMs > targetMs || offset % sourceMs !== 0) return false;
+
+  if (target === "1M") {
+    return DAY_MS % sourceMs === 0;
+  }
+  if (targetMs % WEEK_MS === 0) {
+    return WEEK_OFFSET_MS % sourceMs === 0;
+  }
+  if (targetMs < DAY_MS && DAY_MS % targetMs !== 0) {
+    // Session aligned, candles restart at every session open
+    return DAY_MS % sourceMs === 0 && targetMs % sourceMs === 0;
+  }
+  return targetMs % sourceMs === 0;
+}
+
+/**
+ * Native intervals that can be resampled into `target`, finest first
+ */
+export function getSourceIntervals(
+  target: string,
+  offset: number = 0
+): string[] {
+  return SOURCE_INTERVALS.filter((source) =>
+    canResample(source, target, offset)
+  );
+}
+
+/**
+ * Aggregate candles into a higher timeframe. Input must be sorted by open
+ * time. A leading bucket whose first source candle is missing is dropped, as
+ * its open price would be wrong.
+ */
+export function resampleCandles(
+  candles: CandleStick[],
+  interval: string,
+  offset: number = 0
+): CandleStick[] {
+  const resampled: CandleStick[] = [];
+  let current: CandleStick | null = null;
+
+  for (const candle of candles) {
+    const openTime = alignOpenTime(candle.time, interval, offset);
+
+    if (current && current.time === openTime) {
+      current.high = Math.max(current.high, candle.high);
+      current.low = Math.min(current.low, candle.low);
+      current.close = candle.close;
+      current.volume += candle.volume;
+      current.trades += candle.trades;
+      continue;
+    }
+
+    if (!current && candle.time !== openTime) {
+      continue;
+    }
+
+    current = {
+      time: openTime,
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+      trades: candle.trades,
+    };
+    resampled.push(current);
+  }
+
+  return resampled;
+}
@@ -0,0 +1,227 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { CandleStick } from "../types/market";
+import { alignOpenTime, shiftOpenTime } from "../utils/intervals";
+
+export interface TimeRange {
+  startTime: number;
+  endTime: number;
+}
+
+interface CandleSeries {
+  candles: Map<number, CandleStick>;
+  // Ranges of open times already fetched from upstream, sorted and merged
+  coverage: TimeRange[];
+}
+
+interface PersistedSeries {
+  candles: CandleStick[];
+  coverage: TimeRange[];
+}
+
+// Delay before a modified series is flushed to disk
+const WRITE_DELAY_MS = 1000;
+
+/**
+ * Local OHLCV store keyed by symbol + interval.
+ *
+ * Candles are indexed by open time, and the store remembers which ranges have
+ * already been requested from the exchange so that later requests only
+ * backfill what is missing. Series are persisted as JSON files when a
+ * directory is configured.
+ */
+export class CandleStore {
+  private series = new Map<string, CandleSeries>();
+  private loading = new Map<string, Promise<CandleSeries>>();
+  private pendingWrites = new Map<string, NodeJS.Timeout>();
+
+  constructor(private readonly directory: string | null) {}
+
+  /**
+   * Get stored candles with open times between startTime and endTime
+   */
+  async getCandles(
+    symbol: string,
+    interval: string,
+    startTime: number,
+    endTime: number
+  ): Promise<CandleStick[]> {
+    const series = await this.getSeries(symbol, interval);
+    return Array.from(series.candles.values())
+      .filter((candle) => candle.time >= startTime && candle.time <= endTime)
+      .sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Get the ranges between startTime and endTime that have not been fetched
+   */
+  async getMissingRanges(
+    symbol: string,
+    interval: string,
+    startTime: number,
+    endTime: number
+  ): Promise<TimeRange[]> {
+    const series = await this.getSeries(symbol, interval);
+    const missing: TimeRange[] = [];
+    let current: TimeRange | null = null;
+
+    for (
+      let time = alignOpenTime(startTime, interval);
+      time <= endTime;
+      time = shiftOpenTime(time, interval, 1)
+    ) {
+      if (this.isCovered(series, time)) {
+        current = null;
+        continue;
+      }
+
+      if (current) {
+        current.endTime = time;
+      } else {
+        current = { startTime: time, endTime: time };
+        missing.push(current);
+      }
+    }
+
+    return missing;
+  }
+
+  /**
+   * Insert or replace candles and mark the given range as fetched
+   */
+  async saveCandles(
+    symbol: string,
+    interval: string,
+    candles: CandleStick[],
+    covered?: TimeRange
+  ): Promise<void> {
+    const key = this.getKey(symbol, interval);
+    const series = await this.getSeries(symbol, interval);
+
+    candles.forEach((candle) => series.candles.set(candle.time, candle));
+
+    if (covered && covered.startTime <= covered.endTime) {
+      series.coverage = this.mergeCoverage(
+        [...series.coverage, covered],
+        interval
+      );
+    }
+
+    this.scheduleWrite(key, series);
+  }
+
+  /**
+   * Get the number of series and candles held in memory
+   */
+  getStats(): { series: number; candles: number } {
+    let candles = 0;
+    for (const series of this.series.values()) {
+      candles += series.candles.size;
+    }
+    return { series: this.series.size, candles };
+  }
+
+  private getKey(symbol: string, interval: string): string {
+    return `${symbol.toUpperCase()}_${interval}`;
+  }
+
+  private getFilePath(key: string): string | null {
+    if (!this.directory) return null;
+    // "1M" (month) and "1m" (minute) would collide on case-insensitive disks
+    return path.join(this.directory, `${key.replace(/M$/, "mo")}.json`);
+  }
+
+  private async getSeries(
+    symbol: string,
+    interval: string
+  ): Promise<CandleSeries> {
+    const key = this.getKey(symbol, interval);
+    const existing = this.series.get(key);
+    if (existing) return existing;
+
+    let pending = this.loading.get(key);
+    if (!pending) {
+      pending = this.loadSeries(key).then((series) => {
+        this.series.set(key, series);
+        this.loading.delete(key);
+        return series;
+      });
+      this.loading.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async loadSeries(key: string): Promise<CandleSeries> {
+    const filePath = this.getFilePath(key);
+    const empty: CandleSeries = { candles: new Map(), coverage: [] };
+    if (!filePath) return empty;
+
+    try {
+      const raw = await fs.readFile(filePath, "utf8");
+      const persisted = JSON.parse(raw) as PersistedSeries;
+      return {
+        candles: new Map(
+          persisted.candles.map((candle) => [candle.time, candle])
+        ),
+        coverage: persisted.coverage || [],
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.warn(`Failed to load candle series ${key}:`, error);
+      }
+      return empty;
+    }
+  }
+
+  private scheduleWrite(key: string, series: CandleSeries): void {
+    const filePath = this.getFilePath(key);
+    if (!filePath || this.pendingWrites.has(key)) return;
+
+    const timer = setTimeout(async () => {
+      this.pendingWrites.delete(key);
+      try {
+        const persisted: PersistedSeries = {
+          candles: Array.from(series.candles.values()).sort(
+            (a, b) => a.time - b.time
+          ),
+          coverage: series.coverage,
+        };
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, JSON.stringify(persisted));
+      } catch (error) {
+        console.error(`Failed to persist candle series ${key}:`, error);
+      }
+    }, WRITE_DELAY_MS);
+
+    // Pending writes should not keep the process alive
+    timer.unref();
+    this.pendingWrites.set(key, timer);
+  }
+
+  private isCovered(series: CandleSeries, time: number): boolean {
+    return series.coverage.some(
+      (range) => time >= range.startTime && time <= range.endTime
+    );
+  }
+
+  private mergeCoverage(ranges: TimeRange[], interval: string): TimeRange[] {
+    const sorted = [...ranges].sort((a, b) => a.startTime - b.startTime);
+    const merged: TimeRange[] = [];
+
+    for (const range of sorted) {
+      const last = merged[merged.length - 1];
+      // Adjacent ranges (next open time follows directly) are merged too
+      if (last && range.startTime <= shiftOpenTime(last.endTime, interval, 1)) {
+        last.endTime = Math.max(last.endTime, range.endTime);
+      } else {
+        merged.push({ ...range });
+      }
+    }
+
+    return merged;
+  }
+}
+
+export const candleStore = new CandleStore(
+  process.env.CANDLE_STORE_DIR || path.resolve(process.cwd(), "data/candles")
+);
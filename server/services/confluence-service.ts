@@ -0,0 +1,339 @@
+import {
+  CandleStick,
+  ConfluenceDimension,
+  ConfluenceReport,
+  PatternDirection,
+  TimeframeAnalysis,
+  TimeframeSignal,
+  VolatilityRegime,
+} from "../types/market";
+import { ServiceError } from "../utils/errors";
+import { getIntervalMs } from "../utils/intervals";
+import {
+  calculateADX,
+  calculateATR,
+  calculateBollingerBands,
+  calculateEMA,
+  calculateMACD,
+  calculateRSI,
+} from "../utils/technical-indicators";
+import { getKlines, normalizeSymbol } from "./market-service";
+
+export const DEFAULT_CONFLUENCE_INTERVALS = ["15m", "1h", "4h", "1d"];
+
+// Candles loaded per timeframe, and the fewest the indicators need
+const CONFLUENCE_CANDLES = 150;
+const MIN_CANDLES = 60;
+
+// Scores beyond this count as bullish or bearish
+const SIGNAL_THRESHOLD = 0.2;
+
+// ADX below which a trend is too weak to count fully
+const WEAK_TREND_ADX = 20;
+
+// Share of the combined score from trend and momentum
+const SCORE_WEIGHTS = { trend: 0.6, momentum: 0.4 };
+
+// RSI points from 50 for a full momentum score
+const RSI_RANGE = 20;
+
+// MACD histogram, as a share of ATR, for a full momentum score
+const MACD_ATR_SHARE = 0.25;
+
+// Bandwidth ratios beyond which volatility is expanding or contracting
+const VOLATILITY_RATIOS = { expanding: 1.3, contracting: 0.7 };
+
+// Bollinger bandwidth values averaged for the ratio
+const BANDWIDTH_LOOKBACK = 50;
+
+function clamp(value: number, min = -1, max = 1): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function last(values: number[]): number | null {
+  const value = values[values.length - 1];
+  return value === undefined || !Number.isFinite(value) ? null : value;
+}
+
+function toDirection(score: number): PatternDirection {
+  if (score > SIGNAL_THRESHOLD) return "bullish";
+  if (score < -SIGNAL_THRESHOLD) return "bearish";
+  return "neutral";
+}
+
+function signal(score: number): TimeframeSignal {
+  return { direction: toDirection(score), score };
+}
+
+/**
+ * Trend, momentum and volatility for one timeframe, or null when there are
+ * too few candles for the indicators
+ */
+export function analyzeTimeframe(
+  interval: string,
+  candles: CandleStick[]
+): TimeframeAnalysis | null {
+  if (candles.length < MIN_CANDLES) return null;
+
+  const closes = candles.map((candle) => candle.close);
+  const price = closes[closes.length - 1];
+  const ema20 = last(calculateEMA(closes, 20));
+  const ema50 = last(calculateEMA(closes, 50));
+  const rsi = last(calculateRSI(closes, 14));
+  const atr = last(calculateATR(candles, 14));
+  const macdHistogram = last(calculateMACD(closes).histogram);
+  const adx = calculateADX(candles, 14);
+  const bands = calculateBollingerBands(closes, 20, 2);
+  if (
+    ema20 === null ||
+    ema50 === null ||
+    rsi === null ||
+    atr === null ||
+    macdHistogram === null
+  ) {
+    return null;
+  }
+
+  // Trend: price against both averages, the averages against each other and
+  // the directional lines, damped when ADX says the trend is weak
+  const plusDI = last(adx.plusDI) ?? 0;
+  const minusDI = last(adx.minusDI) ?? 0;
+  const adxValue = last(adx.adx);
+  const trendVotes = [
+    Math.sign(price - ema20),
+    Math.sign(price - ema50),
+    Math.sign(ema20 - ema50),
+    Math.sign(plusDI - minusDI),
+  ];
+  const trendScore =
+    (trendVotes.reduce((sum, vote) => sum + vote, 0) / trendVotes.length) *
+    (adxValue !== null && adxValue < WEAK_TREND_ADX ? 0.5 : 1);
+
+  // Momentum: RSI distance from 50 and the MACD histogram scaled by ATR
+  const momentumScore =
+    (clamp((rsi - 50) / RSI_RANGE) +
+      (atr > 0 ? clamp(macdHistogram / (atr * MACD_ATR_SHARE)) : 0)) /
+    2;
+
+  // Volatility: current Bollinger bandwidth against its recent average
+  const bandwidths = bands.middle.map((middle, i) =>
+    middle ? ((bands.upper[i] - bands.lower[i]) / middle) * 100 : 0
+  );
+  const bandwidth = bandwidths[bandwidths.length - 1] ?? 0;
+  const recent = bandwidths.slice(-BANDWIDTH_LOOKBACK);
+  const averageBandwidth =
+    recent.reduce((sum, value) => sum + value, 0) / (recent.length || 1);
+  const bandwidthRatio = averageBandwidth ? bandwidth / averageBandwidth : 1;
+  const regime: VolatilityRegime =
+    bandwidthRatio > VOLATILITY_RATIOS.expanding
+      ? "expanding"
+      : bandwidthRatio < VOLATILITY_RATIOS.contracting
+        ? "contracting"
+        : "normal";
+
+  const score =
+    trendScore * SCORE_WEIGHTS.trend + momentumScore * SCORE_WEIGHTS.momentum;
+
+  return {
+    interval,
+    price,
+    trend: { ...signal(trendScore), ema20, ema50, adx: adxValue },
+    momentum: { ...signal(momentumScore), rsi, macdHistogram },
+    volatility: {
+      regime,
+      atrPercent: price ? (atr / price) * 100 : 0,
+      bandwidth,
+      bandwidthRatio,
+    },
+    direction: toDirection(score),
+    score,
+  };
+}
+
+/**
+ * Weight per timeframe: longer intervals count for more, from 1 for the
+ * shortest up in steps of 0.5
+ */
+function getWeights(timeframes: TimeframeAnalysis[]): number[] {
+  return timeframes.map((_, rank) => 1 + rank * 0.5);
+}
+
+function combine(
+  timeframes: TimeframeAnalysis[],
+  weights: number[],
+  pick: (timeframe: TimeframeAnalysis) => TimeframeSignal
+): ConfluenceDimension {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (!total) {
+    return { direction: "neutral", score: 0, agreement: 0 };
+  }
+  const score =
+    timeframes.reduce(
+      (sum, timeframe, i) => sum + pick(timeframe).score * weights[i],
+      0
+    ) / total;
+  const direction = toDirection(score);
+  const agreement =
+    timeframes.reduce(
+      (sum, timeframe, i) =>
+        sum + (pick(timeframe).direction === direction ? weights[i] : 0),
+      0
+    ) / total;
+  return { direction, score, agreement };
+}
+
+/**
+ * Pairs of signals pointing opposite ways: each timeframe's momentum against
+ * its own trend, and any timeframe's trend against the longest one
+ */
+function findConflicts(timeframes: TimeframeAnalysis[]): string[] {
+  const conflicts: string[] = [];
+  const opposite = (a: PatternDirection, b: PatternDirection) =>
+    a !== "neutral" && b !== "neutral" && a !== b;
+
+  for (const timeframe of timeframes) {
+    if (opposite(timeframe.trend.direction, timeframe.momentum.direction)) {
+      conflicts.push(
+        `${timeframe.interval} momentum is ${timeframe.momentum.direction} against a ${timeframe.trend.direction} trend`
+      );
+    }
+  }
+
+  const longest = timeframes[timeframes.length - 1];
+  for (const timeframe of timeframes.slice(0, -1)) {
+    if (opposite(timeframe.trend.direction, longest.trend.direction)) {
+      conflicts.push(
+        `${timeframe.interval} trend is ${timeframe.trend.direction} while the ${longest.interval} trend is ${longest.trend.direction}`
+      );
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Combine per-timeframe analyses into one confluence report. Timeframes must
+ * be ordered shortest first.
+ */
+export function buildConfluenceReport(
+  symbol: string,
+  timeframes: TimeframeAnalysis[],
+  unavailable: string[] = []
+): ConfluenceReport {
+  const weights = getWeights(timeframes);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const trend = combine(timeframes, weights, (timeframe) => timeframe.trend);
+  const momentum = combine(
+    timeframes,
+    weights,
+    (timeframe) => timeframe.momentum
+  );
+
+  // Most common regime by weight
+  const regimeWeights = new Map<VolatilityRegime, number>();
+  timeframes.forEach((timeframe, i) => {
+    const { regime } = timeframe.volatility;
+    regimeWeights.set(regime, (regimeWeights.get(regime) ?? 0) + weights[i]);
+  });
+  const [regime, regimeWeight] = [...regimeWeights.entries()].sort(
+    (a, b) => b[1] - a[1]
+  )[0] ?? ["normal", 0];
+
+  const score =
+    trend.score * SCORE_WEIGHTS.trend + momentum.score * SCORE_WEIGHTS.momentum;
+  const direction = toDirection(score);
+  const agreement = total
+    ? timeframes.reduce(
+        (sum, timeframe, i) =>
+          sum + (timeframe.direction === direction ? weights[i] : 0),
+        0
+      ) / total
+    : 0;
+
+  const report: ConfluenceReport = {
+    symbol,
+    timeframes,
+    unavailable,
+    trend,
+    momentum,
+    volatility: { regime, agreement: total ? regimeWeight / total : 0 },
+    direction,
+    score,
+    agreement,
+    conflicts: timeframes.length ? findConflicts(timeframes) : [],
+    summary: "",
+    timestamp: new Date().toISOString(),
+  };
+  report.summary = describeConfluence(report);
+  return report;
+}
+
+/**
+ * One line summary of a confluence report for analysis text
+ */
+export function describeConfluence(
+  report: Pick<
+    ConfluenceReport,
+    "timeframes" | "direction" | "score" | "agreement" | "volatility"
+  >
+): string {
+  if (!report.timeframes.length) {
+    return "no timeframes available";
+  }
+  const byTimeframe = report.timeframes
+    .map((timeframe) => `${timeframe.interval} ${timeframe.direction}`)
+    .join(", ");
+  return `${report.direction} confluence (score ${report.score.toFixed(
+    2
+  )}, ${Math.round(report.agreement * 100)}% agreement): ${byTimeframe}; volatility ${
+    report.volatility.regime
+  }`;
+}
+
+/**
+ * Runs the same indicator set on several intervals of a pair and scores how
+ * well trend, momentum and volatility agree across them
+ */
+export class ConfluenceService {
+  async analyze(
+    symbol: string,
+    intervals: string[] = DEFAULT_CONFLUENCE_INTERVALS
+  ): Promise<ConfluenceReport> {
+    const ordered = [...intervals].sort(
+      (a, b) => getIntervalMs(a) - getIntervalMs(b)
+    );
+
+    const results = await Promise.all(
+      ordered.map(async (interval) => {
+        try {
+          const candles = await getKlines(symbol, interval, CONFLUENCE_CANDLES);
+          return analyzeTimeframe(interval, candles);
+        } catch (error) {
+          console.warn(
+            `Confluence candles unavailable for ${symbol} ${interval}:`,
+            error
+          );
+          return null;
+        }
+      })
+    );
+
+    const timeframes = results.filter(
+      (result): result is TimeframeAnalysis => result !== null
+    );
+    if (!timeframes.length) {
+      throw new ServiceError("No timeframe had enough candles for confluence", {
+        symbol,
+        intervals: ordered,
+      });
+    }
+
+    return buildConfluenceReport(
+      normalizeSymbol(symbol),
+      timeframes,
+      ordered.filter((_, i) => results[i] === null)
+    );
+  }
+}
+
+export const confluenceService = new ConfluenceService();
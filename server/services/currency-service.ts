@@ -0,0 +1,168 @@
+import { coinGeckoClient } from "../api-clients";
+import { CacheManager } from "../utils/cache";
+import { ValidationError } from "../utils/errors";
+import { getPrice } from "./market-service";
+import { symbolRegistry } from "./symbol-registry";
+
+// Cache TTL in seconds
+const CACHE_TTL = {
+  FIAT_RATES: 600, // 10 minutes
+  USD_VALUE: 60, // 1 minute
+};
+
+// Exchange prices are USDT quoted, so USDT serves as the USD pivot
+const USD_PIVOTS = ["USD", "USDT"];
+
+const ISO_CURRENCIES = new Set(Intl.supportedValuesOf("currency"));
+
+/**
+ * Prices assets and fiat currencies in one another through USD cross rates.
+ *
+ * Fiat rates come from CoinGecko's exchange rate table; assets are priced
+ * from their USDT pair (or the inverse pair, e.g. USDTTRY) on the best
+ * available exchange.
+ */
+export class CurrencyService {
+  private cache = new CacheManager();
+
+  /**
+   * Units of each fiat currency per US dollar
+   */
+  async getFiatRates(): Promise<Record<string, number>> {
+    const cacheKey = "fiat_rates";
+    const cached = await this.cache.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    // CoinGecko rates are units per BTC, rebase them on USD
+    const rates = await coinGeckoClient.getExchangeRates();
+    const usdPerBtc = rates.USD?.value;
+    if (!usdPerBtc) {
+      throw new Error("Exchange rate table has no USD rate");
+    }
+
+    const fiatRates: Record<string, number> = {};
+    for (const [code, rate] of Object.entries(rates)) {
+      if (rate.type === "fiat") {
+        fiatRates[code] = rate.value / usdPerBtc;
+      }
+    }
+
+    await this.cache.set(
+      cacheKey,
+      JSON.stringify(fiatRates),
+      CACHE_TTL.FIAT_RATES
+    );
+    return fiatRates;
+  }
+
+  /**
+   * USD value of one unit of an asset or fiat currency
+   */
+  async getUsdValue(code: string): Promise<number> {
+    const currency = code.toUpperCase();
+    if (USD_PIVOTS.includes(currency)) {
+      return 1;
+    }
+
+    const cacheKey = `usd_value_${currency}`;
+    const cached = await this.cache.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    const fiatRates = await this.getFiatRates().catch((error) => {
+      console.warn("Fiat rates unavailable, using exchange pairs:", error);
+      return {} as Record<string, number>;
+    });
+
+    const value = fiatRates[currency]
+      ? 1 / fiatRates[currency]
+      : await this.getMarketUsdValue(currency);
+
+    await this.cache.set(cacheKey, JSON.stringify(value), CACHE_TTL.USD_VALUE);
+    return value;
+  }
+
+  /**
+   * Units of `to` per unit of `from`
+   */
+  async getRate(from: string, to: string): Promise<number> {
+    if (from.toUpperCase() === to.toUpperCase()) {
+      return 1;
+    }
+
+    const [fromUsd, toUsd] = await Promise.all([
+      this.getUsdValue(from),
+      this.getUsdValue(to),
+    ]);
+    return fromUsd / toUsd;
+  }
+
+  async convert(amount: number, from: string, to: string): Promise<number> {
+    return amount * (await this.getRate(from, to));
+  }
+
+  /**
+   * Price of a pair such as ETH-BTC or BTC/NGN, from the exchange when the
+   * pair is listed and from cross rates otherwise
+   */
+  async getPairPrice(symbol: string) {
+    const { base, quote, pair } = symbolRegistry.parseSymbol(symbol);
+
+    try {
+      const price = await getPrice(pair);
+      return { pair, base, quote, price, source: "exchange" as const };
+    } catch (error) {
+      const price = await this.getRate(base, quote);
+      return { pair, base, quote, price, source: "cross-rate" as const };
+    }
+  }
+
+  private async getMarketUsdValue(currency: string): Promise<number> {
+    try {
+      return await getPrice(`${currency}-USDT`);
+    } catch (error) {
+      // Fiat and some stablecoins are listed as the quote, e.g. USDTTRY
+    }
+
+    try {
+      const inverse = await getPrice(`USDT-${currency}`);
+      if (inverse > 0) {
+        return 1 / inverse;
+      }
+    } catch (error) {
+      // Fall through to the validation error below
+    }
+
+    throw new ValidationError(`Unable to price currency ${currency}`, {
+      currency,
+    });
+  }
+}
+
+/**
+ * Format an amount in a fiat currency or asset, e.g. "€1,234.50" or
+ * "0.0213 BTC"
+ */
+export function formatCurrencyAmount(value: number, currency: string): string {
+  const code = currency.toUpperCase();
+
+  if (ISO_CURRENCIES.has(code)) {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: code,
+      // Keep sub-unit prices readable instead of rounding them to 0.00
+      ...(value !== 0 && Math.abs(value) < 1
+        ? { maximumSignificantDigits: 4 }
+        : {}),
+    }).format(value);
+  }
+
+  return `${value.toLocaleString("en-US", {
+    maximumFractionDigits: 8,
+  })} ${code}`;
+}
+
+export const currencyService = new CurrencyService();
@@ -0,0 +1,263 @@
+import {
+  CandleStick,
+  Divergence,
+  DivergenceAlert,
+  DivergenceOscillator,
+  Pivot,
+} from "../types/market";
+import {
+  calculateATR,
+  calculateMACD,
+  calculateOBV,
+  calculateRSI,
+} from "../utils/technical-indicators";
+import { DEFAULT_PIVOT_STRENGTH, findPivots } from "./support-resistance";
+
+export const DIVERGENCE_OSCILLATORS: DivergenceOscillator[] = [
+  "rsi",
+  "macd",
+  "obv",
+];
+
+// Candles searched for divergences, counted back from the last one
+export const DEFAULT_DIVERGENCE_LOOKBACK = 100;
+
+// Candles between two pivots for them to be compared
+const MIN_PIVOT_GAP = 5;
+const MAX_PIVOT_GAP = 60;
+
+// Candles after a divergence is confirmed during which it is still alerted
+const ALERT_CANDLES = 5;
+
+// RSI points for a full oscillator move
+const RSI_MOVE = 10;
+
+// Share of the strength from the price and oscillator moves
+const STRENGTH_WEIGHTS = { price: 0.5, oscillator: 0.5 };
+
+const OSCILLATOR_LABELS: Record<DivergenceOscillator, string> = {
+  rsi: "RSI",
+  macd: "MACD histogram",
+  obv: "OBV",
+};
+
+export interface DivergenceOptions {
+  lookback?: number;
+  pivotStrength?: number;
+  oscillators?: DivergenceOscillator[];
+  minStrength?: number;
+}
+
+function clamp(value: number, min = 0, max = 1): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Oscillator values aligned to the candles, null during warmup. Indicator
+ * outputs start at their first full value, so they are padded at the front.
+ */
+function alignToCandles(
+  values: number[],
+  candleCount: number
+): (number | null)[] {
+  const padding = candleCount - values.length;
+  return Array.from({ length: candleCount }, (_, i) =>
+    i < padding ? null : values[i - padding]
+  );
+}
+
+function getOscillatorSeries(
+  candles: CandleStick[],
+  oscillator: DivergenceOscillator
+): (number | null)[] {
+  const closes = candles.map((candle) => candle.close);
+  switch (oscillator) {
+    case "rsi":
+      return alignToCandles(calculateRSI(closes, 14), candles.length);
+    case "macd":
+      return alignToCandles(calculateMACD(closes).histogram, candles.length);
+    case "obv":
+      return alignToCandles(calculateOBV(candles), candles.length);
+  }
+}
+
+/**
+ * Oscillator change that counts as a full move. RSI is bounded, MACD and OBV
+ * are scaled by half their range over the window.
+ */
+function getOscillatorScale(
+  oscillator: DivergenceOscillator,
+  values: (number | null)[]
+): number {
+  if (oscillator === "rsi") return RSI_MOVE;
+  const defined = values.filter((value): value is number => value !== null);
+  if (!defined.length) return 0;
+  return (Math.max(...defined) - Math.min(...defined)) / 2;
+}
+
+/**
+ * Compare two pivots of the same type. Lows give bullish divergences and
+ * highs bearish ones; regular divergences have price and oscillator making
+ * opposite extremes at the second pivot, hidden ones the reverse.
+ */
+function classify(
+  type: Pivot["type"],
+  priceChange: number,
+  valueChange: number
+): Pick<Divergence, "kind" | "direction"> | null {
+  if (priceChange === 0 || valueChange === 0) return null;
+  if (Math.sign(priceChange) === Math.sign(valueChange)) return null;
+
+  if (type === "low") {
+    // Lower low in price with a higher low in the oscillator is regular
+    return {
+      kind: priceChange < 0 ? "regular" : "hidden",
+      direction: "bullish",
+    };
+  }
+  // Higher high in price with a lower high in the oscillator is regular
+  return {
+    kind: priceChange > 0 ? "regular" : "hidden",
+    direction: "bearish",
+  };
+}
+
+function labelOf(divergence: Omit<Divergence, "label">): string {
+  const kind = divergence.kind === "regular" ? "Regular" : "Hidden";
+  return `${kind} ${divergence.direction} ${
+    OSCILLATOR_LABELS[divergence.oscillator]
+  } divergence`;
+}
+
+/**
+ * Find regular and hidden divergences between consecutive swing pivots and
+ * each oscillator, over the last `lookback` candles. Candles are oldest first.
+ */
+export function detectDivergences(
+  candles: CandleStick[],
+  options: DivergenceOptions = {}
+): Divergence[] {
+  const {
+    lookback = DEFAULT_DIVERGENCE_LOOKBACK,
+    pivotStrength = DEFAULT_PIVOT_STRENGTH,
+    oscillators = DIVERGENCE_OSCILLATORS,
+    minStrength = 0,
+  } = options;
+  const windowStart = Math.max(0, candles.length - lookback);
+  const pivots = findPivots(candles, pivotStrength).filter(
+    (pivot) => pivot.index >= windowStart
+  );
+
+  // Price moves are measured in ATRs so strengths compare across coins
+  const atr = calculateATR(candles, 14);
+  const priceScale = (atr[atr.length - 1] ?? 0) * 2;
+
+  const divergences: Divergence[] = [];
+  for (const oscillator of oscillators) {
+    const values = getOscillatorSeries(candles, oscillator);
+    const valueScale = getOscillatorScale(
+      oscillator,
+      values.slice(windowStart)
+    );
+
+    for (const type of ["low", "high"] as const) {
+      const sameType = pivots.filter((pivot) => pivot.type === type);
+
+      for (let i = 1; i < sameType.length; i++) {
+        const first = sameType[i - 1];
+        const second = sameType[i];
+        const gap = second.index - first.index;
+        const firstValue = values[first.index];
+        const secondValue = values[second.index];
+        if (gap < MIN_PIVOT_GAP || gap > MAX_PIVOT_GAP) continue;
+        if (firstValue === null || secondValue === null) continue;
+
+        const priceChange = second.price - first.price;
+        const valueChange = secondValue - firstValue;
+        const match = classify(type, priceChange, valueChange);
+        if (!match) continue;
+
+        const strength =
+          (priceScale ? clamp(Math.abs(priceChange) / priceScale) : 0) *
+            STRENGTH_WEIGHTS.price +
+          (valueScale ? clamp(Math.abs(valueChange) / valueScale) : 0) *
+            STRENGTH_WEIGHTS.oscillator;
+        if (strength < minStrength) continue;
+
+        const divergence = {
+          oscillator,
+          ...match,
+          start: {
+            index: first.index,
+            time: first.time,
+            price: first.price,
+            value: firstValue,
+          },
+          end: {
+            index: second.index,
+            time: second.time,
+            price: second.price,
+            value: secondValue,
+          },
+          strength,
+        };
+        divergences.push({ ...divergence, label: labelOf(divergence) });
+      }
+    }
+  }
+
+  return divergences.sort(
+    (a, b) => a.end.index - b.end.index || b.strength - a.strength
+  );
+}
+
+function formatValue(oscillator: DivergenceOscillator, value: number): string {
+  if (oscillator === "rsi") return value.toFixed(1);
+  if (oscillator === "obv") return Math.round(value).toLocaleString("en-US");
+  return value.toPrecision(3);
+}
+
+/**
+ * Alerts for divergences whose second pivot was confirmed within the last
+ * few candles. A pivot is confirmed `pivotStrength` candles after it forms.
+ */
+export function getDivergenceAlerts(
+  symbol: string,
+  interval: string,
+  candles: CandleStick[],
+  divergences: Divergence[],
+  pivotStrength: number = DEFAULT_PIVOT_STRENGTH
+): DivergenceAlert[] {
+  const lastIndex = candles.length - 1;
+
+  return divergences
+    .filter(
+      (divergence) =>
+        divergence.end.index + pivotStrength >= lastIndex - ALERT_CANDLES
+    )
+    .sort((a, b) => b.strength - a.strength)
+    .map((divergence) => {
+      const { start, end, oscillator, direction } = divergence;
+      const extreme = direction === "bullish" ? "low" : "high";
+      const describe = (change: number) =>
+        `${change > 0 ? "higher" : "lower"} ${extreme}`;
+      const confirmed = Math.min(end.index + pivotStrength, lastIndex);
+
+      return {
+        symbol,
+        interval,
+        time: candles[confirmed].time,
+        message: `${divergence.label} on ${symbol} ${interval}: price made a ${describe(
+          end.price - start.price
+        )} at ${end.price.toLocaleString("en-US", {
+          maximumSignificantDigits: 6,
+        })} while ${
+          OSCILLATOR_LABELS[oscillator]
+        } made a ${describe(end.value - start.value)} (${formatValue(
+          oscillator,
+          start.value
+        )} → ${formatValue(oscillator, end.value)})`,
+        divergence,
+      };
+    });
+}
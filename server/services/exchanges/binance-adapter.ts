@@ -0,0 +1,133 @@
+import { binanceClient as binanceApiClient } from "../../api-clients";
+import { binanceClient, BinanceTickerData } from "../binance-service";
+import { CandleStick, OrderBook } from "../../types/market";
+import { symbolRegistry } from "../symbol-registry";
+import {
+  ExchangeAdapter,
+  ExchangeAssetInfo,
+  ExchangeCapability,
+  ExchangeSymbolInfo,
+  ExchangeTicker,
+  KlineQuery,
+  TickerQuery,
+} from "./types";
+
+const QUOTE_ASSET = "USDT";
+
+/**
+ * Binance spot market adapter
+ */
+export class BinanceAdapter implements ExchangeAdapter {
+  readonly id = "binance";
+  readonly name = "Binance";
+  readonly capabilities: ExchangeCapability[] = [
+    "tickers",
+    "klines",
+    "depth",
+    "symbols",
+  ];
+
+  async getTickers(query: TickerQuery = {}): Promise<ExchangeTicker[]> {
+    if (query.symbols?.length) {
+      const tickers = await Promise.all(
+        query.symbols.map((symbol) => binanceClient.get24hrTicker(symbol))
+      );
+      return tickers.flat().map((ticker) => this.toTicker(ticker));
+    }
+
+    const coins = await binanceApiClient.getTopCryptocurrencies(
+      query.limit ?? 20
+    );
+    return coins.map((coin) => ({
+      ...coin,
+      pair: `${coin.symbol}${QUOTE_ASSET}`,
+      priceChange24h:
+        coin.price - coin.price / (1 + coin.priceChangePercent24h / 100),
+    }));
+  }
+
+  async getKlines(symbol: string, query: KlineQuery): Promise<CandleStick[]> {
+    const rows = await binanceClient.getKlines(symbol, query.interval, {
+      startTime: query.startTime,
+      endTime: query.endTime,
+      limit: query.limit,
+    });
+
+    return rows.map((row) => ({
+      time: row[0],
+      open: parseFloat(row[1]),
+      high: parseFloat(row[2]),
+      low: parseFloat(row[3]),
+      close: parseFloat(row[4]),
+      volume: parseFloat(row[5]),
+      trades: row[8],
+    }));
+  }
+
+  async getDepth(symbol: string, limit: number): Promise<OrderBook> {
+    const depth = await binanceClient.getDepth(symbol, limit);
+
+    return {
+      symbol,
+      bids: depth.bids.map((bid) => ({
+        price: parseFloat(bid[0]),
+        quantity: parseFloat(bid[1]),
+      })),
+      asks: depth.asks.map((ask) => ({
+        price: parseFloat(ask[0]),
+        quantity: parseFloat(ask[1]),
+      })),
+      lastUpdateId: depth.lastUpdateId,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  async getSymbols(): Promise<ExchangeSymbolInfo[]> {
+    const info = await binanceClient.getExchangeInfo();
+
+    return info.symbols.map((symbol) => {
+      const filter = (type: string) =>
+        symbol.filters.find((entry) => entry.filterType === type);
+      const notional = filter("NOTIONAL") ?? filter("MIN_NOTIONAL");
+
+      return {
+        symbol: symbol.symbol,
+        baseAsset: symbol.baseAsset,
+        quoteAsset: symbol.quoteAsset,
+        status: symbol.status === "TRADING" ? "trading" : "halted",
+        tickSize: this.parseFilterValue(filter("PRICE_FILTER")?.tickSize),
+        stepSize: this.parseFilterValue(filter("LOT_SIZE")?.stepSize),
+        minNotional: this.parseFilterValue(notional?.minNotional),
+      };
+    });
+  }
+
+  async getAssets(): Promise<ExchangeAssetInfo[]> {
+    throw new Error("Binance does not provide asset metadata");
+  }
+
+  private parseFilterValue(value: string | undefined): number | undefined {
+    const parsed = value !== undefined ? parseFloat(value) : NaN;
+    return parsed > 0 ? parsed : undefined;
+  }
+
+  private toTicker(ticker: BinanceTickerData): ExchangeTicker {
+    const base = symbolRegistry.resolveBaseAsset(ticker.symbol);
+    const price = parseFloat(ticker.lastPrice);
+
+    return {
+      symbol: base,
+      pair: ticker.symbol,
+      name: symbolRegistry.getName(base),
+      price,
+      priceChange24h: parseFloat(ticker.priceChange),
+      priceChangePercent24h: parseFloat(ticker.priceChangePercent),
+      volume24h: parseFloat(ticker.quoteVolume),
+      high24h: parseFloat(ticker.highPrice),
+      low24h: parseFloat(ticker.lowPrice),
+      marketCap:
+        symbolRegistry.getMarketCap(base, price) ??
+        price * parseFloat(ticker.volume), // Approximation without supply data
+    };
+  }
+}
@@ -0,0 +1,128 @@
+import { coinGeckoClient } from "../../api-clients";
+import { CandleStick, OrderBook } from "../../types/market";
+import { INTERVAL_MS } from "../../utils/intervals";
+import {
+  ExchangeAdapter,
+  ExchangeAssetInfo,
+  ExchangeCapability,
+  ExchangeSymbolInfo,
+  ExchangeTicker,
+  KlineQuery,
+  TickerQuery,
+} from "./types";
+
+const QUOTE_ASSET = "USDT";
+const DAY_MS = INTERVAL_MS["1d"];
+
+// CoinGecko picks the OHLC granularity from the requested day range
+const OHLC_DAY_RANGES: Record<string, { min: number; max: number }> = {
+  "30m": { min: 1, max: 2 },
+  "4h": { min: 3, max: 30 },
+};
+
+// Enough coins to resolve most symbol lookups from a single request
+const SYMBOL_LOOKUP_LIMIT = 250;
+
+// Asset metadata covers the top coins by market cap
+const ASSET_LIST_PAGES = 2;
+
+/**
+ * CoinGecko aggregated market data adapter. Prices are USD based and are
+ * exposed as USDT pairs; order books are not available.
+ */
+export class CoinGeckoAdapter implements ExchangeAdapter {
+  readonly id = "coingecko";
+  readonly name = "CoinGecko";
+  readonly capabilities: ExchangeCapability[] = ["tickers", "klines", "assets"];
+  readonly partialKlines = true;
+
+  async getTickers(query: TickerQuery = {}): Promise<ExchangeTicker[]> {
+    const wanted = query.symbols?.map((symbol) => symbol.toUpperCase());
+    const coins = await coinGeckoClient.getTopCryptocurrencies(
+      wanted ? SYMBOL_LOOKUP_LIMIT : (query.limit ?? 20)
+    );
+
+    return coins
+      .map((coin) => ({
+        ...coin,
+        pair: `${coin.symbol}${QUOTE_ASSET}`,
+        priceChange24h:
+          coin.price - coin.price / (1 + coin.priceChangePercent24h / 100),
+      }))
+      .filter((ticker) => !wanted || wanted.includes(ticker.pair));
+  }
+
+  supportsInterval(interval: string): boolean {
+    return interval in OHLC_DAY_RANGES;
+  }
+
+  async getKlines(symbol: string, query: KlineQuery): Promise<CandleStick[]> {
+    const range = OHLC_DAY_RANGES[query.interval];
+    if (!range) {
+      throw new Error(`CoinGecko does not provide ${query.interval} candles`);
+    }
+
+    const intervalMs = INTERVAL_MS[query.interval];
+    const limit = query.limit ?? 100;
+    const startTime = query.startTime ?? Date.now() - limit * intervalMs;
+    const endTime = query.endTime ?? Date.now();
+    const days = Math.min(
+      range.max,
+      Math.max(range.min, Math.ceil((Date.now() - startTime) / DAY_MS))
+    );
+
+    const coinId = coinGeckoClient.getCoinIdFromSymbol(this.toBase(symbol));
+    const ohlc = await coinGeckoClient.getCoinOHLC(coinId, days);
+
+    return (
+      ohlc
+        // CoinGecko timestamps mark the candle close, not its open
+        .map((candle) => ({
+          time: candle.time - intervalMs,
+          open: candle.open,
+          high: candle.high,
+          low: candle.low,
+          close: candle.close,
+          volume: 0, // OHLC endpoint has no volume
+          trades: 0,
+        }))
+        .filter((candle) => candle.time >= startTime && candle.time <= endTime)
+        .slice(-limit)
+    );
+  }
+
+  async getDepth(symbol: string, limit: number): Promise<OrderBook> {
+    throw new Error("CoinGecko does not provide order book data");
+  }
+
+  async getSymbols(): Promise<ExchangeSymbolInfo[]> {
+    throw new Error("CoinGecko does not provide trading pairs");
+  }
+
+  async getAssets(): Promise<ExchangeAssetInfo[]> {
+    const assets: ExchangeAssetInfo[] = [];
+
+    for (let page = 1; page <= ASSET_LIST_PAGES; page++) {
+      const coins = await coinGeckoClient.getCoinMarkets(page);
+      assets.push(
+        ...coins.map((coin) => ({
+          symbol: coin.symbol,
+          name: coin.name,
+          providerId: coin.id,
+          circulatingSupply: coin.circulatingSupply,
+          marketCapRank: coin.marketCapRank,
+          price: coin.price,
+        }))
+      );
+    }
+
+    return assets;
+  }
+
+  private toBase(symbol: string): string {
+    const upper = symbol.toUpperCase();
+    return upper.endsWith(QUOTE_ASSET)
+      ? upper.slice(0, -QUOTE_ASSET.length)
+      : upper;
+  }
+}
@@ -0,0 +1,199 @@
+import {
+  CustomAPIError,
+  ServiceError,
+  UpstreamHttpError,
+} from "../../utils/errors";
+import { CandleStick, OrderBook } from "../../types/market";
+import { BinanceAdapter } from "./binance-adapter";
+import { CoinGeckoAdapter } from "./coingecko-adapter";
+import {
+  ExchangeAdapter,
+  ExchangeAssetInfo,
+  ExchangeCapability,
+  ExchangeResult,
+  ExchangeSymbolInfo,
+  ExchangeTicker,
+  KlineQuery,
+  TickerQuery,
+} from "./types";
+
+interface RegisteredAdapter {
+  adapter: ExchangeAdapter;
+  priority: number;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+}
+
+// Failing adapters are ranked last for a while, doubling on repeat failures
+const BASE_COOLDOWN_MS = 30 * 1000;
+const MAX_COOLDOWN_MS = 10 * 60 * 1000;
+
+// Whether a failed request says the venue is down: network errors, timeouts,
+// 5xx and rate limits. An unknown symbol or a rejected query does not.
+function isOutage(error: unknown): boolean {
+  let current: unknown = error;
+  while (current instanceof Error) {
+    const status =
+      current instanceof UpstreamHttpError
+        ? current.status
+        : current instanceof CustomAPIError
+          ? current.statusCode
+          : undefined;
+    if (status !== undefined) return status >= 500 || status === 429;
+    if (current.name === "AbortError" || current.name === "TimeoutError") {
+      return true;
+    }
+    // Socket errors like ECONNRESET, under fetch's "fetch failed"
+    if (typeof (current as NodeJS.ErrnoException).code === "string") {
+      return true;
+    }
+    current = current.cause;
+  }
+  return false;
+}
+
+/**
+ * Ranks exchange adapters and fails over between them.
+ *
+ * Adapters are tried in priority order. An adapter that is down is put on a
+ * cooldown during which healthy adapters are preferred; it is still used as
+ * a last resort so a request only fails when every venue does. Requests the
+ * venue rejects fail over too, without a cooldown.
+ */
+export class ExchangeRegistry {
+  private adapters: RegisteredAdapter[] = [];
+
+  /**
+   * Register an adapter, higher priority adapters are tried first
+   */
+  register(adapter: ExchangeAdapter, priority: number = 0): void {
+    this.adapters = this.adapters.filter(
+      (entry) => entry.adapter.id !== adapter.id
+    );
+    this.adapters.push({
+      adapter,
+      priority,
+      consecutiveFailures: 0,
+      cooldownUntil: 0,
+    });
+  }
+
+  /**
+   * Get adapters supporting a capability, in the order they will be tried
+   */
+  getAdapters(capability?: ExchangeCapability): ExchangeAdapter[] {
+    return this.rank(capability).map((entry) => entry.adapter);
+  }
+
+  /**
+   * Get adapter health for diagnostics
+   */
+  getStatus() {
+    const now = Date.now();
+    return this.rank().map((entry) => ({
+      id: entry.adapter.id,
+      name: entry.adapter.name,
+      priority: entry.priority,
+      capabilities: entry.adapter.capabilities,
+      healthy: entry.cooldownUntil <= now,
+      consecutiveFailures: entry.consecutiveFailures,
+    }));
+  }
+
+  async getTickers(
+    query?: TickerQuery
+  ): Promise<ExchangeResult<ExchangeTicker[]>> {
+    return this.execute("tickers", (adapter) => adapter.getTickers(query));
+  }
+
+  async getKlines(
+    symbol: string,
+    query: KlineQuery
+  ): Promise<ExchangeResult<CandleStick[]>> {
+    const result = await this.execute(
+      "klines",
+      (adapter) => adapter.getKlines(symbol, query),
+      (adapter) => adapter.supportsInterval?.(query.interval) ?? true
+    );
+    const source = this.adapters.find(
+      (entry) => entry.adapter.id === result.source
+    );
+    return { ...result, partial: source?.adapter.partialKlines ?? false };
+  }
+
+  async getDepth(
+    symbol: string,
+    limit: number
+  ): Promise<ExchangeResult<OrderBook>> {
+    return this.execute("depth", (adapter) => adapter.getDepth(symbol, limit));
+  }
+
+  async getSymbols(): Promise<ExchangeResult<ExchangeSymbolInfo[]>> {
+    return this.execute("symbols", (adapter) => adapter.getSymbols());
+  }
+
+  async getAssets(): Promise<ExchangeResult<ExchangeAssetInfo[]>> {
+    return this.execute("assets", (adapter) => adapter.getAssets());
+  }
+
+  /**
+   * Run an operation against each capable adapter until one succeeds
+   */
+  async execute<T>(
+    capability: ExchangeCapability,
+    operation: (adapter: ExchangeAdapter) => Promise<T>,
+    accepts: (adapter: ExchangeAdapter) => boolean = () => true
+  ): Promise<ExchangeResult<T>> {
+    const candidates = this.rank(capability).filter((entry) =>
+      accepts(entry.adapter)
+    );
+    const failures: Array<{ exchange: string; error: string }> = [];
+
+    for (const entry of candidates) {
+      try {
+        const data = await operation(entry.adapter);
+        entry.consecutiveFailures = 0;
+        entry.cooldownUntil = 0;
+        return { data, source: entry.adapter.id };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(
+          `${entry.adapter.name} ${capability} request failed: ${message}`
+        );
+        failures.push({ exchange: entry.adapter.id, error: message });
+        if (!isOutage(error)) continue;
+
+        entry.consecutiveFailures++;
+        entry.cooldownUntil =
+          Date.now() +
+          Math.min(
+            BASE_COOLDOWN_MS * 2 ** (entry.consecutiveFailures - 1),
+            MAX_COOLDOWN_MS
+          );
+      }
+    }
+
+    throw new ServiceError(`No exchange could provide ${capability} data`, {
+      capability,
+      failures,
+    });
+  }
+
+  private rank(capability?: ExchangeCapability): RegisteredAdapter[] {
+    const now = Date.now();
+    return this.adapters
+      .filter(
+        (entry) =>
+          !capability || entry.adapter.capabilities.includes(capability)
+      )
+      .sort((a, b) => {
+        const aCooling = a.cooldownUntil > now ? 1 : 0;
+        const bCooling = b.cooldownUntil > now ? 1 : 0;
+        return aCooling - bCooling || b.priority - a.priority;
+      });
+  }
+}
+
+export const exchangeRegistry = new ExchangeRegistry();
+exchangeRegistry.register(new BinanceAdapter(), 100);
+exchangeRegistry.register(new CoinGeckoAdapter(), 50);
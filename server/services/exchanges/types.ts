@@ -0,0 +1,78 @@
+import { CandleStick, OrderBook } from "../../types/market";
+
+export type ExchangeCapability =
+  "tickers" | "klines" | "depth" | "symbols" | "assets";
+
+export interface ExchangeTicker {
+  symbol: string; // Base asset, e.g. BTC
+  pair: string; // Trading pair, e.g. BTCUSDT
+  name: string;
+  price: number;
+  priceChange24h: number;
+  priceChangePercent24h: number;
+  volume24h: number; // Quote volume
+  high24h: number;
+  low24h: number;
+  marketCap: number;
+}
+
+export interface ExchangeSymbolInfo {
+  symbol: string; // Trading pair, e.g. BTCUSDT
+  baseAsset: string;
+  quoteAsset: string;
+  status: "trading" | "halted";
+  tickSize?: number; // Minimum price increment
+  stepSize?: number; // Minimum quantity increment
+  minNotional?: number;
+}
+
+export interface ExchangeAssetInfo {
+  symbol: string; // e.g. BTC
+  name: string;
+  providerId: string; // The venue's own identifier, e.g. "bitcoin"
+  circulatingSupply?: number;
+  marketCapRank?: number;
+  price?: number; // USD
+}
+
+export interface TickerQuery {
+  // Trading pairs to fetch; when omitted the top pairs by volume are returned
+  symbols?: string[];
+  limit?: number;
+}
+
+export interface KlineQuery {
+  interval: string;
+  startTime?: number;
+  endTime?: number;
+  limit?: number;
+}
+
+/**
+ * Common interface over market data venues. Adapters declare which
+ * operations they support; the exchange registry only routes supported
+ * operations to them.
+ */
+export interface ExchangeAdapter {
+  readonly id: string;
+  readonly name: string;
+  readonly capabilities: ExchangeCapability[];
+
+  getTickers(query?: TickerQuery): Promise<ExchangeTicker[]>;
+  getKlines(symbol: string, query: KlineQuery): Promise<CandleStick[]>;
+  getDepth(symbol: string, limit: number): Promise<OrderBook>;
+  getSymbols(): Promise<ExchangeSymbolInfo[]>;
+  getAssets(): Promise<ExchangeAssetInfo[]>;
+
+  // Venues with fixed candle granularity can reject intervals up front
+  supportsInterval?(interval: string): boolean;
+
+  // Candles are sampled or cut short, e.g. no volume or only recent history
+  readonly partialKlines?: boolean;
+}
+
+export interface ExchangeResult<T> {
+  data: T;
+  source: string;
+  partial?: boolean; // The source's klines are partial, see ExchangeAdapter
+}
@@ -5,6 +5,12 @@ import {
 } from "@shared/types/market-analysis";
 import env from "../config/env";
 import { GeminiAPIError, ValidationError, TechnicalIndicators } from "./types";
+import {
+  ConfluenceReport,
+  PriceLevel,
+  SupportResistanceAnalysis,
+  Trendline,
+} from "../types/market";
 
 // Initialize Gemini API configuration
 const GEMINI_CONFIG = {
@@ -106,6 +112,8 @@ export function generateMarketAnalysisPrompt(data: {
   technicalAnalysis: any;
   newsSentiment: NewsAnalysis;
   socialSentiment: SocialAnalysis;
+  levels?: SupportResistanceAnalysis;
+  confluence?: ConfluenceReport;
 }): string {
   const config = GEMINI_CONFIG;
 
@@ -152,7 +160,9 @@ export function generateMarketAnalysisPrompt(data: {
     data.technicalAnalysis.movingAverages,
     data.coin.price
   )} | ${getMASignal(data.technicalAnalysis.movingAverages, data.coin.price)} |
-
+${data.levels ? `\n${formatSupportResistance(data.levels)}\n` : ""}${
+    data.confluence ? `\n${formatConfluence(data.confluence)}\n` : ""
+  }
 ### 📰 Market Sentiment Overview
 | Source | Sentiment | Confidence | Key Insights |
 |--------|-----------|------------|--------------|
@@ -178,8 +188,16 @@ Please provide a comprehensive analysis following this **exact format**:
 
 ### 📊 **TECHNICAL ANALYSIS BREAKDOWN**
 #### Price Action & Trends
-- **Current Trend Direction**: What the charts are showing
-- **Key Support/Resistance Levels**: Important price levels to monitor
+- **Current Trend Direction**: ${
+    data.confluence
+      ? `The ${data.confluence.direction} confluence above, naming the timeframe behind every trend claim`
+      : "What the charts are showing"
+  }
+- **Key Support/Resistance Levels**: ${
+    data.levels
+      ? "Explain the detected levels and trendlines above and what a break of each would mean"
+      : "Important price levels to monitor"
+  }
 - **Volume Analysis**: What trading volume tells us
 
 #### Technical Indicators Deep Dive
@@ -224,7 +242,11 @@ Please provide a comprehensive analysis following this **exact format**:
 - Maintain consistent data presentation format
 - Define technical terms when first introduced
 - Include relevant emojis for visual organization
-- End with educational disclaimer and risk warnings
+- End with educational disclaimer and risk warnings${
+    data.confluence
+      ? "\n- Never contradict the confluence table; when timeframes disagree, say which timeframe each statement is about"
+      : ""
+  }
 
 **Response Goal**: Create an educational analysis that helps users understand both the current market situation and the analytical process itself.`;
 }
@@ -456,6 +478,83 @@ function getMASignal(ma: any, price: number): string {
   return "🔴 Bearish";
 }
 
+function formatSupportResistance(levels: SupportResistanceAnalysis): string {
+  const distance = (price: number) =>
+    formatPercentage(((price - levels.price) / levels.price) * 100);
+  const levelRow = (label: string, level: PriceLevel | null) =>
+    level
+      ? `| **${label}** | $${level.price.toLocaleString()} | $${level.low.toLocaleString()} - $${level.high.toLocaleString()} | ${
+          level.touches
+        } | ${distance(level.price)} |`
+      : `| **${label}** | None detected | - | - | - |`;
+  const lineRow = (label: string, line: Trendline | null) =>
+    line
+      ? `| **${label}** | $${line.endPrice.toLocaleString()} | ${
+          line.slope > 0 ? "Rising" : line.slope < 0 ? "Falling" : "Flat"
+        } line | ${line.touches} | ${distance(line.endPrice)} |`
+      : "";
+
+  const rows = [
+    levelRow("Nearest Support", levels.nearestSupport),
+    levelRow("Nearest Resistance", levels.nearestResistance),
+    lineRow("Support Trendline", levels.trendlines.support),
+    lineRow("Resistance Trendline", levels.trendlines.resistance),
+  ].filter(Boolean);
+
+  const channel = levels.channel
+    ? `\n**Channel**: ${levels.channel.direction} channel, ${levels.channel.width.toFixed(
+        2
+      )}% wide`
+    : "";
+
+  return `### 🧱 Support & Resistance (${levels.interval} candles)
+| Level | Price | Zone | Touches | Distance |
+|-------|-------|------|---------|----------|
+${rows.join("\n")}
+${channel}`;
+}
+
+function formatConfluence(confluence: ConfluenceReport): string {
+  const signal = (direction: string, score: number) =>
+    `${direction} (${score >= 0 ? "+" : ""}${score.toFixed(2)})`;
+  const rows = confluence.timeframes.map(
+    (timeframe) =>
+      `| **${timeframe.interval}** | ${signal(
+        timeframe.trend.direction,
+        timeframe.trend.score
+      )} | ${signal(
+        timeframe.momentum.direction,
+        timeframe.momentum.score
+      )} | ${timeframe.momentum.rsi.toFixed(1)} | ${
+        timeframe.volatility.regime
+      } (ATR ${timeframe.volatility.atrPercent.toFixed(2)}%) | ${
+        timeframe.direction
+      } |`
+  );
+  const agreement = (value: number) => `${Math.round(value * 100)}% agree`;
+
+  return `### ⏱️ Multi-Timeframe Confluence
+| Timeframe | Trend | Momentum | RSI | Volatility | Overall |
+|-----------|-------|----------|-----|------------|---------|
+${rows.join("\n")}
+
+- **Trend**: ${confluence.trend.direction}, ${agreement(confluence.trend.agreement)}
+- **Momentum**: ${confluence.momentum.direction}, ${agreement(
+    confluence.momentum.agreement
+  )}
+- **Volatility**: ${confluence.volatility.regime}, ${agreement(
+    confluence.volatility.agreement
+  )}
+- **Overall**: ${confluence.summary}
+- **Conflicts**: ${
+    confluence.conflicts.length ? confluence.conflicts.join("; ") : "None"
+  }${
+    confluence.unavailable.length
+      ? `\n- **Unavailable**: ${confluence.unavailable.join(", ")}`
+      : ""
+  }`;
+}
+
 function formatSentiment(sentiment: any): string {
   const confidence = (sentiment.confidence * 100).toFixed(1);
   const emoji = sentiment.label.toLowerCase().includes("positive")
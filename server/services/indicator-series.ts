@@ -0,0 +1,386 @@
+import {
+  CandleStick,
+  IndicatorColumn,
+  IndicatorName,
+  IndicatorSeries,
+  IndicatorSpec,
+} from "../types/market";
+import { ValidationError } from "../utils/errors";
+import {
+  calculateADX,
+  calculateATR,
+  calculateBollingerBands,
+  calculateEMA,
+  calculateIchimoku,
+  calculateKeltnerChannels,
+  calculateMACD,
+  calculateOBV,
+  calculateParabolicSAR,
+  calculateRSI,
+  calculateSMA,
+  calculateStochastic,
+  calculateVWAP,
+  calculateWilliamsR,
+} from "../utils/technical-indicators";
+
+// Longest period accepted for any indicator
+export const MAX_INDICATOR_PERIOD = 500;
+
+// Most indicators a single spec string may request
+export const MAX_INDICATORS = 20;
+
+interface IndicatorDefinition {
+  defaults: number[];
+  // Validation message for a parameter list, or null when it is valid
+  validate(params: number[]): string | null;
+  columns(suffix: string): string[];
+  // Candles needed before the first value is produced
+  lookback(params: number[]): number;
+  // One series per column, each ending at the last candle
+  compute(candles: CandleStick[], params: number[]): number[][];
+  // Plotted on the price axis rather than in its own pane
+  overlay: boolean;
+}
+
+function isPeriod(value: number): boolean {
+  return Number.isInteger(value) && value >= 1 && value <= MAX_INDICATOR_PERIOD;
+}
+
+function validatePeriod([period]: number[]): string | null {
+  return isPeriod(period)
+    ? null
+    : `period must be an integer from 1 to ${MAX_INDICATOR_PERIOD}`;
+}
+
+function validatePeriods(periods: number[]): string | null {
+  return periods.every(isPeriod)
+    ? null
+    : `periods must be integers from 1 to ${MAX_INDICATOR_PERIOD}`;
+}
+
+function validateMultiplier(multiplier: number, label: string): string | null {
+  return multiplier > 0 && multiplier <= 10
+    ? null
+    : `${label} must be above 0 and at most 10`;
+}
+
+// Column name for an indicator line, e.g. macd_signal + 12_26_9
+function column(prefix: string, suffix: string): string {
+  return suffix ? `${prefix}_${suffix}` : prefix;
+}
+
+function closesOf(candles: CandleStick[]): number[] {
+  return candles.map((candle) => candle.close);
+}
+
+const INDICATORS: Record<IndicatorName, IndicatorDefinition> = {
+  sma: {
+    defaults: [20],
+    validate: validatePeriod,
+    columns: (suffix) => [column("sma", suffix)],
+    lookback: ([period]) => period - 1,
+    compute: (candles, [period]) => [calculateSMA(closesOf(candles), period)],
+    overlay: true,
+  },
+  ema: {
+    defaults: [20],
+    validate: validatePeriod,
+    columns: (suffix) => [column("ema", suffix)],
+    lookback: ([period]) => period - 1,
+    compute: (candles, [period]) => [calculateEMA(closesOf(candles), period)],
+    overlay: true,
+  },
+  rsi: {
+    defaults: [14],
+    validate: validatePeriod,
+    columns: (suffix) => [column("rsi", suffix)],
+    lookback: ([period]) => period,
+    compute: (candles, [period]) => [calculateRSI(closesOf(candles), period)],
+    overlay: false,
+  },
+  macd: {
+    defaults: [12, 26, 9],
+    validate: ([fast, slow, signal]) => {
+      const error = validatePeriods([fast, slow, signal]);
+      if (error) return error;
+      return fast < slow ? null : "fast period must be below slow period";
+    },
+    columns: (suffix) => [
+      column("macd", suffix),
+      column("macd_signal", suffix),
+      column("macd_hist", suffix),
+    ],
+    lookback: ([, slow, signal]) => slow + signal - 2,
+    compute: (candles, [fast, slow, signal]) => {
+      const result = calculateMACD(closesOf(candles), fast, slow, signal);
+      return [result.macd, result.signal, result.histogram];
+    },
+    overlay: false,
+  },
+  bb: {
+    defaults: [20, 2],
+    validate: ([period, deviations]) =>
+      validatePeriod([period]) ??
+      validateMultiplier(deviations, "standard deviations"),
+    columns: (suffix) => [
+      column("bb_upper", suffix),
+      column("bb_middle", suffix),
+      column("bb_lower", suffix),
+    ],
+    lookback: ([period]) => period - 1,
+    compute: (candles, [period, deviations]) => {
+      const bands = calculateBollingerBands(
+        closesOf(candles),
+        period,
+        deviations
+      );
+      return [bands.upper, bands.middle, bands.lower];
+    },
+    overlay: true,
+  },
+  atr: {
+    defaults: [14],
+    validate: validatePeriod,
+    columns: (suffix) => [column("atr", suffix)],
+    lookback: ([period]) => period - 1,
+    compute: (candles, [period]) => [calculateATR(candles, period)],
+    overlay: false,
+  },
+  stoch: {
+    defaults: [14, 3, 1],
+    validate: validatePeriods,
+    columns: (suffix) => [column("stoch_k", suffix), column("stoch_d", suffix)],
+    lookback: ([kPeriod, dPeriod, smoothing]) =>
+      kPeriod + dPeriod + smoothing - 3,
+    compute: (candles, [kPeriod, dPeriod, smoothing]) => {
+      const result = calculateStochastic(candles, kPeriod, dPeriod, smoothing);
+      return [result.k, result.d];
+    },
+    overlay: false,
+  },
+  adx: {
+    defaults: [14],
+    validate: validatePeriod,
+    columns: (suffix) => [
+      column("adx", suffix),
+      column("adx_plus_di", suffix),
+      column("adx_minus_di", suffix),
+    ],
+    lookback: ([period]) => period * 2 - 1,
+    compute: (candles, [period]) => {
+      const result = calculateADX(candles, period);
+      return [result.adx, result.plusDI, result.minusDI];
+    },
+    overlay: false,
+  },
+  obv: {
+    defaults: [],
+    validate: () => null,
+    columns: (suffix) => [column("obv", suffix)],
+    lookback: () => 0,
+    compute: (candles) => [calculateOBV(candles)],
+    overlay: false,
+  },
+  vwap: {
+    // Resets every UTC day
+    defaults: [],
+    validate: () => null,
+    columns: (suffix) => [column("vwap", suffix)],
+    lookback: () => 0,
+    compute: (candles) => [calculateVWAP(candles)],
+    overlay: true,
+  },
+  ichimoku: {
+    // Lines are not displaced, the spans plot 26 candles ahead
+    defaults: [9, 26, 52],
+    validate: validatePeriods,
+    columns: (suffix) => [
+      column("ichimoku_conversion", suffix),
+      column("ichimoku_base", suffix),
+      column("ichimoku_span_a", suffix),
+      column("ichimoku_span_b", suffix),
+    ],
+    lookback: (periods) => Math.max(...periods) - 1,
+    compute: (candles, [conversion, base, spanB]) => {
+      const result = calculateIchimoku(candles, conversion, base, spanB);
+      return [result.conversion, result.base, result.spanA, result.spanB];
+    },
+    overlay: true,
+  },
+  psar: {
+    defaults: [0.02, 0.2],
+    validate: ([step, maxStep]) => {
+      if (!(step > 0 && step <= 1)) {
+        return "step must be above 0 and at most 1";
+      }
+      return maxStep >= step && maxStep <= 1
+        ? null
+        : "max step must be from step to 1";
+    },
+    columns: (suffix) => [column("psar", suffix)],
+    lookback: () => 1,
+    compute: (candles, [step, maxStep]) => [
+      calculateParabolicSAR(candles, step, maxStep).sar,
+    ],
+    overlay: true,
+  },
+  kc: {
+    defaults: [20, 2, 10],
+    validate: ([period, multiplier, atrPeriod]) =>
+      validatePeriods([period, atrPeriod]) ??
+      validateMultiplier(multiplier, "multiplier"),
+    columns: (suffix) => [
+      column("kc_upper", suffix),
+      column("kc_middle", suffix),
+      column("kc_lower", suffix),
+    ],
+    lookback: ([period, , atrPeriod]) => Math.max(period, atrPeriod) - 1,
+    compute: (candles, [period, multiplier, atrPeriod]) => {
+      const channels = calculateKeltnerChannels(
+        candles,
+        period,
+        multiplier,
+        atrPeriod
+      );
+      return [channels.upper, channels.middle, channels.lower];
+    },
+    overlay: true,
+  },
+  willr: {
+    defaults: [14],
+    validate: validatePeriod,
+    columns: (suffix) => [column("willr", suffix)],
+    lookback: ([period]) => period - 1,
+    compute: (candles, [period]) => [calculateWilliamsR(candles, period)],
+    overlay: false,
+  },
+};
+
+export const INDICATOR_NAMES = Object.keys(INDICATORS) as IndicatorName[];
+
+function isIndicatorName(name: string): name is IndicatorName {
+  return Object.prototype.hasOwnProperty.call(INDICATORS, name);
+}
+
+/**
+ * Parse an indicator spec such as "rsi:14,ema:50,bb:20:2,macd:12:26:9".
+ * Omitted parameters take their defaults, so "rsi" is "rsi:14".
+ */
+export function parseIndicatorSpec(spec: string): IndicatorSpec[] {
+  const entries = spec
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  if (entries.length > MAX_INDICATORS) {
+    throw new ValidationError(
+      `At most ${MAX_INDICATORS} indicators can be requested`,
+      { spec }
+    );
+  }
+
+  const specs: IndicatorSpec[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of entries) {
+    const [rawName, ...rawParams] = entry.split(":");
+    const name = rawName.toLowerCase();
+    if (!isIndicatorName(name)) {
+      throw new ValidationError(`Unknown indicator "${rawName}"`, {
+        indicator: rawName,
+        supported: INDICATOR_NAMES,
+      });
+    }
+
+    const definition = INDICATORS[name];
+    if (rawParams.length > definition.defaults.length) {
+      throw new ValidationError(`Too many parameters for indicator "${name}"`, {
+        indicator: entry,
+      });
+    }
+
+    const params = definition.defaults.map((fallback, i) =>
+      rawParams[i] === undefined || rawParams[i] === ""
+        ? fallback
+        : Number(rawParams[i])
+    );
+    const error = params.every(Number.isFinite)
+      ? definition.validate(params)
+      : "parameters must be numbers";
+    if (error) {
+      throw new ValidationError(`Invalid indicator "${entry}": ${error}`, {
+        indicator: entry,
+      });
+    }
+
+    const key = `${name}:${params.join(":")}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      specs.push({ name, params });
+    }
+  }
+
+  return specs;
+}
+
+/**
+ * Column names produced by an indicator, e.g. ["rsi_14"]
+ */
+export function getIndicatorColumnNames(spec: IndicatorSpec): string[] {
+  return INDICATORS[spec.name].columns(spec.params.join("_"));
+}
+
+/**
+ * Candles needed before every requested indicator has a value
+ */
+export function getIndicatorLookback(specs: IndicatorSpec[]): number {
+  return specs.reduce(
+    (max, spec) => Math.max(max, INDICATORS[spec.name].lookback(spec.params)),
+    0
+  );
+}
+
+/**
+ * Compute each indicator's series aligned with the candles. Values are null
+ * until an indicator has enough history.
+ */
+export function computeIndicatorSeries(
+  candles: CandleStick[],
+  specs: IndicatorSpec[]
+): IndicatorSeries[] {
+  return specs.map((spec) => {
+    const definition = INDICATORS[spec.name];
+    const names = getIndicatorColumnNames(spec);
+    const series =
+      candles.length > definition.lookback(spec.params)
+        ? definition.compute(candles, spec.params)
+        : names.map(() => []);
+
+    return {
+      key: [spec.name, ...spec.params].join(":"),
+      name: spec.name,
+      params: spec.params,
+      overlay: definition.overlay,
+      columns: names.map((name, i) => ({
+        name,
+        values: [
+          ...new Array<null>(candles.length - series[i].length).fill(null),
+          ...series[i],
+        ],
+      })),
+    };
+  });
+}
+
+/**
+ * Compute indicator columns aligned with the candles, flattened across
+ * indicators
+ */
+export function computeIndicatorColumns(
+  candles: CandleStick[],
+  specs: IndicatorSpec[]
+): IndicatorColumn[] {
+  return computeIndicatorSeries(candles, specs).flatMap(
+    (series) => series.columns
+  );
+}
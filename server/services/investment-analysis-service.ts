@@ -4,6 +4,11 @@ import {
   SocialAnalysis,
   InvestmentRecommendation,
   InvestmentAnalysisResponse,
+  ScoringWeights,
+  DEFAULT_SCORING_WEIGHTS,
+  INVESTMENT_HORIZON_DAYS,
+  OutcomeSimulation,
+  SimulationMethod,
 } from "../../shared/types/market-analysis";
 import {
   analyzeSentiment,
@@ -11,7 +16,27 @@ import {
   calculateOverallSentiment,
 } from "./huggingface-service";
 import { callGeminiAPI, GEMINI_SYSTEM_ROLE } from "./gemini-service";
-import { binanceClient, newsClient } from "../api-clients";
+import { newsClient } from "../api-clients";
+import { exchangeRegistry } from "./exchanges/exchange-registry";
+import { currencyService, formatCurrencyAmount } from "./currency-service";
+import { marketStatsService } from "./market-stats-service";
+import { getKlines } from "./market-service";
+import { simulateOutcomes } from "./outcome-simulator";
+import {
+  calculateMACD,
+  calculateRSI,
+  calculateSMA,
+} from "../utils/technical-indicators";
+
+// Technicals are computed on daily candles, enough for a 200-day SMA
+const TECHNICAL_INTERVAL = "1d";
+export const TECHNICAL_CANDLES = 250;
+
+// Coins whose candles are loaded at the same time
+const CANDLE_CONCURRENCY = 5;
+
+// Daily returns used for realized volatility
+const VOLATILITY_DAYS = 30;
 
 interface SentimentResult {
   sentiment: "positive" | "negative" | "neutral";
@@ -54,28 +79,102 @@ interface MarketSentimentData {
   }[];
 }
 
+// Indicators from a coin's daily candles. Values are null when there isn't
+// enough history for them.
+interface CoinTechnicals {
+  symbol: string;
+  price: number;
+  candles: number;
+  rsi: number | null;
+  macd: {
+    value: number;
+    signal: number;
+    histogram: number;
+  } | null;
+  movingAverages: {
+    sma20: number | null;
+    sma50: number | null;
+    sma200: number | null;
+  };
+  volume: number;
+  volatility: number | null; // Annualized realized volatility, percent
+}
+
+interface TechnicalScore {
+  score: number;
+  factors: string[];
+}
+
 interface InvestmentAnalysisData {
   amount: number;
+  currency: string;
   timeframe: "short" | "medium" | "long";
   riskTolerance: "conservative" | "moderate" | "aggressive";
   coins: MarketAnalysis["coin"][];
   marketSentiment: MarketSentimentData;
-  technicalAnalysis: Array<{
-    symbol: string;
-    rsi: number;
-    macd: {
-      value: number;
-      signal: number;
-      histogram: number;
-    };
-    movingAverages: {
-      sma20: number;
-      sma50: number;
-      sma200: number;
-    };
-    volume: number;
-    volatility: number;
-  }>;
+  technicalAnalysis: CoinTechnicals[];
+  weights: ScoringWeights;
+}
+
+// The market as it stood at a past date, for replaying recommendations
+export interface RecommenderSnapshot {
+  amount: number; // USD
+  timeframe: string;
+  preferences?: string;
+  coins: MarketAnalysis["coin"][]; // Largest first
+  closes: Record<string, number[]>; // Daily closes up to the date, by symbol
+  weights?: ScoringWeights;
+}
+
+function last(values: number[]): number | null {
+  const value = values[values.length - 1];
+  return value === undefined || !Number.isFinite(value) ? null : value;
+}
+
+/**
+ * Annualized standard deviation of daily log returns, in percent
+ */
+function calculateRealizedVolatility(closes: number[]): number | null {
+  const recent = closes.slice(-(VOLATILITY_DAYS + 1));
+  if (recent.length < 3) return null;
+
+  const returns = recent
+    .slice(1)
+    .map((close, i) => Math.log(close / recent[i]));
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance =
+    returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+    (returns.length - 1);
+  return Math.sqrt(variance) * Math.sqrt(365) * 100;
+}
+
+// Sentiment used when none could be analyzed
+function getNeutralSentiment(
+  coins: MarketAnalysis["coin"][]
+): MarketSentimentData {
+  return {
+    news: {
+      overallSentiment: { sentiment: "neutral", confidence: 0.5 },
+      articles: [],
+      sentiments: [],
+      keyTopics: [],
+      marketImpact: "neutral",
+    },
+    social: {
+      overallSentiment: { sentiment: "neutral", confidence: 0.5 },
+      trending: [],
+      sentiments: [],
+    },
+    overall: { sentiment: "neutral", confidence: 0.5 },
+    coinSentiments: coins.map((coin) => ({
+      coin: coin.symbol,
+      sentiment: { sentiment: "neutral", confidence: 0.5 },
+    })),
+  };
+}
+
+function formatPrice(value: number): string {
+  return value >= 1 ? value.toFixed(2) : value.toPrecision(4);
 }
 
 export class InvestmentAnalysisService {
@@ -85,56 +184,91 @@ export class InvestmentAnalysisService {
   async analyzeInvestmentOptions(
     amount: number,
     timeframe: string = "long",
-    preferences?: string
+    preferences?: string,
+    currency: string = "USD",
+    simulationMethod: SimulationMethod = "bootstrap"
   ): Promise<InvestmentAnalysisResponse> {
     try {
       console.log(
-        `Analyzing investment options for $${amount} (${timeframe}-term)`
+        `Analyzing investment options for ${formatCurrencyAmount(
+          amount,
+          currency
+        )} (${timeframe}-term)`
       );
 
+      // Scoring thresholds are in USD, amounts are converted at the edges
+      const usdRate = await currencyService.getRate(currency, "USD");
+
       // 1. Get market data
       const marketData = await this.getMarketData();
 
       // 2. Get sentiment analysis from HuggingFace
       const sentimentData = await this.analyzeCryptoSentiment(marketData.coins);
 
-      // 3. Generate technical analysis
-      const technicalData = await this.generateTechnicalAnalysis(
-        marketData.coins
+      // 3. Generate technical analysis from daily candles
+      const dailyCloses = await this.loadDailyCloses(marketData.coins);
+      const technicalData = marketData.coins.map((coin) =>
+        this.calculateTechnicals(coin, dailyCloses[coin.symbol] ?? [])
       );
 
       // 4. Create investment analysis data
       const analysisData: InvestmentAnalysisData = {
-        amount,
+        amount: amount * usdRate,
+        currency: "USD",
         timeframe: this.normalizeTimeframe(timeframe),
         riskTolerance: this.determineRiskTolerance(preferences || ""),
         coins: marketData.coins,
         marketSentiment: sentimentData,
         technicalAnalysis: technicalData,
+        weights: DEFAULT_SCORING_WEIGHTS,
       };
 
       // 5. Generate recommendations using HuggingFace analysis
-      const recommendations = await this.generateRecommendations(analysisData);
+      const usdRecommendations = await this.generateRecommendations(
+        analysisData
+      );
+
+      // Report amounts and prices in the requested currency
+      const displayData = { ...analysisData, amount, currency };
+      const recommendations = this.convertRecommendations(
+        usdRecommendations,
+        1 / usdRate
+      );
+
+      // 6. Simulate the range of outcomes over the timeframe
+      const simulation = simulateOutcomes({
+        amount,
+        holdings: recommendations.map((rec) => ({
+          symbol: rec.coin.symbol,
+          value: rec.allocation,
+          closes: dailyCloses[rec.coin.symbol] ?? [],
+        })),
+        days: INVESTMENT_HORIZON_DAYS[analysisData.timeframe],
+        method: simulationMethod,
+      });
 
-      // 6. Use Gemini to format and explain the analysis
+      // 7. Use Gemini to format and explain the analysis
       const analysis = await this.generateGeminiAnalysis(
-        analysisData,
+        displayData,
         recommendations,
         preferences
       );
 
-      // 7. Generate risk assessment
+      // 8. Generate risk assessment
       const riskAssessment = await this.generateRiskAssessment(
-        analysisData,
-        recommendations
+        displayData,
+        recommendations,
+        simulation
       );
 
       return {
         recommendations,
         analysis,
         riskAssessment,
+        simulation,
         metadata: {
           amount,
+          currency,
           timeframe: timeframe || "long",
           analysisDate: new Date().toISOString(),
           disclaimer:
@@ -149,14 +283,40 @@ export class InvestmentAnalysisService {
     }
   }
 
+  /**
+   * Recommendations from the scores alone, for the market as it stood at a
+   * past date. News and social posts from then aren't kept, so sentiment is
+   * neutral as when live sentiment analysis fails.
+   */
+  async recommendAt(
+    snapshot: RecommenderSnapshot
+  ): Promise<InvestmentRecommendation[]> {
+    const { coins, closes } = snapshot;
+    return this.generateRecommendations({
+      amount: snapshot.amount,
+      currency: "USD",
+      timeframe: this.normalizeTimeframe(snapshot.timeframe),
+      riskTolerance: this.determineRiskTolerance(snapshot.preferences || ""),
+      coins,
+      marketSentiment: getNeutralSentiment(coins),
+      technicalAnalysis: coins.map((coin) =>
+        this.calculateTechnicals(
+          coin,
+          (closes[coin.symbol] ?? []).slice(-TECHNICAL_CANDLES)
+        )
+      ),
+      weights: snapshot.weights ?? DEFAULT_SCORING_WEIGHTS,
+    });
+  }
+
   /**
    * Get comprehensive market data
    */
   private async getMarketData() {
     try {
-      const [marketData, marketStats] = await Promise.all([
-        binanceClient.getTopCryptocurrencies(),
-        binanceClient.getMarketStats(),
+      const [{ data: marketData }, marketStats] = await Promise.all([
+        exchangeRegistry.getTickers(),
+        marketStatsService.getGlobalStats(),
       ]);
 
       // Map the data to match our expected interface
@@ -307,25 +467,7 @@ export class InvestmentAnalysisService {
       }
 
       // Return graceful fallback with neutral sentiment
-      const fallbackSentiment: MarketSentimentData = {
-        news: {
-          overallSentiment: { sentiment: "neutral", confidence: 0.5 },
-          articles: [],
-          sentiments: [],
-          keyTopics: [],
-          marketImpact: "neutral",
-        },
-        social: {
-          overallSentiment: { sentiment: "neutral", confidence: 0.5 },
-          trending: [],
-          sentiments: [],
-        },
-        overall: { sentiment: "neutral", confidence: 0.5 },
-        coinSentiments: coins.map((coin) => ({
-          coin: coin.symbol,
-          sentiment: { sentiment: "neutral", confidence: 0.5 },
-        })),
-      };
+      const fallbackSentiment = getNeutralSentiment(coins);
 
       // Log fallback response
       console.log("Returning fallback sentiment data");
@@ -334,25 +476,62 @@ export class InvestmentAnalysisService {
   }
 
   /**
-   * Generate technical analysis for coins
+   * Load the daily closes behind technicals and outcome simulations, by
+   * symbol. Coins without candles get an empty series.
    */
-  private generateTechnicalAnalysis(coins: MarketAnalysis["coin"][]) {
-    return coins.map((coin) => ({
+  private async loadDailyCloses(
+    coins: MarketAnalysis["coin"][]
+  ): Promise<Record<string, number[]>> {
+    const closes: Record<string, number[]> = {};
+
+    for (let i = 0; i < coins.length; i += CANDLE_CONCURRENCY) {
+      await Promise.all(
+        coins.slice(i, i + CANDLE_CONCURRENCY).map(async (coin) => {
+          closes[coin.symbol] = [];
+          try {
+            const candles = await getKlines(
+              coin.symbol,
+              TECHNICAL_INTERVAL,
+              TECHNICAL_CANDLES
+            );
+            closes[coin.symbol] = candles.map((candle) => candle.close);
+          } catch (error) {
+            // The coin gets a neutral technical score
+            console.warn(`Candles unavailable for ${coin.symbol}:`, error);
+          }
+        })
+      );
+    }
+
+    return closes;
+  }
+
+  private calculateTechnicals(
+    coin: MarketAnalysis["coin"],
+    closes: number[]
+  ): CoinTechnicals {
+    const macd = calculateMACD(closes);
+    const macdValue = last(macd.macd);
+    const macdSignal = last(macd.signal);
+    const macdHistogram = last(macd.histogram);
+
+    return {
       symbol: coin.symbol,
-      rsi: this.calculateRSI([coin.price]), // Simplified - in real implementation, you'd need historical data
-      macd: {
-        value: coin.priceChange24h > 0 ? 0.8 : -0.8,
-        signal: 0.5,
-        histogram: coin.priceChange24h / 100,
-      },
+      price: coin.price,
+      candles: closes.length,
+      rsi: last(calculateRSI(closes, 14)),
+      macd:
+        macdValue !== null && macdSignal !== null && macdHistogram !== null
+          ? { value: macdValue, signal: macdSignal, histogram: macdHistogram }
+          : null,
       movingAverages: {
-        sma20: coin.price * 0.98,
-        sma50: coin.price * 0.95,
-        sma200: coin.price * 0.9,
+        sma20: last(calculateSMA(closes, 20)),
+        sma50: last(calculateSMA(closes, 50)),
+        sma200: last(calculateSMA(closes, 200)),
       },
       volume: coin.volume24h,
-      volatility: Math.abs(coin.priceChange24h),
-    }));
+      volatility: calculateRealizedVolatility(closes),
+    };
   }
 
   /**
@@ -369,40 +548,26 @@ export class InvestmentAnalysisService {
         (cs) => cs.coin === coin.symbol
       );
 
-      interface TechnicalAnalysisData {
-        symbol: string;
-        rsi: number;
-        macd: {
-          value: number;
-          signal: number;
-          histogram: number;
-        };
-        movingAverages: {
-          sma20: number;
-          sma50: number;
-          sma200: number;
-        };
-        volume: number;
-        volatility: number;
-      }
-
-      const technicalData: TechnicalAnalysisData | undefined =
-        data.technicalAnalysis.find(
-          (ta: TechnicalAnalysisData) => ta.symbol === coin.symbol
-        );
+      const technicalData = data.technicalAnalysis.find(
+        (ta) => ta.symbol === coin.symbol
+      );
 
       // Calculate scores based on sentiment and technical data
       const sentimentScore = this.calculateSentimentScore(
         coinSentiment?.sentiment
       );
-      const technicalScore = this.calculateTechnicalScore(technicalData);
+      const { score: technicalScore, factors: technicalFactors } =
+        this.calculateTechnicalScore(technicalData);
       const fundamentalScore = this.calculateFundamentalScore(coin);
 
       // Calculate allocation based on scores and risk tolerance
       const allocation = this.calculateAllocation(
-        sentimentScore,
-        technicalScore,
-        fundamentalScore,
+        this.calculateOverallScore(
+          sentimentScore,
+          technicalScore,
+          fundamentalScore,
+          data.weights
+        ),
         data.riskTolerance,
         data.amount
       );
@@ -416,24 +581,27 @@ export class InvestmentAnalysisService {
             sentimentScore,
             technicalScore,
             fundamentalScore,
-            coinSentiment?.sentiment
+            coinSentiment?.sentiment,
+            technicalData
           ),
           riskLevel: this.assessRiskLevel(coin, technicalData),
           sentimentScore,
           technicalScore,
           fundamentalScore,
+          technicalFactors,
         });
       }
     }
 
     // Sort by overall score and normalize allocations
-    recommendations.sort(
-      (a, b) =>
-        b.sentimentScore +
-        b.technicalScore +
-        b.fundamentalScore -
-        (a.sentimentScore + a.technicalScore + a.fundamentalScore)
-    );
+    const overallScore = (rec: InvestmentRecommendation) =>
+      this.calculateOverallScore(
+        rec.sentimentScore,
+        rec.technicalScore,
+        rec.fundamentalScore,
+        data.weights
+      );
+    recommendations.sort((a, b) => overallScore(b) - overallScore(a));
 
     return this.normalizeAllocations(recommendations, data.amount);
   }
@@ -451,7 +619,7 @@ export class InvestmentAnalysisService {
 INVESTMENT ANALYSIS REQUEST
 
 Investment Details:
-• Amount: $${data.amount.toLocaleString()}
+• Amount: ${formatCurrencyAmount(data.amount, data.currency)}
 • Timeframe: ${data.timeframe}-term investment
 • Risk Tolerance: ${data.riskTolerance}
 • User Preferences: ${preferences || "None specified"}
@@ -468,15 +636,19 @@ ${recommendations
   .map(
     (rec, index) => `
 ${index + 1}. ${rec.coin.name} (${rec.coin.symbol})
-   • Allocation: $${rec.allocation.toLocaleString()} (${(
+   • Allocation: ${formatCurrencyAmount(rec.allocation, data.currency)} (${(
       (rec.allocation / data.amount) *
       100
     ).toFixed(1)}%)
-   • Current Price: $${rec.coin.price.toLocaleString()}
+   • Current Price: ${formatCurrencyAmount(rec.coin.price, data.currency)}
    • 24h Change: ${rec.coin.priceChange24h.toFixed(2)}%
    • Risk Level: ${rec.riskLevel}
    • Sentiment Score: ${rec.sentimentScore.toFixed(2)}/10
-   • Technical Score: ${rec.technicalScore.toFixed(2)}/10
+   • Technical Score: ${rec.technicalScore.toFixed(2)}/10${
+      rec.technicalFactors?.length
+        ? ` (${rec.technicalFactors.join("; ")})`
+        : ""
+    }
    • Reasoning: ${rec.reasoning}
 `
   )
@@ -494,7 +666,7 @@ Please provide a comprehensive investment analysis with the following sections:
 
 Requirements:
 - Use clear, educational language
-- Include specific dollar amounts and percentages
+- Include specific ${data.currency} amounts and percentages
 - Provide actionable advice
 - Include comprehensive risk warnings
 - No financial advice disclaimers (focus on education)
@@ -509,7 +681,8 @@ Requirements:
    */
   private async generateRiskAssessment(
     data: InvestmentAnalysisData,
-    recommendations: InvestmentRecommendation[]
+    recommendations: InvestmentRecommendation[],
+    simulation: OutcomeSimulation | null
   ): Promise<string> {
     const totalHighRisk = recommendations
       .filter((r) => r.riskLevel === "high")
@@ -522,9 +695,29 @@ Requirements:
     else if (riskPercentage > 40) riskLevel = "High";
     else if (riskPercentage > 20) riskLevel = "Medium";
 
-    return `${riskLevel} Risk Portfolio (${riskPercentage.toFixed(
+    const summary = `${riskLevel} Risk Portfolio (${riskPercentage.toFixed(
       1
     )}% in high-risk assets)`;
+    if (!simulation) return summary;
+
+    const { finalValue, finalReturn } = simulation;
+    const value = (amount: number) =>
+      formatCurrencyAmount(amount, data.currency);
+    const percent = (change: number) =>
+      `${change >= 0 ? "+" : ""}${change.toFixed(1)}%`;
+    const low = `${value(finalValue.p5)} (P5, ${percent(finalReturn.p5)})`;
+    const high = `${value(finalValue.p95)} (P95, ${percent(finalReturn.p95)})`;
+    const median = `${value(finalValue.p50)} (${percent(finalReturn.p50)})`;
+    const loss = simulation.probabilityOfLoss.toFixed(1);
+    const drawdown = simulation.expectedMaxDrawdown.toFixed(1);
+    const tailDrawdown = simulation.maxDrawdownP95.toFixed(1);
+
+    return [
+      `${summary}.`,
+      `Over ${simulation.days} days, ${simulation.paths} simulated paths end between ${low} and ${high}, with a median of ${median}.`,
+      `Probability of loss: ${loss}%.`,
+      `Expected max drawdown: ${drawdown}%, worse than ${tailDrawdown}% in 1 path out of 20.`,
+    ].join(" ");
   }
 
   // Helper methods
@@ -543,7 +736,7 @@ Requirements:
     return "long";
   }
 
-  private determineRiskTolerance(
+  determineRiskTolerance(
     preferences: string
   ): "conservative" | "moderate" | "aggressive" {
     const lower = preferences.toLowerCase();
@@ -578,23 +771,66 @@ Requirements:
     return Math.min(10, baseScore + confidenceBonus);
   }
 
-  private calculateTechnicalScore(technical: any): number {
-    if (!technical) return 5;
+  /**
+   * Score technicals from 0 to 10 starting at a neutral 5. Every adjustment
+   * is listed with the indicator value behind it.
+   */
+  private calculateTechnicalScore(
+    technical: CoinTechnicals | undefined
+  ): TechnicalScore {
+    if (!technical || !technical.candles) {
+      return { score: 5, factors: ["No price history, neutral score"] };
+    }
 
     let score = 5;
+    const factors: string[] = [];
+    const adjust = (points: number, reason: string) => {
+      score += points;
+      factors.push(`${reason} (${points > 0 ? "+" : ""}${points})`);
+    };
+    const { rsi, macd, movingAverages, price, volatility } = technical;
+    const { sma20, sma50, sma200 } = movingAverages;
 
     // RSI scoring
-    if (technical.rsi > 70) score -= 1; // Overbought
-    else if (technical.rsi < 30) score += 1; // Oversold
+    if (rsi !== null) {
+      const value = rsi.toFixed(1);
+      if (rsi > 70) adjust(-1, `RSI ${value} overbought`);
+      else if (rsi < 30) adjust(1, `RSI ${value} oversold`);
+      else if (rsi >= 50) adjust(0.5, `RSI ${value} bullish momentum`);
+      else adjust(-0.5, `RSI ${value} bearish momentum`);
+    }
 
     // MACD scoring
-    if (technical.macd.value > technical.macd.signal) score += 1;
-    else score -= 1;
+    if (macd) {
+      if (macd.value > macd.signal) adjust(1, "MACD above signal line");
+      else adjust(-1, "MACD below signal line");
+    }
+
+    // Moving average scoring
+    if (sma20 !== null) {
+      if (price > sma20) adjust(0.5, `Price above SMA20 ${formatPrice(sma20)}`);
+      else adjust(-0.5, `Price below SMA20 ${formatPrice(sma20)}`);
+    }
+    if (sma50 !== null) {
+      if (price > sma50) adjust(1, `Price above SMA50 ${formatPrice(sma50)}`);
+      else adjust(-1, `Price below SMA50 ${formatPrice(sma50)}`);
+    }
+    if (sma50 !== null && sma200 !== null) {
+      if (sma50 > sma200) adjust(1, "SMA50 above SMA200 (golden cross)");
+      else adjust(-1, "SMA50 below SMA200 (death cross)");
+    }
+
+    // Volatility scoring
+    if (volatility !== null) {
+      const value = volatility.toFixed(0);
+      if (volatility > 120) adjust(-1, `Volatility ${value}% annualized`);
+      else if (volatility < 50) adjust(0.5, `Volatility ${value}% annualized`);
+    }
 
     // Volume scoring
-    if (technical.volume > 1000000000) score += 1; // High liquidity
+    if (technical.volume > 1000000000) adjust(1, "High liquidity");
 
-    return Math.max(0, Math.min(10, score));
+    return { score: Math.max(0, Math.min(10, score)), factors };
   }
 
   private calculateFundamentalScore(coin: MarketAnalysis["coin"]): number {
@@ -611,16 +847,29 @@ Requirements:
     return Math.max(0, Math.min(10, score));
   }
 
-  private calculateAllocation(
+  /**
+   * Weighted mean of the three scores, still from 0 to 10
+   */
+  private calculateOverallScore(
     sentimentScore: number,
     technicalScore: number,
     fundamentalScore: number,
+    weights: ScoringWeights
+  ): number {
+    const total = weights.sentiment + weights.technical + weights.fundamental;
+    return (
+      (sentimentScore * weights.sentiment +
+        technicalScore * weights.technical +
+        fundamentalScore * weights.fundamental) /
+      total
+    );
+  }
+
+  private calculateAllocation(
+    overallScore: number,
     riskTolerance: "conservative" | "moderate" | "aggressive",
     totalAmount: number
   ): number {
-    const overallScore =
-      (sentimentScore + technicalScore + fundamentalScore) / 3;
-
     let baseAllocation = 0;
     if (overallScore >= 7) baseAllocation = 0.4; // 40% max for top assets
     else if (overallScore >= 6) baseAllocation = 0.25;
@@ -643,7 +892,8 @@ Requirements:
     sentimentScore: number,
     technicalScore: number,
     fundamentalScore: number,
-    sentiment: any
+    sentiment: any,
+    technical?: CoinTechnicals
   ): string {
     const reasons = [];
 
@@ -653,26 +903,54 @@ Requirements:
     if (fundamentalScore > 7) reasons.push("Strong market fundamentals");
     if (coin.marketCap > 50000000000)
       reasons.push("Large market cap (stability)");
-    if (Math.abs(coin.priceChange24h) < 5) reasons.push("Low volatility");
+    if (technical?.volatility != null) {
+      if (technical.volatility < 50)
+        reasons.push(
+          `Low volatility (${technical.volatility.toFixed(0)}% annualized)`
+        );
+    } else if (Math.abs(coin.priceChange24h) < 5) {
+      reasons.push("Low volatility");
+    }
 
     return reasons.join(", ") || "Balanced risk/reward profile";
   }
 
   private assessRiskLevel(
     coin: MarketAnalysis["coin"],
-    technical: any
+    technical?: CoinTechnicals
   ): "low" | "medium" | "high" {
     let riskScore = 0;
 
     if (coin.marketCap < 1000000000) riskScore += 2; // Small cap
     if (Math.abs(coin.priceChange24h) > 10) riskScore += 2; // High volatility
-    if (technical?.volatility > 15) riskScore += 1;
+    if ((technical?.volatility ?? 0) > 100) riskScore += 1; // Annualized %
 
     if (riskScore >= 4) return "high";
     if (riskScore >= 2) return "medium";
     return "low";
   }
 
+  /**
+   * Convert allocations and coin figures from USD at the given rate
+   */
+  private convertRecommendations(
+    recommendations: InvestmentRecommendation[],
+    rate: number
+  ): InvestmentRecommendation[] {
+    if (rate === 1) return recommendations;
+
+    return recommendations.map((rec) => ({
+      ...rec,
+      allocation: Math.round(rec.allocation * rate * 100) / 100,
+      coin: {
+        ...rec.coin,
+        price: rec.coin.price * rate,
+        volume24h: rec.coin.volume24h * rate,
+        marketCap: rec.coin.marketCap * rate,
+      },
+    }));
+  }
+
   private normalizeAllocations(
     recommendations: InvestmentRecommendation[],
     totalAmount: number
@@ -702,11 +980,6 @@ Requirements:
       ).length,
     }));
   }
-
-  private calculateRSI(prices: number[]): number {
-    // Simplified RSI calculation - in production, use historical price data
-    return 50 + (Math.random() - 0.5) * 40; // Mock RSI between 30-70
-  }
 }
 
 export const investmentAnalysisService = new InvestmentAnalysisService();
@@ -7,6 +7,13 @@ import {
   KeywordSentimentResult,
   SentimentAnalysisError,
 } from "./huggingface-service";
+import { getKlines } from "./market-service";
+import {
+  analyzeSupportResistance,
+  describeSupportResistance,
+} from "./support-resistance";
+import { confluenceService } from "./confluence-service";
+import { ConfluenceReport, SupportResistanceAnalysis } from "../types/market";
 
 // Custom error class for market analysis
 export class MarketAnalysisError extends Error {
@@ -85,6 +92,8 @@ interface MarketAnalysis {
       sma200: number;
     };
   };
+  levels: SupportResistanceAnalysis | null;
+  confluence: ConfluenceReport | null;
   aiAnalysis: string;
   timestamp: string;
 }
@@ -102,6 +111,15 @@ const NEWS_CONFIG = {
   maxArticles: 5,
 };
 
+// Candles used to find support and resistance levels
+const LEVELS_CONFIG = {
+  interval: "4h",
+  limit: 180, // 30 days
+};
+
+// Timeframe whose indicators are quoted when confluence is available
+const PRIMARY_INTERVAL = "1h";
+
 /**
  * Fetch data with retry logic and timeout handling
  */
@@ -330,22 +348,67 @@ async function analyzeNewsForCoin(coin: string): Promise<{
   }
 }
 
+/**
+ * Detect support and resistance levels from recent candles, or null when the
+ * candles can't be fetched
+ */
+async function getSupportResistance(
+  symbol: string
+): Promise<SupportResistanceAnalysis | null> {
+  try {
+    const pair = `${symbol.toUpperCase()}USDT`;
+    const candles = await getKlines(
+      pair,
+      LEVELS_CONFIG.interval,
+      LEVELS_CONFIG.limit
+    );
+    return {
+      symbol: pair,
+      interval: LEVELS_CONFIG.interval,
+      ...analyzeSupportResistance(candles),
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    console.warn(`Support/resistance unavailable for ${symbol}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Multi-timeframe confluence report, or null when no timeframe has candles
+ */
+async function getConfluence(symbol: string): Promise<ConfluenceReport | null> {
+  try {
+    return await confluenceService.analyze(`${symbol.toUpperCase()}USDT`);
+  } catch (error) {
+    console.warn(`Confluence unavailable for ${symbol}:`, error);
+    return null;
+  }
+}
+
 /**
  * Calculate technical indicators
  */
-function calculateTechnicalIndicators(marketData: MarketData): {
+function calculateTechnicalIndicators(
+  marketData: MarketData,
+  levels: SupportResistanceAnalysis | null,
+  confluence: ConfluenceReport | null
+): {
   support: number;
   resistance: number;
   trend: string;
 } {
   const { price, high24h, low24h, change24h } = marketData;
 
-  // Simple technical analysis calculations
-  const support = low24h * 0.98; // 2% below 24h low
-  const resistance = high24h * 1.02; // 2% above 24h high
+  // Detected levels, falling back to 2% beyond the 24h range
+  const support = levels?.nearestSupport?.price ?? low24h * 0.98;
+  const resistance = levels?.nearestResistance?.price ?? high24h * 1.02;
 
   let trend = "neutral";
-  if (change24h > price * 0.03) {
+  if (confluence) {
+    // Agreement across timeframes beats a single 24h move
+    trend = confluence.direction;
+  } else if (change24h > price * 0.03) {
     // More than 3% gain
     trend = "bullish";
   } else if (change24h < -price * 0.03) {
@@ -367,13 +430,18 @@ function generateAIAnalysis(
   symbol: string,
   newsAnalysis: any,
   technicalAnalysis: any,
-  percentChange24h: number
+  percentChange24h: number,
+  levels: SupportResistanceAnalysis | null,
+  confluence: ConfluenceReport | null
 ): string {
   const sentiment = newsAnalysis?.overallSentiment || "neutral";
   const trend = technicalAnalysis?.trend || "sideways";
   const strength = Math.abs(percentChange24h);
 
-  const marketCondition = percentChange24h >= 0 ? "bullish" : "bearish";
+  // Confluence across timeframes when available, else the 24h move, so every
+  // section agrees on direction
+  const isUpward = confluence ? confluence.score >= 0 : percentChange24h >= 0;
+  const marketCondition = isUpward ? "bullish" : "bearish";
   const sentimentDescription =
     sentiment === "positive"
       ? "positive"
@@ -393,10 +461,26 @@ Technical Outlook: The market is showing a ${trend} trend with ${strength.toFixe
     2
   )}, while resistance is observed at $${technicalAnalysis.resistance.toFixed(
     2
-  )}.
-
+  )}.${
+    levels
+      ? ` Swing pivots on ${levels.interval} candles show ${describeSupportResistance(
+          levels
+        )}.`
+      : ""
+  }
+${
+  confluence
+    ? `
+Timeframe Confluence: ${confluence.summary}.${
+        confluence.conflicts.length
+          ? ` Watch for mixed signals: ${confluence.conflicts.join("; ")}.`
+          : " No timeframe contradicts another."
+      }
+`
+    : ""
+}
 Market Structure: Current price action suggests ${
-    percentChange24h >= 0
+    isUpward
       ? "upward momentum with potential for continuation"
       : "downward pressure with possible consolidation needed"
   }. Volume profiles indicate ${
@@ -447,6 +531,8 @@ export async function generateMarketAnalysis(coinInfo: {
       sma200: number;
     };
   };
+  levels: SupportResistanceAnalysis | null;
+  confluence: ConfluenceReport | null;
   aiAnalysis: string;
   timestamp: string;
 }> {
@@ -497,7 +583,18 @@ export async function generateMarketAnalysis(coinInfo: {
     const percentChange24h = parseFloat(coinInfo.priceChangePercent24h);
 
     // Calculate RSI and other technical indicators
-    const technicalAnalysis = calculateTechnicalIndicators(marketData);
+    const [levels, confluence] = await Promise.all([
+      getSupportResistance(coinInfo.symbol),
+      getConfluence(coinInfo.symbol),
+    ]);
+    const technicalAnalysis = calculateTechnicalIndicators(
+      marketData,
+      levels,
+      confluence
+    );
+    const primary = confluence?.timeframes.find(
+      (timeframe) => timeframe.interval === PRIMARY_INTERVAL
+    );
     const macd = {
       value: percentChange24h > 0 ? 0.5 : -0.5,
       signal: 0,
@@ -514,7 +611,8 @@ export async function generateMarketAnalysis(coinInfo: {
         marketCap: parseFloat(coinInfo.marketCap),
       },
       technicalAnalysis: {
-        rsi: 50 + percentChange24h, // Simplified RSI calculation
+        // Simplified RSI calculation when there are no candles
+        rsi: primary?.momentum.rsi ?? 50 + percentChange24h,
         macd,
         movingAverages: {
           sma20: technicalAnalysis.support,
@@ -522,11 +620,15 @@ export async function generateMarketAnalysis(coinInfo: {
           sma200: technicalAnalysis.resistance,
         },
       },
+      levels,
+      confluence,
       aiAnalysis: generateAIAnalysis(
         coinInfo.symbol,
         newsAnalysis,
         technicalAnalysis,
-        percentChange24h
+        percentChange24h,
+        levels,
+        confluence
       ),
       timestamp: new Date().toISOString(),
     };
@@ -547,27 +649,6 @@ export async function generateMarketAnalysis(coinInfo: {
   }
 }
 
-/**
- * Helper function to get coin full name
- */
-function getCoinName(symbol: string): string {
-  const coinNames = {
-    BTC: "Bitcoin",
-    ETH: "Ethereum",
-    BNB: "Binance Coin",
-    ADA: "Cardano",
-    SOL: "Solana",
-    XRP: "Ripple",
-    DOT: "Polkadot",
-    DOGE: "Dogecoin",
-    AVAX: "Avalanche",
-    MATIC: "Polygon",
-  };
-
-  const uppercaseSymbol = symbol.toUpperCase() as keyof typeof coinNames;
-  return coinNames[uppercaseSymbol] || uppercaseSymbol;
-}
-
 /**
  * Get multiple coins analysis (for portfolio view)
  */
@@ -0,0 +1,160 @@
+import { IndicatorSpec } from "../types/market";
+import { alignOpenTime, shiftOpenTime } from "../utils/intervals";
+import {
+  computeIndicatorColumns,
+  getIndicatorLookback,
+} from "./indicator-series";
+import { getKlinesRange, normalizeSymbol } from "./market-service";
+import { marketStatsService } from "./market-stats-service";
+
+export type ExportFormat = "csv" | "jsonl";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "jsonl"];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  jsonl: "application/x-ndjson; charset=utf-8",
+};
+
+const CANDLE_COLUMNS = [
+  "time",
+  "date",
+  "open",
+  "high",
+  "low",
+  "close",
+  "volume",
+  "trades",
+];
+
+// The daily Fear & Greed reading in effect at each candle's open
+const SENTIMENT_COLUMNS = ["fear_greed", "fear_greed_label"];
+
+export interface MarketExportOptions {
+  interval: string;
+  startTime: number;
+  endTime: number;
+  indicators?: IndicatorSpec[];
+  offset?: number;
+  sentiment?: boolean;
+}
+
+export interface MarketExport {
+  symbol: string;
+  interval: string;
+  columns: string[];
+  rows: (number | string | null)[][];
+}
+
+/**
+ * Candles for a range with the requested indicator columns and, optionally,
+ * market sentiment. Indicators are warmed up on candles before the range, so
+ * the first rows have values too. Sentiment is empty before the index starts
+ * or while it can't be fetched.
+ */
+export async function buildMarketExport(
+  symbol: string,
+  options: MarketExportOptions
+): Promise<MarketExport> {
+  const {
+    interval,
+    startTime,
+    endTime,
+    indicators = [],
+    offset = 0,
+    sentiment = false,
+  } = options;
+
+  const rangeStart = alignOpenTime(startTime, interval, offset);
+  const warmupStart = shiftOpenTime(
+    rangeStart,
+    interval,
+    -getIndicatorLookback(indicators),
+    offset
+  );
+  const candles = await getKlinesRange(symbol, interval, warmupStart, endTime, {
+    offset,
+  });
+  const columns = computeIndicatorColumns(candles, indicators);
+  const readings = sentiment
+    ? ((await marketStatsService.getFearGreedHistory()) ?? [])
+    : [];
+
+  const rows: MarketExport["rows"] = [];
+  let reading = -1;
+  candles.forEach((candle, i) => {
+    if (candle.time < rangeStart) return;
+    while (
+      reading + 1 < readings.length &&
+      readings[reading + 1].time <= candle.time
+    ) {
+      reading++;
+    }
+    const fearGreed = readings[reading];
+    rows.push([
+      candle.time,
+      new Date(candle.time).toISOString(),
+      candle.open,
+      candle.high,
+      candle.low,
+      candle.close,
+      candle.volume,
+      candle.trades,
+      ...columns.map((column) => column.values[i]),
+      ...(sentiment
+        ? [fearGreed?.value ?? null, fearGreed?.classification ?? null]
+        : []),
+    ]);
+  });
+
+  return {
+    symbol: normalizeSymbol(symbol),
+    interval,
+    columns: [
+      ...CANDLE_COLUMNS,
+      ...columns.map((column) => column.name),
+      ...(sentiment ? SENTIMENT_COLUMNS : []),
+    ],
+    rows,
+  };
+}
+
+/**
+ * Serialize an export line by line, with a header row for CSV
+ */
+export function* formatMarketExport(
+  data: MarketExport,
+  format: ExportFormat
+): Generator<string> {
+  if (format === "csv") {
+    yield `${data.columns.join(",")}\n`;
+    for (const row of data.rows) {
+      yield `${row.map((value) => (value === null ? "" : value)).join(",")}\n`;
+    }
+    return;
+  }
+
+  for (const row of data.rows) {
+    const record: Record<string, number | string | null> = {
+      symbol: data.symbol,
+      interval: data.interval,
+    };
+    data.columns.forEach((column, i) => {
+      record[column] = row[i];
+    });
+    yield `${JSON.stringify(record)}\n`;
+  }
+}
+
+/**
+ * Download file name, e.g. BTCUSDT_1h_2024-01-01_2024-02-01.csv
+ */
+export function getExportFileName(
+  data: MarketExport,
+  format: ExportFormat
+): string {
+  const dates = [data.rows[0], data.rows[data.rows.length - 1]].map((row) =>
+    row ? String(row[1]).slice(0, 10) : "empty"
+  );
+  return `${data.symbol}_${data.interval}_${dates[0]}_${dates[1]}.${format}`;
+}
@@ -1,6 +1,17 @@
-import { binanceClient } from "./binance-service";
-import { ServiceError } from "../utils/errors";
+import { exchangeRegistry } from "./exchanges/exchange-registry";
+import { ExchangeTicker } from "./exchanges/types";
+import { ServiceError, ValidationError } from "../utils/errors";
 import { CacheManager } from "../utils/cache";
+import {
+  alignOpenTime,
+  getIntervalMs,
+  isSupportedInterval,
+  isValidInterval,
+  shiftOpenTime,
+} from "../utils/intervals";
+import { candleStore, TimeRange } from "./candle-store";
+import { getSourceIntervals, resampleCandles } from "./candle-resampler";
+import { symbolRegistry } from "./symbol-registry";
 import { MarketSummary, CandleStick, OrderBook } from "../types/market";
 
 // Initialize cache manager
@@ -11,17 +22,26 @@ const CACHE_TTL = {
   PRICE: 60, // 1 minute
   MARKET_SUMMARY: 300, // 5 minutes
   ORDER_BOOK: 30, // 30 seconds
-  KLINES: 300, // 5 minutes
 };
 
-// Validates and normalizes symbol format (e.g., BTC -> BTCUSDT)
+// Normalizes user input to an exchange pair (e.g., BTC -> BTCUSDT,
+// ETH-BTC -> ETHBTC, SOL/USDC -> SOLUSDC)
 function normalizeSymbol(symbol: string): string {
-  symbol = symbol.toUpperCase();
-  return symbol.endsWith("USDT") ? symbol : `${symbol}USDT`;
+  return symbolRegistry.parseSymbol(symbol).pair;
+}
+
+async function getTicker(symbol: string): Promise<ExchangeTicker> {
+  const pair = normalizeSymbol(symbol);
+  const { data } = await exchangeRegistry.getTickers({ symbols: [pair] });
+  const ticker = data.find((t) => t.pair === pair);
+  if (!ticker) {
+    throw new Error(`No ticker available for ${pair}`);
+  }
+  return ticker;
 }
 
 async function getPrice(symbol: string): Promise<number> {
-  const cacheKey = `price_${symbol}`;
+  const cacheKey = `price_${normalizeSymbol(symbol)}`;
   try {
     // Try cache first
     const cached = await cache.get(cacheKey);
@@ -29,9 +49,8 @@ async function getPrice(symbol: string): Promise<number> {
       return JSON.parse(cached);
     }
 
-    // Fetch fresh price from Binance
-    const ticker = await binanceClient.get24hrTicker(normalizeSymbol(symbol));
-    const price = parseFloat(ticker[0].price);
+    // Fetch fresh price from the best available exchange
+    const { price } = await getTicker(symbol);
 
     // Cache the result
     await cache.set(cacheKey, JSON.stringify(price), CACHE_TTL.PRICE);
@@ -46,7 +65,7 @@ async function getPrice(symbol: string): Promise<number> {
   }
 }
 async function getMarketSummary(symbol: string): Promise<MarketSummary> {
-  const cacheKey = `market_summary_${symbol}`;
+  const cacheKey = `market_summary_${normalizeSymbol(symbol)}`;
   try {
     // Try cache first
     const cached = await cache.get(cacheKey);
@@ -54,22 +73,18 @@ async function getMarketSummary(symbol: string): Promise<MarketSummary> {
       return JSON.parse(cached);
     }
 
-    // Fetch fresh data from Binance
-    const normalizedSymbol = normalizeSymbol(symbol);
-    const [ticker24h, price] = await Promise.all([
-      binanceClient.get24hrTicker(normalizedSymbol),
-      getPrice(symbol),
-    ]);
+    // Fetch fresh data from the best available exchange
+    const ticker = await getTicker(symbol);
 
     const marketSummary: MarketSummary = {
       symbol,
-      price,
-      marketCap: parseFloat(ticker24h[0].quoteAssetVolume.toString()),
-      volume24h: parseFloat(ticker24h[0].volume),
-      high24h: parseFloat(String(ticker24h[0].highPrice)),
-      low24h: parseFloat(String(ticker24h[0].lowPrice)),
-      priceChange24h: parseFloat(String(ticker24h[0].priceChange)),
-      priceChangePercent24h: parseFloat(ticker24h[0].priceChangePercent),
+      price: ticker.price,
+      marketCap: ticker.marketCap,
+      volume24h: ticker.volume24h,
+      high24h: ticker.high24h,
+      low24h: ticker.low24h,
+      priceChange24h: ticker.priceChange24h,
+      priceChangePercent24h: ticker.priceChangePercent24h,
       lastUpdated: new Date().toISOString(),
     };
 
@@ -90,43 +105,280 @@ async function getMarketSummary(symbol: string): Promise<MarketSummary> {
   }
 }
 
+// Largest page any adapter returns for a single klines request
+const KLINES_PAGE_LIMIT = 1000;
+
+// Fetches a missing range page by page and records it in the candle store.
+// The candle that is still open is stored but never marked as covered, so it
+// is refreshed on every request. Candles from a partial venue, used while the
+// full ones are down, are served but not marked either; a later request
+// fetches the range again and replaces them.
+async function backfillRange(
+  symbol: string,
+  interval: string,
+  range: TimeRange
+): Promise<void> {
+  const lastClosedOpenTime = shiftOpenTime(
+    alignOpenTime(Date.now(), interval),
+    interval,
+    -1
+  );
+  let cursor = range.startTime;
+
+  while (cursor <= range.endTime) {
+    const { data: candles, partial } = await exchangeRegistry.getKlines(
+      symbol,
+      {
+        interval,
+        startTime: cursor,
+        endTime: range.endTime,
+        limit: KLINES_PAGE_LIMIT,
+      }
+    );
+    if (partial) {
+      await candleStore.saveCandles(symbol, interval, candles);
+      break;
+    }
+
+    const isLastPage = candles.length < KLINES_PAGE_LIMIT;
+    const pageEnd = isLastPage
+      ? range.endTime
+      : candles[candles.length - 1].time;
+
+    await candleStore.saveCandles(symbol, interval, candles, {
+      startTime: cursor,
+      endTime: Math.min(pageEnd, lastClosedOpenTime),
+    });
+
+    if (isLastPage) break;
+    cursor = shiftOpenTime(pageEnd, interval, 1);
+  }
+}
+
+// Resampling reads at most this many source candles per request
+const MAX_SOURCE_CANDLES = 20000;
+
+export interface KlineOptions {
+  // Session open offset in milliseconds, e.g. -4h for 20:00 UTC days
+  offset?: number;
+}
+
+// Counts candles in a range that the store has not fetched yet
+async function countMissingCandles(
+  symbol: string,
+  interval: string,
+  startTime: number,
+  endTime: number
+): Promise<number> {
+  const ranges = await candleStore.getMissingRanges(
+    symbol,
+    interval,
+    startTime,
+    endTime
+  );
+  const step = getIntervalMs(interval);
+  return ranges.reduce(
+    (count, range) => count + (range.endTime - range.startTime) / step + 1,
+    0
+  );
+}
+
+// Picks the interval to read from the store: a finer native interval that
+// is (almost) fully stored already, the requested interval when the
+// exchanges serve it, or otherwise the coarsest interval it can be built from.
+async function selectSourceInterval(
+  symbol: string,
+  interval: string,
+  offset: number,
+  startTime: number,
+  endTime: number
+): Promise<string> {
+  const candidates = getSourceIntervals(interval, offset).filter(
+    (source) =>
+      (endTime - startTime) / getIntervalMs(source) <= MAX_SOURCE_CANDLES
+  );
+
+  for (const source of candidates) {
+    if (source === interval) {
+      return source;
+    }
+
+    const missing = await countMissingCandles(
+      symbol,
+      source,
+      alignOpenTime(startTime, source),
+      alignOpenTime(endTime, source)
+    );
+    // A single upstream page is no more than fetching the interval directly
+    if (missing <= KLINES_PAGE_LIMIT) {
+      return source;
+    }
+  }
+
+  if (isSupportedInterval(interval) && offset === 0) {
+    return interval;
+  }
+  if (!candidates.length) {
+    throw new ValidationError("Too many candles requested for interval", {
+      interval,
+    });
+  }
+  return candidates[candidates.length - 1];
+}
+
+// Makes sure the store holds every candle of a native interval in a range
+async function fillCandles(
+  symbol: string,
+  interval: string,
+  startTime: number,
+  endTime: number
+): Promise<CandleStick[]> {
+  // Only ask the exchanges for what the store doesn't already have
+  const missingRanges = await candleStore.getMissingRanges(
+    symbol,
+    interval,
+    startTime,
+    endTime
+  );
+  for (const range of missingRanges) {
+    await backfillRange(symbol, interval, range);
+  }
+
+  return candleStore.getCandles(symbol, interval, startTime, endTime);
+}
+
+// Loads the candles with open times between two aligned open times, from
+// the store where possible
+async function loadCandles(
+  symbol: string,
+  interval: string,
+  startTime: number,
+  endTime: number,
+  offset: number
+): Promise<CandleStick[]> {
+  // Source candles run up to the close of the last requested candle
+  const sourceEndTime = Math.min(
+    shiftOpenTime(endTime, interval, 1, offset) - 1,
+    Date.now()
+  );
+  const source = await selectSourceInterval(
+    symbol,
+    interval,
+    offset,
+    startTime,
+    sourceEndTime
+  );
+  if (source === interval && offset === 0) {
+    return fillCandles(symbol, interval, startTime, endTime);
+  }
+
+  // Build the requested timeframe from the finer stored candles
+  const candles = await fillCandles(
+    symbol,
+    source,
+    startTime,
+    alignOpenTime(sourceEndTime, source)
+  );
+  return resampleCandles(candles, interval, offset).filter(
+    (candle) => candle.time <= endTime
+  );
+}
+
 async function getKlines(
   symbol: string,
   interval: string,
-  limit: number
+  limit: number,
+  options: KlineOptions = {}
 ): Promise<CandleStick[]> {
-  const cacheKey = `klines_${symbol}_${interval}_${limit}`;
+  const { offset = 0 } = options;
+  if (!isValidInterval(interval)) {
+    throw new ValidationError("Unsupported kline interval", { interval });
+  }
+
+  const normalizedSymbol = normalizeSymbol(symbol);
   try {
-    // Try cache first
-    const cached = await cache.get(cacheKey);
-    if (cached) {
-      return JSON.parse(cached);
+    const endTime = alignOpenTime(Date.now(), interval, offset);
+    const startTime = shiftOpenTime(endTime, interval, -(limit - 1), offset);
+
+    const candles = await loadCandles(
+      normalizedSymbol,
+      interval,
+      startTime,
+      endTime,
+      offset
+    );
+    return candles.slice(-limit);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
     }
+    console.error("Failed to fetch klines:", error);
+    throw new ServiceError("Failed to fetch candlestick data", {
+      symbol,
+      interval,
+      limit,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
 
-    // Fetch fresh data from Binance
-    const tickers = await binanceClient.get24hrTicker(normalizeSymbol(symbol));
+// Most candles a single range request may return
+const MAX_RANGE_CANDLES = 20000;
 
-    // Transform to CandleStick format
-    const candlesticks: CandleStick[] = tickers.map((ticker: any) => ({
-      time: Date.parse(ticker.openTime),
-      open: parseFloat(ticker.openPrice),
-      high: parseFloat(ticker.highPrice),
-      low: parseFloat(ticker.lowPrice),
-      close: parseFloat(ticker.lastPrice),
-      volume: parseFloat(ticker.volume),
-      trades: parseInt(ticker.count),
-    }));
+/**
+ * Get the candles that open between two timestamps (inclusive)
+ */
+async function getKlinesRange(
+  symbol: string,
+  interval: string,
+  startTime: number,
+  endTime: number,
+  options: KlineOptions = {}
+): Promise<CandleStick[]> {
+  const { offset = 0 } = options;
+  if (!isValidInterval(interval)) {
+    throw new ValidationError("Unsupported kline interval", { interval });
+  }
 
-    // Cache the result
-    await cache.set(cacheKey, JSON.stringify(candlesticks), CACHE_TTL.KLINES);
+  const rangeStart = alignOpenTime(startTime, interval, offset);
+  const rangeEnd = alignOpenTime(
+    Math.min(endTime, Date.now()),
+    interval,
+    offset
+  );
+  if (rangeStart > rangeEnd) {
+    throw new ValidationError("Start time must be before end time", {
+      startTime,
+      endTime,
+    });
+  }
+  if ((rangeEnd - rangeStart) / getIntervalMs(interval) >= MAX_RANGE_CANDLES) {
+    throw new ValidationError(
+      `Range exceeds ${MAX_RANGE_CANDLES} candles for interval`,
+      { interval, startTime, endTime }
+    );
+  }
 
-    return candlesticks;
+  const normalizedSymbol = normalizeSymbol(symbol);
+  try {
+    const candles = await loadCandles(
+      normalizedSymbol,
+      interval,
+      rangeStart,
+      rangeEnd,
+      offset
+    );
+    return candles.filter((candle) => candle.time >= rangeStart);
   } catch (error) {
-    console.error("Failed to fetch klines:", error);
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+    console.error("Failed to fetch klines range:", error);
     throw new ServiceError("Failed to fetch candlestick data", {
       symbol,
       interval,
-      limit,
+      startTime,
+      endTime,
       error: error instanceof Error ? error.message : "Unknown error",
     });
   }
@@ -141,26 +393,12 @@ async function getOrderBook(symbol: string, limit: number): Promise<OrderBook> {
       return JSON.parse(cached);
     }
 
-    // Fetch fresh data from Binance
-    const orderbook = await binanceClient.getDepth(
+    // Fetch fresh data from the best available exchange
+    const { data: orderBook } = await exchangeRegistry.getDepth(
       normalizeSymbol(symbol),
       limit
     );
-
-    // Transform to our OrderBook format
-    const formattedOrderBook: OrderBook = {
-      symbol,
-      bids: orderbook.bids.map((bid) => ({
-        price: parseFloat(bid[0]),
-        quantity: parseFloat(bid[1]),
-      })),
-      asks: orderbook.asks.map((ask) => ({
-        price: parseFloat(ask[0]),
-        quantity: parseFloat(ask[1]),
-      })),
-      lastUpdateId: orderbook.lastUpdateId,
-      timestamp: new Date().toISOString(),
-    };
+    const formattedOrderBook: OrderBook = { ...orderBook, symbol };
 
     // Cache the result
     await cache.set(
@@ -180,4 +418,12 @@ async function getOrderBook(symbol: string, limit: number): Promise<OrderBook> {
   }
 }
 
-export { getPrice, getMarketSummary, getKlines, getOrderBook, normalizeSymbol };
+export {
+  getTicker,
+  getPrice,
+  getMarketSummary,
+  getKlines,
+  getKlinesRange,
+  getOrderBook,
+  normalizeSymbol,
+};
@@ -0,0 +1,294 @@
+import { readFileSync, promises as fs } from "fs";
+import path from "path";
+import {
+  FearGreedReading,
+  GlobalMarketStats,
+  MarketStatsSnapshot,
+  MarketTrend,
+} from "../../shared/types/market-stats";
+import { fearGreedClient } from "../api-clients";
+import { CacheManager } from "../utils/cache";
+import { ServiceError } from "../utils/errors";
+import { exchangeRegistry } from "./exchanges/exchange-registry";
+import { symbolRegistry } from "./symbol-registry";
+
+// Cache TTL in seconds
+const CACHE_TTL = {
+  STATS: 120, // 2 minutes
+  FEAR_GREED: 3600, // Updated once a day upstream
+};
+
+// Number of coins the totals are computed from
+const UNIVERSE_SIZE = 100;
+
+// History keeps one snapshot per sample interval for a week
+const SAMPLE_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_HISTORY = (7 * 24 * 60 * 60 * 1000) / SAMPLE_INTERVAL_MS;
+
+// Moves smaller than this (in percent) count as a flat market
+const TREND_THRESHOLD = 1;
+
+export interface MarketStatsCoin {
+  symbol: string;
+  priceChangePercent24h: number;
+  volume24h: number;
+  marketCap: number | null; // Null when the circulating supply is unknown
+}
+
+/**
+ * Aggregate per-coin data into global market statistics. Coins without a
+ * known market cap still count towards volume and breadth.
+ */
+export function aggregateMarketStats(
+  coins: MarketStatsCoin[],
+  source: string
+): GlobalMarketStats {
+  const capped = coins.filter(
+    (coin): coin is MarketStatsCoin & { marketCap: number } =>
+      coin.marketCap !== null && coin.marketCap > 0
+  );
+
+  const totalMarketCap = capped.reduce((sum, coin) => sum + coin.marketCap, 0);
+  const totalVolume24h = coins.reduce((sum, coin) => sum + coin.volume24h, 0);
+
+  // Market cap 24h ago, derived from each coin's price change
+  const previousMarketCap = capped.reduce(
+    (sum, coin) =>
+      sum + coin.marketCap / (1 + coin.priceChangePercent24h / 100),
+    0
+  );
+
+  const dominanceOf = (marketCap: number) =>
+    totalMarketCap > 0 ? (marketCap / totalMarketCap) * 100 : 0;
+  const dominance = [...capped]
+    .sort((a, b) => b.marketCap - a.marketCap)
+    .slice(0, 5)
+    .map((coin) => ({
+      symbol: coin.symbol,
+      percent: dominanceOf(coin.marketCap),
+    }));
+  const capOf = (symbol: string) =>
+    capped.find((coin) => coin.symbol === symbol)?.marketCap ?? 0;
+
+  const advancers = coins.filter((coin) => coin.priceChangePercent24h > 0);
+  const decliners = coins.filter((coin) => coin.priceChangePercent24h < 0);
+
+  return {
+    totalMarketCap,
+    totalVolume24h,
+    marketCapChangePercent24h:
+      previousMarketCap > 0
+        ? ((totalMarketCap - previousMarketCap) / previousMarketCap) * 100
+        : 0,
+    btcDominance: dominanceOf(capOf("BTC")),
+    ethDominance: dominanceOf(capOf("ETH")),
+    dominance,
+    breadth: {
+      advancers: advancers.length,
+      decliners: decliners.length,
+      unchanged: coins.length - advancers.length - decliners.length,
+      advanceDeclineRatio: decliners.length
+        ? advancers.length / decliners.length
+        : null,
+    },
+    fearGreedIndex: null,
+    fearGreedLabel: null,
+    coinCount: coins.length,
+    source,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Classify the market from cap change and breadth: both have to agree for a
+ * bullish or bearish call.
+ */
+export function classifyMarketTrend(stats: GlobalMarketStats): MarketTrend {
+  const { marketCapChangePercent24h: change, breadth } = stats;
+
+  if (change >= TREND_THRESHOLD && breadth.advancers > breadth.decliners) {
+    return "bullish";
+  }
+  if (change <= -TREND_THRESHOLD && breadth.decliners > breadth.advancers) {
+    return "bearish";
+  }
+  return "neutral";
+}
+
+/**
+ * Computes global market statistics from live per-coin data and keeps a
+ * history of snapshots, persisted as JSON when a file is configured.
+ */
+export class MarketStatsService {
+  private cache = new CacheManager();
+  private history: MarketStatsSnapshot[] = [];
+  private sampler: NodeJS.Timeout | null = null;
+
+  constructor(private readonly filePath: string | null) {
+    this.load();
+  }
+
+  async getGlobalStats(): Promise<GlobalMarketStats> {
+    const cacheKey = "global_stats";
+    const cached = await this.cache.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    try {
+      const [{ data: tickers, source }, fearGreed] = await Promise.all([
+        exchangeRegistry.getTickers({ limit: UNIVERSE_SIZE }),
+        this.getFearGreed(),
+      ]);
+
+      // Market caps come from circulating supply, not exchange estimates
+      const stats = aggregateMarketStats(
+        tickers.map((ticker) => ({
+          symbol: ticker.symbol,
+          priceChangePercent24h: ticker.priceChangePercent24h,
+          volume24h: ticker.volume24h,
+          marketCap:
+            symbolRegistry.getMarketCap(ticker.symbol, ticker.price) ?? null,
+        })),
+        source
+      );
+      stats.fearGreedIndex = fearGreed?.value ?? null;
+      stats.fearGreedLabel = fearGreed?.classification ?? null;
+
+      this.record(stats);
+      await this.cache.set(cacheKey, JSON.stringify(stats), CACHE_TTL.STATS);
+      return stats;
+    } catch (error) {
+      console.error("Failed to compute market stats:", error);
+      throw new ServiceError("Failed to compute market stats", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  /**
+   * Snapshots recorded over the last `hours` hours, oldest first
+   */
+  getHistory(hours: number = 24): MarketStatsSnapshot[] {
+    const since = Date.now() - hours * 60 * 60 * 1000;
+    return this.history.filter(
+      (snapshot) => Date.parse(snapshot.timestamp) >= since
+    );
+  }
+
+  /**
+   * Refresh the stats periodically so the history has no gaps
+   */
+  startSampling(): void {
+    if (this.sampler) return;
+
+    this.sampler = setInterval(() => {
+      this.getGlobalStats().catch(() => {
+        // Already logged, the next sample will retry
+      });
+    }, SAMPLE_INTERVAL_MS);
+    this.sampler.unref();
+  }
+
+  stopSampling(): void {
+    if (this.sampler) {
+      clearInterval(this.sampler);
+      this.sampler = null;
+    }
+  }
+
+  /**
+   * Daily Fear & Greed readings, oldest first. Null when the index is
+   * unavailable; like the stats, callers carry on without it.
+   */
+  async getFearGreedHistory(): Promise<FearGreedReading[] | null> {
+    const cacheKey = "fear_greed_history";
+    const cached = await this.cache.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    try {
+      const history = await fearGreedClient.getHistory();
+      await this.cache.set(
+        cacheKey,
+        JSON.stringify(history),
+        CACHE_TTL.FEAR_GREED
+      );
+      return history;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private async getFearGreed() {
+    const cacheKey = "fear_greed";
+    const cached = await this.cache.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    try {
+      const index = await fearGreedClient.getIndex();
+      await this.cache.set(
+        cacheKey,
+        JSON.stringify(index),
+        CACHE_TTL.FEAR_GREED
+      );
+      return index;
+    } catch (error) {
+      // The index is optional, stats are still useful without it
+      return null;
+    }
+  }
+
+  private record(stats: GlobalMarketStats): void {
+    const last = this.history[this.history.length - 1];
+    const now = Date.parse(stats.timestamp);
+    if (last && now - Date.parse(last.timestamp) < SAMPLE_INTERVAL_MS / 2) {
+      return;
+    }
+
+    this.history.push({
+      timestamp: stats.timestamp,
+      totalMarketCap: stats.totalMarketCap,
+      totalVolume24h: stats.totalVolume24h,
+      btcDominance: stats.btcDominance,
+      advancers: stats.breadth.advancers,
+      decliners: stats.breadth.decliners,
+    });
+    if (this.history.length > MAX_HISTORY) {
+      this.history.splice(0, this.history.length - MAX_HISTORY);
+    }
+
+    this.persist();
+  }
+
+  private load(): void {
+    if (!this.filePath) return;
+
+    try {
+      this.history = JSON.parse(readFileSync(this.filePath, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error("Failed to load market stats history:", error);
+      }
+    }
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.filePath) return;
+
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, JSON.stringify(this.history));
+    } catch (error) {
+      console.error("Failed to persist market stats history:", error);
+    }
+  }
+}
+
+export const marketStatsService = new MarketStatsService(
+  process.env.MARKET_STATS_FILE ||
+    path.resolve(process.cwd(), "data/market-stats.json")
+);
@@ -0,0 +1,193 @@
+import {
+  MarketStreamChannel,
+  MarketStreamEvent,
+} from "../../shared/types/market-stream";
+import { candleStore } from "./candle-store";
+import { normalizeSymbol } from "./market-service";
+import {
+  BinanceStreamFeed,
+  FakeStreamFeed,
+  StreamFeed,
+} from "./stream-feeds";
+
+type StreamListener = (event: MarketStreamEvent) => void;
+
+/**
+ * Build the Binance stream name for a symbol/channel, e.g. "btcusdt@kline_1h"
+ */
+export function buildStreamName(
+  symbol: string,
+  channel: MarketStreamChannel,
+  interval?: string
+): string {
+  const pair = normalizeSymbol(symbol).toLowerCase();
+  return channel === "kline"
+    ? `${pair}@kline_${interval}`
+    : `${pair}@${channel}`;
+}
+
+/**
+ * Convert a raw Binance stream payload into a MarketStreamEvent
+ */
+export function parseStreamPayload(payload: any): MarketStreamEvent | null {
+  switch (payload?.e) {
+    case "24hrTicker":
+      return {
+        type: "ticker",
+        symbol: payload.s,
+        price: parseFloat(payload.c),
+        priceChange24h: parseFloat(payload.p),
+        priceChangePercent24h: parseFloat(payload.P),
+        high24h: parseFloat(payload.h),
+        low24h: parseFloat(payload.l),
+        volume24h: parseFloat(payload.v),
+        quoteVolume24h: parseFloat(payload.q),
+        eventTime: payload.E,
+      };
+    case "trade":
+      return {
+        type: "trade",
+        symbol: payload.s,
+        tradeId: payload.t,
+        price: parseFloat(payload.p),
+        quantity: parseFloat(payload.q),
+        time: payload.T,
+        isBuyerMaker: payload.m,
+      };
+    case "kline":
+      return {
+        type: "kline",
+        symbol: payload.s,
+        interval: payload.k.i,
+        candle: {
+          time: payload.k.t,
+          open: parseFloat(payload.k.o),
+          high: parseFloat(payload.k.h),
+          low: parseFloat(payload.k.l),
+          close: parseFloat(payload.k.c),
+          volume: parseFloat(payload.k.v),
+          trades: payload.k.n,
+        },
+        isClosed: payload.k.x,
+        eventTime: payload.E,
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Fans out a single upstream market feed to any number of listeners.
+ *
+ * Upstream subscriptions are reference counted: a stream is subscribed when
+ * its first listener arrives and dropped when the last one leaves. Closed
+ * klines are written to the candle store so charts can be served locally.
+ */
+export class MarketStreamHub {
+  private listeners = new Map<string, Set<StreamListener>>();
+  private feed: StreamFeed | null = null;
+
+  constructor(
+    private readonly createFeed: () => StreamFeed,
+    private readonly persistCandles: boolean = true
+  ) {}
+
+  /**
+   * Subscribe a listener to streams, returns an unsubscribe function
+   */
+  subscribe(streams: string[], listener: StreamListener): () => void {
+    const added: string[] = [];
+
+    for (const stream of streams) {
+      let streamListeners = this.listeners.get(stream);
+      if (!streamListeners) {
+        streamListeners = new Set();
+        this.listeners.set(stream, streamListeners);
+        added.push(stream);
+      }
+      streamListeners.add(listener);
+    }
+
+    if (added.length) {
+      this.getFeed().subscribe(added);
+    }
+
+    return () => this.unsubscribe(streams, listener);
+  }
+
+  /**
+   * Get the number of upstream streams and attached listeners
+   */
+  getStats(): { streams: number; listeners: number } {
+    const listeners = new Set<StreamListener>();
+    this.listeners.forEach((set) => set.forEach((l) => listeners.add(l)));
+    return { streams: this.listeners.size, listeners: listeners.size };
+  }
+
+  private unsubscribe(streams: string[], listener: StreamListener): void {
+    const removed: string[] = [];
+
+    for (const stream of streams) {
+      const streamListeners = this.listeners.get(stream);
+      if (!streamListeners) continue;
+
+      streamListeners.delete(listener);
+      if (streamListeners.size === 0) {
+        this.listeners.delete(stream);
+        removed.push(stream);
+      }
+    }
+
+    if (removed.length && this.feed) {
+      this.feed.unsubscribe(removed);
+    }
+
+    // Drop the upstream connection entirely when nobody is listening
+    if (this.listeners.size === 0 && this.feed) {
+      this.feed.close();
+      this.feed = null;
+    }
+  }
+
+  private getFeed(): StreamFeed {
+    if (!this.feed) {
+      this.feed = this.createFeed();
+      this.feed.onMessage((stream, payload) =>
+        this.handleMessage(stream, payload)
+      );
+    }
+    return this.feed;
+  }
+
+  private handleMessage(stream: string, payload: any): void {
+    const event = parseStreamPayload(payload);
+    if (!event) return;
+
+    if (this.persistCandles && event.type === "kline" && event.isClosed) {
+      candleStore
+        .saveCandles(event.symbol, event.interval, [event.candle], {
+          startTime: event.candle.time,
+          endTime: event.candle.time,
+        })
+        .catch((error) =>
+          console.error("Failed to store streamed candle:", error)
+        );
+    }
+
+    this.listeners.get(stream)?.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("Market stream listener failed:", error);
+      }
+    });
+  }
+}
+
+const useFakeFeed = process.env.MARKET_STREAM_SOURCE === "fake";
+
+// Candles from the fake feed must never end up in the persistent store
+export const marketStreamHub = new MarketStreamHub(
+  () => (useFakeFeed ? new FakeStreamFeed() : new BinanceStreamFeed()),
+  !useFakeFeed
+);
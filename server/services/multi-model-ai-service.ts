@@ -1,6 +1,14 @@
 import { callGeminiAPI } from "./gemini-service";
 import { analyzeSentiment } from "./huggingface-service";
 import env from "../config/env";
+import { getKlines } from "./market-service";
+import {
+  describeCandlePatterns,
+  detectCandlePatterns,
+  summarizeCandlePatterns,
+} from "./candle-patterns";
+import { CandlePatternSummary, DivergenceAlert } from "../types/market";
+import { describeStrategySignals } from "../../shared/types/strategy";
 
 interface ModelResponse {
   source: string;
@@ -26,6 +34,11 @@ const HF_MODELS = {
   NEWS_CLASSIFICATION: "cardiffnlp/twitter-roberta-base-sentiment-latest",
 } as const;
 
+// Candles scanned for candlestick patterns in technical analysis
+const PATTERN_INTERVAL = "1h";
+const PATTERN_CANDLES = 100;
+const MIN_PATTERN_STRENGTH = 0.5;
+
 class MultiModelAIService {
   private readonly apiKey: string;
   private readonly baseUrl = "https://api-inference.huggingface.co/models";
@@ -247,7 +260,7 @@ class MultiModelAIService {
           : "",
         context.stats
           ? `Market cap is ${
-              context.stats.totalMarketCap > context.stats.previousMarketCap
+              context.stats.marketCapChangePercent24h > 0
                 ? "growing"
                 : "declining"
             }`
@@ -376,6 +389,8 @@ class MultiModelAIService {
       return isNaN(n) ? "N/A" : n.toFixed(2);
     };
 
+    const patterns = await this.getCandlePatternSummary(technicalData);
+
     const technicalSummary = `
     Price: $${formatNumber(technicalData.price)}
     24h Change: ${formatNumber(
@@ -383,6 +398,21 @@ class MultiModelAIService {
     )}%
     Volume: $${formatNumber(technicalData.volume24h)}
     Market Cap: $${formatNumber(technicalData.marketCap)}
+    Candlestick Patterns (${PATTERN_INTERVAL}): ${
+      patterns ? describeCandlePatterns(patterns) : "N/A"
+    }
+    Divergence Alerts: ${
+      context.divergenceAlerts?.length
+        ? context.divergenceAlerts
+            .map((alert: DivergenceAlert) => alert.message)
+            .join("; ")
+        : "None"
+    }
+    Strategy Signals: ${
+      context.strategySignals
+        ? describeStrategySignals(context.strategySignals)
+        : "None"
+    }
     
     Query: ${query}
     `;
@@ -399,9 +429,11 @@ class MultiModelAIService {
         data: {
           analysis: technicalResponse,
           technicalData,
+          candlePatterns: patterns,
           type: "technical_analysis",
           strengths: [
             "price_patterns",
+            "candlestick_patterns",
             "volume_analysis",
             "trend_identification",
           ],
@@ -411,12 +443,35 @@ class MultiModelAIService {
     } catch (error) {
       return this.getRuleBasedTechnicalAnalysis(
         technicalData,
-        query,
+        patterns,
         startTime
       );
     }
   }
 
+  /**
+   * Candlestick patterns on the coin's recent candles, null when candles
+   * can't be loaded
+   */
+  private async getCandlePatternSummary(
+    coin: any
+  ): Promise<CandlePatternSummary | null> {
+    try {
+      const candles = await getKlines(
+        coin.pair || coin.symbol,
+        PATTERN_INTERVAL,
+        PATTERN_CANDLES
+      );
+      const patterns = detectCandlePatterns(candles, {
+        minStrength: MIN_PATTERN_STRENGTH,
+      });
+      return summarizeCandlePatterns(patterns, candles.length);
+    } catch (error) {
+      console.warn("Candle patterns unavailable for technical analysis:", error);
+      return null;
+    }
+  }
+
   /**
    * Synthesize all model responses into a coherent final response
    */
@@ -628,10 +683,10 @@ class MultiModelAIService {
 
   private getRuleBasedTechnicalAnalysis(
     data: any,
-    query: string,
+    patterns: CandlePatternSummary | null,
     startTime: number
   ): ModelResponse {
-    const priceChange = data.priceChange24h || 0;
+    const priceChange = data.priceChangePercent24h ?? data.priceChange24h ?? 0;
     const volume = data.volume24h || 0;
 
     let analysis = `Technical Analysis for ${data.name || "Asset"}:\n`;
@@ -654,13 +709,25 @@ class MultiModelAIService {
       analysis += "- Normal trading volume\n";
     }
 
+    // Patterns that agree with the momentum make the read more reliable
+    let confidence = 0.6;
+    if (patterns?.recent.length) {
+      analysis += `- Candlestick patterns: ${describeCandlePatterns(patterns)}\n`;
+      const momentum =
+        priceChange > 2 ? "bullish" : priceChange < -2 ? "bearish" : "neutral";
+      if (patterns.bias !== "neutral" && momentum !== "neutral") {
+        confidence = patterns.bias === momentum ? 0.7 : 0.55;
+      }
+    }
+
     return {
       source: "Rule-Based-Technical",
-      confidence: 0.6,
+      confidence,
       data: {
         analysis,
         type: "rule_based_technical",
-        metrics: { priceChange, volume },
+        metrics: { priceChange, volume, patternScore: patterns?.score ?? null },
+        candlePatterns: patterns,
       },
       processingTime: Date.now() - startTime,
     };
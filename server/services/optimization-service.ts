@@ -0,0 +1,514 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import {
+  MAX_OPTIMIZATION_COMBINATIONS,
+  type OptimizationObjective,
+  type OptimizationRequest,
+  type StrategyDefinition,
+  type StrategyParameter,
+} from "../../shared/schema";
+import {
+  BacktestMetrics,
+  BacktestSettings,
+  DEFAULT_BACKTEST_SETTINGS,
+} from "../../shared/types/backtest";
+import type {
+  OptimizationHeatmap,
+  OptimizationResult,
+  OptimizationRun,
+  OptimizationWindow,
+  ParameterValues,
+  WalkForwardSummary,
+  WalkForwardWindow,
+} from "../../shared/types/optimization";
+import { CandleStick } from "../types/market";
+import { ValidationError } from "../utils/errors";
+import { isValidInterval } from "../utils/intervals";
+import { mulberry32 } from "../utils/random";
+import { runInWorkerPool, getPoolSize } from "../utils/worker-pool";
+import { MAX_BACKTEST_CANDLES, loadStoredCandles } from "./backtest-service";
+import { normalizeSymbol } from "./market-service";
+import type {
+  OptimizationTask,
+  OptimizationWorkerData,
+} from "./optimization-worker";
+import { validateStrategyDefinition } from "./strategy-service";
+
+// Values a stepped parameter may expand to
+const MAX_PARAMETER_VALUES = 50;
+
+// Fewest candles in a walk-forward window
+const MIN_WINDOW_CANDLES = 50;
+
+const DEFAULT_OBJECTIVE: OptimizationObjective = "sharpe";
+const DEFAULT_MIN_TRADES = 1;
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+// The worker runs from source under tsx and as JavaScript once built
+const WORKER_SCRIPT = new URL(
+  `./optimization-worker${path.extname(fileURLToPath(import.meta.url))}`,
+  import.meta.url
+);
+
+interface Range {
+  from: number;
+  to: number; // Exclusive
+}
+
+/**
+ * The values a parameter takes, from its list or stepped from min to max
+ */
+export function getParameterValues(parameter: StrategyParameter): number[] {
+  if (parameter.values) {
+    return Array.from(new Set(parameter.values)).sort((a, b) => a - b);
+  }
+  const { min, max, step } = parameter as Required<StrategyParameter>;
+  const count = Math.floor((max - min) / step + 1e-9) + 1;
+  if (count > MAX_PARAMETER_VALUES) {
+    throw new ValidationError(
+      `Parameter ${parameter.name} steps to more than ${MAX_PARAMETER_VALUES} values`,
+      { parameter: parameter.name, values: count }
+    );
+  }
+  // Rounded so steps like 0.1 don't drift
+  return Array.from(
+    { length: count },
+    (_, i) => Math.round((min + i * step) * 1e8) / 1e8
+  );
+}
+
+/**
+ * The combination at `index` of the grid, first parameter slowest. The grid
+ * itself is never built; it can run to millions of combinations.
+ */
+function decodeCombination(
+  names: string[],
+  values: number[][],
+  index: number
+): ParameterValues {
+  const picked = new Array<number>(values.length);
+  for (let i = values.length - 1; i >= 0; i--) {
+    picked[i] = values[i][index % values[i].length];
+    index = Math.floor(index / values[i].length);
+  }
+  return Object.fromEntries(names.map((name, i) => [name, picked[i]]));
+}
+
+/**
+ * Indexes of `samples` distinct combinations out of `size`, by a partial
+ * Fisher-Yates shuffle that only tracks the swapped positions
+ */
+function sampleIndexes(size: number, samples: number, seed: number): number[] {
+  const random = mulberry32(seed);
+  const swapped = new Map<number, number>();
+  const count = Math.min(samples, size);
+  const indexes: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(random() * (size - i));
+    indexes.push(swapped.get(j) ?? j);
+    swapped.set(j, swapped.get(i) ?? i);
+  }
+  return indexes;
+}
+
+/**
+ * Fill "{{name}}" placeholders in a strategy template. A string that is only
+ * a placeholder becomes the number, others have it written into the text.
+ */
+export function applyParameters(
+  template: unknown,
+  parameters: ParameterValues
+): unknown {
+  if (typeof template === "string") {
+    const whole = template.match(/^\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}$/);
+    if (whole) return lookupParameter(parameters, whole[1]);
+    return template.replace(PLACEHOLDER, (_, name: string) =>
+      String(lookupParameter(parameters, name))
+    );
+  }
+  if (Array.isArray(template)) {
+    return template.map((item) => applyParameters(item, parameters));
+  }
+  if (template && typeof template === "object") {
+    return Object.fromEntries(
+      Object.entries(template).map(([key, value]) => [
+        key,
+        applyParameters(value, parameters),
+      ])
+    );
+  }
+  return template;
+}
+
+function lookupParameter(parameters: ParameterValues, name: string): number {
+  if (!(name in parameters)) {
+    throw new ValidationError(`Unknown strategy parameter "${name}"`, {
+      parameter: name,
+      parameters: Object.keys(parameters),
+    });
+  }
+  return parameters[name];
+}
+
+function findPlaceholders(template: unknown): Set<string> {
+  const names = new Set<string>();
+  for (const match of JSON.stringify(template).matchAll(PLACEHOLDER)) {
+    names.add(match[1]);
+  }
+  return names;
+}
+
+/**
+ * Split the candles into rolling walk-forward windows. Each in-sample block
+ * is followed by an out-of-sample block, and the next window starts one
+ * out-of-sample block later.
+ */
+export function getWalkForwardRanges(
+  candleCount: number,
+  windows: number,
+  inSamplePercent: number
+): { inSample: Range; outOfSample: Range }[] {
+  const ratio = inSamplePercent / (100 - inSamplePercent);
+  const outOfSampleLength = Math.floor(candleCount / (windows + ratio));
+  const inSampleLength = Math.floor(outOfSampleLength * ratio);
+  if (outOfSampleLength < MIN_WINDOW_CANDLES) {
+    throw new ValidationError(
+      `Walk-forward windows need at least ${MIN_WINDOW_CANDLES} out-of-sample candles; widen the range or use fewer windows`,
+      { candles: candleCount, windows, outOfSampleCandles: outOfSampleLength }
+    );
+  }
+
+  return Array.from({ length: windows }, (_, k) => {
+    const from = k * outOfSampleLength;
+    const split = from + inSampleLength;
+    return {
+      inSample: { from, to: split },
+      // The last window runs to the end of the range
+      outOfSample: {
+        from: split,
+        to: k === windows - 1 ? candleCount : split + outOfSampleLength,
+      },
+    };
+  });
+}
+
+function describeRange(
+  candles: CandleStick[],
+  range: Range
+): OptimizationWindow {
+  return {
+    startTime: candles[range.from].time,
+    endTime: candles[range.to - 1].time,
+    candles: range.to - range.from,
+  };
+}
+
+/**
+ * The objective for a run, null when it errored or traded too little
+ */
+function scoreRun(
+  metrics: BacktestMetrics | undefined,
+  objective: OptimizationObjective,
+  minTrades: number
+): number | null {
+  if (!metrics || metrics.trades < minTrades) return null;
+  return metrics[objective];
+}
+
+function meanOf(values: (number | null)[]): number | null {
+  const defined = values.filter((value): value is number => value !== null);
+  return defined.length
+    ? defined.reduce((sum, value) => sum + value, 0) / defined.length
+    : null;
+}
+
+// Best first, runs without a score last
+function compareScores(a: number | null, b: number | null): number {
+  if (a === null) return b === null ? 0 : 1;
+  if (b === null) return -1;
+  return b - a;
+}
+
+/**
+ * Best score for each pair of values of two parameters, over the values of
+ * the others
+ */
+function buildHeatmap(
+  runs: OptimizationRun[],
+  x: string,
+  y: string,
+  xValues: number[],
+  yValues: number[]
+): OptimizationHeatmap {
+  const cells: (number | null)[][] = yValues.map(() => xValues.map(() => null));
+  for (const run of runs) {
+    if (run.score === null) continue;
+    const column = xValues.indexOf(run.parameters[x]);
+    const row = yValues.indexOf(run.parameters[y]);
+    const current = cells[row][column];
+    if (current === null || run.score > current) {
+      cells[row][column] = run.score;
+    }
+  }
+  return { x, y, xValues, yValues, cells };
+}
+
+/**
+ * Grid and random searches over strategy parameters, with optional
+ * walk-forward validation, on stored candles. Backtests run in a pool of
+ * worker threads.
+ */
+export class OptimizationService {
+  async run(request: OptimizationRequest): Promise<OptimizationResult> {
+    const started = Date.now();
+    const objective = request.objective ?? DEFAULT_OBJECTIVE;
+    const minTrades = request.minTrades ?? DEFAULT_MIN_TRADES;
+    const search = request.search ?? "grid";
+
+    const names = request.parameters.map((parameter) => parameter.name);
+    if (new Set(names).size !== names.length) {
+      throw new ValidationError("Parameter names must be unique", { names });
+    }
+    const used = findPlaceholders(request.strategy);
+    const unused = names.filter((name) => !used.has(name));
+    if (unused.length) {
+      throw new ValidationError(
+        "Every parameter must appear in the strategy as {{name}}",
+        { unused }
+      );
+    }
+
+    const values = request.parameters.map(getParameterValues);
+    const gridSize = values.reduce((size, options) => size * options.length, 1);
+    if (search === "grid" && gridSize > MAX_OPTIMIZATION_COMBINATIONS) {
+      throw new ValidationError(
+        `Grid has ${gridSize} combinations, more than ${MAX_OPTIMIZATION_COMBINATIONS}; use random search or fewer values`,
+        { combinations: gridSize }
+      );
+    }
+    const indexes =
+      search === "random"
+        ? sampleIndexes(
+            gridSize,
+            request.samples ?? Math.min(gridSize, 100),
+            request.seed ?? Date.now()
+          )
+        : Array.from({ length: gridSize }, (_, i) => i);
+    const combinations = indexes.map((index) =>
+      decodeCombination(names, values, index)
+    );
+
+    // Fill in and validate every definition before starting any backtest
+    const definitions = combinations.map((parameters) => {
+      try {
+        return validateStrategyDefinition(
+          applyParameters(request.strategy, parameters)
+        );
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          throw new ValidationError(
+            `Strategy is invalid for ${JSON.stringify(parameters)}`,
+            { parameters, ...(error.details ?? {}) }
+          );
+        }
+        throw error;
+      }
+    });
+
+    const interval = request.interval ?? definitions[0].timeframe;
+    if (!isValidInterval(interval)) {
+      throw new ValidationError("Unsupported kline interval", { interval });
+    }
+    const symbol = normalizeSymbol(request.symbol);
+    const startTime = request.startTime ?? 0;
+    const endTime = request.endTime ?? Date.now();
+    if (startTime >= endTime) {
+      throw new ValidationError("Start time must be before end time", {
+        startTime,
+        endTime,
+      });
+    }
+
+    const { candles, source } = await loadStoredCandles(
+      symbol,
+      interval,
+      startTime,
+      endTime
+    );
+    if (candles.length > MAX_BACKTEST_CANDLES) {
+      throw new ValidationError(
+        `Optimization range exceeds ${MAX_BACKTEST_CANDLES} candles; narrow the start and end times`,
+        { candles: candles.length }
+      );
+    }
+
+    const settings: BacktestSettings = {
+      initialCapital:
+        request.initialCapital ?? DEFAULT_BACKTEST_SETTINGS.initialCapital,
+      feePercent: request.feePercent ?? DEFAULT_BACKTEST_SETTINGS.feePercent,
+      slippagePercent:
+        request.slippagePercent ?? DEFAULT_BACKTEST_SETTINGS.slippagePercent,
+    };
+    const workerData: OptimizationWorkerData = { candles, interval, settings };
+
+    const walkForward = request.walkForward;
+    const walkForwardRanges = walkForward
+      ? getWalkForwardRanges(
+          candles.length,
+          walkForward.windows,
+          walkForward.inSamplePercent
+        )
+      : null;
+    const inSampleRanges = walkForwardRanges?.map(
+      (range) => range.inSample
+    ) ?? [{ from: 0, to: candles.length }];
+
+    // Every combination on every in-sample window
+    const tasks: OptimizationTask[] = definitions.flatMap((definition) =>
+      inSampleRanges.map((range) => ({ definition, ...range }))
+    );
+    const workers = getPoolSize(tasks.length);
+    const replies = await runInWorkerPool<OptimizationTask, BacktestMetrics>(
+      WORKER_SCRIPT,
+      workerData,
+      tasks,
+      workers
+    );
+    // A problem shared by every run, such as too few candles, is an error
+    if (replies.every((reply) => reply.error)) {
+      throw new ValidationError(replies[0].error!, { symbol, interval });
+    }
+
+    const runs: OptimizationRun[] = combinations.map((parameters, i) => {
+      const windowMetrics = inSampleRanges.map(
+        (_, w) => replies[i * inSampleRanges.length + w].result
+      );
+      const windowScores = windowMetrics.map((metrics) =>
+        scoreRun(metrics, objective, minTrades)
+      );
+      return {
+        parameters,
+        score: meanOf(windowScores),
+        windowScores,
+        metrics: walkForward ? null : (windowMetrics[0] ?? null),
+      };
+    });
+
+    const heatmaps: OptimizationHeatmap[] = [];
+    for (let a = 0; a < names.length; a++) {
+      for (let b = a + 1; b < names.length; b++) {
+        heatmaps.push(
+          buildHeatmap(runs, names[a], names[b], values[a], values[b])
+        );
+      }
+    }
+
+    const summary =
+      walkForward && walkForwardRanges
+        ? await this.validateOutOfSample(
+            candles,
+            walkForwardRanges,
+            runs,
+            definitions,
+            workerData,
+            objective,
+            minTrades,
+            walkForward.inSamplePercent
+          )
+        : null;
+
+    const sorted = [...runs].sort((a, b) => compareScores(a.score, b.score));
+    return {
+      symbol,
+      interval,
+      source,
+      startTime: candles[0].time,
+      endTime: candles[candles.length - 1].time,
+      candles: candles.length,
+      objective,
+      search,
+      combinations: combinations.length,
+      gridSize,
+      settings,
+      best: sorted[0]?.score === null ? null : (sorted[0] ?? null),
+      runs: sorted,
+      heatmaps,
+      walkForward: summary,
+      workers,
+      durationMs: Date.now() - started,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Test the best in-sample parameters of each window on the candles after
+   * it, which the search never saw
+   */
+  private async validateOutOfSample(
+    candles: CandleStick[],
+    ranges: { inSample: Range; outOfSample: Range }[],
+    runs: OptimizationRun[],
+    definitions: StrategyDefinition[],
+    workerData: OptimizationWorkerData,
+    objective: OptimizationObjective,
+    minTrades: number,
+    inSamplePercent: number
+  ): Promise<WalkForwardSummary> {
+    // Index of the best run in each window
+    const winners = ranges.map((_, w) => {
+      let best: number | null = null;
+      for (let i = 0; i < runs.length; i++) {
+        const score = runs[i].windowScores[w];
+        if (score === null) continue;
+        if (best === null || score > runs[best].windowScores[w]!) best = i;
+      }
+      return best;
+    });
+
+    const tasks: OptimizationTask[] = [];
+    const taskIndexes = winners.map((winner, w) => {
+      if (winner === null) return null;
+      tasks.push({ definition: definitions[winner], ...ranges[w].outOfSample });
+      return tasks.length - 1;
+    });
+    const replies = await runInWorkerPool<OptimizationTask, BacktestMetrics>(
+      WORKER_SCRIPT,
+      workerData,
+      tasks
+    );
+
+    const windows: WalkForwardWindow[] = ranges.map((range, w) => {
+      const winner = winners[w];
+      const taskIndex = taskIndexes[w];
+      const metrics =
+        taskIndex === null ? null : (replies[taskIndex].result ?? null);
+      return {
+        inSample: describeRange(candles, range.inSample),
+        outOfSample: describeRange(candles, range.outOfSample),
+        parameters: winner === null ? null : runs[winner].parameters,
+        inSampleScore: winner === null ? null : runs[winner].windowScores[w],
+        outOfSampleScore: scoreRun(metrics ?? undefined, objective, minTrades),
+        outOfSampleMetrics: metrics,
+      };
+    });
+
+    // Windows without a winner stay in cash
+    const growth = windows.reduce(
+      (product, window) =>
+        product * (1 + (window.outOfSampleMetrics?.totalReturn ?? 0) / 100),
+      1
+    );
+    return {
+      inSamplePercent,
+      windows,
+      outOfSampleReturn: (growth - 1) * 100,
+      meanInSampleScore: meanOf(windows.map((window) => window.inSampleScore)),
+      meanOutOfSampleScore: meanOf(
+        windows.map((window) => window.outOfSampleScore)
+      ),
+    };
+  }
+}
+
+export const optimizationService = new OptimizationService();
@@ -0,0 +1,47 @@
+// Worker thread for parameter sweeps. Runs one backtest per task over the
+// candles it was started with.
+
+import { parentPort, workerData } from "worker_threads";
+import type { StrategyDefinition } from "../../shared/schema";
+import type {
+  BacktestMetrics,
+  BacktestSettings,
+} from "../../shared/types/backtest";
+import { CandleStick } from "../types/market";
+import type { WorkerReply, WorkerTask } from "../utils/worker-pool";
+import { runBacktest } from "./backtest-engine";
+
+export interface OptimizationWorkerData {
+  candles: CandleStick[];
+  interval: string;
+  settings: BacktestSettings;
+}
+
+export interface OptimizationTask {
+  definition: StrategyDefinition;
+  // Candles traded, as indexes; the ones before `from` warm up indicators
+  from: number;
+  to: number; // Exclusive
+}
+
+const { candles, interval, settings } = workerData as OptimizationWorkerData;
+
+parentPort?.on("message", ({ id, task }: WorkerTask<OptimizationTask>) => {
+  let reply: WorkerReply<BacktestMetrics>;
+  try {
+    const { metrics } = runBacktest(
+      candles.slice(0, task.to),
+      interval,
+      task.definition,
+      settings,
+      task.from
+    );
+    reply = { id, result: metrics };
+  } catch (error) {
+    reply = {
+      id,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+  parentPort!.postMessage(reply);
+});
@@ -0,0 +1,169 @@
+import {
+  DepthBand,
+  OrderBook,
+  OrderBookAnalytics,
+  OrderBookEntry,
+  OrderSide,
+  SlippageEstimate,
+} from "../types/market";
+import { ValidationError } from "../utils/errors";
+
+// Distances from the mid price reported in the depth breakdown
+export const DEFAULT_DEPTH_BANDS = [0.5, 1, 2];
+
+// Order sizes in the quote asset used for slippage estimates
+export const DEFAULT_SLIPPAGE_NOTIONALS = [1000, 10000, 100000];
+
+export interface OrderBookAnalyticsOptions {
+  depthBands?: number[];
+  notionals?: number[];
+  sides?: OrderSide[];
+}
+
+function sumNotional(levels: OrderBookEntry[]): number {
+  return levels.reduce((sum, level) => sum + level.price * level.quantity, 0);
+}
+
+function sumQuantity(levels: OrderBookEntry[]): number {
+  return levels.reduce((sum, level) => sum + level.quantity, 0);
+}
+
+function imbalance(bidNotional: number, askNotional: number): number {
+  const total = bidNotional + askNotional;
+  return total > 0 ? (bidNotional - askNotional) / total : 0;
+}
+
+/**
+ * Cumulative liquidity within ±percent of the mid price
+ */
+export function calculateDepthBand(
+  book: OrderBook,
+  midPrice: number,
+  percent: number
+): DepthBand {
+  const bids = book.bids.filter(
+    (level) => level.price >= midPrice * (1 - percent / 100)
+  );
+  const asks = book.asks.filter(
+    (level) => level.price <= midPrice * (1 + percent / 100)
+  );
+  const bidNotional = sumNotional(bids);
+  const askNotional = sumNotional(asks);
+
+  return {
+    percent,
+    bidQuantity: sumQuantity(bids),
+    bidNotional,
+    askQuantity: sumQuantity(asks),
+    askNotional,
+    imbalance: imbalance(bidNotional, askNotional),
+  };
+}
+
+/**
+ * Walk the book to fill a market order of the given quote notional. Buys
+ * consume asks from the lowest price up, sells consume bids from the highest
+ * price down.
+ */
+export function estimateSlippage(
+  book: OrderBook,
+  side: OrderSide,
+  notional: number,
+  midPrice: number
+): SlippageEstimate {
+  const levels = side === "buy" ? book.asks : book.bids;
+  let filledNotional = 0;
+  let filledQuantity = 0;
+  let worstPrice: number | null = null;
+  let levelsConsumed = 0;
+
+  for (const level of levels) {
+    if (filledNotional >= notional) break;
+
+    const remaining = notional - filledNotional;
+    const levelNotional = level.price * level.quantity;
+    const takeNotional = Math.min(remaining, levelNotional);
+
+    filledNotional += takeNotional;
+    filledQuantity += takeNotional / level.price;
+    worstPrice = level.price;
+    levelsConsumed++;
+  }
+
+  const bestPrice = levels[0]?.price;
+  const vwap = filledQuantity > 0 ? filledNotional / filledQuantity : null;
+  const direction = side === "buy" ? 1 : -1;
+
+  return {
+    side,
+    notional,
+    filledNotional,
+    filledQuantity,
+    vwap,
+    worstPrice,
+    // Positive values are always a cost to the trader
+    slippagePercent:
+      vwap !== null && bestPrice
+        ? ((vwap - bestPrice) / bestPrice) * 100 * direction
+        : null,
+    priceImpactPercent:
+      worstPrice !== null
+        ? ((worstPrice - midPrice) / midPrice) * 100 * direction
+        : null,
+    levelsConsumed,
+    // Allow for floating point drift when the book is consumed exactly
+    fullyFilled: filledNotional >= notional * (1 - 1e-9),
+  };
+}
+
+/**
+ * Spread, depth, imbalance and slippage statistics for an order book
+ */
+export function analyzeOrderBook(
+  book: OrderBook,
+  options: OrderBookAnalyticsOptions = {}
+): OrderBookAnalytics {
+  const {
+    depthBands = DEFAULT_DEPTH_BANDS,
+    notionals = DEFAULT_SLIPPAGE_NOTIONALS,
+    sides = ["buy", "sell"],
+  } = options;
+
+  // Exchanges return sorted books, but the analytics rely on it
+  const sorted: OrderBook = {
+    ...book,
+    bids: [...book.bids].sort((a, b) => b.price - a.price),
+    asks: [...book.asks].sort((a, b) => a.price - b.price),
+  };
+
+  const bestBid = sorted.bids[0]?.price;
+  const bestAsk = sorted.asks[0]?.price;
+  if (bestBid === undefined || bestAsk === undefined) {
+    throw new ValidationError("Order book has no bids or asks", {
+      symbol: book.symbol,
+    });
+  }
+
+  const midPrice = (bestBid + bestAsk) / 2;
+  const spread = bestAsk - bestBid;
+
+  return {
+    symbol: book.symbol,
+    bestBid,
+    bestAsk,
+    midPrice,
+    spread,
+    spreadPercent: (spread / midPrice) * 100,
+    depth: depthBands.map((percent) =>
+      calculateDepthBand(sorted, midPrice, percent)
+    ),
+    imbalance: imbalance(sumNotional(sorted.bids), sumNotional(sorted.asks)),
+    slippage: sides.flatMap((side) =>
+      notionals.map((notional) =>
+        estimateSlippage(sorted, side, notional, midPrice)
+      )
+    ),
+    levels: { bids: sorted.bids.length, asks: sorted.asks.length },
+    timestamp: book.timestamp,
+  };
+}
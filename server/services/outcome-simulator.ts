@@ -0,0 +1,220 @@
+// Monte Carlo outcomes of holding fixed allocations of coins. Paths are built
+// from the coins' daily log returns, either resampled a whole day at a time
+// (bootstrap) or drawn from a multivariate normal fitted to them (GBM), so
+// both keep the correlations between coins.
+
+import type {
+  OutcomeBand,
+  OutcomePercentiles,
+  OutcomeSimulation,
+  SimulationMethod,
+} from "../../shared/types/market-analysis";
+import { mulberry32 } from "../utils/random";
+
+const DEFAULT_PATHS = 2000;
+
+// Fixed so the same recommendations get the same numbers
+const DEFAULT_SEED = 1;
+
+// Fewer daily returns than this say too little about a coin's risk
+const MIN_HISTORY_DAYS = 30;
+
+export interface SimulatedHolding {
+  symbol: string;
+  value: number; // Allocated amount
+  closes: number[]; // Daily closes, oldest first
+}
+
+export interface SimulationInput {
+  amount: number; // Holdings plus unallocated cash, which is held flat
+  holdings: SimulatedHolding[];
+  days: number;
+  method?: SimulationMethod; // Bootstrap by default
+  paths?: number;
+  seed?: number;
+}
+
+function getLogReturns(closes: number[]): number[] {
+  return closes
+    .slice(1)
+    .map((close, i) => Math.log(close / closes[i]))
+    .filter(Number.isFinite);
+}
+
+// Linear interpolation between the closest ranks of sorted values
+function percentile(sorted: ArrayLike<number>, percent: number): number {
+  const rank = (percent / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Lower triangular L with L·Lᵀ = matrix. Pivots that rounding pushes below
+ * zero are treated as zero, for coins that move in lockstep.
+ */
+function cholesky(matrix: number[][]): number[][] {
+  const size = matrix.length;
+  const lower = matrix.map(() => new Array<number>(size).fill(0));
+
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+      if (i === j) {
+        lower[i][i] = Math.sqrt(Math.max(sum, 0));
+      } else {
+        lower[i][j] = lower[j][j] > 0 ? sum / lower[j][j] : 0;
+      }
+    }
+  }
+
+  return lower;
+}
+
+// Standard normal draws by the Box-Muller transform
+function createNormal(random: () => number): () => number {
+  return () => {
+    const u = 1 - random(); // Never 0, for the log
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  };
+}
+
+/**
+ * Daily log returns for every holding on one simulated day
+ */
+function createStepper(
+  returns: number[][],
+  method: SimulationMethod,
+  random: () => number
+): () => number[] {
+  const days = returns[0].length;
+
+  if (method === "bootstrap") {
+    return () => {
+      const day = Math.floor(random() * days);
+      return returns.map((series) => series[day]);
+    };
+  }
+
+  const means = returns.map(mean);
+  const covariance = returns.map((a, i) =>
+    returns.map(
+      (b, j) =>
+        a.reduce(
+          (sum, value, day) => sum + (value - means[i]) * (b[day] - means[j]),
+          0
+        ) /
+        (days - 1)
+    )
+  );
+  const lower = cholesky(covariance);
+  const normal = createNormal(random);
+
+  return () => {
+    const shocks = means.map(normal);
+    return means.map(
+      (drift, i) =>
+        drift + lower[i].reduce((sum, weight, j) => sum + weight * shocks[j], 0)
+    );
+  };
+}
+
+/**
+ * Simulate the portfolio value over the horizon. Null without holdings or
+ * when a holding has too little history.
+ */
+export function simulateOutcomes(
+  input: SimulationInput
+): OutcomeSimulation | null {
+  const {
+    amount,
+    holdings,
+    days,
+    method = "bootstrap",
+    paths = DEFAULT_PATHS,
+    seed = DEFAULT_SEED,
+  } = input;
+  if (!holdings.length || days < 1) return null;
+
+  const allReturns = holdings.map((holding) => getLogReturns(holding.closes));
+  const historyDays = Math.min(...allReturns.map((series) => series.length));
+  if (historyDays < MIN_HISTORY_DAYS) return null;
+
+  // The same calendar days for every coin, counted back from the latest
+  const returns = allReturns.map((series) => series.slice(-historyDays));
+  const cash =
+    amount - holdings.reduce((sum, holding) => sum + holding.value, 0);
+  const step = createStepper(returns, method, mulberry32(seed));
+
+  // values[day][path]
+  const values = Array.from(
+    { length: days + 1 },
+    () => new Float64Array(paths)
+  );
+  const drawdowns = new Float64Array(paths);
+
+  for (let path = 0; path < paths; path++) {
+    const growth = holdings.map(() => 0); // Cumulative log returns
+    let peak = amount;
+    let maxDrawdown = 0;
+    values[0][path] = amount;
+
+    for (let day = 1; day <= days; day++) {
+      const daily = step();
+      let value = cash;
+      holdings.forEach((holding, i) => {
+        growth[i] += daily[i];
+        value += holding.value * Math.exp(growth[i]);
+      });
+      values[day][path] = value;
+
+      peak = Math.max(peak, value);
+      maxDrawdown = Math.max(maxDrawdown, (1 - value / peak) * 100);
+    }
+    drawdowns[path] = maxDrawdown;
+  }
+
+  const bands: OutcomeBand[] = values.map((column, day) => {
+    const sorted = column.slice().sort();
+    return {
+      day,
+      p5: percentile(sorted, 5),
+      p25: percentile(sorted, 25),
+      p50: percentile(sorted, 50),
+      p75: percentile(sorted, 75),
+      p95: percentile(sorted, 95),
+    };
+  });
+  const final = bands[days];
+  const finalValue: OutcomePercentiles = {
+    p5: final.p5,
+    p50: final.p50,
+    p95: final.p95,
+  };
+  const toReturn = (value: number) => (value / amount - 1) * 100;
+  const losses = values[days].filter((value) => value < amount).length;
+  const sortedDrawdowns = drawdowns.slice().sort();
+
+  return {
+    method,
+    paths,
+    days,
+    historyDays,
+    startValue: amount,
+    finalValue,
+    finalReturn: {
+      p5: toReturn(finalValue.p5),
+      p50: toReturn(finalValue.p50),
+      p95: toReturn(finalValue.p95),
+    },
+    probabilityOfLoss: (losses / paths) * 100,
+    expectedMaxDrawdown: mean(Array.from(drawdowns)),
+    maxDrawdownP95: percentile(sortedDrawdowns, 95),
+    bands,
+  };
+}
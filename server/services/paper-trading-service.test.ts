@@ -0,0 +1,59 @@
+import { test, mock } from "node:test";
+import assert from "node:assert/strict";
+import { paperTradingService } from "./paper-trading-service";
+import { storage } from "../storage";
+import type { OrderBook } from "../types/market";
+
+function bookAt(askPrice: number): OrderBook {
+  return {
+    symbol: "BTCUSDT",
+    bids: [{ price: askPrice - 1, quantity: 100 }],
+    asks: [{ price: askPrice, quantity: 100 }],
+    lastUpdateId: 1,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+test("concurrent reads fill an open limit order once", async () => {
+  const account = await paperTradingService.createAccount({
+    name: "Concurrent fills",
+    initialBalance: 10000,
+    feePercent: 0,
+  });
+
+  const loadBook = mock.method(
+    paperTradingService as any,
+    "loadBook",
+    async () => ({ book: bookAt(110), source: "live" })
+  );
+  const order = await paperTradingService.placeOrder(account, {
+    symbol: "BTCUSDT",
+    side: "buy",
+    type: "limit",
+    quantity: 10,
+    limitPrice: 100,
+  });
+  assert.equal(order.status, "open");
+
+  // Slow books let both reads reach the fill before either books it
+  loadBook.mock.mockImplementation(async () => {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    return { book: bookAt(100), source: "live" };
+  });
+  await Promise.all([
+    paperTradingService.getSummary(account),
+    paperTradingService.processOpenOrders(account.id),
+  ]);
+  loadBook.mock.restore();
+
+  const orders = await storage.getPaperOrders(account.id);
+  assert.deepEqual(
+    orders.map((o) => o.status),
+    ["filled"]
+  );
+  const positions = await storage.getPaperPositions(account.id);
+  assert.equal(positions.length, 1);
+  assert.equal(Number(positions[0].quantity), 10);
+  const current = await storage.getPaperAccount(account.id);
+  assert.equal(Number(current?.cashBalance), 9000);
+});
@@ -0,0 +1,499 @@
+import type {
+  PaperAccount,
+  PaperAccountRequest,
+  PaperBookSource,
+  PaperOrder,
+  PaperOrderRequest,
+  PaperOrderSide,
+} from "../../shared/schema";
+import type {
+  PaperAccountSummary,
+  PaperPositionView,
+} from "../../shared/types/paper-trading";
+import { storage } from "../storage";
+import { OrderBook, OrderBookEntry } from "../types/market";
+import { CustomAPIError, ValidationError } from "../utils/errors";
+import { getOrderBook } from "./market-service";
+import { symbolRegistry } from "./symbol-registry";
+
+// Levels loaded per side when filling an order
+const DEPTH_LIMIT = 100;
+
+// Quantities below this are treated as a closed position
+const DUST = 1e-8;
+
+export interface BookFill {
+  quantity: number;
+  notional: number; // Quote asset
+  averagePrice: number;
+}
+
+// Decimal columns are written with their full scale
+function toDecimal(value: number): string {
+  return value.toFixed(8);
+}
+
+/**
+ * Walk one side of the book for a quantity of the base asset, best price
+ * first, skipping levels beyond the limit price. Null when the levels can't
+ * fill the whole quantity; paper orders never fill partially.
+ */
+export function fillFromBook(
+  book: OrderBook,
+  side: PaperOrderSide,
+  quantity: number,
+  limitPrice?: number
+): BookFill | null {
+  // Buys take asks from the lowest price up, sells bids from the highest down
+  const levels: OrderBookEntry[] =
+    side === "buy"
+      ? [...book.asks].sort((a, b) => a.price - b.price)
+      : [...book.bids].sort((a, b) => b.price - a.price);
+
+  let filled = 0;
+  let notional = 0;
+  for (const level of levels) {
+    if (filled >= quantity) break;
+    if (limitPrice !== undefined) {
+      if (side === "buy" ? level.price > limitPrice : level.price < limitPrice)
+        break;
+    }
+    const take = Math.min(quantity - filled, level.quantity);
+    filled += take;
+    notional += take * level.price;
+  }
+
+  // Allow for floating point drift when levels are consumed exactly
+  if (filled < quantity * (1 - 1e-9)) return null;
+  return { quantity, notional, averagePrice: notional / filled };
+}
+
+function getMidPrice(book: OrderBook): number | null {
+  const bestBid = Math.max(...book.bids.map((level) => level.price));
+  const bestAsk = Math.min(...book.asks.map((level) => level.price));
+  if (!Number.isFinite(bestBid) || !Number.isFinite(bestAsk)) return null;
+  return (bestBid + bestAsk) / 2;
+}
+
+/**
+ * Whether a stop order has triggered: buy stops when the best ask reaches
+ * the stop price, sell stops when the best bid falls to it
+ */
+function isStopTriggered(order: PaperOrder, book: OrderBook): boolean {
+  const stopPrice = Number(order.stopPrice);
+  if (order.side === "buy") {
+    const bestAsk = Math.min(...book.asks.map((level) => level.price));
+    return Number.isFinite(bestAsk) && bestAsk >= stopPrice;
+  }
+  const bestBid = Math.max(...book.bids.map((level) => level.price));
+  return Number.isFinite(bestBid) && bestBid <= stopPrice;
+}
+
+/**
+ * Simulated spot trading for paper accounts. Orders fill against the order
+ * book with the account's fee; open limit and stop orders are checked again
+ * whenever the account is read.
+ */
+export class PaperTradingService {
+  // Last book seen per pair, used when the exchanges can't be reached
+  private storedBooks = new Map<string, OrderBook>();
+
+  // Tail of each account's queue of order work. Reads fill open orders too,
+  // and the polled summary and order list must not book the same fill twice.
+  private accountQueues = new Map<string, Promise<void>>();
+
+  async createAccount(request: PaperAccountRequest): Promise<PaperAccount> {
+    const balance = toDecimal(request.initialBalance);
+    return storage.createPaperAccount({
+      userId: request.userId ?? null,
+      name: request.name,
+      initialBalance: balance,
+      cashBalance: balance,
+      feePercent:
+        request.feePercent === undefined
+          ? undefined
+          : String(request.feePercent),
+    });
+  }
+
+  /**
+   * Fill what can be filled among the open orders, then value the account
+   */
+  async getSummary(account: PaperAccount): Promise<PaperAccountSummary> {
+    await this.processOpenOrders(account.id);
+    const current = (await storage.getPaperAccount(account.id)) ?? account;
+    const [positions, orders] = await Promise.all([
+      storage.getPaperPositions(account.id),
+      storage.getPaperOrders(account.id),
+    ]);
+    const openOrders = orders.filter((order) => order.status === "open");
+
+    const views: PaperPositionView[] = await Promise.all(
+      positions
+        .filter((position) => Number(position.quantity) > DUST)
+        .map(async (position) => {
+          const quantity = Number(position.quantity);
+          const averageCost = Number(position.averageCost);
+          const loaded = await this.loadBook(position.symbol).catch(() => null);
+          const markPrice = loaded ? getMidPrice(loaded.book) : null;
+          const marketValue = markPrice === null ? null : markPrice * quantity;
+          const unrealizedPnl =
+            marketValue === null ? null : marketValue - averageCost * quantity;
+          return {
+            symbol: position.symbol,
+            quantity,
+            averageCost,
+            markPrice,
+            marketValue,
+            unrealizedPnl,
+            unrealizedPnlPercent:
+              unrealizedPnl === null || averageCost === 0
+                ? null
+                : (unrealizedPnl / (averageCost * quantity)) * 100,
+            realizedPnl: Number(position.realizedPnl),
+          };
+        })
+    );
+
+    const cash = Number(current.cashBalance);
+    const reservedCash = this.getReservedCash(current, openOrders);
+    // Positions without a mark price are carried at cost
+    const positionsValue = views.reduce(
+      (sum, view) =>
+        sum + (view.marketValue ?? view.averageCost * view.quantity),
+      0
+    );
+    const equity = cash + positionsValue;
+    const initialBalance = Number(current.initialBalance);
+
+    return {
+      account: current,
+      cash,
+      reservedCash,
+      availableCash: Math.max(0, cash - reservedCash),
+      positionsValue,
+      equity,
+      realizedPnl: positions.reduce(
+        (sum, position) => sum + Number(position.realizedPnl),
+        0
+      ),
+      unrealizedPnl: views.reduce(
+        (sum, view) => sum + (view.unrealizedPnl ?? 0),
+        0
+      ),
+      totalReturn: ((equity - initialBalance) / initialBalance) * 100,
+      positions: views,
+      openOrders,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Check the order against the free balance, record it and try to fill it.
+   * Market orders fill now or are rejected; limit and stop orders may stay
+   * open.
+   */
+  async placeOrder(
+    account: PaperAccount,
+    request: PaperOrderRequest
+  ): Promise<PaperOrder> {
+    return this.withAccountQueue(account.id, () =>
+      this.placeQueuedOrder(account, request)
+    );
+  }
+
+  private async placeQueuedOrder(
+    account: PaperAccount,
+    request: PaperOrderRequest
+  ): Promise<PaperOrder> {
+    const { base, quote, pair } = symbolRegistry.parseSymbol(
+      request.symbol,
+      account.quoteAsset
+    );
+    if (quote !== account.quoteAsset) {
+      throw new ValidationError(
+        `This account trades ${account.quoteAsset} pairs only`,
+        { symbol: pair, quoteAsset: account.quoteAsset }
+      );
+    }
+
+    const openOrders = (await storage.getPaperOrders(account.id)).filter(
+      (order) => order.status === "open"
+    );
+    const order = await storage.createPaperOrder({
+      accountId: account.id,
+      symbol: pair,
+      side: request.side,
+      type: request.type,
+      quantity: toDecimal(request.quantity),
+      limitPrice:
+        request.limitPrice === undefined ? null : toDecimal(request.limitPrice),
+      stopPrice:
+        request.stopPrice === undefined ? null : toDecimal(request.stopPrice),
+    });
+
+    if (request.side === "sell") {
+      // Sells can't exceed the position less what other sells have claimed
+      const position = (await storage.getPaperPositions(account.id)).find(
+        (held) => held.symbol === pair
+      );
+      const committed = openOrders
+        .filter((open) => open.symbol === pair && open.side === "sell")
+        .reduce((sum, open) => sum + Number(open.quantity), 0);
+      if (
+        request.quantity >
+        Number(position?.quantity ?? 0) - committed + DUST
+      ) {
+        return this.reject(order, `Not enough ${base} to sell`);
+      }
+    } else if (request.type !== "market") {
+      // Limit and stop buys must be covered by cash not held for other orders
+      const reserved = this.getReservedCash(account, openOrders);
+      const needed = this.getReservedCash(account, [order]);
+      if (reserved + needed > Number(account.cashBalance) + DUST) {
+        return this.reject(order, "Not enough available cash");
+      }
+    }
+
+    const loaded = await this.loadBook(pair);
+    return this.tryFill(order, loaded.book, loaded.source);
+  }
+
+  async cancelOrder(
+    account: PaperAccount,
+    orderId: string
+  ): Promise<PaperOrder> {
+    return this.withAccountQueue(account.id, () =>
+      this.cancelQueuedOrder(account, orderId)
+    );
+  }
+
+  private async cancelQueuedOrder(
+    account: PaperAccount,
+    orderId: string
+  ): Promise<PaperOrder> {
+    const order = await storage.getPaperOrder(orderId);
+    if (!order || order.accountId !== account.id) {
+      throw new CustomAPIError("Order not found", 404, "NOT_FOUND", {
+        id: orderId,
+      });
+    }
+    if (order.status !== "open") {
+      throw new ValidationError(`Order is already ${order.status}`, {
+        id: orderId,
+        status: order.status,
+      });
+    }
+    return (await storage.updatePaperOrder(orderId, {
+      status: "cancelled",
+      closedAt: new Date(),
+    }))!;
+  }
+
+  /**
+   * Try to fill each open order, loading one book per pair. Pairs whose book
+   * can't be loaded are skipped until the next read.
+   */
+  async processOpenOrders(accountId: string): Promise<void> {
+    return this.withAccountQueue(accountId, () =>
+      this.processQueuedOrders(accountId)
+    );
+  }
+
+  private async processQueuedOrders(accountId: string): Promise<void> {
+    const orders = (await storage.getPaperOrders(accountId))
+      .filter((order) => order.status === "open")
+      // Oldest first, so earlier orders take the cash and liquidity first
+      .reverse();
+
+    const books = new Map<
+      string,
+      { book: OrderBook; source: PaperBookSource } | null
+    >();
+    for (const order of orders) {
+      if (!books.has(order.symbol)) {
+        books.set(
+          order.symbol,
+          await this.loadBook(order.symbol).catch(() => null)
+        );
+      }
+      const loaded = books.get(order.symbol);
+      if (loaded) await this.tryFill(order, loaded.book, loaded.source);
+    }
+  }
+
+  /**
+   * Run order work for an account after the work already queued for it
+   */
+  private async withAccountQueue<T>(
+    accountId: string,
+    task: () => Promise<T>
+  ): Promise<T> {
+    const previous = this.accountQueues.get(accountId) ?? Promise.resolve();
+    const run = previous.then(task);
+    const tail = run.then(
+      () => undefined,
+      () => undefined
+    );
+    this.accountQueues.set(accountId, tail);
+    try {
+      return await run;
+    } finally {
+      if (this.accountQueues.get(accountId) === tail) {
+        this.accountQueues.delete(accountId);
+      }
+    }
+  }
+
+  /**
+   * The live book, falling back to the last one loaded for the pair
+   */
+  private async loadBook(
+    pair: string
+  ): Promise<{ book: OrderBook; source: PaperBookSource }> {
+    try {
+      const book = await getOrderBook(pair, DEPTH_LIMIT);
+      this.storedBooks.set(pair, book);
+      return { book, source: "live" };
+    } catch (error) {
+      const stored = this.storedBooks.get(pair);
+      if (!stored) throw error;
+      return { book: stored, source: "stored" };
+    }
+  }
+
+  /**
+   * Cash held for open buy orders, at their limit or stop price plus fees
+   */
+  private getReservedCash(account: PaperAccount, orders: PaperOrder[]): number {
+    const feeRate = Number(account.feePercent) / 100;
+    return orders
+      .filter((order) => order.side === "buy" && order.type !== "market")
+      .reduce((sum, order) => {
+        const price = Number(
+          order.type === "stop" ? order.stopPrice : order.limitPrice
+        );
+        return sum + price * Number(order.quantity) * (1 + feeRate);
+      }, 0);
+  }
+
+  private async tryFill(
+    order: PaperOrder,
+    book: OrderBook,
+    source: PaperBookSource
+  ): Promise<PaperOrder> {
+    const quantity = Number(order.quantity);
+    let triggeredAt = order.triggeredAt;
+
+    if (order.type === "stop" && !triggeredAt) {
+      if (!isStopTriggered(order, book)) return order;
+      triggeredAt = new Date();
+    }
+
+    const fill = fillFromBook(
+      book,
+      order.side,
+      quantity,
+      order.type === "limit" ? Number(order.limitPrice) : undefined
+    );
+    if (!fill) {
+      // Limit orders wait for liquidity at their price; the rest fill now
+      return order.type === "limit"
+        ? order
+        : this.reject(order, "Not enough liquidity in the order book", {
+            triggeredAt,
+          });
+    }
+    return this.applyFill(order, fill, source, triggeredAt);
+  }
+
+  /**
+   * Book a fill against the account's cash and position
+   */
+  private async applyFill(
+    order: PaperOrder,
+    fill: BookFill,
+    source: PaperBookSource,
+    triggeredAt: Date | null
+  ): Promise<PaperOrder> {
+    // The order may have been filled or cancelled while the book loaded
+    const current = await storage.getPaperOrder(order.id);
+    if (current?.status !== "open") return current ?? order;
+
+    const account = await storage.getPaperAccount(order.accountId);
+    if (!account) return order;
+
+    const fee = (fill.notional * Number(account.feePercent)) / 100;
+    const cash = Number(account.cashBalance);
+    const position = (await storage.getPaperPositions(account.id)).find(
+      (held) => held.symbol === order.symbol
+    );
+    const heldQuantity = Number(position?.quantity ?? 0);
+    const averageCost = Number(position?.averageCost ?? 0);
+    const realizedSoFar = Number(position?.realizedPnl ?? 0);
+
+    let realizedPnl: number | null = null;
+    if (order.side === "buy") {
+      if (fill.notional + fee > cash + DUST) {
+        return this.reject(order, "Not enough cash", { triggeredAt });
+      }
+      const quantity = heldQuantity + fill.quantity;
+      await storage.savePaperPosition({
+        accountId: account.id,
+        symbol: order.symbol,
+        quantity: toDecimal(quantity),
+        // Buy fees are part of the cost basis
+        averageCost: toDecimal(
+          (heldQuantity * averageCost + fill.notional + fee) / quantity
+        ),
+        realizedPnl: toDecimal(realizedSoFar),
+      });
+      await storage.updatePaperAccount(account.id, {
+        cashBalance: toDecimal(cash - fill.notional - fee),
+      });
+    } else {
+      if (fill.quantity > heldQuantity + DUST) {
+        return this.reject(order, "Position is smaller than the order", {
+          triggeredAt,
+        });
+      }
+      realizedPnl = fill.notional - fee - averageCost * fill.quantity;
+      const quantity = Math.max(0, heldQuantity - fill.quantity);
+      await storage.savePaperPosition({
+        accountId: account.id,
+        symbol: order.symbol,
+        quantity: toDecimal(quantity),
+        averageCost: toDecimal(quantity > DUST ? averageCost : 0),
+        realizedPnl: toDecimal(realizedSoFar + realizedPnl),
+      });
+      await storage.updatePaperAccount(account.id, {
+        cashBalance: toDecimal(cash + fill.notional - fee),
+      });
+    }
+
+    return (await storage.updatePaperOrder(order.id, {
+      status: "filled",
+      averagePrice: toDecimal(fill.averagePrice),
+      fee: toDecimal(fee),
+      realizedPnl: realizedPnl === null ? null : toDecimal(realizedPnl),
+      bookSource: source,
+      triggeredAt,
+      closedAt: new Date(),
+    }))!;
+  }
+
+  private async reject(
+    order: PaperOrder,
+    reason: string,
+    update: { triggeredAt?: Date | null } = {}
+  ): Promise<PaperOrder> {
+    return (await storage.updatePaperOrder(order.id, {
+      ...update,
+      status: "rejected",
+      rejectReason: reason,
+      closedAt: new Date(),
+    }))!;
+  }
+}
+
+export const paperTradingService = new PaperTradingService();
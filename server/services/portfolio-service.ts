@@ -0,0 +1,582 @@
+import type {
+  Portfolio,
+  PortfolioCostMethod,
+  PortfolioRequest,
+  PortfolioTransaction,
+  PortfolioTransactionRequest,
+} from "../../shared/schema";
+import type {
+  PortfolioHolding,
+  PortfolioPerformance,
+  PortfolioPerformancePoint,
+  PortfolioSummary,
+  RealizedDisposal,
+  RealizedGainsReport,
+} from "../../shared/types/portfolio";
+import { storage } from "../storage";
+import { toCsvRow } from "../utils/csv";
+import { CustomAPIError, ValidationError } from "../utils/errors";
+import { currencyService } from "./currency-service";
+import { getKlinesRange } from "./market-service";
+import { symbolRegistry } from "./symbol-registry";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Quantities below this are treated as a closed holding
+const DUST = 1e-8;
+
+// Lots held longer than a year give long-term gains
+const LONG_TERM_MS = 365 * DAY_MS;
+
+// Days of performance history charted by default and at most
+const DEFAULT_PERFORMANCE_DAYS = 90;
+const MAX_PERFORMANCE_DAYS = 730;
+
+const REALIZED_GAINS_COLUMNS = [
+  "asset",
+  "quantity",
+  "acquired",
+  "disposed",
+  "proceeds",
+  "cost_basis",
+  "gain",
+  "term",
+  "currency",
+];
+
+// Assets whose candles are loaded at the same time
+const CANDLE_CONCURRENCY = 5;
+
+export interface TaxLot {
+  quantity: number;
+  unitCost: number; // Including its share of the fee
+  acquiredAt: Date;
+}
+
+export interface AssetLedger {
+  asset: string;
+  quantity: number;
+  costBasis: number; // Cost of the lots held
+  realizedPnl: number;
+  invested: number; // Cost of everything bought or moved in, with fees
+  // Acquisition order; a single lot at average cost
+  lots: TaxLot[];
+}
+
+// Decimal columns are written with their full scale
+function toDecimal(value: number): string {
+  return value.toFixed(8);
+}
+
+function emptyLedger(asset: string): AssetLedger {
+  return {
+    asset,
+    quantity: 0,
+    costBasis: 0,
+    realizedPnl: 0,
+    invested: 0,
+    lots: [],
+  };
+}
+
+// Index of the lot a sell or transfer out takes from next
+function nextLot(lots: TaxLot[], method: PortfolioCostMethod): number {
+  if (method === "lifo") return lots.length - 1;
+  if (method === "hifo") {
+    // The earliest of the most expensive lots
+    return lots.reduce(
+      (best, lot, i) => (lot.unitCost > lots[best].unitCost ? i : best),
+      0
+    );
+  }
+  return 0; // FIFO, and the one lot at average cost
+}
+
+/**
+ * Remove a quantity from the lots in the cost method's order
+ */
+function takeLots(
+  ledger: AssetLedger,
+  quantity: number,
+  method: PortfolioCostMethod
+): TaxLot[] {
+  const taken: TaxLot[] = [];
+  let remaining = quantity;
+  while (remaining > DUST && ledger.lots.length) {
+    const index = nextLot(ledger.lots, method);
+    const lot = ledger.lots[index];
+    const take = Math.min(remaining, lot.quantity);
+    taken.push({ ...lot, quantity: take });
+    lot.quantity -= take;
+    remaining -= take;
+    if (lot.quantity < DUST) ledger.lots.splice(index, 1);
+  }
+  return taken;
+}
+
+function updateTotals(ledger: AssetLedger) {
+  ledger.quantity = ledger.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  ledger.costBasis = ledger.lots.reduce(
+    (sum, lot) => sum + lot.quantity * lot.unitCost,
+    0
+  );
+}
+
+/**
+ * Apply one transaction. Buys and transfers in add a lot, merged into the
+ * one lot at average cost. Sells take lots in the cost method's order and
+ * realize their proceeds less fees and the lots' cost, adding a disposal per
+ * lot when `disposals` is given; transfers out carry their lots away without
+ * realizing anything but the fee. Throws when more leaves than is held at
+ * the time.
+ */
+export function applyTransaction(
+  ledger: AssetLedger,
+  transaction: PortfolioTransaction,
+  method: PortfolioCostMethod = "average",
+  disposals?: RealizedDisposal[]
+): void {
+  const quantity = Number(transaction.quantity);
+  const price = Number(transaction.price ?? 0);
+  const fee = Number(transaction.fee);
+
+  if (transaction.type === "buy" || transaction.type === "transfer_in") {
+    const cost = quantity * price + fee;
+    const [average] = ledger.lots;
+    if (method === "average" && average) {
+      average.unitCost =
+        (average.quantity * average.unitCost + cost) /
+        (average.quantity + quantity);
+      average.quantity += quantity;
+    } else {
+      ledger.lots.push({
+        quantity,
+        unitCost: cost / quantity,
+        acquiredAt: transaction.executedAt,
+      });
+    }
+    ledger.invested += cost;
+    updateTotals(ledger);
+    return;
+  }
+
+  if (quantity > ledger.quantity + DUST) {
+    throw new ValidationError(
+      `Only ${ledger.quantity} ${ledger.asset} held on ${transaction.executedAt.toISOString()}`,
+      {
+        asset: ledger.asset,
+        held: ledger.quantity,
+        quantity,
+        type: transaction.type,
+        executedAt: transaction.executedAt.toISOString(),
+      }
+    );
+  }
+
+  const taken = takeLots(ledger, quantity, method);
+  updateTotals(ledger);
+  if (transaction.type === "transfer_out") {
+    ledger.realizedPnl -= fee;
+    return;
+  }
+
+  const proceeds = quantity * price - fee;
+  for (const lot of taken) {
+    const lotProceeds = (proceeds * lot.quantity) / quantity;
+    const lotCost = lot.quantity * lot.unitCost;
+    ledger.realizedPnl += lotProceeds - lotCost;
+    disposals?.push({
+      transactionId: transaction.id,
+      asset: ledger.asset,
+      quantity: lot.quantity,
+      acquiredAt: method === "average" ? null : lot.acquiredAt.toISOString(),
+      disposedAt: transaction.executedAt.toISOString(),
+      proceeds: lotProceeds,
+      costBasis: lotCost,
+      gain: lotProceeds - lotCost,
+      term:
+        method === "average"
+          ? null
+          : transaction.executedAt.getTime() - lot.acquiredAt.getTime() >
+              LONG_TERM_MS
+            ? "long"
+            : "short",
+    });
+  }
+}
+
+/**
+ * Ledgers per asset after replaying transactions in the order they were
+ * executed
+ */
+export function replayTransactions(
+  transactions: PortfolioTransaction[],
+  method: PortfolioCostMethod = "average",
+  disposals?: RealizedDisposal[]
+): Map<string, AssetLedger> {
+  const ledgers = new Map<string, AssetLedger>();
+  for (const transaction of transactions) {
+    let ledger = ledgers.get(transaction.asset);
+    if (!ledger) {
+      ledger = emptyLedger(transaction.asset);
+      ledgers.set(transaction.asset, ledger);
+    }
+    applyTransaction(ledger, transaction, method, disposals);
+  }
+  return ledgers;
+}
+
+export function byExecution(a: PortfolioTransaction, b: PortfolioTransaction) {
+  return (
+    a.executedAt.getTime() - b.executedAt.getTime() ||
+    a.createdAt.getTime() - b.createdAt.getTime()
+  );
+}
+
+/**
+ * Portfolios of recorded buys, sells and transfers. Holdings are computed
+ * from the transactions at average cost and valued at live prices in the
+ * portfolio currency.
+ */
+export class PortfolioService {
+  async createPortfolio(request: PortfolioRequest): Promise<Portfolio> {
+    if (request.currency) {
+      // Fails for currencies that can't be priced
+      await currencyService.getUsdValue(request.currency);
+    }
+    return storage.createPortfolio({
+      userId: request.userId ?? null,
+      name: request.name,
+      currency: request.currency,
+      costMethod: request.costMethod,
+    });
+  }
+
+  /**
+   * Record a transaction, rejecting it when a later sell or transfer out
+   * would then exceed what is held
+   */
+  async addTransaction(
+    portfolio: Portfolio,
+    request: PortfolioTransactionRequest
+  ): Promise<PortfolioTransaction> {
+    const now = new Date();
+    const candidate: PortfolioTransaction = {
+      id: "",
+      portfolioId: portfolio.id,
+      type: request.type,
+      asset: symbolRegistry.resolveBaseAsset(request.asset),
+      quantity: toDecimal(request.quantity),
+      price: request.price === undefined ? null : toDecimal(request.price),
+      fee: toDecimal(request.fee ?? 0),
+      note: request.note || null,
+      importKey: null,
+      executedAt: new Date(request.executedAt ?? now.getTime()),
+      createdAt: now,
+    };
+
+    const transactions = await storage.getPortfolioTransactions(portfolio.id);
+    replayTransactions(
+      [...transactions, candidate].sort(byExecution),
+      portfolio.costMethod
+    );
+
+    const { id, createdAt, ...insert } = candidate;
+    return storage.createPortfolioTransaction(insert);
+  }
+
+  /**
+   * Delete a transaction unless later sells or transfers out depend on it
+   */
+  async deleteTransaction(
+    portfolio: Portfolio,
+    transactionId: string
+  ): Promise<PortfolioTransaction> {
+    const transactions = await storage.getPortfolioTransactions(portfolio.id);
+    const transaction = transactions.find(({ id }) => id === transactionId);
+    if (!transaction) {
+      throw new CustomAPIError("Transaction not found", 404, "NOT_FOUND", {
+        id: transactionId,
+      });
+    }
+
+    replayTransactions(
+      transactions.filter(({ id }) => id !== transactionId),
+      portfolio.costMethod
+    );
+    await storage.deletePortfolioTransaction(transactionId);
+    return transaction;
+  }
+
+  async getSummary(portfolio: Portfolio): Promise<PortfolioSummary> {
+    const transactions = await storage.getPortfolioTransactions(portfolio.id);
+    const ledgers = Array.from(
+      replayTransactions(transactions, portfolio.costMethod).values()
+    );
+
+    const holdings: PortfolioHolding[] = await Promise.all(
+      ledgers.map(async (ledger) => {
+        const price =
+          ledger.quantity > 0
+            ? await this.getPrice(ledger.asset, portfolio.currency)
+            : null;
+        const marketValue = price === null ? null : price * ledger.quantity;
+        const unrealizedPnl =
+          marketValue === null ? null : marketValue - ledger.costBasis;
+        return {
+          asset: ledger.asset,
+          quantity: ledger.quantity,
+          averageCost:
+            ledger.quantity > 0 ? ledger.costBasis / ledger.quantity : 0,
+          costBasis: ledger.costBasis,
+          price,
+          marketValue,
+          unrealizedPnl,
+          unrealizedPnlPercent:
+            unrealizedPnl === null || ledger.costBasis === 0
+              ? null
+              : (unrealizedPnl / ledger.costBasis) * 100,
+          realizedPnl: ledger.realizedPnl,
+          allocation: null,
+        };
+      })
+    );
+
+    const open = holdings.filter((holding) => holding.quantity > 0);
+    const sum = (values: number[]) =>
+      values.reduce((total, value) => total + value, 0);
+    const marketValue = sum(open.map((holding) => holding.marketValue ?? 0));
+    for (const holding of open) {
+      if (holding.marketValue !== null && marketValue > 0) {
+        holding.allocation = (holding.marketValue / marketValue) * 100;
+      }
+    }
+    open.sort((a, b) => (b.marketValue ?? 0) - (a.marketValue ?? 0));
+
+    const unrealizedPnl = sum(
+      open.map((holding) => holding.unrealizedPnl ?? 0)
+    );
+    const realizedPnl = sum(holdings.map((holding) => holding.realizedPnl));
+    const invested = sum(ledgers.map((ledger) => ledger.invested));
+    const totalPnl = unrealizedPnl + realizedPnl;
+
+    return {
+      portfolio,
+      holdings: open,
+      transactionCount: transactions.length,
+      costBasis: sum(open.map((holding) => holding.costBasis)),
+      marketValue,
+      unrealizedPnl,
+      realizedPnl,
+      totalPnl,
+      totalReturn: invested > 0 ? (totalPnl / invested) * 100 : null,
+      unpriced: open
+        .filter((holding) => holding.price === null)
+        .map((holding) => holding.asset),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Daily value of the holdings over the last days, from daily closes
+   * converted at today's exchange rate. Today's point uses the latest price.
+   */
+  async getPerformance(
+    portfolio: Portfolio,
+    days: number = DEFAULT_PERFORMANCE_DAYS
+  ): Promise<PortfolioPerformance> {
+    if (!Number.isInteger(days) || days < 1 || days > MAX_PERFORMANCE_DAYS) {
+      throw new ValidationError(
+        `Days must be a whole number from 1 to ${MAX_PERFORMANCE_DAYS}`,
+        { days }
+      );
+    }
+
+    const transactions = await storage.getPortfolioTransactions(portfolio.id);
+    const today = Math.floor(Date.now() / DAY_MS) * DAY_MS;
+    const response: PortfolioPerformance = {
+      portfolioId: portfolio.id,
+      currency: portfolio.currency,
+      points: [],
+      flat: [],
+      unpriced: [],
+      timestamp: new Date().toISOString(),
+    };
+    if (!transactions.length) return response;
+
+    const firstDay =
+      Math.floor(transactions[0].executedAt.getTime() / DAY_MS) * DAY_MS;
+    const startTime = Math.max(firstDay, today - (days - 1) * DAY_MS);
+    const assets = Array.from(new Set(transactions.map(({ asset }) => asset)));
+    const closes = await this.loadCloses(
+      assets,
+      portfolio.currency,
+      startTime,
+      response
+    );
+
+    const ledgers = new Map<string, AssetLedger>();
+    let next = 0;
+    for (let time = startTime; time <= today; time += DAY_MS) {
+      // Everything executed by the day's close
+      while (
+        next < transactions.length &&
+        transactions[next].executedAt.getTime() < time + DAY_MS
+      ) {
+        const transaction = transactions[next++];
+        if (!ledgers.has(transaction.asset)) {
+          ledgers.set(transaction.asset, emptyLedger(transaction.asset));
+        }
+        applyTransaction(
+          ledgers.get(transaction.asset)!,
+          transaction,
+          portfolio.costMethod
+        );
+      }
+
+      const point: PortfolioPerformancePoint = { time, value: 0, costBasis: 0 };
+      for (const ledger of ledgers.values()) {
+        point.costBasis += ledger.costBasis;
+        point.value +=
+          ledger.quantity * (closes.get(ledger.asset)?.(time) ?? 0);
+      }
+      response.points.push(point);
+    }
+
+    return response;
+  }
+
+  /**
+   * Sells in a calendar year (UTC) matched to their lots by the portfolio's
+   * cost method. Transfer fees aren't disposals and are left out.
+   */
+  async getRealizedGains(
+    portfolio: Portfolio,
+    year: number
+  ): Promise<RealizedGainsReport> {
+    if (!Number.isInteger(year) || year < 2009 || year > 9999) {
+      throw new ValidationError("Year must be a four digit year", { year });
+    }
+
+    const disposals: RealizedDisposal[] = [];
+    replayTransactions(
+      await storage.getPortfolioTransactions(portfolio.id),
+      portfolio.costMethod,
+      disposals
+    );
+    const inYear = disposals.filter(
+      (disposal) => new Date(disposal.disposedAt).getUTCFullYear() === year
+    );
+    const sum = (values: number[]) =>
+      values.reduce((total, value) => total + value, 0);
+    const gainsFor = (term: RealizedDisposal["term"]) =>
+      sum(
+        inYear
+          .filter((disposal) => disposal.term === term)
+          .map((disposal) => disposal.gain)
+      );
+
+    return {
+      portfolioId: portfolio.id,
+      currency: portfolio.currency,
+      costMethod: portfolio.costMethod,
+      year,
+      disposals: inYear,
+      totals: {
+        proceeds: sum(inYear.map((disposal) => disposal.proceeds)),
+        costBasis: sum(inYear.map((disposal) => disposal.costBasis)),
+        gain: sum(inYear.map((disposal) => disposal.gain)),
+        shortTermGain: gainsFor("short"),
+        longTermGain: gainsFor("long"),
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private async getPrice(
+    asset: string,
+    currency: string
+  ): Promise<number | null> {
+    try {
+      return await currencyService.getRate(asset, currency);
+    } catch (error) {
+      console.warn(`No price for ${asset} in ${currency}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * A close lookup per asset that carries the last close over missing days.
+   * Assets without daily candles, like stablecoins and fiat, are valued at
+   * today's price and listed as flat; ones without any price are listed as
+   * unpriced.
+   */
+  private async loadCloses(
+    assets: string[],
+    currency: string,
+    startTime: number,
+    { flat, unpriced }: Pick<PortfolioPerformance, "flat" | "unpriced">
+  ): Promise<Map<string, (time: number) => number>> {
+    const lookups = new Map<string, (time: number) => number>();
+    const usdRate = await currencyService.getRate("USD", currency);
+
+    for (let i = 0; i < assets.length; i += CANDLE_CONCURRENCY) {
+      await Promise.all(
+        assets.slice(i, i + CANDLE_CONCURRENCY).map(async (asset) => {
+          const candles = await getKlinesRange(
+            asset,
+            "1d",
+            startTime,
+            Date.now()
+          ).catch(() => []);
+
+          if (!candles.length) {
+            const price = await this.getPrice(asset, currency);
+            if (price === null) {
+              unpriced.push(asset);
+            } else {
+              flat.push(asset);
+              lookups.set(asset, () => price);
+            }
+            return;
+          }
+
+          lookups.set(asset, (time) => {
+            let close = candles[0].close;
+            for (const candle of candles) {
+              if (candle.time > time) break;
+              close = candle.close;
+            }
+            return close * usdRate;
+          });
+        })
+      );
+    }
+
+    return lookups;
+  }
+}
+
+/**
+ * Serialize a gains report as CSV lines, one per disposal, with a header row
+ */
+export function* formatRealizedGainsCsv(
+  report: RealizedGainsReport
+): Generator<string> {
+  yield `${toCsvRow(REALIZED_GAINS_COLUMNS)}\n`;
+  for (const disposal of report.disposals) {
+    yield `${toCsvRow([
+      disposal.asset,
+      disposal.quantity.toFixed(8),
+      disposal.acquiredAt ?? "",
+      disposal.disposedAt,
+      disposal.proceeds.toFixed(2),
+      disposal.costBasis.toFixed(2),
+      disposal.gain.toFixed(2),
+      disposal.term ?? "",
+      report.currency,
+    ])}\n`;
+  }
+}
+
+export const portfolioService = new PortfolioService();
@@ -0,0 +1,344 @@
+import type { RecommenderEvaluationRequest } from "../../shared/schema";
+import {
+  DEFAULT_SCORING_WEIGHTS,
+  INVESTMENT_HORIZON_DAYS,
+  type MarketAnalysis,
+} from "../../shared/types/market-analysis";
+import type {
+  EvaluationHolding,
+  EvaluationPeriod,
+  EvaluationReturns,
+  EvaluationSummary,
+  RecommenderEvaluation,
+} from "../../shared/types/recommender-evaluation";
+import { CandleStick } from "../types/market";
+import { ValidationError } from "../utils/errors";
+import { exchangeRegistry } from "./exchanges/exchange-registry";
+import type { ExchangeTicker } from "./exchanges/types";
+import {
+  investmentAnalysisService,
+  TECHNICAL_CANDLES,
+  type RecommenderSnapshot,
+} from "./investment-analysis-service";
+import { getKlinesRange, normalizeSymbol } from "./market-service";
+import { symbolRegistry } from "./symbol-registry";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Coins the live recommender chooses from
+const UNIVERSE_SIZE = 10;
+
+// Coins whose candles are loaded at the same time
+const CANDLE_CONCURRENCY = 5;
+
+// Most recommendations a single evaluation replays
+const MAX_EVALUATION_PERIODS = 120;
+
+const DEFAULT_AMOUNT = 10000;
+
+const BENCHMARK_SYMBOL = "BTC";
+
+const RETURN_KEYS: (keyof EvaluationReturns)[] = [
+  "recommender",
+  "btc",
+  "equalWeight",
+];
+
+// Candles that closed before a time, oldest first
+function closedBefore(candles: CandleStick[], time: number): CandleStick[] {
+  let count = 0;
+  while (count < candles.length && candles[count].time + DAY_MS <= time) {
+    count++;
+  }
+  return candles.slice(0, count);
+}
+
+function percentChange(from: number, to: number): number {
+  return (to / from - 1) * 100;
+}
+
+function summarize(periods: EvaluationPeriod[]): EvaluationSummary | null {
+  if (!periods.length) return null;
+
+  const collect = (reduce: (values: number[]) => number) =>
+    Object.fromEntries(
+      RETURN_KEYS.map((key) => [
+        key,
+        reduce(periods.map((period) => period.returns[key])),
+      ])
+    ) as unknown as EvaluationReturns;
+  const mean = (values: number[]) =>
+    values.reduce((sum, value) => sum + value, 0) / values.length;
+  const beatRate = (benchmark: keyof EvaluationReturns) =>
+    (periods.filter(
+      (period) => period.returns.recommender > period.returns[benchmark]
+    ).length /
+      periods.length) *
+    100;
+
+  return {
+    periods: periods.length,
+    cumulative: collect(
+      (values) =>
+        (values.reduce((growth, value) => growth * (1 + value / 100), 1) - 1) *
+        100
+    ),
+    mean: collect(mean),
+    worst: collect((values) => Math.min(...values)),
+    beatBtcRate: beatRate("btc"),
+    beatEqualWeightRate: beatRate("equalWeight"),
+    averageInvested: mean(periods.map((period) => period.invested)),
+  };
+}
+
+/**
+ * Replays the investment recommender at past dates with the daily candles
+ * available then, holds its allocations and compares the returns with BTC
+ * alone and an equal-weight basket of the same coins.
+ *
+ * Past market caps are today's scaled by the price change, which assumes a
+ * constant supply, and the default universe is today's top coins, so
+ * results lean toward coins that survived. Fees are not charged.
+ */
+export class RecommenderEvaluationService {
+  async evaluate(
+    request: RecommenderEvaluationRequest
+  ): Promise<RecommenderEvaluation> {
+    const holdDays =
+      request.holdDays ?? INVESTMENT_HORIZON_DAYS[request.timeframe];
+    const stepDays = request.stepDays ?? holdDays;
+    const amount = request.amount ?? DEFAULT_AMOUNT;
+    const weights = request.weights ?? DEFAULT_SCORING_WEIGHTS;
+
+    // The last recommendation must have been held to the end already
+    const latest = Date.now() - holdDays * DAY_MS;
+    const startTime = Math.ceil(request.startTime / DAY_MS) * DAY_MS;
+    const endTime = Math.min(request.endTime ?? latest, latest);
+    if (startTime > endTime) {
+      throw new ValidationError(
+        `Start time must leave ${holdDays} days to hold before the end time`,
+        { startTime: request.startTime, endTime, holdDays }
+      );
+    }
+    const dates: number[] = [];
+    for (let time = startTime; time <= endTime; time += stepDays * DAY_MS) {
+      dates.push(time);
+    }
+    if (dates.length > MAX_EVALUATION_PERIODS) {
+      throw new ValidationError(
+        `Evaluation exceeds ${MAX_EVALUATION_PERIODS} recommendations; shorten the range or raise stepDays`,
+        { periods: dates.length, stepDays }
+      );
+    }
+
+    const tickers = await this.getUniverse(request.symbols);
+    const symbols = tickers.map((ticker) => ticker.symbol);
+
+    // History for the first date's indicators through the last candle that
+    // closes by the last exit
+    const { candles, skipped } = await this.loadCandles(
+      symbols.includes(BENCHMARK_SYMBOL)
+        ? symbols
+        : [...symbols, BENCHMARK_SYMBOL],
+      startTime - TECHNICAL_CANDLES * DAY_MS,
+      dates[dates.length - 1] + (holdDays - 1) * DAY_MS
+    );
+    if (!candles.has(BENCHMARK_SYMBOL)) {
+      throw new ValidationError("No daily candles for the BTC benchmark", {
+        startTime,
+        endTime,
+      });
+    }
+
+    const periods: EvaluationPeriod[] = [];
+    for (const time of dates) {
+      const period = await this.replay(
+        time,
+        time + holdDays * DAY_MS,
+        tickers,
+        candles,
+        {
+          amount,
+          timeframe: request.timeframe,
+          preferences: request.preferences,
+          weights,
+        }
+      );
+      if (period) periods.push(period);
+    }
+
+    return {
+      timeframe: request.timeframe,
+      riskTolerance: investmentAnalysisService.determineRiskTolerance(
+        request.preferences || ""
+      ),
+      amount,
+      holdDays,
+      stepDays,
+      weights,
+      symbols,
+      skipped: skipped.filter((symbol) => symbol !== BENCHMARK_SYMBOL),
+      startTime,
+      endTime,
+      periods,
+      summary: summarize(periods),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  // Requested coins, or the ones the live recommender would choose from
+  private async getUniverse(symbols?: string[]): Promise<ExchangeTicker[]> {
+    if (!symbols) {
+      const { data } = await exchangeRegistry.getTickers();
+      return data.slice(0, UNIVERSE_SIZE);
+    }
+
+    const bases = Array.from(
+      new Set(symbols.map((symbol) => symbolRegistry.resolveBaseAsset(symbol)))
+    );
+    const { data } = await exchangeRegistry.getTickers({
+      symbols: bases.map((base) => normalizeSymbol(base)),
+    });
+    // Coins without a ticker are still replayed, as small caps
+    return bases.map(
+      (base) =>
+        data.find((ticker) => ticker.symbol === base) ?? {
+          symbol: base,
+          pair: normalizeSymbol(base),
+          name: base,
+          price: 0,
+          priceChange24h: 0,
+          priceChangePercent24h: 0,
+          volume24h: 0,
+          high24h: 0,
+          low24h: 0,
+          marketCap: 0,
+        }
+    );
+  }
+
+  private async loadCandles(
+    symbols: string[],
+    startTime: number,
+    endTime: number
+  ): Promise<{ candles: Map<string, CandleStick[]>; skipped: string[] }> {
+    const candles = new Map<string, CandleStick[]>();
+    const skipped: string[] = [];
+
+    for (let i = 0; i < symbols.length; i += CANDLE_CONCURRENCY) {
+      await Promise.all(
+        symbols.slice(i, i + CANDLE_CONCURRENCY).map(async (symbol) => {
+          try {
+            const loaded = await getKlinesRange(
+              symbol,
+              "1d",
+              startTime,
+              endTime
+            );
+            if (loaded.length) candles.set(symbol, loaded);
+            else skipped.push(symbol);
+          } catch (error) {
+            console.warn(`Daily candles unavailable for ${symbol}:`, error);
+            skipped.push(symbol);
+          }
+        })
+      );
+    }
+
+    return { candles, skipped };
+  }
+
+  /**
+   * Recommend at a date from the candles closed by then and hold to the exit
+   * time. Null when BTC has no price for either end.
+   */
+  private async replay(
+    time: number,
+    exitTime: number,
+    tickers: ExchangeTicker[],
+    candles: Map<string, CandleStick[]>,
+    options: Omit<RecommenderSnapshot, "coins" | "closes">
+  ): Promise<EvaluationPeriod | null> {
+    const returns = new Map<string, number>();
+    const prices = new Map<string, { entry: number; exit: number }>();
+    const closes: Record<string, number[]> = {};
+    const coins: MarketAnalysis["coin"][] = [];
+
+    const holdReturn = (symbol: string) => {
+      const history = closedBefore(candles.get(symbol) ?? [], time);
+      const held = closedBefore(candles.get(symbol) ?? [], exitTime);
+      // The exit needs a candle that closed after the entry
+      if (history.length < 2 || held.length <= history.length) return null;
+      const entry = history[history.length - 1].close;
+      const exit = held[held.length - 1].close;
+      prices.set(symbol, { entry, exit });
+      returns.set(symbol, percentChange(entry, exit));
+      return history;
+    };
+
+    const btc = holdReturn(BENCHMARK_SYMBOL);
+    if (!btc) return null;
+
+    for (const ticker of tickers) {
+      const history = holdReturn(ticker.symbol);
+      if (!history) continue;
+
+      const [previous, latest] = history.slice(-2);
+      closes[ticker.symbol] = history.map((candle) => candle.close);
+      coins.push({
+        symbol: ticker.symbol,
+        name: ticker.name,
+        price: latest.close,
+        priceChange24h: percentChange(previous.close, latest.close),
+        volume24h: latest.volume * latest.close,
+        marketCap:
+          ticker.price > 0
+            ? (ticker.marketCap * latest.close) / ticker.price
+            : 0,
+      });
+    }
+    if (!coins.length) return null;
+    coins.sort(
+      (a, b) => b.marketCap - a.marketCap || b.volume24h - a.volume24h
+    );
+
+    const recommendations = await investmentAnalysisService.recommendAt({
+      ...options,
+      coins,
+      closes,
+    });
+
+    const holdings: EvaluationHolding[] = recommendations
+      .filter((rec) => rec.allocation > 0)
+      .map((rec) => ({
+        symbol: rec.coin.symbol,
+        allocation: rec.allocation,
+        weight: (rec.allocation / options.amount) * 100,
+        riskLevel: rec.riskLevel,
+        entryPrice: prices.get(rec.coin.symbol)!.entry,
+        exitPrice: prices.get(rec.coin.symbol)!.exit,
+        return: returns.get(rec.coin.symbol)!,
+      }));
+    const universeReturns = coins.map((coin) => returns.get(coin.symbol)!);
+
+    return {
+      time,
+      exitTime,
+      holdings,
+      invested: holdings.reduce((sum, holding) => sum + holding.weight, 0),
+      returns: {
+        // Cash left unallocated is held flat
+        recommender: holdings.reduce(
+          (sum, holding) => sum + (holding.weight * holding.return) / 100,
+          0
+        ),
+        btc: returns.get(BENCHMARK_SYMBOL)!,
+        equalWeight:
+          universeReturns.reduce((sum, value) => sum + value, 0) /
+          universeReturns.length,
+      },
+    };
+  }
+}
+
+export const recommenderEvaluationService = new RecommenderEvaluationService();
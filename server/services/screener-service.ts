@@ -0,0 +1,404 @@
+import type {
+  ScreenerCondition,
+  ScreenerOperand,
+  ScreenerQuery,
+  ScreenerSort,
+} from "../../shared/schema";
+import {
+  CoinSentiment,
+  ScreenerResult,
+  ScreenerRun,
+  getOperandKey,
+  DEFAULT_SCREENER_PERIODS,
+} from "../../shared/types/screener";
+import { CandleStick } from "../types/market";
+import { CacheManager } from "../utils/cache";
+import { ServiceError } from "../utils/errors";
+import {
+  calculateEMA,
+  calculateRSI,
+  calculateSMA,
+} from "../utils/technical-indicators";
+import { storage } from "../storage";
+import { exchangeRegistry } from "./exchanges/exchange-registry";
+import { ExchangeTicker } from "./exchanges/types";
+import {
+  analyzeMultipleTexts,
+  calculateOverallSentiment,
+} from "./huggingface-service";
+import { getKlines } from "./market-service";
+import newsService from "./news-service";
+import { symbolRegistry } from "./symbol-registry";
+
+// Cache TTL in seconds
+const CACHE_TTL = {
+  NEWS: 900, // 15 minutes
+  SENTIMENT: 900,
+};
+
+// Coins scanned when the query doesn't say
+const DEFAULT_UNIVERSE = 50;
+
+// Coins whose candles are loaded at the same time
+const CANDLE_CONCURRENCY = 5;
+
+// Indicators are computed on daily candles
+const SCREENER_INTERVAL = "1d";
+
+const CANDLE_METRICS = ["rsi", "sma", "ema", "avgVolume"];
+
+interface ScreenerArticle {
+  title: string;
+  content: string;
+}
+
+// A coin being screened, with whatever has been loaded for it so far
+interface Candidate {
+  ticker: ExchangeTicker;
+  marketCap: number | null;
+  candles?: CandleStick[] | null;
+  sentiment?: CoinSentiment | null;
+}
+
+function last(values: number[]): number | null {
+  const value = values[values.length - 1];
+  return value === undefined || !Number.isFinite(value) ? null : value;
+}
+
+function getPeriod(operand: ScreenerOperand): number {
+  return operand.period ?? DEFAULT_SCREENER_PERIODS[operand.metric];
+}
+
+// Daily candles needed to compute an operand
+function getCandlesNeeded(operand: ScreenerOperand): number {
+  const period = getPeriod(operand);
+  switch (operand.metric) {
+    case "rsi":
+    case "avgVolume":
+      return period + 1;
+    case "sma":
+    case "ema":
+      return period;
+    default:
+      return 0;
+  }
+}
+
+function listOperands(
+  conditions: ScreenerCondition[],
+  sort?: ScreenerSort | null
+): ScreenerOperand[] {
+  const operands: ScreenerOperand[] = sort ? [sort.by] : [];
+  for (const condition of conditions) {
+    if (condition.type === "sentiment") {
+      operands.push({ metric: "sentimentScore" });
+      continue;
+    }
+    operands.push(condition.left);
+    if (typeof condition.right !== "number") {
+      operands.push(condition.right);
+    }
+  }
+  return operands;
+}
+
+function needsCandles(operands: ScreenerOperand[]): boolean {
+  return operands.some((operand) => CANDLE_METRICS.includes(operand.metric));
+}
+
+function needsSentiment(operands: ScreenerOperand[]): boolean {
+  return operands.some((operand) => operand.metric === "sentimentScore");
+}
+
+/**
+ * Value of a metric for a coin, or null when it can't be computed
+ */
+function evaluateOperand(
+  candidate: Candidate,
+  operand: ScreenerOperand
+): number | null {
+  const { ticker, candles } = candidate;
+  const closes = candles?.map((candle) => candle.close) ?? [];
+  const period = getPeriod(operand);
+
+  switch (operand.metric) {
+    case "price":
+      return ticker.price;
+    case "change24h":
+      return ticker.priceChangePercent24h;
+    case "volume24h":
+      return ticker.volume24h;
+    case "marketCap":
+      return candidate.marketCap;
+    case "sentimentScore":
+      return candidate.sentiment?.score ?? null;
+    case "rsi":
+      return closes.length > period ? last(calculateRSI(closes, period)) : null;
+    case "sma":
+      return closes.length >= period
+        ? last(calculateSMA(closes, period))
+        : null;
+    case "ema":
+      return closes.length >= period
+        ? last(calculateEMA(closes, period))
+        : null;
+    case "avgVolume": {
+      // Completed days only, in quote terms to match volume24h
+      const days = (candles ?? []).slice(-(period + 1), -1);
+      if (days.length < period) return null;
+      return (
+        days.reduce((sum, candle) => sum + candle.volume * candle.close, 0) /
+        period
+      );
+    }
+  }
+}
+
+function matchesCondition(
+  candidate: Candidate,
+  condition: ScreenerCondition
+): boolean {
+  if (condition.type === "sentiment") {
+    return candidate.sentiment?.label === condition.sentiment;
+  }
+
+  const left = evaluateOperand(candidate, condition.left);
+  const right =
+    typeof condition.right === "number"
+      ? condition.right
+      : evaluateOperand(candidate, condition.right);
+  if (left === null || right === null) return false;
+
+  const threshold = right * (condition.multiplier ?? 1);
+  switch (condition.operator) {
+    case "<":
+      return left < threshold;
+    case "<=":
+      return left <= threshold;
+    case ">":
+      return left > threshold;
+    case ">=":
+      return left >= threshold;
+  }
+}
+
+/**
+ * Escape a string for use inside a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Screens the top coins by volume against indicator, volume and news
+ * sentiment conditions.
+ *
+ * Conditions are checked in order of cost: ticker fields first, then daily
+ * candle indicators, then news sentiment, so expensive data is only loaded
+ * for coins that are still in the running.
+ */
+export class ScreenerService {
+  private cache = new CacheManager();
+
+  async run(query: ScreenerQuery): Promise<ScreenerRun> {
+    const { conditions, sort = null, limit = DEFAULT_UNIVERSE } = query;
+
+    try {
+      const { data: tickers, source } = await exchangeRegistry.getTickers({
+        limit,
+      });
+      let candidates: Candidate[] = tickers.map((ticker) => ({
+        ticker,
+        marketCap:
+          symbolRegistry.getMarketCap(ticker.symbol, ticker.price) ?? null,
+      }));
+
+      const byCost = (stage: "ticker" | "candles" | "sentiment") =>
+        conditions.filter((condition) => {
+          const operands = listOperands([condition]);
+          if (needsSentiment(operands)) return stage === "sentiment";
+          if (needsCandles(operands)) return stage === "candles";
+          return stage === "ticker";
+        });
+      const keep = (stageConditions: ScreenerCondition[]) => {
+        candidates = candidates.filter((candidate) =>
+          stageConditions.every((condition) =>
+            matchesCondition(candidate, condition)
+          )
+        );
+      };
+
+      const operands = listOperands(conditions, sort);
+
+      keep(byCost("ticker"));
+      if (needsCandles(operands)) {
+        await this.loadCandles(candidates, operands);
+      }
+      keep(byCost("candles"));
+      if (needsSentiment(operands)) {
+        await this.loadSentiment(candidates);
+      }
+      keep(byCost("sentiment"));
+
+      const results = candidates.map((candidate) =>
+        this.toResult(candidate, operands)
+      );
+      if (sort) {
+        this.sortResults(results, sort);
+      }
+
+      return {
+        results,
+        conditions,
+        sort,
+        scanned: tickers.length,
+        matched: results.length,
+        source,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      console.error("Screener run failed:", error);
+      throw new ServiceError("Failed to run screener", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  private async loadCandles(
+    candidates: Candidate[],
+    operands: ScreenerOperand[]
+  ): Promise<void> {
+    const limit =
+      Math.max(...operands.map((operand) => getCandlesNeeded(operand))) + 1;
+
+    for (let i = 0; i < candidates.length; i += CANDLE_CONCURRENCY) {
+      await Promise.all(
+        candidates.slice(i, i + CANDLE_CONCURRENCY).map(async (candidate) => {
+          try {
+            candidate.candles = await getKlines(
+              candidate.ticker.pair,
+              SCREENER_INTERVAL,
+              limit
+            );
+          } catch (error) {
+            // The coin just fails every candle condition
+            console.warn(
+              `Screener candles unavailable for ${candidate.ticker.pair}:`,
+              error
+            );
+            candidate.candles = null;
+          }
+        })
+      );
+    }
+  }
+
+  private async loadSentiment(candidates: Candidate[]): Promise<void> {
+    const articles = await this.getArticles();
+
+    // Sequential, the sentiment model is the bottleneck
+    for (const candidate of candidates) {
+      candidate.sentiment = await this.getCoinSentiment(
+        candidate.ticker,
+        articles
+      );
+    }
+  }
+
+  private async getArticles(): Promise<ScreenerArticle[]> {
+    const cacheKey = "screener_news";
+    const cached = await this.cache.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    const articles: ScreenerArticle[] = await newsService
+      .fetchCryptoNews(50)
+      .catch(() => storage.getNewsArticles());
+    const trimmed = articles.map(({ title, content }) => ({ title, content }));
+
+    await this.cache.set(cacheKey, JSON.stringify(trimmed), CACHE_TTL.NEWS);
+    return trimmed;
+  }
+
+  /**
+   * News sentiment for a coin, from the articles that mention its symbol or
+   * name. Null when no article mentions it.
+   */
+  private async getCoinSentiment(
+    ticker: ExchangeTicker,
+    articles: ScreenerArticle[]
+  ): Promise<CoinSentiment | null> {
+    const cacheKey = `screener_sentiment_${ticker.symbol}`;
+    const cached = await this.cache.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    // Symbols are matched case sensitively so "SOL" doesn't match "sol"
+    const symbolPattern = new RegExp(`\\b${escapeRegExp(ticker.symbol)}\\b`);
+    const namePattern = new RegExp(`\\b${escapeRegExp(ticker.name)}\\b`, "i");
+    const texts = articles
+      .map((article) => `${article.title}. ${article.content}`)
+      .filter((text) => symbolPattern.test(text) || namePattern.test(text));
+
+    let sentiment: CoinSentiment | null = null;
+    if (texts.length) {
+      const analyses = await analyzeMultipleTexts(texts);
+      const overall = calculateOverallSentiment(analyses);
+      const { positive, negative, total } = overall.breakdown;
+      sentiment = {
+        label: overall.sentiment as CoinSentiment["label"],
+        score: total ? (positive - negative) / total : 0,
+        confidence: overall.confidence,
+        articles: texts.length,
+      };
+    }
+
+    await this.cache.set(
+      cacheKey,
+      JSON.stringify(sentiment),
+      CACHE_TTL.SENTIMENT
+    );
+    return sentiment;
+  }
+
+  private toResult(
+    candidate: Candidate,
+    operands: ScreenerOperand[]
+  ): ScreenerResult {
+    const { ticker } = candidate;
+    const metrics: Record<string, number | null> = {};
+    for (const operand of operands) {
+      metrics[getOperandKey(operand)] = evaluateOperand(candidate, operand);
+    }
+
+    return {
+      symbol: ticker.symbol,
+      pair: ticker.pair,
+      name: ticker.name,
+      price: ticker.price,
+      change24h: ticker.priceChangePercent24h,
+      volume24h: ticker.volume24h,
+      marketCap: candidate.marketCap,
+      metrics,
+      sentiment: candidate.sentiment ?? null,
+    };
+  }
+
+  private sortResults(results: ScreenerResult[], sort: ScreenerSort): void {
+    const key = getOperandKey(sort.by);
+    const direction = sort.direction === "asc" ? 1 : -1;
+
+    // Coins without a value always sort last
+    results.sort((a, b) => {
+      const left = a.metrics[key];
+      const right = b.metrics[key];
+      if (left === null) return right === null ? 0 : 1;
+      if (right === null) return -1;
+      return (left - right) * direction;
+    });
+  }
+}
+
+export const screenerService = new ScreenerService();
@@ -0,0 +1,285 @@
+import type {
+  StrategyCondition,
+  StrategyDefinition,
+  StrategyExitLevel,
+  StrategyOperand,
+  StrategyRule,
+} from "../../shared/schema";
+import { getRuleGroup } from "../../shared/types/strategy";
+import { CandleStick, IndicatorSpec } from "../types/market";
+import { ValidationError } from "../utils/errors";
+import {
+  getIntervalMs,
+  isValidInterval,
+  shiftOpenTime,
+} from "../utils/intervals";
+import { calculateATR } from "../utils/technical-indicators";
+import { resampleCandles } from "./candle-resampler";
+import {
+  computeIndicatorSeries,
+  getIndicatorColumnNames,
+  getIndicatorLookback,
+  parseIndicatorSpec,
+} from "./indicator-series";
+
+type Series = (number | null)[];
+
+const DEFAULT_ATR_PERIOD = 14;
+
+/**
+ * A strategy definition bound to a run of candles. Rules are read on the
+ * close of the candle at `index`.
+ */
+export interface CompiledStrategy {
+  // Candles needed before every operand has a value
+  lookback: number;
+  shouldEnter(index: number): boolean;
+  shouldExit(index: number): boolean;
+  // Stop-loss and take-profit prices for an entry signalled at `index`
+  getStopPrice(index: number, entryPrice: number): number | null;
+  getTargetPrice(index: number, entryPrice: number): number | null;
+}
+
+function isIndicatorOperand(
+  operand: StrategyOperand
+): operand is Extract<StrategyOperand, { indicator: string }> {
+  return "indicator" in operand;
+}
+
+function collectConditions(rule: StrategyRule): StrategyCondition[] {
+  const group = getRuleGroup(rule);
+  return group
+    ? group.rules.flatMap(collectConditions)
+    : [rule as StrategyCondition];
+}
+
+function collectOperands(definition: StrategyDefinition): StrategyOperand[] {
+  const conditions = [
+    ...collectConditions(definition.entry),
+    ...(definition.exit ? collectConditions(definition.exit) : []),
+  ];
+  return conditions.flatMap((condition) =>
+    typeof condition.right === "number"
+      ? [condition.left]
+      : [condition.left, condition.right]
+  );
+}
+
+function validateTimeframe(timeframe: string, interval: string): void {
+  if (!isValidInterval(timeframe)) {
+    throw new ValidationError("Unsupported operand timeframe", { timeframe });
+  }
+  const ratio = getIntervalMs(timeframe) / getIntervalMs(interval);
+  if (ratio < 1 || !Number.isInteger(ratio)) {
+    throw new ValidationError(
+      `Operand timeframe ${timeframe} must be a multiple of ${interval}`,
+      { timeframe, interval }
+    );
+  }
+}
+
+/**
+ * Map a series on a longer timeframe back onto the base candles. Each base
+ * candle sees the last higher timeframe candle that had closed by its own
+ * close, so nothing is read before it was known.
+ */
+function alignToBase(
+  candles: CandleStick[],
+  interval: string,
+  higher: CandleStick[],
+  timeframe: string,
+  values: Series
+): Series {
+  const aligned: Series = [];
+  let k = -1;
+  for (const candle of candles) {
+    const closeTime = shiftOpenTime(candle.time, interval, 1);
+    while (
+      k + 1 < higher.length &&
+      shiftOpenTime(higher[k + 1].time, timeframe, 1) <= closeTime
+    ) {
+      k++;
+    }
+    aligned.push(k >= 0 ? values[k] : null);
+  }
+  return aligned;
+}
+
+/**
+ * Compute the series for every operand the strategy uses, aligned with the
+ * base candles
+ */
+function prepareOperands(
+  candles: CandleStick[],
+  interval: string,
+  definition: StrategyDefinition
+): { lookback: number; resolve: (operand: StrategyOperand) => Series } {
+  const timeframes = new Map<string, CandleStick[]>([[interval, candles]]);
+  const specs = new Map<string, IndicatorSpec>();
+  let lookback = 0;
+
+  for (const operand of collectOperands(definition)) {
+    const timeframe = operand.timeframe ?? interval;
+    if (!timeframes.has(timeframe)) {
+      validateTimeframe(timeframe, interval);
+      timeframes.set(timeframe, resampleCandles(candles, timeframe));
+    }
+    const ratio = getIntervalMs(timeframe) / getIntervalMs(interval);
+    lookback = Math.max(lookback, ratio > 1 ? ratio : 0);
+    if (!isIndicatorOperand(operand)) continue;
+
+    const parsed = parseIndicatorSpec(operand.indicator);
+    if (parsed.length !== 1) {
+      throw new ValidationError("Each operand takes a single indicator", {
+        indicator: operand.indicator,
+      });
+    }
+    specs.set(operand.indicator, parsed[0]);
+    lookback = Math.max(lookback, (getIndicatorLookback(parsed) + 1) * ratio);
+  }
+
+  // Series are computed once per timeframe and indicator
+  const cache = new Map<string, Series>();
+  const resolve = (operand: StrategyOperand): Series => {
+    const timeframe = operand.timeframe ?? interval;
+    const key = isIndicatorOperand(operand)
+      ? `${timeframe}|${operand.indicator}|${operand.line ?? ""}`
+      : `${timeframe}|${operand.price}`;
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    const source = timeframes.get(timeframe)!;
+    let values: Series;
+    if (!isIndicatorOperand(operand)) {
+      values = source.map((candle) => candle[operand.price]);
+    } else {
+      const spec = specs.get(operand.indicator)!;
+      const [series] = computeIndicatorSeries(source, [spec]);
+      const suffix = spec.params.join("_");
+      const column = operand.line
+        ? series.columns.find(
+            (column) =>
+              column.name === operand.line ||
+              column.name === `${operand.line}_${suffix}`
+          )
+        : series.columns[0];
+      if (!column) {
+        throw new ValidationError(
+          `Unknown line "${operand.line}" for indicator "${operand.indicator}"`,
+          {
+            indicator: operand.indicator,
+            lines: getIndicatorColumnNames(spec),
+          }
+        );
+      }
+      values = column.values;
+    }
+
+    if (timeframe !== interval) {
+      values = alignToBase(candles, interval, source, timeframe, values);
+    }
+    cache.set(key, values);
+    return values;
+  };
+
+  return { lookback, resolve };
+}
+
+function compileCondition(
+  condition: StrategyCondition,
+  resolve: (operand: StrategyOperand) => Series
+): (index: number) => boolean {
+  const { operator } = condition;
+  const left = resolve(condition.left);
+  const right =
+    typeof condition.right === "number"
+      ? left.map(() => condition.right as number)
+      : resolve(condition.right);
+
+  return (index) => {
+    const a = left[index];
+    const b = right[index];
+    if (a === null || b === null) return false;
+
+    switch (operator) {
+      case "<":
+        return a < b;
+      case "<=":
+        return a <= b;
+      case ">":
+        return a > b;
+      case ">=":
+        return a >= b;
+      case "crosses_above":
+      case "crosses_below": {
+        const previousA = left[index - 1];
+        const previousB = right[index - 1];
+        if (previousA == null || previousB == null) return false;
+        return operator === "crosses_above"
+          ? previousA <= previousB && a > b
+          : previousA >= previousB && a < b;
+      }
+    }
+  };
+}
+
+/**
+ * Build a check for a rule. Conditions on missing values (warm-up) never
+ * hold, so an "all" group can't pass until every operand has a value.
+ */
+function compileRule(
+  rule: StrategyRule,
+  resolve: (operand: StrategyOperand) => Series
+): (index: number) => boolean {
+  const group = getRuleGroup(rule);
+  if (!group) {
+    return compileCondition(rule as StrategyCondition, resolve);
+  }
+  const checks = group.rules.map((child) => compileRule(child, resolve));
+  return group.match === "all"
+    ? (index) => checks.every((check) => check(index))
+    : (index) => checks.some((check) => check(index));
+}
+
+function compileExitLevel(
+  candles: CandleStick[],
+  level: StrategyExitLevel | undefined,
+  direction: 1 | -1
+): (index: number, entryPrice: number) => number | null {
+  if (!level) return () => null;
+  if (level.type === "percent") {
+    return (_, entryPrice) =>
+      entryPrice * (1 + (direction * level.percent) / 100);
+  }
+
+  const atr = calculateATR(candles, level.period ?? DEFAULT_ATR_PERIOD);
+  const padding = candles.length - atr.length;
+  return (index, entryPrice) => {
+    const value = atr[index - padding];
+    return value === undefined
+      ? null
+      : entryPrice + direction * level.multiple * value;
+  };
+}
+
+/**
+ * Bind a strategy definition to candles of `interval`, oldest first
+ */
+export function compileStrategy(
+  candles: CandleStick[],
+  interval: string,
+  definition: StrategyDefinition
+): CompiledStrategy {
+  const { lookback, resolve } = prepareOperands(candles, interval, definition);
+  const shouldExit = definition.exit
+    ? compileRule(definition.exit, resolve)
+    : () => false;
+
+  return {
+    lookback,
+    shouldEnter: compileRule(definition.entry, resolve),
+    shouldExit,
+    getStopPrice: compileExitLevel(candles, definition.stopLoss, -1),
+    getTargetPrice: compileExitLevel(candles, definition.takeProfit, 1),
+  };
+}
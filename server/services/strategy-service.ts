@@ -0,0 +1,113 @@
+import YAML from "yaml";
+import {
+  StrategyDefinition,
+  strategyDefinitionSchema,
+} from "../../shared/schema";
+import { StrategySignals, describeStrategy } from "../../shared/types/strategy";
+import { ValidationError } from "../utils/errors";
+import { isValidInterval } from "../utils/intervals";
+import { getKlines, normalizeSymbol } from "./market-service";
+import { compileStrategy } from "./strategy-engine";
+
+export type StrategyFormat = "json" | "yaml";
+
+export const STRATEGY_FORMATS: StrategyFormat[] = ["json", "yaml"];
+
+// Candles loaded to evaluate live signals
+const SIGNAL_CANDLES = 500;
+
+/**
+ * Validate a definition, throwing a ValidationError listing the zod issues
+ */
+export function validateStrategyDefinition(value: unknown): StrategyDefinition {
+  const result = strategyDefinitionSchema.safeParse(value);
+  if (!result.success) {
+    throw new ValidationError("Invalid strategy definition", {
+      issues: result.error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      })),
+    });
+  }
+  if (!isValidInterval(result.data.timeframe)) {
+    throw new ValidationError("Unsupported strategy timeframe", {
+      timeframe: result.data.timeframe,
+    });
+  }
+  return result.data;
+}
+
+/**
+ * Parse a strategy file. YAML is a superset of JSON, but JSON sources are
+ * parsed strictly so their errors point at the JSON.
+ */
+export function parseStrategySource(
+  source: string,
+  format: StrategyFormat
+): StrategyDefinition {
+  let value: unknown;
+  try {
+    value = format === "json" ? JSON.parse(source) : YAML.parse(source);
+  } catch (error) {
+    throw new ValidationError(`Strategy is not valid ${format.toUpperCase()}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  return validateStrategyDefinition(value);
+}
+
+export function serializeStrategy(
+  definition: StrategyDefinition,
+  format: StrategyFormat
+): string {
+  return format === "json"
+    ? `${JSON.stringify(definition, null, 2)}\n`
+    : YAML.stringify(definition);
+}
+
+/**
+ * Evaluates saved strategy definitions against live candles, for alerts and
+ * the chat
+ */
+export class StrategyService {
+  /**
+   * Entry and exit signals on the last closed candle of the strategy
+   * timeframe
+   */
+  async getSignals(
+    definition: StrategyDefinition,
+    symbol: string
+  ): Promise<StrategySignals> {
+    const candles = await getKlines(
+      symbol,
+      definition.timeframe,
+      SIGNAL_CANDLES
+    );
+    // The last candle is still forming
+    const closed = candles.slice(0, -1);
+    const strategy = compileStrategy(closed, definition.timeframe, definition);
+    if (closed.length < strategy.lookback + 2) {
+      throw new ValidationError("Not enough candles for the strategy", {
+        candles: closed.length,
+        needed: strategy.lookback + 2,
+      });
+    }
+
+    const index = closed.length - 1;
+    const price = closed[index].close;
+    return {
+      symbol: normalizeSymbol(symbol),
+      timeframe: definition.timeframe,
+      time: closed[index].time,
+      price,
+      entry: strategy.shouldEnter(index),
+      exit: strategy.shouldExit(index),
+      stopLoss: strategy.getStopPrice(index, price),
+      takeProfit: strategy.getTargetPrice(index, price),
+      rules: describeStrategy(definition),
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+export const strategyService = new StrategyService();
@@ -0,0 +1,282 @@
+import WebSocket from "ws";
+import { alignOpenTime } from "../utils/intervals";
+
+/**
+ * Upstream market feed delivering messages in the Binance combined stream
+ * format: a stream name such as "btcusdt@ticker" plus its raw payload.
+ */
+export interface StreamFeed {
+  onMessage(handler: (stream: string, payload: any) => void): void;
+  subscribe(streams: string[]): void;
+  unsubscribe(streams: string[]): void;
+  close(): void;
+}
+
+const BINANCE_STREAM_URL =
+  process.env.BINANCE_STREAM_URL || "wss://stream.binance.com:9443/stream";
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Single WebSocket connection to the Binance combined stream endpoint.
+ * Subscriptions are sent as SUBSCRIBE/UNSUBSCRIBE messages and replayed
+ * after a reconnect.
+ */
+export class BinanceStreamFeed implements StreamFeed {
+  private socket: WebSocket | null = null;
+  private streams = new Set<string>();
+  private handler: ((stream: string, payload: any) => void) | null = null;
+  private requestId = 0;
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(private readonly url: string = BINANCE_STREAM_URL) {}
+
+  onMessage(handler: (stream: string, payload: any) => void): void {
+    this.handler = handler;
+  }
+
+  subscribe(streams: string[]): void {
+    streams.forEach((stream) => this.streams.add(stream));
+    if (!this.socket) {
+      this.connect();
+    } else {
+      this.send("SUBSCRIBE", streams);
+    }
+  }
+
+  unsubscribe(streams: string[]): void {
+    streams.forEach((stream) => this.streams.delete(stream));
+    this.send("UNSUBSCRIBE", streams);
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private connect(): void {
+    this.closed = false;
+    console.log("Connecting to Binance market stream...");
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.on("open", () => {
+      this.reconnectAttempts = 0;
+      this.send("SUBSCRIBE", Array.from(this.streams));
+    });
+
+    socket.on("message", (raw) => {
+      try {
+        const message = JSON.parse(raw.toString());
+        // Acknowledgements for SUBSCRIBE requests carry no stream
+        if (message.stream && message.data) {
+          this.handler?.(message.stream, message.data);
+        }
+      } catch (error) {
+        console.warn("Invalid message from Binance stream:", error);
+      }
+    });
+
+    socket.on("error", (error) => {
+      console.error("Binance stream error:", error.message);
+    });
+
+    socket.on("close", () => {
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+      if (!this.closed && this.streams.size > 0) {
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(
+      1000 * 2 ** this.reconnectAttempts,
+      MAX_RECONNECT_DELAY_MS
+    );
+    this.reconnectAttempts++;
+    console.log(`Reconnecting to Binance stream in ${delay}ms...`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private send(method: "SUBSCRIBE" | "UNSUBSCRIBE", streams: string[]): void {
+    if (!streams.length || this.socket?.readyState !== WebSocket.OPEN) return;
+    this.socket.send(
+      JSON.stringify({ method, params: streams, id: ++this.requestId })
+    );
+  }
+}
+
+interface FakeKline {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  trades: number;
+}
+
+/**
+ * Local random-walk feed producing Binance-shaped payloads. Used for
+ * development and offline demos where the exchange is unreachable.
+ */
+export class FakeStreamFeed implements StreamFeed {
+  private streams = new Set<string>();
+  private handler: ((stream: string, payload: any) => void) | null = null;
+  private prices = new Map<string, number>();
+  private klines = new Map<string, FakeKline>();
+  private timer: NodeJS.Timeout | null = null;
+  private tradeId = 0;
+
+  constructor(private readonly tickMs: number = 1000) {}
+
+  onMessage(handler: (stream: string, payload: any) => void): void {
+    this.handler = handler;
+  }
+
+  subscribe(streams: string[]): void {
+    streams.forEach((stream) => this.streams.add(stream));
+    if (!this.timer) {
+      this.timer = setInterval(() => this.tick(), this.tickMs);
+    }
+  }
+
+  unsubscribe(streams: string[]): void {
+    streams.forEach((stream) => {
+      this.streams.delete(stream);
+      this.klines.delete(stream);
+    });
+  }
+
+  close(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    for (const stream of this.streams) {
+      const [pair, channel] = stream.split("@");
+      const symbol = pair.toUpperCase();
+      const price = this.nextPrice(symbol);
+
+      if (channel === "ticker") {
+        this.emit(stream, {
+          e: "24hrTicker",
+          E: now,
+          s: symbol,
+          p: (price - 100).toFixed(8),
+          P: (price - 100).toFixed(2),
+          c: price.toFixed(8),
+          h: Math.max(price, 100).toFixed(8),
+          l: Math.min(price, 100).toFixed(8),
+          v: (Math.random() * 1000).toFixed(8),
+          q: (Math.random() * 100000).toFixed(8),
+        });
+      } else if (channel === "trade") {
+        this.emit(stream, {
+          e: "trade",
+          E: now,
+          s: symbol,
+          t: ++this.tradeId,
+          p: price.toFixed(8),
+          q: (Math.random() * 2).toFixed(8),
+          T: now,
+          m: Math.random() > 0.5,
+        });
+      } else if (channel.startsWith("kline_")) {
+        const interval = channel.slice("kline_".length);
+        this.emitKline(stream, symbol, interval, price, now);
+      }
+    }
+  }
+
+  private emitKline(
+    stream: string,
+    symbol: string,
+    interval: string,
+    price: number,
+    now: number
+  ): void {
+    const openTime = alignOpenTime(now, interval);
+    let kline = this.klines.get(stream);
+
+    // Close out the previous candle once its interval has passed
+    if (kline && kline.openTime !== openTime) {
+      this.emit(stream, this.toKlinePayload(symbol, interval, kline, true));
+      kline = undefined;
+    }
+
+    if (!kline) {
+      kline = {
+        openTime,
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: 0,
+        trades: 0,
+      };
+      this.klines.set(stream, kline);
+    }
+
+    kline.high = Math.max(kline.high, price);
+    kline.low = Math.min(kline.low, price);
+    kline.close = price;
+    kline.volume += Math.random() * 2;
+    kline.trades++;
+
+    this.emit(stream, this.toKlinePayload(symbol, interval, kline, false));
+  }
+
+  private toKlinePayload(
+    symbol: string,
+    interval: string,
+    kline: FakeKline,
+    isClosed: boolean
+  ) {
+    return {
+      e: "kline",
+      E: Date.now(),
+      s: symbol,
+      k: {
+        t: kline.openTime,
+        s: symbol,
+        i: interval,
+        o: kline.open.toFixed(8),
+        h: kline.high.toFixed(8),
+        l: kline.low.toFixed(8),
+        c: kline.close.toFixed(8),
+        v: kline.volume.toFixed(8),
+        n: kline.trades,
+        x: isClosed,
+      },
+    };
+  }
+
+  private nextPrice(symbol: string): number {
+    const previous = this.prices.get(symbol) ?? 100;
+    const next = previous * (1 + (Math.random() - 0.5) * 0.002);
+    this.prices.set(symbol, next);
+    return next;
+  }
+
+  private emit(stream: string, payload: any): void {
+    this.handler?.(stream, payload);
+  }
+}
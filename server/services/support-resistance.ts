@@ -0,0 +1,359 @@
+import {
+  CandleStick,
+  LevelType,
+  Pivot,
+  PriceChannel,
+  PriceLevel,
+  SupportResistanceAnalysis,
+  Trendline,
+} from "../types/market";
+import { calculateATR } from "../utils/technical-indicators";
+
+// Candles on each side a swing high or low has to beat
+export const DEFAULT_PIVOT_STRENGTH = 3;
+
+// Zones returned, strongest first
+const DEFAULT_MAX_LEVELS = 8;
+
+// Zone tolerance as a multiple of ATR, used for clustering and line touches
+const ATR_PERIOD = 14;
+const TOLERANCE_ATR_MULTIPLE = 0.5;
+
+// Touches at which a zone scores full marks for touches
+const FULL_STRENGTH_TOUCHES = 4;
+
+// Share of the zone strength from touches and recency
+const LEVEL_WEIGHTS = { touches: 0.7, recency: 0.3 };
+
+// Recent pivots of each type tried as trendline anchors
+const TRENDLINE_PIVOTS = 8;
+
+// Largest change in the gap between two lines, relative to the gap, for them
+// to count as a channel
+const CHANNEL_PARALLEL_TOLERANCE = 0.25;
+
+export interface SupportResistanceOptions {
+  pivotStrength?: number;
+  maxLevels?: number;
+}
+
+// A trendline by candle index, converted to times at the end
+interface FittedLine {
+  type: LevelType;
+  startIndex: number;
+  startPrice: number;
+  slope: number;
+  touches: number;
+}
+
+function priceAt(line: FittedLine, index: number): number {
+  return line.startPrice + line.slope * (index - line.startIndex);
+}
+
+/**
+ * Find swing highs and lows: candles whose high (or low) beats the
+ * `strength` candles on each side. Equal values on the left don't count, so
+ * a flat top yields a single pivot at its first candle.
+ */
+export function findPivots(
+  candles: CandleStick[],
+  strength: number = DEFAULT_PIVOT_STRENGTH
+): Pivot[] {
+  const pivots: Pivot[] = [];
+
+  for (let i = strength; i < candles.length - strength; i++) {
+    let isHigh = true;
+    let isLow = true;
+    for (let j = i - strength; j <= i + strength && (isHigh || isLow); j++) {
+      if (j === i) continue;
+      const left = j < i;
+      if (
+        left
+          ? candles[j].high >= candles[i].high
+          : candles[j].high > candles[i].high
+      ) {
+        isHigh = false;
+      }
+      if (
+        left
+          ? candles[j].low <= candles[i].low
+          : candles[j].low < candles[i].low
+      ) {
+        isLow = false;
+      }
+    }
+
+    if (isHigh) {
+      pivots.push({
+        type: "high",
+        index: i,
+        time: candles[i].time,
+        price: candles[i].high,
+      });
+    }
+    if (isLow) {
+      pivots.push({
+        type: "low",
+        index: i,
+        time: candles[i].time,
+        price: candles[i].low,
+      });
+    }
+  }
+
+  return pivots;
+}
+
+/**
+ * Price distance within which pivots share a zone or touch a line: half the
+ * latest ATR, or half the average range when there are too few candles.
+ */
+function getTolerance(candles: CandleStick[]): number {
+  const atr = calculateATR(candles, ATR_PERIOD);
+  const latest = atr[atr.length - 1];
+  if (latest !== undefined && latest > 0) {
+    return latest * TOLERANCE_ATR_MULTIPLE;
+  }
+  const ranges = candles.map((candle) => candle.high - candle.low);
+  const averageRange =
+    ranges.reduce((sum, range) => sum + range, 0) / (ranges.length || 1);
+  return averageRange * TOLERANCE_ATR_MULTIPLE;
+}
+
+/**
+ * Cluster pivot prices into zones. Pivots are taken in price order and join
+ * the current zone while they stay within twice the tolerance of its bottom.
+ */
+function clusterLevels(
+  pivots: Pivot[],
+  price: number,
+  tolerance: number,
+  candleCount: number
+): PriceLevel[] {
+  const sorted = [...pivots].sort((a, b) => a.price - b.price);
+  const clusters: Pivot[][] = [];
+
+  for (const pivot of sorted) {
+    const current = clusters[clusters.length - 1];
+    if (current && pivot.price - current[0].price <= tolerance * 2) {
+      current.push(pivot);
+    } else {
+      clusters.push([pivot]);
+    }
+  }
+
+  return clusters.map((cluster) => {
+    const prices = cluster.map((pivot) => pivot.price);
+    const mean = prices.reduce((sum, value) => sum + value, 0) / prices.length;
+    const lastIndex = Math.max(...cluster.map((pivot) => pivot.index));
+    const recency = candleCount > 1 ? lastIndex / (candleCount - 1) : 1;
+
+    return {
+      type: mean < price ? "support" : "resistance",
+      price: mean,
+      low: Math.min(...prices),
+      high: Math.max(...prices),
+      touches: cluster.length,
+      firstTime: Math.min(...cluster.map((pivot) => pivot.time)),
+      lastTime: Math.max(...cluster.map((pivot) => pivot.time)),
+      strength:
+        Math.min(cluster.length / FULL_STRENGTH_TOUCHES, 1) *
+          LEVEL_WEIGHTS.touches +
+        recency * LEVEL_WEIGHTS.recency,
+    };
+  });
+}
+
+/**
+ * Fit a trendline through pairs of recent swing lows (support) or highs
+ * (resistance). Lines that any later close breaks by more than the tolerance
+ * are dropped; of the rest, the one touching the most pivots wins, with ties
+ * going to the most recent line.
+ */
+function fitTrendline(
+  candles: CandleStick[],
+  pivots: Pivot[],
+  type: LevelType,
+  tolerance: number
+): FittedLine | null {
+  const anchors = pivots
+    .filter((pivot) => pivot.type === (type === "support" ? "low" : "high"))
+    .slice(-TRENDLINE_PIVOTS);
+  let best: FittedLine | null = null;
+  let bestEnd = -1;
+
+  for (let a = 0; a < anchors.length; a++) {
+    for (let b = a + 1; b < anchors.length; b++) {
+      const start = anchors[a];
+      const end = anchors[b];
+      const line: FittedLine = {
+        type,
+        startIndex: start.index,
+        startPrice: start.price,
+        slope: (end.price - start.price) / (end.index - start.index),
+        touches: 0,
+      };
+
+      let broken = false;
+      for (let i = start.index; i < candles.length && !broken; i++) {
+        const distance = candles[i].close - priceAt(line, i);
+        broken =
+          type === "support" ? distance < -tolerance : distance > tolerance;
+      }
+      if (broken) continue;
+
+      line.touches = anchors
+        .slice(a)
+        .filter(
+          (pivot) =>
+            Math.abs(pivot.price - priceAt(line, pivot.index)) <= tolerance
+        ).length;
+
+      if (
+        !best ||
+        line.touches > best.touches ||
+        (line.touches === best.touches && end.index > bestEnd)
+      ) {
+        best = line;
+        bestEnd = end.index;
+      }
+    }
+  }
+
+  return best;
+}
+
+function toTrendline(line: FittedLine, candles: CandleStick[]): Trendline {
+  const lastIndex = candles.length - 1;
+  return {
+    type: line.type,
+    startTime: candles[line.startIndex].time,
+    startPrice: line.startPrice,
+    endTime: candles[lastIndex].time,
+    endPrice: priceAt(line, lastIndex),
+    slope: line.slope,
+    touches: line.touches,
+  };
+}
+
+/**
+ * Two trendlines form a channel when the gap between them stays roughly the
+ * same from where both exist to the last candle
+ */
+function findChannel(
+  support: FittedLine,
+  resistance: FittedLine,
+  candles: CandleStick[],
+  tolerance: number
+): PriceChannel | null {
+  const lastIndex = candles.length - 1;
+  const overlapStart = Math.max(support.startIndex, resistance.startIndex);
+  const gapStart =
+    priceAt(resistance, overlapStart) - priceAt(support, overlapStart);
+  const gapEnd = priceAt(resistance, lastIndex) - priceAt(support, lastIndex);
+
+  if (gapStart <= 0 || gapEnd <= 0) return null;
+  if (
+    Math.abs(gapEnd - gapStart) >
+    CHANNEL_PARALLEL_TOLERANCE * Math.max(gapStart, gapEnd)
+  ) {
+    return null;
+  }
+
+  // Sideways when the midline moves less than the tolerance over the overlap
+  const slope = (support.slope + resistance.slope) / 2;
+  const move = slope * (lastIndex - overlapStart);
+  const direction =
+    Math.abs(move) < tolerance ? "sideways" : move > 0 ? "up" : "down";
+
+  return {
+    direction,
+    support: toTrendline(support, candles),
+    resistance: toTrendline(resistance, candles),
+    width: (gapEnd / candles[lastIndex].close) * 100,
+  };
+}
+
+/**
+ * Detect support and resistance zones, trendlines and a channel from candles,
+ * oldest first. Zones are relative to the last close.
+ */
+export function analyzeSupportResistance(
+  candles: CandleStick[],
+  options: SupportResistanceOptions = {}
+): Omit<SupportResistanceAnalysis, "symbol" | "interval" | "timestamp"> {
+  const {
+    pivotStrength = DEFAULT_PIVOT_STRENGTH,
+    maxLevels = DEFAULT_MAX_LEVELS,
+  } = options;
+  const price = candles.length ? candles[candles.length - 1].close : 0;
+  const empty = {
+    price,
+    pivots: [],
+    levels: [],
+    nearestSupport: null,
+    nearestResistance: null,
+    trendlines: { support: null, resistance: null },
+    channel: null,
+  };
+  if (candles.length < pivotStrength * 2 + 1) {
+    return empty;
+  }
+
+  const tolerance = getTolerance(candles);
+  const pivots = findPivots(candles, pivotStrength);
+  const levels = clusterLevels(pivots, price, tolerance, candles.length)
+    .sort((a, b) => b.strength - a.strength)
+    .slice(0, maxLevels);
+
+  const nearest = (type: LevelType) =>
+    levels
+      .filter((level) => level.type === type)
+      .sort(
+        (a, b) => Math.abs(price - a.price) - Math.abs(price - b.price)
+      )[0] ?? null;
+
+  const support = fitTrendline(candles, pivots, "support", tolerance);
+  const resistance = fitTrendline(candles, pivots, "resistance", tolerance);
+
+  return {
+    price,
+    pivots,
+    levels,
+    nearestSupport: nearest("support"),
+    nearestResistance: nearest("resistance"),
+    trendlines: {
+      support: support && toTrendline(support, candles),
+      resistance: resistance && toTrendline(resistance, candles),
+    },
+    channel:
+      support && resistance
+        ? findChannel(support, resistance, candles, tolerance)
+        : null,
+  };
+}
+
+/**
+ * One line summary of the key levels for analysis text
+ */
+export function describeSupportResistance(
+  analysis: Pick<
+    SupportResistanceAnalysis,
+    "nearestSupport" | "nearestResistance" | "channel"
+  >
+): string {
+  const level = (label: string, value: PriceLevel | null, side: string) =>
+    value
+      ? `${label} ${value.price.toFixed(2)} (${value.touches} touch${
+          value.touches === 1 ? "" : "es"
+        })`
+      : `no ${label} ${side}`;
+  const parts = [
+    level("support", analysis.nearestSupport, "below"),
+    level("resistance", analysis.nearestResistance, "above"),
+  ];
+  if (analysis.channel) {
+    parts.push(`${analysis.channel.direction} channel`);
+  }
+  return parts.join(", ");
+}
@@ -0,0 +1,308 @@
+import { readFileSync, promises as fs } from "fs";
+import path from "path";
+import { SEED_ASSETS } from "../config/symbol-seed";
+import {
+  AssetMetadata,
+  PairMetadata,
+  ParsedSymbol,
+  SymbolRegistrySnapshot,
+} from "../types/symbols";
+import { exchangeRegistry } from "./exchanges/exchange-registry";
+
+// Metadata changes rarely; refresh daily and back off after failed syncs
+const SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const RETRY_DELAY_MS = 15 * 60 * 1000;
+
+// Quote assets recognised in concatenated pairs before any pairs are synced
+const DEFAULT_QUOTE_ASSETS = [
+  "USDT",
+  "USDC",
+  "FDUSD",
+  "BUSD",
+  "TUSD",
+  "BTC",
+  "ETH",
+  "BNB",
+  "EUR",
+  "TRY",
+];
+
+// Separators accepted between base and quote, e.g. ETH-BTC or SOL/USDC
+const PAIR_SEPARATOR = /[-/_:]/;
+
+/**
+ * Central store of asset and trading pair metadata.
+ *
+ * Starts from a small built-in seed (and the last persisted snapshot, when a
+ * file is configured) and syncs from the exchange registry: trading pairs
+ * and tick sizes from the venues' symbol lists, names, provider IDs and
+ * circulating supply from the asset lists. Lookups are synchronous and
+ * trigger a background sync when the data is stale.
+ */
+export class SymbolRegistry {
+  private assets = new Map<string, AssetMetadata>();
+  private pairs = new Map<string, PairMetadata>();
+  private syncedAt: number | null = null;
+  private lastAttempt = 0;
+  private syncing: Promise<void> | null = null;
+
+  constructor(private readonly filePath: string | null) {
+    for (const asset of SEED_ASSETS) {
+      this.assets.set(asset.symbol, { ...asset });
+    }
+    this.load();
+  }
+
+  getAsset(symbol: string): AssetMetadata | undefined {
+    this.refreshIfStale();
+    return this.assets.get(symbol.toUpperCase());
+  }
+
+  /**
+   * Get the display name for an asset, falling back to its ticker
+   */
+  getName(symbol: string): string {
+    return this.getAsset(symbol)?.name ?? symbol.toUpperCase();
+  }
+
+  /**
+   * Get an asset's identifier at another provider, e.g. its CoinGecko ID
+   */
+  getProviderId(symbol: string, provider: string): string | undefined {
+    return this.getAsset(symbol)?.providerIds[provider];
+  }
+
+  getCoinGeckoId(symbol: string): string {
+    return this.getProviderId(symbol, "coingecko") ?? symbol.toLowerCase();
+  }
+
+  getCirculatingSupply(symbol: string): number | undefined {
+    return this.getAsset(symbol)?.circulatingSupply;
+  }
+
+  /**
+   * Market cap at the given price, when the circulating supply is known
+   */
+  getMarketCap(symbol: string, price: number): number | undefined {
+    const supply = this.getCirculatingSupply(symbol);
+    return supply !== undefined ? supply * price : undefined;
+  }
+
+  /**
+   * Last known USD price for an asset, used when live data is unavailable
+   */
+  getReferencePrice(symbol: string): number | undefined {
+    return this.getAsset(symbol)?.referencePrice;
+  }
+
+  getPair(symbol: string): PairMetadata | undefined {
+    this.refreshIfStale();
+    return this.pairs.get(symbol.toUpperCase());
+  }
+
+  /**
+   * Resolve the base asset of a trading pair, or return the input when it
+   * already is an asset ticker
+   */
+  resolveBaseAsset(symbol: string): string {
+    return this.parseSymbol(symbol).base;
+  }
+
+  /**
+   * Parse user input into a base/quote pair. Accepts separated pairs
+   * (ETH-BTC, SOL/USDC), concatenated pairs (ETHBTC) and bare assets, which
+   * are quoted in defaultQuote.
+   */
+  parseSymbol(input: string, defaultQuote: string = "USDT"): ParsedSymbol {
+    const upper = input.trim().toUpperCase();
+    const toParsed = (base: string, quote: string): ParsedSymbol => ({
+      base,
+      quote,
+      pair: `${base}${quote}`,
+    });
+
+    const parts = upper.split(PAIR_SEPARATOR).filter(Boolean);
+    if (parts.length === 2) {
+      return toParsed(parts[0], parts[1]);
+    }
+
+    const pair = this.getPair(upper);
+    if (pair) {
+      return toParsed(pair.baseAsset, pair.quoteAsset);
+    }
+
+    // A known asset (e.g. WBTC) must not be split on a quote suffix
+    if (this.assets.has(upper)) {
+      return toParsed(upper, defaultQuote.toUpperCase());
+    }
+
+    const quote = this.getQuoteAssets()
+      .sort((a, b) => b.length - a.length)
+      .find((candidate) => upper.endsWith(candidate));
+    if (quote && upper.length - quote.length >= 2) {
+      return toParsed(upper.slice(0, -quote.length), quote);
+    }
+
+    return toParsed(upper, defaultQuote.toUpperCase());
+  }
+
+  /**
+   * Quote assets of the synced pairs, or a default set before the first sync
+   */
+  getQuoteAssets(): string[] {
+    const quotes = new Set<string>();
+    for (const pair of this.pairs.values()) {
+      quotes.add(pair.quoteAsset);
+    }
+    return quotes.size ? Array.from(quotes) : [...DEFAULT_QUOTE_ASSETS];
+  }
+
+  listPairs(quoteAsset?: string): PairMetadata[] {
+    this.refreshIfStale();
+    const quote = quoteAsset?.toUpperCase();
+    return Array.from(this.pairs.values()).filter(
+      (pair) => !quote || pair.quoteAsset === quote
+    );
+  }
+
+  listAssets(): AssetMetadata[] {
+    this.refreshIfStale();
+    return Array.from(this.assets.values()).sort(
+      (a, b) =>
+        (a.marketCapRank ?? Infinity) - (b.marketCapRank ?? Infinity) ||
+        a.symbol.localeCompare(b.symbol)
+    );
+  }
+
+  getStatus() {
+    return {
+      syncedAt: this.syncedAt ? new Date(this.syncedAt).toISOString() : null,
+      assets: this.assets.size,
+      pairs: this.pairs.size,
+    };
+  }
+
+  /**
+   * Pull pair and asset metadata from the exchanges. Each list is applied
+   * independently, so one venue being down does not block the other.
+   */
+  async sync(): Promise<void> {
+    if (this.syncing) {
+      return this.syncing;
+    }
+
+    this.lastAttempt = Date.now();
+    this.syncing = (async () => {
+      const [symbols, assets] = await Promise.allSettled([
+        exchangeRegistry.getSymbols(),
+        exchangeRegistry.getAssets(),
+      ]);
+
+      if (symbols.status === "fulfilled") {
+        for (const info of symbols.value.data) {
+          const existing = this.pairs.get(info.symbol);
+          this.pairs.set(info.symbol, {
+            ...info,
+            providerIds: {
+              ...existing?.providerIds,
+              [symbols.value.source]: info.symbol,
+            },
+          });
+        }
+      } else {
+        console.warn("Symbol registry pair sync failed:", symbols.reason);
+      }
+
+      if (assets.status === "fulfilled") {
+        // Lists are ranked by market cap, so the first coin using a ticker wins
+        const seen = new Set<string>();
+        for (const info of assets.value.data) {
+          if (seen.has(info.symbol)) continue;
+          seen.add(info.symbol);
+
+          const existing = this.assets.get(info.symbol);
+          this.assets.set(info.symbol, {
+            symbol: info.symbol,
+            name: info.name,
+            providerIds: {
+              ...existing?.providerIds,
+              [assets.value.source]: info.providerId,
+            },
+            circulatingSupply:
+              info.circulatingSupply ?? existing?.circulatingSupply,
+            marketCapRank: info.marketCapRank,
+            referencePrice: info.price ?? existing?.referencePrice,
+          });
+        }
+      } else {
+        console.warn("Symbol registry asset sync failed:", assets.reason);
+      }
+
+      if (symbols.status === "fulfilled" || assets.status === "fulfilled") {
+        this.syncedAt = Date.now();
+        await this.persist();
+        console.log(
+          `Symbol registry synced: ${this.assets.size} assets, ${this.pairs.size} pairs`
+        );
+      }
+    })().finally(() => {
+      this.syncing = null;
+    });
+
+    return this.syncing;
+  }
+
+  private refreshIfStale(): void {
+    const now = Date.now();
+    const stale = !this.syncedAt || now - this.syncedAt > SYNC_INTERVAL_MS;
+    if (!stale || this.syncing || now - this.lastAttempt < RETRY_DELAY_MS) {
+      return;
+    }
+
+    this.sync().catch((error) => {
+      console.error("Symbol registry sync error:", error);
+    });
+  }
+
+  private load(): void {
+    if (!this.filePath) return;
+
+    try {
+      const snapshot = JSON.parse(
+        readFileSync(this.filePath, "utf8")
+      ) as SymbolRegistrySnapshot;
+      for (const asset of snapshot.assets) {
+        this.assets.set(asset.symbol, asset);
+      }
+      for (const pair of snapshot.pairs) {
+        this.pairs.set(pair.symbol, pair);
+      }
+      this.syncedAt = snapshot.syncedAt;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error("Failed to load symbol registry snapshot:", error);
+      }
+    }
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.filePath) return;
+
+    try {
+      const snapshot: SymbolRegistrySnapshot = {
+        syncedAt: this.syncedAt,
+        assets: Array.from(this.assets.values()),
+        pairs: Array.from(this.pairs.values()),
+      };
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, JSON.stringify(snapshot));
+    } catch (error) {
+      console.error("Failed to persist symbol registry:", error);
+    }
+  }
+}
+
+export const symbolRegistry = new SymbolRegistry(
+  process.env.SYMBOL_REGISTRY_FILE ||
+    path.resolve(process.cwd(), "data/symbols.json")
+);
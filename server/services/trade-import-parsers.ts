@@ -0,0 +1,454 @@
+// Readers for exchange trade-history exports. Each turns the CSV records into
+// trades in the exchange's own terms: prices in the quote asset and fees in
+// whatever asset was charged. Conversion to the portfolio currency happens in
+// the import service.
+
+import type {
+  PortfolioTransactionType,
+  TradeImportFormat,
+  TradeImportQuery,
+} from "../../shared/schema";
+import type { SkippedImportRow } from "../../shared/types/portfolio";
+import { parseCsv } from "../utils/csv";
+import { ValidationError } from "../utils/errors";
+import { symbolRegistry } from "./symbol-registry";
+
+export interface ParsedTrade {
+  row: number;
+  id?: string; // Trade ID from the export, when it has one
+  type: PortfolioTransactionType;
+  asset: string;
+  quantity: number;
+  price?: number; // Per unit, in the quote asset
+  quote: string;
+  fee: number;
+  feeAsset: string;
+  executedAt: Date;
+  note?: string;
+}
+
+export interface ParsedTradeFile {
+  rows: number;
+  trades: ParsedTrade[];
+  skipped: SkippedImportRow[];
+}
+
+type RowReader = (
+  get: (column: string) => string,
+  row: number
+) => ParsedTrade[];
+
+interface FormatReader {
+  label: string;
+  // Headers that identify the header row
+  required: string[];
+  read: RowReader;
+}
+
+// Kraken's legacy asset codes
+const KRAKEN_ASSETS: Record<string, string> = {
+  XXBT: "BTC",
+  XBT: "BTC",
+  XETH: "ETH",
+  XXDG: "DOGE",
+  XDG: "DOGE",
+  XXRP: "XRP",
+  XLTC: "LTC",
+  XXLM: "XLM",
+  XETC: "ETC",
+  XXMR: "XMR",
+  XZEC: "ZEC",
+  XMLN: "MLN",
+  XREP: "REP",
+  ZUSD: "USD",
+  ZEUR: "EUR",
+  ZGBP: "GBP",
+  ZCAD: "CAD",
+  ZJPY: "JPY",
+  ZAUD: "AUD",
+};
+
+// Quote codes Kraken pairs end with, longest first
+const KRAKEN_QUOTES = [
+  "ZUSD",
+  "ZEUR",
+  "ZGBP",
+  "ZCAD",
+  "ZJPY",
+  "ZAUD",
+  "XXBT",
+  "XETH",
+  "USDT",
+  "USDC",
+  "USD",
+  "EUR",
+  "GBP",
+  "CAD",
+  "JPY",
+  "AUD",
+  "CHF",
+  "XBT",
+  "ETH",
+  "DAI",
+];
+
+const COINBASE_TYPES: Record<string, PortfolioTransactionType> = {
+  buy: "buy",
+  "advanced trade buy": "buy",
+  sell: "sell",
+  "advanced trade sell": "sell",
+  receive: "transfer_in",
+  deposit: "transfer_in",
+  "rewards income": "transfer_in",
+  "staking income": "transfer_in",
+  "learning reward": "transfer_in",
+  "inflation reward": "transfer_in",
+  "coinbase earn": "transfer_in",
+  send: "transfer_out",
+  withdrawal: "transfer_out",
+};
+
+const GENERIC_TYPES: Record<string, PortfolioTransactionType> = {
+  buy: "buy",
+  sell: "sell",
+  transfer_in: "transfer_in",
+  "transfer in": "transfer_in",
+  deposit: "transfer_in",
+  receive: "transfer_in",
+  transfer_out: "transfer_out",
+  "transfer out": "transfer_out",
+  withdrawal: "transfer_out",
+  withdraw: "transfer_out",
+  send: "transfer_out",
+};
+
+function parseNumber(value: string, column: string): number {
+  // Currency signs and thousands separators, e.g. "$1,234.50"
+  const number = Number(value.replace(/[^\d.eE+-]/g, ""));
+  if (!value.trim() || !Number.isFinite(number)) {
+    throw new Error(`Unreadable ${column} "${value}"`);
+  }
+  return number;
+}
+
+function parseOptionalNumber(value: string, column: string): number {
+  return value.trim() ? parseNumber(value, column) : 0;
+}
+
+/**
+ * Epoch seconds or milliseconds, ISO 8601, or "YYYY-MM-DD hh:mm:ss" with an
+ * optional "UTC", which exports mean as UTC
+ */
+function parseTime(value: string): Date {
+  const text = value.trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const number = Number(text);
+    return new Date(number < 1e12 ? number * 1000 : number);
+  }
+  const local = text.replace(/\s*UTC$/i, "").replace(" ", "T");
+  const date = new Date(
+    /[zZ]|[+-]\d\d:?\d\d$/.test(local) ? local : `${local}Z`
+  );
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Unreadable date "${value}"`);
+  }
+  return date;
+}
+
+// Binance amounts with the asset appended, e.g. "0.00100000BTC"
+function splitAmount(value: string, column: string) {
+  const match = value
+    .trim()
+    .match(/^(-?[\d.,]+(?:[eE][+-]?\d+)?)\s*([A-Za-z0-9]+)$/);
+  if (!match) throw new Error(`Unreadable ${column} "${value}"`);
+  return {
+    amount: parseNumber(match[1], column),
+    asset: match[2].toUpperCase(),
+  };
+}
+
+function parseSide(value: string): "buy" | "sell" {
+  const side = value.trim().toLowerCase();
+  if (side !== "buy" && side !== "sell") {
+    throw new Error(`Unknown side "${value}"`);
+  }
+  return side;
+}
+
+function krakenAsset(code: string): string {
+  const upper = code.toUpperCase();
+  return KRAKEN_ASSETS[upper] ?? upper;
+}
+
+// Kraken pairs, e.g. XXBTZUSD, SOLUSD or XBT/USD
+function parseKrakenPair(value: string): { base: string; quote: string } {
+  const pair = value.trim().toUpperCase();
+  if (pair.includes("/")) {
+    const [base, quote] = pair.split("/");
+    return { base: krakenAsset(base), quote: krakenAsset(quote) };
+  }
+  const quote = KRAKEN_QUOTES.find(
+    (candidate) => pair.endsWith(candidate) && pair.length > candidate.length
+  );
+  if (!quote) throw new Error(`Unknown pair "${value}"`);
+  return {
+    base: krakenAsset(pair.slice(0, -quote.length)),
+    quote: krakenAsset(quote),
+  };
+}
+
+const binanceReader: FormatReader = {
+  label: "Binance",
+  required: ["date(utc)", "price", "fee"],
+  read: (get, row) => {
+    const side = parseSide(get("side") || get("type"));
+    const executedAt = parseTime(get("date(utc)"));
+    const price = parseNumber(get("price"), "price");
+
+    // Current exports carry the asset on each amount, older ones a market
+    // column and a fee coin
+    if (get("executed")) {
+      const executed = splitAmount(get("executed"), "executed");
+      const amount = splitAmount(get("amount"), "amount");
+      const fee = splitAmount(get("fee"), "fee");
+      return [
+        {
+          row,
+          type: side,
+          asset: executed.asset,
+          quantity: executed.amount,
+          price,
+          quote: amount.asset,
+          fee: fee.amount,
+          feeAsset: fee.asset,
+          executedAt,
+        },
+      ];
+    }
+
+    const { base, quote } = symbolRegistry.parseSymbol(get("market"));
+    return [
+      {
+        row,
+        type: side,
+        asset: base,
+        quantity: parseNumber(get("amount"), "amount"),
+        price,
+        quote,
+        fee: parseOptionalNumber(get("fee"), "fee"),
+        feeAsset: (get("fee coin") || quote).toUpperCase(),
+        executedAt,
+      },
+    ];
+  },
+};
+
+const coinbaseReader: FormatReader = {
+  label: "Coinbase",
+  required: ["timestamp", "transaction type", "asset", "quantity transacted"],
+  read: (get, row) => {
+    const kind = get("transaction type").toLowerCase();
+    const asset = get("asset").toUpperCase();
+    const quantity = Math.abs(
+      parseNumber(get("quantity transacted"), "quantity")
+    );
+    const quote = (
+      get("spot price currency") ||
+      get("price currency") ||
+      "USD"
+    ).toUpperCase();
+    const priceText =
+      get("spot price at transaction") || get("price at transaction");
+    const price = priceText ? parseNumber(priceText, "price") : undefined;
+    const fee = Math.abs(parseOptionalNumber(get("fees and/or spread"), "fee"));
+    const executedAt = parseTime(get("timestamp"));
+    const id = get("id") || undefined;
+    const note = get("notes") || undefined;
+
+    // A sell of one asset and a buy of another at the same value
+    if (kind === "convert") {
+      const match = note?.match(
+        /converted\s+([\d.,]+)\s+(\w+)\s+to\s+([\d.,]+)\s+(\w+)/i
+      );
+      if (!match || price === undefined) {
+        throw new Error("Conversion notes don't name both assets");
+      }
+      const received = parseNumber(match[3], "quantity");
+      const value = quantity * price;
+      return [
+        {
+          row,
+          id: id && `${id}:sell`,
+          type: "sell",
+          asset,
+          quantity,
+          price,
+          quote,
+          fee,
+          feeAsset: quote,
+          executedAt,
+          note,
+        },
+        {
+          row,
+          id: id && `${id}:buy`,
+          type: "buy",
+          asset: match[4].toUpperCase(),
+          quantity: received,
+          price: value / received,
+          quote,
+          fee: 0,
+          feeAsset: quote,
+          executedAt,
+          note,
+        },
+      ];
+    }
+
+    const type = COINBASE_TYPES[kind];
+    if (!type) throw new Error(`Unsupported transaction type "${kind}"`);
+    return [
+      {
+        row,
+        id,
+        type,
+        asset,
+        quantity,
+        // Income and deposits are valued at the spot price when received
+        price: type === "transfer_out" ? undefined : price,
+        quote,
+        fee,
+        feeAsset: quote,
+        executedAt,
+        note,
+      },
+    ];
+  },
+};
+
+const krakenReader: FormatReader = {
+  label: "Kraken",
+  required: ["txid", "pair", "time", "type", "price", "fee", "vol"],
+  read: (get, row) => {
+    const { base, quote } = parseKrakenPair(get("pair"));
+    return [
+      {
+        row,
+        id: get("txid"),
+        type: parseSide(get("type")),
+        asset: base,
+        quantity: parseNumber(get("vol"), "vol"),
+        price: parseNumber(get("price"), "price"),
+        quote,
+        fee: parseOptionalNumber(get("fee"), "fee"),
+        feeAsset: quote,
+        executedAt: parseTime(get("time")),
+      },
+    ];
+  },
+};
+
+function genericReader(
+  query: TradeImportQuery,
+  currency: string
+): FormatReader {
+  const column = (name?: string) => name?.toLowerCase() ?? "";
+  return {
+    label: "CSV",
+    required: [query.date!, query.type!, query.asset!, query.quantity!].map(
+      column
+    ),
+    read: (get, row) => {
+      const kind = get(column(query.type)).toLowerCase();
+      const type = GENERIC_TYPES[kind];
+      if (!type) throw new Error(`Unknown transaction type "${kind}"`);
+      const quote = (get(column(query.quote)) || currency).toUpperCase();
+      const priceText = get(column(query.price));
+      return [
+        {
+          row,
+          id: get(column(query.id)) || undefined,
+          type,
+          asset: get(column(query.asset)).toUpperCase(),
+          quantity: Math.abs(
+            parseNumber(get(column(query.quantity)), "quantity")
+          ),
+          price: priceText ? parseNumber(priceText, "price") : undefined,
+          quote,
+          fee: Math.abs(parseOptionalNumber(get(column(query.fee)), "fee")),
+          feeAsset: (get(column(query.feeAsset)) || quote).toUpperCase(),
+          executedAt: parseTime(get(column(query.date))),
+        },
+      ];
+    },
+  };
+}
+
+const EXCHANGE_READERS: Record<
+  Exclude<TradeImportFormat, "generic">,
+  FormatReader
+> = {
+  binance: binanceReader,
+  coinbase: coinbaseReader,
+  kraken: krakenReader,
+};
+
+export function getFormatLabel(format: TradeImportFormat): string {
+  return format === "generic" ? "CSV" : EXCHANGE_READERS[format].label;
+}
+
+/**
+ * Read a trade-history export. Rows that can't be read are skipped with the
+ * reason; a file without the format's header row is rejected.
+ */
+export function parseTradeCsv(
+  text: string,
+  query: TradeImportQuery,
+  currency: string
+): ParsedTradeFile {
+  const reader =
+    query.format === "generic"
+      ? genericReader(query, query.currency ?? currency)
+      : EXCHANGE_READERS[query.format];
+  const records = parseCsv(text);
+
+  // Coinbase reports start with a few lines about the account
+  const headerIndex = records.findIndex((record) => {
+    const names = record.map((name) => name.trim().toLowerCase());
+    return reader.required.every((name) => names.includes(name));
+  });
+  if (headerIndex < 0) {
+    throw new ValidationError(
+      `No ${reader.label} header row with ${reader.required.join(", ")}`,
+      { format: query.format, required: reader.required }
+    );
+  }
+
+  const header = records[headerIndex].map((name) => name.trim().toLowerCase());
+  const result: ParsedTradeFile = { rows: 0, trades: [], skipped: [] };
+  records.slice(headerIndex + 1).forEach((record, i) => {
+    const row = headerIndex + i + 2;
+    const get = (column: string) => {
+      const index = column ? header.indexOf(column) : -1;
+      return index < 0 ? "" : (record[index] ?? "").trim();
+    };
+
+    result.rows++;
+    try {
+      for (const trade of reader.read(get, row)) {
+        if (!(trade.quantity > 0)) throw new Error("Quantity must be positive");
+        if (trade.price !== undefined && trade.price < 0) {
+          throw new Error("Price can't be negative");
+        }
+        result.trades.push(trade);
+      }
+    } catch (error) {
+      result.skipped.push({
+        row,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  return result;
+}
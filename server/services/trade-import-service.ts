@@ -0,0 +1,349 @@
+import { createHash } from "crypto";
+import type {
+  Portfolio,
+  PortfolioTransaction,
+  TradeImportQuery,
+} from "../../shared/schema";
+import type {
+  HoldingChange,
+  ImportedTransaction,
+  SkippedImportRow,
+  TradeImportPreview,
+} from "../../shared/types/portfolio";
+import { CandleStick } from "../types/market";
+import { storage } from "../storage";
+import { ValidationError } from "../utils/errors";
+import { currencyService } from "./currency-service";
+import { getKlinesRange } from "./market-service";
+import {
+  byExecution,
+  replayTransactions,
+  type AssetLedger,
+} from "./portfolio-service";
+import {
+  getFormatLabel,
+  parseTradeCsv,
+  type ParsedTrade,
+} from "./trade-import-parsers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Most transactions a single upload may hold
+const MAX_IMPORT_TRANSACTIONS = 20000;
+
+// Priced against USD without candles; exchange prices are USDT quoted
+const USD_PIVOTS = ["USD", "USDT"];
+
+interface ConvertedTrade {
+  row: number;
+  transaction: PortfolioTransaction;
+}
+
+// Decimal columns are written with their full scale
+function toDecimal(value: number): string {
+  return value.toFixed(8);
+}
+
+/**
+ * Prices assets in the portfolio currency at the time of a trade, from the
+ * daily close of their USDT pair. Assets without candles, like fiat
+ * currencies, use today's rate.
+ */
+class HistoricalPricer {
+  private candles = new Map<string, CandleStick[]>();
+  private usdRate: Promise<number>;
+
+  constructor(
+    private currency: string,
+    private startTime: number,
+    private endTime: number
+  ) {
+    this.usdRate = currencyService.getRate("USD", currency);
+  }
+
+  // Units of the portfolio currency per unit of the asset
+  async priceAt(asset: string, time: number): Promise<number> {
+    if (asset === this.currency) return 1;
+    if (USD_PIVOTS.includes(asset)) return this.usdRate;
+
+    const candles = await this.loadCandles(asset);
+    if (!candles.length) return currencyService.getRate(asset, this.currency);
+
+    let close = candles[0].close;
+    for (const candle of candles) {
+      if (candle.time > time) break;
+      close = candle.close;
+    }
+    return close * (await this.usdRate);
+  }
+
+  private async loadCandles(asset: string): Promise<CandleStick[]> {
+    let candles = this.candles.get(asset);
+    if (!candles) {
+      candles = await getKlinesRange(
+        asset,
+        "1d",
+        this.startTime - DAY_MS,
+        this.endTime
+      ).catch(() => []);
+      this.candles.set(asset, candles);
+    }
+    return candles;
+  }
+}
+
+// Holding totals before and after, for the assets the import changes
+function diffLedgers(
+  before: Map<string, AssetLedger>,
+  after: Map<string, AssetLedger>,
+  assets: Set<string>
+): HoldingChange[] {
+  return Array.from(assets)
+    .sort()
+    .map((asset) => {
+      const old = before.get(asset);
+      const updated = after.get(asset);
+      return {
+        asset,
+        quantityBefore: old?.quantity ?? 0,
+        quantityAfter: updated?.quantity ?? 0,
+        costBasisBefore: old?.costBasis ?? 0,
+        costBasisAfter: updated?.costBasis ?? 0,
+        realizedPnlBefore: old?.realizedPnl ?? 0,
+        realizedPnlAfter: updated?.realizedPnl ?? 0,
+      };
+    });
+}
+
+/**
+ * Imports exchange trade histories into portfolios. Prices and fees are
+ * converted to the portfolio currency at each trade's daily close; fees
+ * charged in the traded asset change the quantity received or given. Rows
+ * already imported, matched by trade ID or by their contents, are skipped.
+ */
+export class TradeImportService {
+  /**
+   * What importing the file would add and how it would change the holdings,
+   * without saving anything
+   */
+  async preview(
+    portfolio: Portfolio,
+    query: TradeImportQuery,
+    csv: string
+  ): Promise<TradeImportPreview> {
+    return (await this.prepare(portfolio, query, csv)).preview;
+  }
+
+  /**
+   * Save the new transactions from the file. Fails when the preview would
+   * show an error.
+   */
+  async commit(
+    portfolio: Portfolio,
+    query: TradeImportQuery,
+    csv: string
+  ): Promise<TradeImportPreview> {
+    const { preview, transactions } = await this.prepare(portfolio, query, csv);
+    if (preview.error) {
+      throw new ValidationError(preview.error, { skipped: preview.skipped });
+    }
+
+    for (const transaction of transactions) {
+      const { id, createdAt, ...insert } = transaction;
+      await storage.createPortfolioTransaction(insert);
+    }
+    return { ...preview, imported: transactions.length };
+  }
+
+  private async prepare(
+    portfolio: Portfolio,
+    query: TradeImportQuery,
+    csv: string
+  ): Promise<{
+    preview: TradeImportPreview;
+    transactions: PortfolioTransaction[];
+  }> {
+    const parsed = parseTradeCsv(csv, query, portfolio.currency);
+    if (parsed.trades.length > MAX_IMPORT_TRANSACTIONS) {
+      throw new ValidationError(
+        `Imports are limited to ${MAX_IMPORT_TRANSACTIONS} transactions; split the file`,
+        { transactions: parsed.trades.length }
+      );
+    }
+
+    const skipped = [...parsed.skipped];
+    const converted = await this.convert(
+      portfolio,
+      query,
+      parsed.trades,
+      skipped
+    );
+
+    const existing = await storage.getPortfolioTransactions(portfolio.id);
+    const importedKeys = new Set(
+      existing.map((transaction) => transaction.importKey).filter(Boolean)
+    );
+    const views: ImportedTransaction[] = [];
+    const transactions: PortfolioTransaction[] = [];
+    for (const { row, transaction } of converted) {
+      const duplicate = importedKeys.has(transaction.importKey);
+      importedKeys.add(transaction.importKey);
+      if (!duplicate) transactions.push(transaction);
+      views.push({
+        row,
+        type: transaction.type,
+        asset: transaction.asset,
+        quantity: Number(transaction.quantity),
+        price: transaction.price === null ? null : Number(transaction.price),
+        fee: Number(transaction.fee),
+        executedAt: transaction.executedAt.toISOString(),
+        note: transaction.note,
+        duplicate,
+      });
+    }
+
+    // Exports are often newest first
+    transactions.sort(byExecution);
+
+    let error: string | null = null;
+    let changes: HoldingChange[] = [];
+    try {
+      const before = replayTransactions(existing, portfolio.costMethod);
+      const after = replayTransactions(
+        [...existing, ...transactions].sort(byExecution),
+        portfolio.costMethod
+      );
+      changes = diffLedgers(
+        before,
+        after,
+        new Set(transactions.map(({ asset }) => asset))
+      );
+    } catch (replayError) {
+      // Usually sells of coins bought before the export starts
+      error =
+        replayError instanceof Error ? replayError.message : "Invalid import";
+    }
+    if (!error && !transactions.length) {
+      error = "Nothing new to import";
+    }
+
+    return {
+      preview: {
+        format: query.format,
+        currency: portfolio.currency,
+        costMethod: portfolio.costMethod,
+        rows: parsed.rows,
+        transactions: views,
+        newCount: transactions.length,
+        duplicateCount: views.length - transactions.length,
+        skipped: skipped.sort((a, b) => a.row - b.row),
+        changes,
+        error,
+        imported: 0,
+        timestamp: new Date().toISOString(),
+      },
+      transactions,
+    };
+  }
+
+  /**
+   * Unsaved portfolio transactions for the trades, in the portfolio
+   * currency, with the CSV row each came from
+   */
+  private async convert(
+    portfolio: Portfolio,
+    query: TradeImportQuery,
+    trades: ParsedTrade[],
+    skipped: SkippedImportRow[]
+  ): Promise<ConvertedTrade[]> {
+    if (!trades.length) return [];
+
+    const times = trades.map((trade) => trade.executedAt.getTime());
+    const pricer = new HistoricalPricer(
+      portfolio.currency,
+      Math.min(...times),
+      Math.max(...times)
+    );
+    const label = getFormatLabel(query.format);
+    const occurrences = new Map<string, number>();
+    const now = new Date();
+    const converted: ConvertedTrade[] = [];
+
+    for (const trade of trades) {
+      const time = trade.executedAt.getTime();
+      let quantity = trade.quantity;
+      let price: number | null = null;
+      let fee = 0;
+
+      try {
+        if (trade.price !== undefined) {
+          price = trade.price * (await pricer.priceAt(trade.quote, time));
+        } else if (trade.type !== "transfer_out") {
+          throw new Error(`A ${trade.type.replace("_", " ")} needs a price`);
+        }
+
+        // Fees paid in the traded asset come out of what was received or
+        // leave on top of what was given, valued at the trade price
+        if (trade.fee > 0 && trade.feeAsset === trade.asset) {
+          const incoming = trade.type === "buy" || trade.type === "transfer_in";
+          quantity += incoming ? -trade.fee : trade.fee;
+          fee =
+            trade.fee * (price ?? (await pricer.priceAt(trade.asset, time)));
+        } else if (trade.fee > 0) {
+          fee = trade.fee * (await pricer.priceAt(trade.feeAsset, time));
+        }
+        if (!(quantity > 0)) throw new Error("Fee exceeds the quantity");
+      } catch (error) {
+        skipped.push({
+          row: trade.row,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+        continue;
+      }
+
+      // Exports without trade IDs are matched on the row's contents, counting
+      // identical rows so repeated fills stay apart
+      let importKey = `${query.format}:${trade.id}`;
+      if (!trade.id) {
+        const fingerprint = createHash("sha1")
+          .update(
+            [
+              trade.type,
+              trade.asset,
+              trade.quantity,
+              trade.price,
+              trade.quote,
+              trade.fee,
+              trade.feeAsset,
+              time,
+            ].join("|")
+          )
+          .digest("hex");
+        const occurrence = (occurrences.get(fingerprint) ?? 0) + 1;
+        occurrences.set(fingerprint, occurrence);
+        importKey = `${query.format}:${fingerprint}:${occurrence}`;
+      }
+
+      converted.push({
+        row: trade.row,
+        transaction: {
+          id: "",
+          portfolioId: portfolio.id,
+          type: trade.type,
+          asset: trade.asset,
+          quantity: toDecimal(quantity),
+          price: price === null ? null : toDecimal(price),
+          fee: toDecimal(fee),
+          note: (trade.note ?? `Imported from ${label}`).slice(0, 200),
+          importKey,
+          executedAt: trade.executedAt,
+          createdAt: now,
+        },
+      });
+    }
+
+    return converted;
+  }
+}
+
+export const tradeImportService = new TradeImportService();
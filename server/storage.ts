@@ -7,11 +7,28 @@ import {
   type InsertMarketData,
   type NewsArticle,
   type InsertNewsArticle,
-  type MarketStats,
   type SentimentData,
   type ChatMessage,
+  type Screen,
+  type InsertScreen,
+  type Strategy,
+  type InsertStrategy,
+  type UpdateStrategy,
+  type StrategyVersion,
+  type PaperAccount,
+  type InsertPaperAccount,
+  type PaperOrder,
+  type InsertPaperOrder,
+  type PaperPosition,
+  type InsertPaperPosition,
+  type Portfolio,
+  type InsertPortfolio,
+  type PortfolioTransaction,
+  type InsertPortfolioTransaction,
 } from "@shared/schema";
+import { type GlobalMarketStats } from "@shared/types/market-stats";
 import { randomUUID } from "crypto";
+import { aggregateMarketStats } from "./services/market-stats-service";
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
@@ -23,7 +40,7 @@ export interface IStorage {
   deleteChatHistory(id: string): Promise<void>;
 
   getMarketData(): Promise<MarketData[]>;
-  getMarketStats(): Promise<MarketStats>;
+  getMarketStats(): Promise<GlobalMarketStats>;
   updateMarketData(data: InsertMarketData[]): Promise<void>;
   getCachedMarketData(): Promise<MarketData[] | null>;
   setCachedMarketData(data: MarketData[]): Promise<void>;
@@ -31,6 +48,76 @@ export interface IStorage {
   getNewsArticles(): Promise<NewsArticle[]>;
   getSentimentData(): Promise<SentimentData>;
   updateNewsArticles(articles: InsertNewsArticle[]): Promise<void>;
+
+  getScreens(userId?: string): Promise<Screen[]>;
+  getScreen(id: string): Promise<Screen | undefined>;
+  createScreen(screen: InsertScreen): Promise<Screen>;
+  updateScreen(
+    id: string,
+    screen: Partial<InsertScreen>
+  ): Promise<Screen | undefined>;
+  deleteScreen(id: string): Promise<boolean>;
+
+  getStrategies(userId?: string): Promise<Strategy[]>;
+  getStrategy(id: string): Promise<Strategy | undefined>;
+  getStrategyByShareCode(code: string): Promise<Strategy | undefined>;
+  createStrategy(strategy: InsertStrategy): Promise<Strategy>;
+  updateStrategy(
+    id: string,
+    update: UpdateStrategy
+  ): Promise<Strategy | undefined>;
+  setStrategyShareCode(
+    id: string,
+    shareCode: string | null
+  ): Promise<Strategy | undefined>;
+  deleteStrategy(id: string): Promise<boolean>;
+  getStrategyVersions(strategyId: string): Promise<StrategyVersion[]>;
+  getStrategyVersion(
+    strategyId: string,
+    version: number
+  ): Promise<StrategyVersion | undefined>;
+
+  getPaperAccounts(userId?: string): Promise<PaperAccount[]>;
+  getPaperAccount(id: string): Promise<PaperAccount | undefined>;
+  createPaperAccount(account: InsertPaperAccount): Promise<PaperAccount>;
+  updatePaperAccount(
+    id: string,
+    update: Partial<InsertPaperAccount>
+  ): Promise<PaperAccount | undefined>;
+  // Restore the starting balance and drop all orders and positions
+  resetPaperAccount(id: string): Promise<PaperAccount | undefined>;
+  deletePaperAccount(id: string): Promise<boolean>;
+  getPaperOrders(accountId: string): Promise<PaperOrder[]>;
+  getPaperOrder(id: string): Promise<PaperOrder | undefined>;
+  createPaperOrder(order: InsertPaperOrder): Promise<PaperOrder>;
+  updatePaperOrder(
+    id: string,
+    update: Partial<InsertPaperOrder>
+  ): Promise<PaperOrder | undefined>;
+  getPaperPositions(accountId: string): Promise<PaperPosition[]>;
+  // Create or replace the position for the account and symbol
+  savePaperPosition(position: InsertPaperPosition): Promise<PaperPosition>;
+
+  getPortfolios(userId?: string): Promise<Portfolio[]>;
+  getPortfolio(id: string): Promise<Portfolio | undefined>;
+  createPortfolio(portfolio: InsertPortfolio): Promise<Portfolio>;
+  updatePortfolio(
+    id: string,
+    update: Partial<InsertPortfolio>
+  ): Promise<Portfolio | undefined>;
+  // Deletes the portfolio's transactions too
+  deletePortfolio(id: string): Promise<boolean>;
+  // Oldest first, in the order they were executed
+  getPortfolioTransactions(
+    portfolioId: string
+  ): Promise<PortfolioTransaction[]>;
+  getPortfolioTransaction(
+    id: string
+  ): Promise<PortfolioTransaction | undefined>;
+  createPortfolioTransaction(
+    transaction: InsertPortfolioTransaction
+  ): Promise<PortfolioTransaction>;
+  deletePortfolioTransaction(id: string): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
@@ -38,6 +125,14 @@ export class MemStorage implements IStorage {
   private chatHistories: Map<string, ChatHistory>;
   private marketData: Map<string, MarketData>;
   private newsArticles: Map<string, NewsArticle>;
+  private screens: Map<string, Screen>;
+  private strategies: Map<string, Strategy>;
+  private strategyVersions: Map<string, StrategyVersion[]>;
+  private paperAccounts: Map<string, PaperAccount>;
+  private paperOrders: Map<string, PaperOrder>;
+  private paperPositions: Map<string, PaperPosition>;
+  private portfolios: Map<string, Portfolio>;
+  private portfolioTransactions: Map<string, PortfolioTransaction>;
   private cachedMarketData: MarketData[] | null = null;
   private cacheTimestamp: number = 0;
 
@@ -46,6 +141,14 @@ export class MemStorage implements IStorage {
     this.chatHistories = new Map();
     this.marketData = new Map();
     this.newsArticles = new Map();
+    this.screens = new Map();
+    this.strategies = new Map();
+    this.strategyVersions = new Map();
+    this.paperAccounts = new Map();
+    this.paperOrders = new Map();
+    this.paperPositions = new Map();
+    this.portfolios = new Map();
+    this.portfolioTransactions = new Map();
     this.initializeMockData();
   }
 
@@ -301,27 +404,18 @@ export class MemStorage implements IStorage {
     return Array.from(this.marketData.values());
   }
 
-  async getMarketStats(): Promise<MarketStats> {
+  async getMarketStats(): Promise<GlobalMarketStats> {
     const marketData = Array.from(this.marketData.values());
-    const totalMarketCap = marketData.reduce((sum, coin) => {
-      return sum + parseFloat(coin.marketCap || "0");
-    }, 0);
-
-    const totalVolume24h = marketData.reduce((sum, coin) => {
-      return sum + parseFloat(coin.volume24h);
-    }, 0);
 
-    const btcMarketCap = parseFloat(
-      marketData.find((coin) => coin.symbol === "BTC")?.marketCap || "0"
+    return aggregateMarketStats(
+      marketData.map((coin) => ({
+        symbol: coin.symbol,
+        priceChangePercent24h: parseFloat(coin.priceChangePercent24h),
+        volume24h: parseFloat(coin.volume24h),
+        marketCap: coin.marketCap ? parseFloat(coin.marketCap) : null,
+      })),
+      "storage"
     );
-    const btcDominance = ((btcMarketCap / totalMarketCap) * 100).toFixed(1);
-
-    return {
-      totalMarketCap: `$${(totalMarketCap / 1e12).toFixed(2)}T`,
-      totalVolume24h: `$${(totalVolume24h / 1e9).toFixed(1)}B`,
-      btcDominance: `${btcDominance}%`,
-      fearGreedIndex: 64,
-    };
   }
 
   async updateMarketData(data: InsertMarketData[]): Promise<void> {
@@ -421,8 +515,8 @@ export class MemStorage implements IStorage {
         positive > neutral && positive > negative
           ? "bullish"
           : negative > positive && negative > neutral
-          ? "bearish"
-          : "neutral",
+            ? "bearish"
+            : "neutral",
     };
   }
 
@@ -442,6 +536,405 @@ export class MemStorage implements IStorage {
       });
     });
   }
+
+  async getScreens(userId?: string): Promise<Screen[]> {
+    return Array.from(this.screens.values())
+      .filter((screen) => !userId || screen.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async getScreen(id: string): Promise<Screen | undefined> {
+    return this.screens.get(id);
+  }
+
+  async createScreen(insertScreen: InsertScreen): Promise<Screen> {
+    const id = randomUUID();
+    const now = new Date();
+    const screen: Screen = {
+      ...insertScreen,
+      id,
+      userId: insertScreen.userId ?? null,
+      sort: insertScreen.sort ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.screens.set(id, screen);
+    return screen;
+  }
+
+  async updateScreen(
+    id: string,
+    update: Partial<InsertScreen>
+  ): Promise<Screen | undefined> {
+    const existing = this.screens.get(id);
+    if (!existing) return undefined;
+
+    const screen: Screen = {
+      ...existing,
+      ...update,
+      // Ownership can't be changed
+      userId: existing.userId,
+      sort: update.sort === undefined ? existing.sort : update.sort,
+      updatedAt: new Date(),
+    };
+    this.screens.set(id, screen);
+    return screen;
+  }
+
+  async deleteScreen(id: string): Promise<boolean> {
+    return this.screens.delete(id);
+  }
+
+  async getStrategies(userId?: string): Promise<Strategy[]> {
+    return Array.from(this.strategies.values())
+      .filter((strategy) => !userId || strategy.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async getStrategy(id: string): Promise<Strategy | undefined> {
+    return this.strategies.get(id);
+  }
+
+  async getStrategyByShareCode(code: string): Promise<Strategy | undefined> {
+    return Array.from(this.strategies.values()).find(
+      (strategy) => strategy.shareCode === code
+    );
+  }
+
+  async createStrategy(insertStrategy: InsertStrategy): Promise<Strategy> {
+    const id = randomUUID();
+    const now = new Date();
+    const strategy: Strategy = {
+      ...insertStrategy,
+      id,
+      userId: insertStrategy.userId ?? null,
+      description: insertStrategy.description ?? null,
+      version: 1,
+      shareCode: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.strategies.set(id, strategy);
+    this.strategyVersions.set(id, [
+      {
+        id: randomUUID(),
+        strategyId: id,
+        version: 1,
+        definition: strategy.definition,
+        note: null,
+        createdAt: now,
+      },
+    ]);
+    return strategy;
+  }
+
+  async updateStrategy(
+    id: string,
+    update: UpdateStrategy
+  ): Promise<Strategy | undefined> {
+    const existing = this.strategies.get(id);
+    if (!existing) return undefined;
+
+    const { note, ...fields } = update;
+    const now = new Date();
+    // Only a changed definition makes a new version
+    const changed =
+      fields.definition !== undefined &&
+      JSON.stringify(fields.definition) !== JSON.stringify(existing.definition);
+
+    const strategy: Strategy = {
+      ...existing,
+      ...fields,
+      userId: existing.userId,
+      description:
+        fields.description === undefined
+          ? existing.description
+          : fields.description,
+      definition: fields.definition ?? existing.definition,
+      version: changed ? existing.version + 1 : existing.version,
+      updatedAt: now,
+    };
+    this.strategies.set(id, strategy);
+
+    if (changed) {
+      this.strategyVersions.get(id)?.push({
+        id: randomUUID(),
+        strategyId: id,
+        version: strategy.version,
+        definition: strategy.definition,
+        note: note ?? null,
+        createdAt: now,
+      });
+    }
+    return strategy;
+  }
+
+  async setStrategyShareCode(
+    id: string,
+    shareCode: string | null
+  ): Promise<Strategy | undefined> {
+    const existing = this.strategies.get(id);
+    if (!existing) return undefined;
+
+    const strategy: Strategy = { ...existing, shareCode };
+    this.strategies.set(id, strategy);
+    return strategy;
+  }
+
+  async deleteStrategy(id: string): Promise<boolean> {
+    this.strategyVersions.delete(id);
+    return this.strategies.delete(id);
+  }
+
+  async getStrategyVersions(strategyId: string): Promise<StrategyVersion[]> {
+    return [...(this.strategyVersions.get(strategyId) || [])].sort(
+      (a, b) => b.version - a.version
+    );
+  }
+
+  async getStrategyVersion(
+    strategyId: string,
+    version: number
+  ): Promise<StrategyVersion | undefined> {
+    return this.strategyVersions
+      .get(strategyId)
+      ?.find((saved) => saved.version === version);
+  }
+
+  async getPaperAccounts(userId?: string): Promise<PaperAccount[]> {
+    return Array.from(this.paperAccounts.values())
+      .filter((account) => !userId || account.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getPaperAccount(id: string): Promise<PaperAccount | undefined> {
+    return this.paperAccounts.get(id);
+  }
+
+  async createPaperAccount(
+    insertAccount: InsertPaperAccount
+  ): Promise<PaperAccount> {
+    const id = randomUUID();
+    const now = new Date();
+    const account: PaperAccount = {
+      ...insertAccount,
+      id,
+      userId: insertAccount.userId ?? null,
+      quoteAsset: insertAccount.quoteAsset ?? "USDT",
+      feePercent: insertAccount.feePercent ?? "0.1",
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.paperAccounts.set(id, account);
+    return account;
+  }
+
+  async updatePaperAccount(
+    id: string,
+    update: Partial<InsertPaperAccount>
+  ): Promise<PaperAccount | undefined> {
+    const existing = this.paperAccounts.get(id);
+    if (!existing) return undefined;
+
+    const account: PaperAccount = {
+      ...existing,
+      ...update,
+      userId: existing.userId,
+      quoteAsset: update.quoteAsset ?? existing.quoteAsset,
+      feePercent: update.feePercent ?? existing.feePercent,
+      updatedAt: new Date(),
+    };
+    this.paperAccounts.set(id, account);
+    return account;
+  }
+
+  async resetPaperAccount(id: string): Promise<PaperAccount | undefined> {
+    const existing = this.paperAccounts.get(id);
+    if (!existing) return undefined;
+
+    this.deletePaperActivity(id);
+    return this.updatePaperAccount(id, {
+      cashBalance: existing.initialBalance,
+    });
+  }
+
+  async deletePaperAccount(id: string): Promise<boolean> {
+    this.deletePaperActivity(id);
+    return this.paperAccounts.delete(id);
+  }
+
+  private deletePaperActivity(accountId: string) {
+    for (const [id, order] of this.paperOrders) {
+      if (order.accountId === accountId) this.paperOrders.delete(id);
+    }
+    for (const [id, position] of this.paperPositions) {
+      if (position.accountId === accountId) this.paperPositions.delete(id);
+    }
+  }
+
+  async getPaperOrders(accountId: string): Promise<PaperOrder[]> {
+    return Array.from(this.paperOrders.values())
+      .filter((order) => order.accountId === accountId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getPaperOrder(id: string): Promise<PaperOrder | undefined> {
+    return this.paperOrders.get(id);
+  }
+
+  async createPaperOrder(insertOrder: InsertPaperOrder): Promise<PaperOrder> {
+    const id = randomUUID();
+    const order: PaperOrder = {
+      ...insertOrder,
+      id,
+      limitPrice: insertOrder.limitPrice ?? null,
+      stopPrice: insertOrder.stopPrice ?? null,
+      status: insertOrder.status ?? "open",
+      averagePrice: insertOrder.averagePrice ?? null,
+      fee: insertOrder.fee ?? null,
+      realizedPnl: insertOrder.realizedPnl ?? null,
+      rejectReason: insertOrder.rejectReason ?? null,
+      bookSource: insertOrder.bookSource ?? null,
+      createdAt: new Date(),
+      triggeredAt: insertOrder.triggeredAt ?? null,
+      closedAt: insertOrder.closedAt ?? null,
+    };
+    this.paperOrders.set(id, order);
+    return order;
+  }
+
+  async updatePaperOrder(
+    id: string,
+    update: Partial<InsertPaperOrder>
+  ): Promise<PaperOrder | undefined> {
+    const existing = this.paperOrders.get(id);
+    if (!existing) return undefined;
+
+    const order: PaperOrder = {
+      ...existing,
+      ...update,
+      accountId: existing.accountId,
+      status: update.status ?? existing.status,
+    };
+    this.paperOrders.set(id, order);
+    return order;
+  }
+
+  async getPaperPositions(accountId: string): Promise<PaperPosition[]> {
+    return Array.from(this.paperPositions.values())
+      .filter((position) => position.accountId === accountId)
+      .sort((a, b) => a.symbol.localeCompare(b.symbol));
+  }
+
+  async savePaperPosition(
+    insertPosition: InsertPaperPosition
+  ): Promise<PaperPosition> {
+    const existing = Array.from(this.paperPositions.values()).find(
+      (position) =>
+        position.accountId === insertPosition.accountId &&
+        position.symbol === insertPosition.symbol
+    );
+    const position: PaperPosition = {
+      ...insertPosition,
+      id: existing?.id ?? randomUUID(),
+      realizedPnl: insertPosition.realizedPnl ?? "0",
+      updatedAt: new Date(),
+    };
+    this.paperPositions.set(position.id, position);
+    return position;
+  }
+  async getPortfolios(userId?: string): Promise<Portfolio[]> {
+    return Array.from(this.portfolios.values())
+      .filter((portfolio) => !userId || portfolio.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getPortfolio(id: string): Promise<Portfolio | undefined> {
+    return this.portfolios.get(id);
+  }
+
+  async createPortfolio(insertPortfolio: InsertPortfolio): Promise<Portfolio> {
+    const id = randomUUID();
+    const now = new Date();
+    const portfolio: Portfolio = {
+      ...insertPortfolio,
+      id,
+      userId: insertPortfolio.userId ?? null,
+      currency: insertPortfolio.currency ?? "USD",
+      costMethod: insertPortfolio.costMethod ?? "average",
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.portfolios.set(id, portfolio);
+    return portfolio;
+  }
+
+  async updatePortfolio(
+    id: string,
+    update: Partial<InsertPortfolio>
+  ): Promise<Portfolio | undefined> {
+    const existing = this.portfolios.get(id);
+    if (!existing) return undefined;
+
+    const portfolio: Portfolio = {
+      ...existing,
+      ...update,
+      userId: existing.userId,
+      currency: update.currency ?? existing.currency,
+      costMethod: update.costMethod ?? existing.costMethod,
+      updatedAt: new Date(),
+    };
+    this.portfolios.set(id, portfolio);
+    return portfolio;
+  }
+
+  async deletePortfolio(id: string): Promise<boolean> {
+    for (const [transactionId, transaction] of this.portfolioTransactions) {
+      if (transaction.portfolioId === id) {
+        this.portfolioTransactions.delete(transactionId);
+      }
+    }
+    return this.portfolios.delete(id);
+  }
+
+  async getPortfolioTransactions(
+    portfolioId: string
+  ): Promise<PortfolioTransaction[]> {
+    return Array.from(this.portfolioTransactions.values())
+      .filter((transaction) => transaction.portfolioId === portfolioId)
+      .sort(
+        (a, b) =>
+          a.executedAt.getTime() - b.executedAt.getTime() ||
+          a.createdAt.getTime() - b.createdAt.getTime()
+      );
+  }
+
+  async getPortfolioTransaction(
+    id: string
+  ): Promise<PortfolioTransaction | undefined> {
+    return this.portfolioTransactions.get(id);
+  }
+
+  async createPortfolioTransaction(
+    insertTransaction: InsertPortfolioTransaction
+  ): Promise<PortfolioTransaction> {
+    const id = randomUUID();
+    const transaction: PortfolioTransaction = {
+      ...insertTransaction,
+      id,
+      price: insertTransaction.price ?? null,
+      fee: insertTransaction.fee ?? "0",
+      note: insertTransaction.note ?? null,
+      importKey: insertTransaction.importKey ?? null,
+      createdAt: new Date(),
+    };
+    this.portfolioTransactions.set(id, transaction);
+    return transaction;
+  }
+
+  async deletePortfolioTransaction(id: string): Promise<boolean> {
+    return this.portfolioTransactions.delete(id);
+  }
 }
 
 export const storage = new MemStorage();
@@ -27,6 +27,24 @@ export interface BinanceKline {
   buyQuoteVolume: string;
 }
 
+// Raw /api/v3/klines row:
+// [openTime, open, high, low, close, volume, closeTime, quoteVolume,
+//  trades, takerBuyBaseVolume, takerBuyQuoteVolume, ignore]
+export type BinanceKlineRow = [
+  number,
+  string,
+  string,
+  string,
+  string,
+  string,
+  number,
+  string,
+  number,
+  string,
+  string,
+  string
+];
+
 export interface BinanceOrderBook {
   lastUpdateId: number;
   bids: [string, string][]; // [price, quantity]
@@ -33,6 +33,278 @@ export interface OrderBook {
   timestamp: string;
 }
 
+export type OrderSide = "buy" | "sell";
+
+export interface DepthBand {
+  percent: number; // Distance from the mid price, e.g. 0.5 for ±0.5%
+  bidQuantity: number;
+  bidNotional: number;
+  askQuantity: number;
+  askNotional: number;
+  imbalance: number; // (bid - ask) / (bid + ask) notional, from -1 to 1
+}
+
+export interface SlippageEstimate {
+  side: OrderSide;
+  notional: number; // Requested size in the quote asset
+  filledNotional: number;
+  filledQuantity: number;
+  vwap: number | null; // Average fill price
+  worstPrice: number | null;
+  slippagePercent: number | null; // VWAP vs best price
+  priceImpactPercent: number | null; // Worst price vs mid price
+  levelsConsumed: number;
+  fullyFilled: boolean;
+}
+
+export interface OrderBookAnalytics {
+  symbol: string;
+  bestBid: number;
+  bestAsk: number;
+  midPrice: number;
+  spread: number;
+  spreadPercent: number;
+  depth: DepthBand[];
+  imbalance: number; // Across all loaded levels
+  slippage: SlippageEstimate[];
+  levels: { bids: number; asks: number };
+  timestamp: string;
+}
+
+export type IndicatorName =
+  | "sma"
+  | "ema"
+  | "rsi"
+  | "macd"
+  | "bb"
+  | "atr"
+  | "stoch"
+  | "adx"
+  | "obv"
+  | "vwap"
+  | "ichimoku"
+  | "psar"
+  | "kc"
+  | "willr";
+
+export interface IndicatorSpec {
+  name: IndicatorName;
+  params: number[]; // e.g. [12, 26, 9] for macd:12:26:9
+}
+
+export interface IndicatorColumn {
+  name: string; // e.g. rsi_14, macd_signal_12_26_9
+  values: (number | null)[]; // One per candle, null during warm-up
+}
+
+export interface IndicatorSeries {
+  key: string; // e.g. bb:20:2
+  name: IndicatorName;
+  params: number[];
+  overlay: boolean; // Plotted on the price axis rather than in its own pane
+  columns: IndicatorColumn[];
+}
+
+export interface IndicatorData {
+  symbol: string;
+  interval: string;
+  candles: CandleStick[];
+  indicators: IndicatorSeries[];
+}
+
+export type PatternDirection = "bullish" | "bearish" | "neutral";
+
+export type CandlePatternName =
+  | "doji"
+  | "dragonfly_doji"
+  | "gravestone_doji"
+  | "hammer"
+  | "hanging_man"
+  | "inverted_hammer"
+  | "shooting_star"
+  | "bullish_marubozu"
+  | "bearish_marubozu"
+  | "bullish_engulfing"
+  | "bearish_engulfing"
+  | "bullish_harami"
+  | "bearish_harami"
+  | "inside_bar"
+  | "piercing_line"
+  | "dark_cloud_cover"
+  | "tweezer_bottom"
+  | "tweezer_top"
+  | "morning_star"
+  | "evening_star"
+  | "three_white_soldiers"
+  | "three_black_crows";
+
+export interface CandlePattern {
+  name: CandlePatternName;
+  label: string; // e.g. "Bullish Engulfing"
+  direction: PatternDirection;
+  index: number; // Index of the pattern's last candle
+  time: number; // Open time of the pattern's last candle
+  length: number; // Candles in the pattern
+  price: number; // Marker anchor, the low for bullish patterns, else the high
+  strength: number; // 0 to 1, from shape, prior trend and volume
+}
+
+export interface CandlePatternSummary {
+  bullish: number;
+  bearish: number;
+  neutral: number;
+  score: number; // Strength weighted, from -1 (bearish) to 1 (bullish)
+  bias: PatternDirection;
+  recent: CandlePattern[]; // Patterns ending in the last few candles, strongest first
+}
+
+export interface CandlePatternAnalysis {
+  symbol: string;
+  interval: string;
+  patterns: CandlePattern[];
+  summary: CandlePatternSummary;
+  timestamp: string;
+}
+
+export type LevelType = "support" | "resistance";
+
+export interface Pivot {
+  type: "high" | "low";
+  index: number;
+  time: number; // Open time of the pivot candle
+  price: number; // The candle's high for swing highs, low for swing lows
+}
+
+export interface PriceLevel {
+  type: LevelType; // Relative to the current price
+  price: number; // Mean of the clustered pivots
+  low: number; // Bottom of the zone
+  high: number; // Top of the zone
+  touches: number; // Pivots in the zone
+  firstTime: number;
+  lastTime: number;
+  strength: number; // 0 to 1, from touches and how recent the last one is
+}
+
+export interface Trendline {
+  type: LevelType;
+  startTime: number; // First pivot on the line
+  startPrice: number;
+  endTime: number; // Extended to the last candle
+  endPrice: number;
+  slope: number; // Price change per candle
+  touches: number; // Pivots within tolerance of the line
+}
+
+export interface PriceChannel {
+  direction: "up" | "down" | "sideways";
+  support: Trendline;
+  resistance: Trendline;
+  width: number; // Percentage of the current price at the last candle
+}
+
+export interface SupportResistanceAnalysis {
+  symbol: string;
+  interval: string;
+  price: number; // Last close
+  pivots: Pivot[];
+  levels: PriceLevel[]; // Strongest first
+  nearestSupport: PriceLevel | null;
+  nearestResistance: PriceLevel | null;
+  trendlines: {
+    support: Trendline | null;
+    resistance: Trendline | null;
+  };
+  channel: PriceChannel | null;
+  timestamp: string;
+}
+
+export type DivergenceOscillator = "rsi" | "macd" | "obv";
+
+export interface DivergencePoint {
+  index: number;
+  time: number; // Open time of the pivot candle
+  price: number; // Pivot high or low
+  value: number; // Oscillator value at the pivot
+}
+
+export interface Divergence {
+  oscillator: DivergenceOscillator;
+  kind: "regular" | "hidden";
+  direction: "bullish" | "bearish";
+  label: string; // e.g. "Regular bullish RSI divergence"
+  start: DivergencePoint;
+  end: DivergencePoint;
+  strength: number; // 0 to 1, from the size of both moves
+}
+
+export interface DivergenceAlert {
+  symbol: string;
+  interval: string;
+  time: number; // Open time of the candle confirming the divergence
+  message: string;
+  divergence: Divergence;
+}
+
+export interface DivergenceAnalysis {
+  symbol: string;
+  interval: string;
+  divergences: Divergence[]; // Oldest first
+  alerts: DivergenceAlert[]; // Divergences confirmed in the last few candles
+  timestamp: string;
+}
+
+export type VolatilityRegime = "contracting" | "normal" | "expanding";
+
+export interface TimeframeSignal {
+  direction: PatternDirection;
+  score: number; // -1 (bearish) to 1 (bullish)
+}
+
+export interface TimeframeAnalysis {
+  interval: string;
+  price: number; // Last close
+  trend: TimeframeSignal & {
+    ema20: number;
+    ema50: number;
+    adx: number | null;
+  };
+  momentum: TimeframeSignal & {
+    rsi: number;
+    macdHistogram: number;
+  };
+  volatility: {
+    regime: VolatilityRegime;
+    atrPercent: number; // ATR as a percentage of the price
+    bandwidth: number; // Bollinger bandwidth, percent of the middle band
+    bandwidthRatio: number; // Current bandwidth over its recent average
+  };
+  direction: PatternDirection; // Trend and momentum combined
+  score: number;
+}
+
+export interface ConfluenceDimension extends TimeframeSignal {
+  agreement: number; // Weighted share of timeframes agreeing, 0 to 1
+}
+
+export interface ConfluenceReport {
+  symbol: string;
+  timeframes: TimeframeAnalysis[]; // Shortest interval first
+  unavailable: string[]; // Intervals without enough candles
+  trend: ConfluenceDimension;
+  momentum: ConfluenceDimension;
+  volatility: {
+    regime: VolatilityRegime;
+    agreement: number;
+  };
+  direction: PatternDirection;
+  score: number; // -1 (bearish) to 1 (bullish)
+  agreement: number;
+  conflicts: string[]; // Timeframes pulling against each other
+  summary: string;
+  timestamp: string;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data: T;
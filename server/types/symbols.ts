@@ -0,0 +1,33 @@
+// Symbol registry types
+
+export interface AssetMetadata {
+  symbol: string; // e.g. BTC
+  name: string; // e.g. Bitcoin
+  providerIds: Record<string, string>; // e.g. { coingecko: "bitcoin" }
+  circulatingSupply?: number;
+  marketCapRank?: number;
+  referencePrice?: number; // Last known USD price
+}
+
+export interface PairMetadata {
+  symbol: string; // e.g. BTCUSDT
+  baseAsset: string;
+  quoteAsset: string;
+  status: "trading" | "halted";
+  tickSize?: number;
+  stepSize?: number;
+  minNotional?: number;
+  providerIds: Record<string, string>; // e.g. { binance: "BTCUSDT" }
+}
+
+export interface SymbolRegistrySnapshot {
+  syncedAt: number | null;
+  assets: AssetMetadata[];
+  pairs: PairMetadata[];
+}
+
+export interface ParsedSymbol {
+  base: string;
+  quote: string;
+  pair: string; // Exchange pair symbol, e.g. ETHBTC
+}
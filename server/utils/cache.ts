@@ -9,6 +9,7 @@ export class CacheManager {
     this.cache = new Map();
     // Run cleanup every 5 minutes
     this.cleanupInterval = setInterval(() => this.cleanup(), 5 * 60 * 1000);
+    this.cleanupInterval.unref();
   }
 
   /**
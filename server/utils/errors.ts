@@ -92,6 +92,20 @@ export class ServiceError extends CustomAPIError {
   }
 }
 
+/**
+ * An upstream API answered with an error status. Kept apart from the errors
+ * above, which are our own responses.
+ */
+export class UpstreamHttpError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+    this.name = "UpstreamHttpError";
+  }
+}
+
 /**
  * Error factory for creating appropriate error instances
  */
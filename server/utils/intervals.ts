@@ -0,0 +1,181 @@
+/**
+ * Kline interval helpers shared by the candle store and market services.
+ * Open times follow Binance alignment: fixed-width intervals are aligned to
+ * the Unix epoch, weekly candles open on Monday 00:00 UTC and monthly candles
+ * on the first day of the month. Custom intervals follow the same rules.
+ */
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+// The Unix epoch fell on a Thursday; the first Monday was four days later
+const WEEK_OFFSET = 4 * DAY;
+
+export const INTERVAL_MS: Record<string, number> = {
+  "1m": MINUTE,
+  "3m": 3 * MINUTE,
+  "5m": 5 * MINUTE,
+  "15m": 15 * MINUTE,
+  "30m": 30 * MINUTE,
+  "1h": HOUR,
+  "2h": 2 * HOUR,
+  "4h": 4 * HOUR,
+  "6h": 6 * HOUR,
+  "8h": 8 * HOUR,
+  "12h": 12 * HOUR,
+  "1d": DAY,
+  "3d": 3 * DAY,
+  "1w": WEEK,
+  "1M": 30 * DAY, // Approximate, calendar math is used for alignment
+};
+
+// Custom intervals such as 90m, 2h or 10d are built locally from candles of
+// a finer native interval
+const CUSTOM_INTERVAL_PATTERN = /^([1-9]\d{0,3})(m|h|d|w)$/;
+const UNIT_MS: Record<string, number> = {
+  m: MINUTE,
+  h: HOUR,
+  d: DAY,
+  w: WEEK,
+};
+const MAX_CUSTOM_INTERVAL_MS = 4 * WEEK;
+
+/**
+ * Whether the exchanges serve the interval natively
+ */
+export function isSupportedInterval(interval: string): boolean {
+  return interval in INTERVAL_MS;
+}
+
+/**
+ * Whether the interval is native or a valid custom interval
+ */
+export function isValidInterval(interval: string): boolean {
+  return (
+    isSupportedInterval(interval) || parseCustomInterval(interval) !== null
+  );
+}
+
+function parseCustomInterval(interval: string): number | null {
+  const match = CUSTOM_INTERVAL_PATTERN.exec(interval);
+  if (!match) return null;
+
+  const ms = parseInt(match[1], 10) * UNIT_MS[match[2]];
+  return ms <= MAX_CUSTOM_INTERVAL_MS ? ms : null;
+}
+
+/**
+ * Width of an interval in milliseconds (approximate for 1M)
+ */
+export function getIntervalMs(interval: string): number {
+  const ms = INTERVAL_MS[interval] ?? parseCustomInterval(interval);
+  if (!ms) {
+    throw new Error(`Unknown interval ${interval}`);
+  }
+  return ms;
+}
+
+/**
+ * Intraday intervals that don't divide a day evenly (e.g. 7h or 100m)
+ * restart at every session open, so the last candle of a day is shorter.
+ */
+function isSessionAligned(interval: string): boolean {
+  const ms = getIntervalMs(interval);
+  return interval !== "1M" && ms < DAY && DAY % ms !== 0;
+}
+
+function sessionStart(time: number, offset: number): number {
+  return Math.floor((time - offset) / DAY) * DAY + offset;
+}
+
+/**
+ * Returns the open time of the candle that contains `time`. `offset` moves
+ * the session open away from 00:00 UTC, e.g. -4h for daily candles that
+ * open at 20:00 UTC.
+ */
+export function alignOpenTime(
+  time: number,
+  interval: string,
+  offset: number = 0
+): number {
+  if (interval === "1M") {
+    const date = new Date(time - offset);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) + offset;
+  }
+
+  const step = getIntervalMs(interval);
+
+  if (isSessionAligned(interval)) {
+    const start = sessionStart(time, offset);
+    return start + Math.floor((time - start) / step) * step;
+  }
+
+  // Week multiples open on Monday like Binance weekly candles
+  const base = (step % WEEK === 0 ? WEEK_OFFSET : 0) + offset;
+  return Math.floor((time - base) / step) * step + base;
+}
+
+/**
+ * Moves an aligned open time by `count` candles (negative values go back)
+ */
+export function shiftOpenTime(
+  openTime: number,
+  interval: string,
+  count: number,
+  offset: number = 0
+): number {
+  if (interval === "1M") {
+    const date = new Date(openTime - offset);
+    return (
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + count, 1) + offset
+    );
+  }
+
+  const step = getIntervalMs(interval);
+  if (!isSessionAligned(interval)) {
+    return openTime + count * step;
+  }
+
+  // Session aligned candles wrap to the next session open
+  const lastIndex = Math.floor((DAY - 1) / step);
+  let time = openTime;
+  for (let i = 0; i < Math.abs(count); i++) {
+    const start = sessionStart(time, offset);
+    if (count > 0) {
+      time = Math.min(time + step, start + DAY);
+    } else {
+      time = time === start ? start - DAY + lastIndex * step : time - step;
+    }
+  }
+  return time;
+}
+
+/**
+ * Lists every open time between `startTime` and `endTime` (inclusive)
+ */
+export function listOpenTimes(
+  startTime: number,
+  endTime: number,
+  interval: string,
+  offset: number = 0
+): number[] {
+  const times: number[] = [];
+  for (
+    let time = alignOpenTime(startTime, interval, offset);
+    time <= endTime;
+    time = shiftOpenTime(time, interval, 1, offset)
+  ) {
+    times.push(time);
+  }
+  return times;
+}
+
+/**
+ * Parses a timestamp given as epoch milliseconds or an ISO 8601 date
+ */
+export function parseTimestamp(value: string): number | null {
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(time) ? time : null;
+}
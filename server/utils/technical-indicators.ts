@@ -1,96 +1,757 @@
+import { CandleStick } from "../types/market";
+
+// Fields the candle based indicators read
+export type IndicatorCandle = Pick<
+  CandleStick,
+  "time" | "high" | "low" | "close" | "volume"
+>;
+
+export type SarTrend = "up" | "down";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
- * Calculate Relative Strength Index (RSI)
+ * Copy an indicator with its state, keeping the prototype. State is plain
+ * numbers, arrays of numbers and nested indicators, so this stays cheap.
  */
-export function calculateRSI(prices: number[], period = 14): number[] {
-  const gains: number[] = [];
-  const losses: number[] = [];
-  const rsi: number[] = [];
+function cloneState<T extends object>(source: T): T {
+  const copy = Object.create(Object.getPrototypeOf(source));
+  for (const [key, value] of Object.entries(source)) {
+    if (Array.isArray(value)) {
+      copy[key] = [...value];
+    } else if (value !== null && typeof value === "object") {
+      copy[key] = cloneState(value);
+    } else {
+      copy[key] = value;
+    }
+  }
+  return copy;
+}
+
+/**
+ * Base for indicators that are updated one input at a time, so a new candle
+ * doesn't recompute the whole series.
+ *
+ * `next` commits a closed candle. `peek` returns the value the indicator
+ * would have if the input closed now, without changing any state, which is
+ * what live charts and alerts need for the candle that is still forming.
+ */
+export abstract class IncrementalIndicator<TInput, TOutput> {
+  private latest: TOutput | null = null;
+
+  /**
+   * Output for the last committed input, null while warming up
+   */
+  get value(): TOutput | null {
+    return this.latest;
+  }
+
+  next(input: TInput): TOutput | null {
+    this.latest = this.update(input);
+    return this.latest;
+  }
+
+  peek(input: TInput): TOutput | null {
+    return cloneState(this).update(input);
+  }
+
+  protected abstract update(input: TInput): TOutput | null;
+}
+
+/**
+ * The last `size` values pushed, for highest high and lowest low lookups
+ */
+class RollingWindow {
+  private values: number[] = [];
+
+  constructor(private readonly size: number) {}
+
+  get length(): number {
+    return this.values.length;
+  }
+
+  get full(): boolean {
+    return this.values.length === this.size;
+  }
 
-  // Calculate price changes
-  for (let i = 1; i < prices.length; i++) {
-    const change = prices[i] - prices[i - 1];
-    gains.push(change > 0 ? change : 0);
-    losses.push(change < 0 ? -change : 0);
+  push(value: number): void {
+    this.values.push(value);
+    if (this.values.length > this.size) {
+      this.values.shift();
+    }
   }
 
-  let avgGain = gains.slice(0, period).reduce((a, b) => a + b, 0) / period;
-  let avgLoss = losses.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  // Over the most recent `count` values, the whole window by default
+  max(count = this.values.length): number {
+    return Math.max(...this.values.slice(-count));
+  }
 
-  // First RSI value
-  rsi.push(100 - 100 / (1 + avgGain / avgLoss));
+  min(count = this.values.length): number {
+    return Math.min(...this.values.slice(-count));
+  }
 
-  // Calculate remaining RSI values
-  for (let i = period; i < prices.length - 1; i++) {
-    avgGain = (avgGain * (period - 1) + gains[i]) / period;
-    avgLoss = (avgLoss * (period - 1) + losses[i]) / period;
-    rsi.push(100 - 100 / (1 + avgGain / avgLoss));
+  toArray(): number[] {
+    return [...this.values];
   }
+}
 
-  return rsi;
+function trueRange(candle: IndicatorCandle, previousClose: number | null) {
+  if (previousClose === null) {
+    return candle.high - candle.low;
+  }
+  return Math.max(
+    candle.high - candle.low,
+    Math.abs(candle.high - previousClose),
+    Math.abs(candle.low - previousClose)
+  );
 }
 
 /**
- * Calculate Simple Moving Average (SMA)
+ * Feed every input and keep the outputs past the warm-up
  */
-export function calculateSMA(prices: number[], period: number): number[] {
-  const sma: number[] = [];
+function collect<TInput, TOutput>(
+  indicator: IncrementalIndicator<TInput, TOutput>,
+  inputs: TInput[]
+): TOutput[] {
+  const outputs: TOutput[] = [];
+  for (const input of inputs) {
+    const output = indicator.next(input);
+    if (output !== null) {
+      outputs.push(output);
+    }
+  }
+  return outputs;
+}
+
+/**
+ * One line of a multi-line indicator, starting at its own first value
+ */
+function pluck<T, K extends keyof T>(
+  outputs: T[],
+  key: K
+): NonNullable<T[K]>[] {
+  return outputs
+    .map((output) => output[key])
+    .filter((value): value is NonNullable<T[K]> => value !== null);
+}
+
+/**
+ * Simple Moving Average, kept as a running sum over the window
+ */
+export class SMA extends IncrementalIndicator<number, number> {
+  private window: number[] = [];
+  private sum = 0;
 
-  for (let i = period - 1; i < prices.length; i++) {
-    const sum = prices.slice(i - period + 1, i + 1).reduce((a, b) => a + b, 0);
-    sma.push(sum / period);
+  constructor(private readonly period: number) {
+    super();
   }
 
-  return sma;
+  protected update(price: number): number | null {
+    this.window.push(price);
+    this.sum += price;
+    if (this.window.length > this.period) {
+      this.sum -= this.window.shift()!;
+    }
+    return this.window.length === this.period ? this.sum / this.period : null;
+  }
 }
 
 /**
- * Calculate Exponential Moving Average (EMA)
+ * Exponential Moving Average, seeded with the SMA of the first period
  */
-export function calculateEMA(prices: number[], period: number): number[] {
-  const ema: number[] = [];
-  const multiplier = 2 / (period + 1);
+export class EMA extends IncrementalIndicator<number, number> {
+  private readonly multiplier: number;
+  private seedSum = 0;
+  private count = 0;
+  private ema: number | null = null;
+
+  constructor(private readonly period: number) {
+    super();
+    this.multiplier = 2 / (period + 1);
+  }
 
-  // First EMA uses SMA
-  const firstSMA = prices.slice(0, period).reduce((a, b) => a + b, 0) / period;
-  ema.push(firstSMA);
+  protected update(price: number): number | null {
+    if (this.ema === null) {
+      this.seedSum += price;
+      this.count++;
+      if (this.count < this.period) return null;
+      this.ema = this.seedSum / this.period;
+      return this.ema;
+    }
 
-  for (let i = period; i < prices.length; i++) {
-    ema.push(
-      (prices[i] - ema[ema.length - 1]) * multiplier + ema[ema.length - 1]
-    );
+    this.ema = (price - this.ema) * this.multiplier + this.ema;
+    return this.ema;
   }
+}
 
-  return ema;
+/**
+ * Relative Strength Index with Wilder smoothing. The first value needs
+ * period + 1 prices.
+ */
+export class RSI extends IncrementalIndicator<number, number> {
+  private previous: number | null = null;
+  private count = 0;
+  private gainSum = 0;
+  private lossSum = 0;
+  private avgGain: number | null = null;
+  private avgLoss = 0;
+
+  constructor(private readonly period = 14) {
+    super();
+  }
+
+  protected update(price: number): number | null {
+    if (this.previous === null) {
+      this.previous = price;
+      return null;
+    }
+
+    const change = price - this.previous;
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? -change : 0;
+    this.previous = price;
+
+    if (this.avgGain === null) {
+      this.gainSum += gain;
+      this.lossSum += loss;
+      this.count++;
+      if (this.count < this.period) return null;
+      this.avgGain = this.gainSum / this.period;
+      this.avgLoss = this.lossSum / this.period;
+    } else {
+      this.avgGain = (this.avgGain * (this.period - 1) + gain) / this.period;
+      this.avgLoss = (this.avgLoss * (this.period - 1) + loss) / this.period;
+    }
+
+    // A flat market is neutral, one without losses is maximally overbought
+    if (this.avgLoss === 0) {
+      return this.avgGain === 0 ? 50 : 100;
+    }
+    return 100 - 100 / (1 + this.avgGain / this.avgLoss);
+  }
+}
+
+export interface MACDValue {
+  macd: number;
+  signal: number | null;
+  histogram: number | null;
 }
 
 /**
- * Calculate Moving Average Convergence Divergence (MACD)
+ * Moving Average Convergence Divergence. The MACD line starts with the slow
+ * EMA, the signal and histogram once the signal EMA has warmed up.
  */
-export function calculateMACD(prices: number[]): {
-  macd: number[];
-  signal: number[];
-  histogram: number[];
-} {
-  const ema12 = calculateEMA(prices, 12);
-  const ema26 = calculateEMA(prices, 26);
+export class MACD extends IncrementalIndicator<number, MACDValue> {
+  private readonly fast: EMA;
+  private readonly slow: EMA;
+  private readonly signal: EMA;
 
-  // Calculate MACD line
-  const macd: number[] = [];
-  for (let i = 0; i < ema12.length; i++) {
-    if (i >= ema26.length) break;
-    macd.push(ema12[i] - ema26[i]);
+  constructor(fastPeriod = 12, slowPeriod = 26, signalPeriod = 9) {
+    super();
+    this.fast = new EMA(fastPeriod);
+    this.slow = new EMA(slowPeriod);
+    this.signal = new EMA(signalPeriod);
   }
 
-  // Calculate Signal line (9-day EMA of MACD)
-  const signal = calculateEMA(macd, 9);
+  protected update(price: number): MACDValue | null {
+    const fast = this.fast.next(price);
+    const slow = this.slow.next(price);
+    if (fast === null || slow === null) return null;
 
-  // Calculate Histogram
-  const histogram = macd.map((value, i) => {
-    if (i >= signal.length) return 0;
-    return value - signal[i];
-  });
+    const macd = fast - slow;
+    const signal = this.signal.next(macd);
+    return {
+      macd,
+      signal,
+      histogram: signal === null ? null : macd - signal,
+    };
+  }
+}
+
+export interface BandsValue {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+/**
+ * Bollinger Bands, the SMA plus and minus a multiple of the population
+ * standard deviation over the same window
+ */
+export class BollingerBands extends IncrementalIndicator<number, BandsValue> {
+  private readonly window: RollingWindow;
+
+  constructor(
+    private readonly period = 20,
+    private readonly standardDeviations = 2
+  ) {
+    super();
+    this.window = new RollingWindow(period);
+  }
+
+  protected update(price: number): BandsValue | null {
+    this.window.push(price);
+    if (!this.window.full) return null;
+
+    const slice = this.window.toArray();
+    const middle = slice.reduce((a, b) => a + b, 0) / this.period;
+    const variance =
+      slice.reduce((sum, x) => sum + Math.pow(x - middle, 2), 0) / this.period;
+    const deviation = Math.sqrt(variance) * this.standardDeviations;
+
+    return { upper: middle + deviation, middle, lower: middle - deviation };
+  }
+}
+
+/**
+ * Average True Range with Wilder smoothing. The first candle's true range is
+ * its high-low range.
+ */
+export class ATR extends IncrementalIndicator<IndicatorCandle, number> {
+  private previousClose: number | null = null;
+  private count = 0;
+  private rangeSum = 0;
+  private atr: number | null = null;
+
+  constructor(private readonly period = 14) {
+    super();
+  }
+
+  protected update(candle: IndicatorCandle): number | null {
+    const range = trueRange(candle, this.previousClose);
+    this.previousClose = candle.close;
+
+    if (this.atr === null) {
+      this.rangeSum += range;
+      this.count++;
+      if (this.count < this.period) return null;
+      this.atr = this.rangeSum / this.period;
+      return this.atr;
+    }
+
+    this.atr = (this.atr * (this.period - 1) + range) / this.period;
+    return this.atr;
+  }
+}
 
-  return { macd, signal, histogram };
+export interface StochasticValue {
+  k: number;
+  d: number | null;
+}
+
+/**
+ * Stochastic oscillator. A smoothing above 1 gives the slow stochastic.
+ */
+export class Stochastic extends IncrementalIndicator<
+  IndicatorCandle,
+  StochasticValue
+> {
+  private readonly highs: RollingWindow;
+  private readonly lows: RollingWindow;
+  private readonly kSmoothing: SMA;
+  private readonly dLine: SMA;
+
+  constructor(kPeriod = 14, dPeriod = 3, smoothing = 1) {
+    super();
+    this.highs = new RollingWindow(kPeriod);
+    this.lows = new RollingWindow(kPeriod);
+    this.kSmoothing = new SMA(smoothing);
+    this.dLine = new SMA(dPeriod);
+  }
+
+  protected update(candle: IndicatorCandle): StochasticValue | null {
+    this.highs.push(candle.high);
+    this.lows.push(candle.low);
+    if (!this.highs.full) return null;
+
+    const highest = this.highs.max();
+    const lowest = this.lows.min();
+    const rawK =
+      highest === lowest
+        ? 50
+        : ((candle.close - lowest) / (highest - lowest)) * 100;
+
+    const k = this.kSmoothing.next(rawK);
+    if (k === null) return null;
+    return { k, d: this.dLine.next(k) };
+  }
+}
+
+/**
+ * Williams %R, from -100 (close at the period low) to 0 (at the high)
+ */
+export class WilliamsR extends IncrementalIndicator<IndicatorCandle, number> {
+  private readonly highs: RollingWindow;
+  private readonly lows: RollingWindow;
+
+  constructor(period = 14) {
+    super();
+    this.highs = new RollingWindow(period);
+    this.lows = new RollingWindow(period);
+  }
+
+  protected update(candle: IndicatorCandle): number | null {
+    this.highs.push(candle.high);
+    this.lows.push(candle.low);
+    if (!this.highs.full) return null;
+
+    const highest = this.highs.max();
+    const lowest = this.lows.min();
+    if (highest === lowest) return -50;
+    return ((highest - candle.close) / (highest - lowest)) * -100;
+  }
+}
+
+export interface ADXValue {
+  adx: number | null;
+  plusDI: number;
+  minusDI: number;
+}
+
+/**
+ * Average Directional Index with the +DI/-DI lines (DMI). The DI lines start
+ * after period + 1 candles, the ADX after another period - 1.
+ */
+export class ADX extends IncrementalIndicator<IndicatorCandle, ADXValue> {
+  private previousHigh: number | null = null;
+  private previousLow = 0;
+  private previousClose = 0;
+  private count = 0;
+  // Wilder smoothed sums
+  private rangeSum = 0;
+  private plusSum = 0;
+  private minusSum = 0;
+  private dxCount = 0;
+  private dxSum = 0;
+  private adx: number | null = null;
+
+  constructor(private readonly period = 14) {
+    super();
+  }
+
+  protected update(candle: IndicatorCandle): ADXValue | null {
+    if (this.previousHigh === null) {
+      this.previousHigh = candle.high;
+      this.previousLow = candle.low;
+      this.previousClose = candle.close;
+      return null;
+    }
+
+    const upMove = candle.high - this.previousHigh;
+    const downMove = this.previousLow - candle.low;
+    const plusDM = upMove > downMove && upMove > 0 ? upMove : 0;
+    const minusDM = downMove > upMove && downMove > 0 ? downMove : 0;
+    const range = trueRange(candle, this.previousClose);
+
+    this.previousHigh = candle.high;
+    this.previousLow = candle.low;
+    this.previousClose = candle.close;
+
+    if (this.count < this.period) {
+      this.rangeSum += range;
+      this.plusSum += plusDM;
+      this.minusSum += minusDM;
+      this.count++;
+      if (this.count < this.period) return null;
+    } else {
+      this.rangeSum += range - this.rangeSum / this.period;
+      this.plusSum += plusDM - this.plusSum / this.period;
+      this.minusSum += minusDM - this.minusSum / this.period;
+    }
+
+    const plusDI = this.rangeSum ? (this.plusSum / this.rangeSum) * 100 : 0;
+    const minusDI = this.rangeSum ? (this.minusSum / this.rangeSum) * 100 : 0;
+    const diSum = plusDI + minusDI;
+    const dx = diSum ? (Math.abs(plusDI - minusDI) / diSum) * 100 : 0;
+
+    if (this.adx === null) {
+      this.dxSum += dx;
+      this.dxCount++;
+      if (this.dxCount === this.period) {
+        this.adx = this.dxSum / this.period;
+      }
+    } else {
+      this.adx = (this.adx * (this.period - 1) + dx) / this.period;
+    }
+
+    return { adx: this.adx, plusDI, minusDI };
+  }
+}
+
+/**
+ * On-Balance Volume, starting from zero at the first candle
+ */
+export class OBV extends IncrementalIndicator<IndicatorCandle, number> {
+  private previousClose: number | null = null;
+  private obv = 0;
+
+  protected update(candle: IndicatorCandle): number {
+    if (this.previousClose !== null) {
+      if (candle.close > this.previousClose) {
+        this.obv += candle.volume;
+      } else if (candle.close < this.previousClose) {
+        this.obv -= candle.volume;
+      }
+    }
+    this.previousClose = candle.close;
+    return this.obv;
+  }
+}
+
+/**
+ * Volume Weighted Average Price of the typical price. Resets at every
+ * session boundary (UTC days by default), a null session never resets.
+ */
+export class VWAP extends IncrementalIndicator<IndicatorCandle, number> {
+  private session: number | null = null;
+  private priceVolume = 0;
+  private volume = 0;
+
+  constructor(private readonly sessionLength: number | null = DAY_MS) {
+    super();
+  }
+
+  protected update(candle: IndicatorCandle): number {
+    const session = this.sessionLength
+      ? Math.floor(candle.time / this.sessionLength)
+      : 0;
+    if (session !== this.session) {
+      this.session = session;
+      this.priceVolume = 0;
+      this.volume = 0;
+    }
+
+    const typical = (candle.high + candle.low + candle.close) / 3;
+    this.priceVolume += typical * candle.volume;
+    this.volume += candle.volume;
+    return this.volume > 0 ? this.priceVolume / this.volume : typical;
+  }
+}
+
+export interface IchimokuValue {
+  conversion: number;
+  base: number | null;
+  spanA: number | null;
+  spanB: number | null;
+  lagging: number;
+}
+
+/**
+ * Ichimoku cloud. Values are computed at the current candle; the spans are
+ * plotted `displacement` candles ahead and the lagging line (the close)
+ * `displacement` candles back.
+ */
+export class Ichimoku extends IncrementalIndicator<
+  IndicatorCandle,
+  IchimokuValue
+> {
+  private readonly highs: RollingWindow;
+  private readonly lows: RollingWindow;
+
+  constructor(
+    private readonly conversionPeriod = 9,
+    private readonly basePeriod = 26,
+    private readonly spanBPeriod = 52,
+    readonly displacement = 26
+  ) {
+    super();
+    const longest = Math.max(conversionPeriod, basePeriod, spanBPeriod);
+    this.highs = new RollingWindow(longest);
+    this.lows = new RollingWindow(longest);
+  }
+
+  private midpoint(period: number): number | null {
+    if (this.highs.length < period) return null;
+    return (this.highs.max(period) + this.lows.min(period)) / 2;
+  }
+
+  protected update(candle: IndicatorCandle): IchimokuValue | null {
+    this.highs.push(candle.high);
+    this.lows.push(candle.low);
+
+    const conversion = this.midpoint(this.conversionPeriod);
+    if (conversion === null) return null;
+
+    const base = this.midpoint(this.basePeriod);
+    return {
+      conversion,
+      base,
+      spanA: base === null ? null : (conversion + base) / 2,
+      spanB: this.midpoint(this.spanBPeriod),
+      lagging: candle.close,
+    };
+  }
+}
+
+export interface SarValue {
+  sar: number;
+  trend: SarTrend;
+}
+
+/**
+ * Parabolic SAR. The starting trend comes from the first two closes.
+ */
+export class ParabolicSAR extends IncrementalIndicator<
+  IndicatorCandle,
+  SarValue
+> {
+  private previousHigh: number | null = null;
+  private previousLow = 0;
+  private previousClose = 0;
+  private olderHigh: number | null = null;
+  private olderLow = 0;
+  private trend: SarTrend | null = null;
+  private sar = 0;
+  private extreme = 0;
+  private factor: number;
+
+  constructor(
+    private readonly step = 0.02,
+    private readonly maxStep = 0.2
+  ) {
+    super();
+    this.factor = step;
+  }
+
+  protected update(candle: IndicatorCandle): SarValue | null {
+    if (this.previousHigh === null) {
+      this.remember(candle);
+      return null;
+    }
+
+    if (this.trend === null) {
+      this.trend = candle.close >= this.previousClose ? "up" : "down";
+      this.sar =
+        this.trend === "up"
+          ? Math.min(this.previousLow, candle.low)
+          : Math.max(this.previousHigh, candle.high);
+      this.extreme =
+        this.trend === "up"
+          ? Math.max(this.previousHigh, candle.high)
+          : Math.min(this.previousLow, candle.low);
+      this.remember(candle);
+      return { sar: this.sar, trend: this.trend };
+    }
+
+    let sar = this.sar + this.factor * (this.extreme - this.sar);
+
+    if (this.trend === "up") {
+      // SAR never moves into the last two candles' range
+      sar = Math.min(sar, this.previousLow, this.olderLow);
+      if (candle.low < sar) {
+        this.trend = "down";
+        sar = this.extreme;
+        this.extreme = candle.low;
+        this.factor = this.step;
+      } else if (candle.high > this.extreme) {
+        this.extreme = candle.high;
+        this.factor = Math.min(this.factor + this.step, this.maxStep);
+      }
+    } else {
+      sar = Math.max(sar, this.previousHigh, this.olderHigh ?? sar);
+      if (candle.high > sar) {
+        this.trend = "up";
+        sar = this.extreme;
+        this.extreme = candle.high;
+        this.factor = this.step;
+      } else if (candle.low < this.extreme) {
+        this.extreme = candle.low;
+        this.factor = Math.min(this.factor + this.step, this.maxStep);
+      }
+    }
+
+    this.sar = sar;
+    this.remember(candle);
+    return { sar, trend: this.trend };
+  }
+
+  private remember(candle: IndicatorCandle): void {
+    this.olderHigh = this.previousHigh ?? candle.high;
+    this.olderLow = this.previousHigh === null ? candle.low : this.previousLow;
+    this.previousHigh = candle.high;
+    this.previousLow = candle.low;
+    this.previousClose = candle.close;
+  }
+}
+
+/**
+ * Keltner channels, an EMA of the close plus and minus a multiple of the ATR
+ */
+export class KeltnerChannels extends IncrementalIndicator<
+  IndicatorCandle,
+  BandsValue
+> {
+  private readonly ema: EMA;
+  private readonly atr: ATR;
+
+  constructor(
+    period = 20,
+    private readonly multiplier = 2,
+    atrPeriod = 10
+  ) {
+    super();
+    this.ema = new EMA(period);
+    this.atr = new ATR(atrPeriod);
+  }
+
+  protected update(candle: IndicatorCandle): BandsValue | null {
+    const middle = this.ema.next(candle.close);
+    const atr = this.atr.next(candle);
+    if (middle === null || atr === null) return null;
+
+    return {
+      upper: middle + atr * this.multiplier,
+      middle,
+      lower: middle - atr * this.multiplier,
+    };
+  }
+}
+
+/**
+ * Calculate Relative Strength Index (RSI)
+ */
+export function calculateRSI(prices: number[], period = 14): number[] {
+  return collect(new RSI(period), prices);
+}
+
+/**
+ * Calculate Simple Moving Average (SMA)
+ */
+export function calculateSMA(prices: number[], period: number): number[] {
+  return collect(new SMA(period), prices);
+}
+
+/**
+ * Calculate Exponential Moving Average (EMA)
+ */
+export function calculateEMA(prices: number[], period: number): number[] {
+  return collect(new EMA(period), prices);
+}
+
+/**
+ * Calculate Moving Average Convergence Divergence (MACD). The MACD line starts
+ * at the slow EMA's first value, the signal and histogram lines at the
+ * signal EMA's first value.
+ */
+export function calculateMACD(
+  prices: number[],
+  fastPeriod = 12,
+  slowPeriod = 26,
+  signalPeriod = 9
+): {
+  macd: number[];
+  signal: number[];
+  histogram: number[];
+} {
+  const values = collect(
+    new MACD(fastPeriod, slowPeriod, signalPeriod),
+    prices
+  );
+  return {
+    macd: pluck(values, "macd"),
+    signal: pluck(values, "signal"),
+    histogram: pluck(values, "histogram"),
+  };
 }
 
 /**
@@ -105,22 +766,154 @@ export function calculateBollingerBands(
   middle: number[];
   lower: number[];
 } {
-  const middle = calculateSMA(prices, period);
-  const upper: number[] = [];
-  const lower: number[] = [];
+  const values = collect(
+    new BollingerBands(period, standardDeviations),
+    prices
+  );
+  return {
+    upper: pluck(values, "upper"),
+    middle: pluck(values, "middle"),
+    lower: pluck(values, "lower"),
+  };
+}
 
-  for (let i = period - 1; i < prices.length; i++) {
-    const slice = prices.slice(i - period + 1, i + 1);
-    const sum = slice.reduce((a, b) => a + b, 0);
-    const mean = sum / period;
+/**
+ * Calculate Average True Range (ATR)
+ */
+export function calculateATR(
+  candles: IndicatorCandle[],
+  period = 14
+): number[] {
+  return collect(new ATR(period), candles);
+}
 
-    const squaredDifferences = slice.map((x) => Math.pow(x - mean, 2));
-    const variance = squaredDifferences.reduce((a, b) => a + b, 0) / period;
-    const standardDeviation = Math.sqrt(variance);
+/**
+ * Calculate the Stochastic oscillator. %D starts dPeriod - 1 values after %K.
+ */
+export function calculateStochastic(
+  candles: IndicatorCandle[],
+  kPeriod = 14,
+  dPeriod = 3,
+  smoothing = 1
+): {
+  k: number[];
+  d: number[];
+} {
+  const values = collect(new Stochastic(kPeriod, dPeriod, smoothing), candles);
+  return { k: pluck(values, "k"), d: pluck(values, "d") };
+}
 
-    upper.push(middle[i - period + 1] + standardDeviation * standardDeviations);
-    lower.push(middle[i - period + 1] - standardDeviation * standardDeviations);
-  }
+/**
+ * Calculate Williams %R
+ */
+export function calculateWilliamsR(
+  candles: IndicatorCandle[],
+  period = 14
+): number[] {
+  return collect(new WilliamsR(period), candles);
+}
+
+/**
+ * Calculate the Average Directional Index (ADX) and the +DI/-DI lines. The
+ * ADX starts period - 1 values after the DI lines.
+ */
+export function calculateADX(
+  candles: IndicatorCandle[],
+  period = 14
+): {
+  adx: number[];
+  plusDI: number[];
+  minusDI: number[];
+} {
+  const values = collect(new ADX(period), candles);
+  return {
+    adx: pluck(values, "adx"),
+    plusDI: pluck(values, "plusDI"),
+    minusDI: pluck(values, "minusDI"),
+  };
+}
+
+/**
+ * Calculate On-Balance Volume (OBV), one value per candle
+ */
+export function calculateOBV(candles: IndicatorCandle[]): number[] {
+  return collect(new OBV(), candles);
+}
+
+/**
+ * Calculate the Volume Weighted Average Price (VWAP), one value per candle
+ */
+export function calculateVWAP(
+  candles: IndicatorCandle[],
+  sessionLength: number | null = DAY_MS
+): number[] {
+  return collect(new VWAP(sessionLength), candles);
+}
 
-  return { upper, middle, lower };
+/**
+ * Calculate the Ichimoku cloud. Each line starts at its own first value and
+ * none are displaced, see `Ichimoku` for plotting.
+ */
+export function calculateIchimoku(
+  candles: IndicatorCandle[],
+  conversionPeriod = 9,
+  basePeriod = 26,
+  spanBPeriod = 52
+): {
+  conversion: number[];
+  base: number[];
+  spanA: number[];
+  spanB: number[];
+  lagging: number[];
+} {
+  const values = collect(
+    new Ichimoku(conversionPeriod, basePeriod, spanBPeriod),
+    candles
+  );
+  return {
+    conversion: pluck(values, "conversion"),
+    base: pluck(values, "base"),
+    spanA: pluck(values, "spanA"),
+    spanB: pluck(values, "spanB"),
+    lagging: candles.map((candle) => candle.close),
+  };
+}
+
+/**
+ * Calculate the Parabolic SAR, starting at the second candle
+ */
+export function calculateParabolicSAR(
+  candles: IndicatorCandle[],
+  step = 0.02,
+  maxStep = 0.2
+): {
+  sar: number[];
+  trend: SarTrend[];
+} {
+  const values = collect(new ParabolicSAR(step, maxStep), candles);
+  return { sar: pluck(values, "sar"), trend: pluck(values, "trend") };
+}
+
+/**
+ * Calculate Keltner channels
+ */
+export function calculateKeltnerChannels(
+  candles: IndicatorCandle[],
+  period = 20,
+  multiplier = 2,
+  atrPeriod = 10
+): {
+  upper: number[];
+  middle: number[];
+  lower: number[];
+} {
+  const values = collect(
+    new KeltnerChannels(period, multiplier, atrPeriod),
+    candles
+  );
+  return {
+    upper: pluck(values, "upper"),
+    middle: pluck(values, "middle"),
+    lower: pluck(values, "lower"),
+  };
 }
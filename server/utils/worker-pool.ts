@@ -0,0 +1,108 @@
+import os from "os";
+import { Worker } from "worker_threads";
+
+// Most threads a single pool starts
+const MAX_POOL_SIZE = 4;
+
+export interface WorkerTask<T> {
+  id: number;
+  task: T;
+}
+
+export interface WorkerReply<R> {
+  id: number;
+  result?: R;
+  error?: string; // The task threw; the worker keeps running
+}
+
+/**
+ * Threads for a pool, leaving a core for the event loop when there are
+ * several
+ */
+export function getPoolSize(tasks: number): number {
+  const cores = os.availableParallelism?.() ?? os.cpus().length;
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1, tasks));
+}
+
+// tsx's loader doesn't carry over into worker threads, so when the server runs
+// from source a TypeScript worker registers it before importing the script
+function startWorker(script: URL, workerData: unknown): Worker {
+  if (!script.pathname.endsWith(".ts")) {
+    return new Worker(script, { workerData });
+  }
+  const bootstrap = `import("tsx/esm/api").then(({ register }) => {
+    register();
+    return import(${JSON.stringify(script.href)});
+  });`;
+  return new Worker(bootstrap, { eval: true, workerData });
+}
+
+/**
+ * Run a batch of tasks on worker threads started for the batch. Each worker
+ * gets `workerData` once and takes the next task as it finishes one. Results
+ * keep the order of the tasks; tasks that threw resolve to their error. A
+ * worker that crashes or exits mid-batch fails the whole batch.
+ */
+export function runInWorkerPool<T, R>(
+  script: URL,
+  workerData: unknown,
+  tasks: T[],
+  size: number = getPoolSize(tasks.length)
+): Promise<WorkerReply<R>[]> {
+  if (!tasks.length) return Promise.resolve([]);
+
+  return new Promise((resolve, reject) => {
+    const replies: WorkerReply<R>[] = new Array(tasks.length);
+    const workers: Worker[] = [];
+    let next = 0;
+    let done = 0;
+    let settled = false;
+
+    const stop = () => workers.forEach((worker) => worker.terminate());
+
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      stop();
+      reject(error);
+    };
+
+    const dispatch = (worker: Worker) => {
+      if (next >= tasks.length) return;
+      const message: WorkerTask<T> = { id: next, task: tasks[next] };
+      next++;
+      worker.postMessage(message);
+    };
+
+    for (let i = 0; i < size; i++) {
+      const worker = startWorker(script, workerData);
+      workers.push(worker);
+
+      worker.on("message", (reply: WorkerReply<R>) => {
+        replies[reply.id] = reply;
+        done++;
+        if (done === tasks.length) {
+          settled = true;
+          stop();
+          resolve(replies);
+        } else {
+          dispatch(worker);
+        }
+      });
+      worker.on("error", fail);
+      // Workers wait for tasks until terminated, so any exit before the
+      // batch settles lost a task: an OOM kill, process.exit or a crash
+      // while loading the script
+      worker.on("exit", (code) => {
+        workers.splice(workers.indexOf(worker), 1);
+        fail(
+          new Error(
+            `Worker exited with code ${code} before posting its results`
+          )
+        );
+      });
+
+      dispatch(worker);
+    }
+  });
+}
@@ -67,6 +67,132 @@ export const newsArticles = pgTable("news_articles", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const screens = pgTable("screens", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id"),
+  name: text("name").notNull(),
+  conditions: jsonb("conditions").notNull(),
+  sort: jsonb("sort"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const strategies = pgTable("strategies", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id"),
+  name: text("name").notNull(),
+  description: text("description"),
+  definition: jsonb("definition").notNull(), // Latest version
+  version: integer("version").notNull().default(1),
+  shareCode: varchar("share_code").unique(), // Set while shared by link
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const strategyVersions = pgTable("strategy_versions", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  strategyId: varchar("strategy_id").notNull(),
+  version: integer("version").notNull(),
+  definition: jsonb("definition").notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const paperAccounts = pgTable("paper_accounts", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id"),
+  name: text("name").notNull(),
+  quoteAsset: text("quote_asset").notNull().default("USDT"),
+  initialBalance: decimal("initial_balance", {
+    precision: 18,
+    scale: 8,
+  }).notNull(),
+  cashBalance: decimal("cash_balance", { precision: 18, scale: 8 }).notNull(),
+  feePercent: decimal("fee_percent", { precision: 6, scale: 4 })
+    .notNull()
+    .default("0.1"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const paperOrders = pgTable("paper_orders", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  accountId: varchar("account_id").notNull(),
+  symbol: text("symbol").notNull(), // Trading pair, e.g. BTCUSDT
+  side: text("side").notNull(), // buy | sell
+  type: text("type").notNull(), // market | limit | stop
+  quantity: decimal("quantity", { precision: 18, scale: 8 }).notNull(),
+  limitPrice: decimal("limit_price", { precision: 18, scale: 8 }),
+  stopPrice: decimal("stop_price", { precision: 18, scale: 8 }),
+  status: text("status").notNull().default("open"), // open | filled | cancelled | rejected
+  averagePrice: decimal("average_price", { precision: 18, scale: 8 }),
+  fee: decimal("fee", { precision: 18, scale: 8 }),
+  realizedPnl: decimal("realized_pnl", { precision: 18, scale: 8 }), // Sells
+  rejectReason: text("reject_reason"),
+  bookSource: text("book_source"), // live | stored, for filled orders
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  triggeredAt: timestamp("triggered_at"), // Stop orders
+  closedAt: timestamp("closed_at"),
+});
+
+export const paperPositions = pgTable("paper_positions", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  accountId: varchar("account_id").notNull(),
+  symbol: text("symbol").notNull(),
+  quantity: decimal("quantity", { precision: 18, scale: 8 }).notNull(),
+  // Cost per unit including buy fees
+  averageCost: decimal("average_cost", { precision: 18, scale: 8 }).notNull(),
+  // Kept after the position is closed
+  realizedPnl: decimal("realized_pnl", { precision: 18, scale: 8 })
+    .notNull()
+    .default("0"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const portfolios = pgTable("portfolios", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id"),
+  name: text("name").notNull(),
+  // Prices, fees and valuations are in this currency
+  currency: text("currency").notNull().default("USD"),
+  // How sells are matched to buys: average | fifo | lifo | hifo
+  costMethod: text("cost_method").notNull().default("average"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const portfolioTransactions = pgTable("portfolio_transactions", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  portfolioId: varchar("portfolio_id").notNull(),
+  type: text("type").notNull(), // buy | sell | transfer_in | transfer_out
+  asset: text("asset").notNull(), // Base asset, e.g. BTC
+  quantity: decimal("quantity", { precision: 18, scale: 8 }).notNull(),
+  // Per unit; the cost carried over for transfers in, none for transfers out
+  price: decimal("price", { precision: 18, scale: 8 }),
+  fee: decimal("fee", { precision: 18, scale: 8 }).notNull().default("0"),
+  note: text("note"),
+  // Imported rows: source and trade ID, or a fingerprint of the row
+  importKey: text("import_key"),
+  executedAt: timestamp("executed_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
@@ -88,6 +214,508 @@ export const insertNewsArticleSchema = createInsertSchema(newsArticles).omit({
   createdAt: true,
 });
 
+// Screener conditions compare a coin metric against a number or another
+// metric, e.g. RSI(14) < 30 or volume 24h > 2 x avgVolume(7)
+export const screenerMetrics = [
+  "price",
+  "change24h",
+  "volume24h",
+  "marketCap",
+  "rsi",
+  "sma",
+  "ema",
+  "avgVolume",
+  "sentimentScore",
+] as const;
+
+export const screenerOperandSchema = z.object({
+  metric: z.enum(screenerMetrics),
+  period: z.number().int().min(1).max(365).optional(), // Days
+});
+
+export const screenerConditionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("compare"),
+    left: screenerOperandSchema,
+    operator: z.enum(["<", "<=", ">", ">="]),
+    right: z.union([z.number(), screenerOperandSchema]),
+    multiplier: z.number().positive().optional(), // Applied to the right side
+  }),
+  z.object({
+    type: z.literal("sentiment"),
+    sentiment: z.enum(["positive", "negative", "neutral"]),
+  }),
+]);
+
+export const screenerSortSchema = z.object({
+  by: screenerOperandSchema,
+  direction: z.enum(["asc", "desc"]),
+});
+
+export const screenerQuerySchema = z.object({
+  conditions: z.array(screenerConditionSchema).max(10),
+  sort: screenerSortSchema.optional(),
+  limit: z.number().int().min(1).max(100).optional(), // Coins scanned
+});
+
+export const insertScreenSchema = createInsertSchema(screens)
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    name: z.string().trim().min(1).max(60),
+    conditions: z.array(screenerConditionSchema).max(10),
+    sort: screenerSortSchema.nullable().optional(),
+  });
+
+// Strategy rules compare a price field or indicator line against a number or
+// another operand, e.g. rsi:14 < 30 or close crosses above ema:50. Operands
+// default to the strategy timeframe; a longer timeframe reads its last closed
+// candle.
+export const strategyOperandSchema = z.union([
+  z.object({
+    price: z.enum(["open", "high", "low", "close", "volume"]),
+    timeframe: z.string().trim().min(2).max(4).optional(),
+  }),
+  z.object({
+    // Same format as /api/market/indicators, e.g. "rsi:14" or "macd:12:26:9"
+    indicator: z.string().trim().min(1).max(40),
+    // Column prefix for indicators with several lines, e.g. "macd_hist"
+    line: z.string().trim().min(1).max(20).optional(),
+    timeframe: z.string().trim().min(2).max(4).optional(),
+  }),
+]);
+
+export const strategyConditionSchema = z.object({
+  left: strategyOperandSchema,
+  operator: z.enum(["<", "<=", ">", ">=", "crosses_above", "crosses_below"]),
+  right: z.union([z.number(), strategyOperandSchema]),
+});
+
+// A list of rules is shorthand for { all: [...] }
+export type StrategyRule =
+  | z.infer<typeof strategyConditionSchema>
+  | StrategyRule[]
+  | { all: StrategyRule[] }
+  | { any: StrategyRule[] };
+
+export const strategyRuleSchema: z.ZodType<StrategyRule> = z.lazy(() =>
+  z.union([
+    strategyConditionSchema,
+    z.array(strategyRuleSchema).min(1).max(10),
+    z.object({ all: z.array(strategyRuleSchema).min(1).max(10) }),
+    z.object({ any: z.array(strategyRuleSchema).min(1).max(10) }),
+  ])
+);
+
+export const strategySizingSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("percent_equity"),
+    percent: z.number().gt(0).max(100),
+  }),
+  z.object({
+    type: z.literal("fixed"),
+    amount: z.number().positive(), // Quote asset per trade
+  }),
+  z.object({
+    type: z.literal("risk"),
+    percent: z.number().gt(0).max(100), // Equity lost if the stop is hit
+  }),
+]);
+
+// Distance of a stop-loss or take-profit from the entry price
+export const strategyExitLevelSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("percent"),
+    percent: z.number().gt(0).max(100),
+  }),
+  z.object({
+    type: z.literal("atr"),
+    multiple: z.number().gt(0).max(20),
+    period: z.number().int().min(1).max(100).optional(),
+  }),
+]);
+
+// Leaf conditions allowed across a strategy's entry and exit rules
+export const MAX_STRATEGY_CONDITIONS = 20;
+
+function countConditions(rule: StrategyRule): number {
+  if (Array.isArray(rule)) {
+    return rule.reduce((sum, child) => sum + countConditions(child), 0);
+  }
+  if ("all" in rule) return countConditions(rule.all);
+  if ("any" in rule) return countConditions(rule.any);
+  return 1;
+}
+
+// Long only: a position opens when the entry rule holds on a candle close and
+// closes on the exit rule, the stop-loss or the take-profit
+export const strategyDefinitionSchema = z
+  .object({
+    name: z.string().trim().min(1).max(60).optional(),
+    description: z.string().trim().max(500).optional(),
+    timeframe: z.string().trim().min(2).max(4),
+    entry: strategyRuleSchema,
+    exit: strategyRuleSchema.optional(),
+    sizing: strategySizingSchema.optional(), // All equity when omitted
+    stopLoss: strategyExitLevelSchema.optional(),
+    takeProfit: strategyExitLevelSchema.optional(),
+  })
+  .superRefine((definition, ctx) => {
+    if (!definition.exit && !definition.stopLoss && !definition.takeProfit) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["exit"],
+        message: "Needs an exit rule, a stop-loss or a take-profit",
+      });
+    }
+    if (definition.sizing?.type === "risk" && !definition.stopLoss) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["sizing"],
+        message: "Risk sizing needs a stop-loss",
+      });
+    }
+    const conditions =
+      countConditions(definition.entry) +
+      (definition.exit ? countConditions(definition.exit) : 0);
+    if (conditions > MAX_STRATEGY_CONDITIONS) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["entry"],
+        message: `At most ${MAX_STRATEGY_CONDITIONS} conditions per strategy`,
+      });
+    }
+  });
+
+export const insertStrategySchema = createInsertSchema(strategies)
+  .omit({
+    id: true,
+    version: true,
+    shareCode: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    name: z.string().trim().min(1).max(60),
+    description: z.string().trim().max(500).nullable().optional(),
+    definition: strategyDefinitionSchema,
+  });
+
+// Changing the definition saves a new version, with an optional note
+export const updateStrategySchema = insertStrategySchema
+  .omit({ userId: true })
+  .partial()
+  .extend({ note: z.string().trim().max(200).optional() });
+
+// Backtests take an inline definition or a saved strategy, optionally at an
+// earlier version. The interval overrides the strategy timeframe.
+export const backtestRequestSchema = z
+  .object({
+    symbol: z.string().trim().min(1).max(20),
+    interval: z.string().trim().min(2).max(4).optional(),
+    startTime: z.number().int().nonnegative().optional(), // Unix ms
+    endTime: z.number().int().positive().optional(),
+    strategy: strategyDefinitionSchema.optional(),
+    strategyId: z.string().min(1).optional(),
+    version: z.number().int().positive().optional(),
+    initialCapital: z.number().positive().max(1e9).optional(), // Quote asset
+    feePercent: z.number().min(0).max(5).optional(), // Per fill
+    slippagePercent: z.number().min(0).max(5).optional(), // Per fill
+  })
+  .refine((request) => !!request.strategy !== !!request.strategyId, {
+    message: "Provide either strategy or strategyId",
+    path: ["strategy"],
+  });
+
+export const insertPaperAccountSchema = createInsertSchema(paperAccounts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPaperOrderSchema = createInsertSchema(paperOrders)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({
+    side: z.enum(["buy", "sell"]),
+    type: z.enum(["market", "limit", "stop"]),
+    status: z.enum(["open", "filled", "cancelled", "rejected"]).optional(),
+    bookSource: z.enum(["live", "stored"]).nullable().optional(),
+  });
+
+export const insertPaperPositionSchema = createInsertSchema(
+  paperPositions
+).omit({
+  id: true,
+  updatedAt: true,
+});
+
+// Request bodies take numbers; balances and prices are stored as decimals
+export const paperAccountRequestSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  initialBalance: z.number().positive().max(1e9), // Quote asset
+  feePercent: z.number().min(0).max(5).optional(), // Per fill
+  userId: z.string().nullable().optional(),
+});
+
+// Limit orders need a limit price and stop orders a stop price
+export const paperOrderRequestSchema = z
+  .object({
+    symbol: z.string().trim().min(1).max(20),
+    side: z.enum(["buy", "sell"]),
+    type: z.enum(["market", "limit", "stop"]),
+    quantity: z.number().positive().max(1e12), // Base asset
+    limitPrice: z.number().positive().optional(),
+    stopPrice: z.number().positive().optional(),
+  })
+  .superRefine((order, ctx) => {
+    if (order.type === "limit" && order.limitPrice === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["limitPrice"],
+        message: "Limit orders need a limit price",
+      });
+    }
+    if (order.type === "stop" && order.stopPrice === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["stopPrice"],
+        message: "Stop orders need a stop price",
+      });
+    }
+  });
+
+export const portfolioTransactionTypes = [
+  "buy",
+  "sell",
+  "transfer_in",
+  "transfer_out",
+] as const;
+
+export const portfolioCostMethods = [
+  "average",
+  "fifo",
+  "lifo",
+  "hifo",
+] as const;
+
+export const tradeImportFormats = [
+  "binance",
+  "coinbase",
+  "kraken",
+  "generic",
+] as const;
+
+export const insertPortfolioSchema = createInsertSchema(portfolios)
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    costMethod: z.enum(portfolioCostMethods).optional(),
+  });
+
+export const insertPortfolioTransactionSchema = createInsertSchema(
+  portfolioTransactions
+)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({
+    type: z.enum(portfolioTransactionTypes),
+  });
+
+export const portfolioRequestSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  currency: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z]{3,10}$/)
+    .transform((code) => code.toUpperCase())
+    .optional(),
+  costMethod: z.enum(portfolioCostMethods).optional(),
+  userId: z.string().nullable().optional(),
+});
+
+export const updatePortfolioRequestSchema = portfolioRequestSchema
+  .pick({
+    name: true,
+    costMethod: true,
+  })
+  .partial();
+
+// Buys, sells and transfers in need a price; times are epoch milliseconds and
+// default to now
+export const portfolioTransactionRequestSchema = z
+  .object({
+    type: z.enum(portfolioTransactionTypes),
+    asset: z.string().trim().min(1).max(20),
+    quantity: z.number().positive().max(1e12),
+    price: z.number().min(0).max(1e12).optional(),
+    fee: z.number().min(0).max(1e12).optional(), // Portfolio currency
+    note: z.string().trim().max(200).optional(),
+    executedAt: z.number().int().positive().optional(),
+  })
+  .superRefine((transaction, ctx) => {
+    if (transaction.type === "transfer_out") {
+      if (transaction.price !== undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["price"],
+          message: "Transfers out leave at the average cost",
+        });
+      }
+    } else if (transaction.price === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["price"],
+        message: `A ${transaction.type.replace("_", " ")} needs a price`,
+      });
+    }
+    if (
+      transaction.executedAt !== undefined &&
+      transaction.executedAt > Date.now()
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["executedAt"],
+        message: "Transactions can't be in the future",
+      });
+    }
+  });
+
+// Trade history uploads take the CSV as the body and these as the query. The
+// generic format maps its columns by header name; prices without a quote
+// column are in `currency`, the portfolio currency by default.
+export const tradeImportQuerySchema = z
+  .object({
+    format: z.enum(tradeImportFormats),
+    date: z.string().trim().min(1).optional(),
+    type: z.string().trim().min(1).optional(),
+    asset: z.string().trim().min(1).optional(),
+    quantity: z.string().trim().min(1).optional(),
+    price: z.string().trim().min(1).optional(),
+    quote: z.string().trim().min(1).optional(),
+    fee: z.string().trim().min(1).optional(),
+    feeAsset: z.string().trim().min(1).optional(),
+    id: z.string().trim().min(1).optional(),
+    currency: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z0-9]{2,10}$/)
+      .transform((code) => code.toUpperCase())
+      .optional(),
+  })
+  .superRefine((query, ctx) => {
+    if (query.format !== "generic") return;
+    for (const column of ["date", "type", "asset", "quantity"] as const) {
+      if (!query[column]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [column],
+          message: `Generic imports need the ${column} column`,
+        });
+      }
+    }
+  });
+
+export const optimizationObjectives = [
+  "totalReturn",
+  "cagr",
+  "sharpe",
+  "sortino",
+  "profitFactor",
+  "winRate",
+] as const;
+
+// Backtests a single sweep may run per window
+export const MAX_OPTIMIZATION_COMBINATIONS = 500;
+
+// A swept parameter, listed or stepped from min to max inclusive
+export const strategyParameterSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(/^[A-Za-z][A-Za-z0-9_]*$/)
+      .max(30),
+    values: z.array(z.number()).min(1).max(50).optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    step: z.number().positive().optional(),
+  })
+  .refine(
+    (parameter) =>
+      parameter.values !== undefined ||
+      (parameter.min !== undefined &&
+        parameter.max !== undefined &&
+        parameter.step !== undefined &&
+        parameter.min <= parameter.max),
+    { message: "Give values, or min, max and step" }
+  );
+
+// Sweeps take a definition with "{{name}}" placeholders, e.g. "rsi:{{period}}"
+// or a bare "{{lower}}" for a number. It is validated once filled in.
+export const optimizationRequestSchema = z.object({
+  symbol: z.string().trim().min(1).max(20),
+  interval: z.string().trim().min(2).max(4).optional(),
+  startTime: z.number().int().nonnegative().optional(), // Unix ms
+  endTime: z.number().int().positive().optional(),
+  strategy: z.record(z.unknown()),
+  parameters: z.array(strategyParameterSchema).min(1).max(4),
+  search: z.enum(["grid", "random"]).optional(), // Grid by default
+  samples: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_OPTIMIZATION_COMBINATIONS)
+    .optional(), // Random search
+  seed: z.number().int().optional(),
+  objective: z.enum(optimizationObjectives).optional(), // Sharpe by default
+  minTrades: z.number().int().min(0).max(1000).optional(), // Fewer don't score
+  walkForward: z
+    .object({
+      windows: z.number().int().min(1).max(10),
+      inSamplePercent: z.number().min(50).max(90),
+    })
+    .optional(),
+  initialCapital: z.number().positive().max(1e9).optional(),
+  feePercent: z.number().min(0).max(5).optional(),
+  slippagePercent: z.number().min(0).max(5).optional(),
+});
+
+// Replays the investment recommender at past dates: a recommendation every
+// stepDays from startTime, each held for holdDays
+export const recommenderEvaluationRequestSchema = z.object({
+  timeframe: z.enum(["short", "medium", "long"]),
+  preferences: z.string().max(500).optional(), // Read for risk tolerance
+  amount: z.number().positive().max(1e9).optional(), // USD
+  // The current top coins by default
+  symbols: z.array(z.string().trim().min(1).max(20)).min(2).max(20).optional(),
+  startTime: z.number().int().nonnegative(), // Unix ms
+  endTime: z.number().int().positive().optional(),
+  holdDays: z.number().int().min(1).max(365).optional(), // By timeframe
+  stepDays: z.number().int().min(1).max(365).optional(), // holdDays
+  weights: z
+    .object({
+      sentiment: z.number().min(0).max(10),
+      technical: z.number().min(0).max(10),
+      fundamental: z.number().min(0).max(10),
+    })
+    .refine(
+      (weights) =>
+        weights.sentiment + weights.technical + weights.fundamental > 0,
+      { message: "At least one weight must be positive" }
+    )
+    .optional(),
+});
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -98,6 +726,97 @@ export type ChatHistory = typeof chatHistory.$inferSelect;
 export type InsertMarketData = z.infer<typeof insertMarketDataSchema>;
 export type MarketData = typeof marketData.$inferSelect;
 
+export type ScreenerMetric = (typeof screenerMetrics)[number];
+export type ScreenerOperand = z.infer<typeof screenerOperandSchema>;
+export type ScreenerCondition = z.infer<typeof screenerConditionSchema>;
+export type ScreenerSort = z.infer<typeof screenerSortSchema>;
+export type ScreenerQuery = z.infer<typeof screenerQuerySchema>;
+
+export type InsertScreen = z.infer<typeof insertScreenSchema>;
+export type Screen = Omit<
+  typeof screens.$inferSelect,
+  "conditions" | "sort"
+> & {
+  conditions: ScreenerCondition[];
+  sort: ScreenerSort | null;
+};
+
+export type StrategyOperand = z.infer<typeof strategyOperandSchema>;
+export type StrategyCondition = z.infer<typeof strategyConditionSchema>;
+export type StrategySizing = z.infer<typeof strategySizingSchema>;
+export type StrategyExitLevel = z.infer<typeof strategyExitLevelSchema>;
+export type StrategyDefinition = z.infer<typeof strategyDefinitionSchema>;
+
+export type InsertStrategy = z.infer<typeof insertStrategySchema>;
+export type UpdateStrategy = z.infer<typeof updateStrategySchema>;
+export type Strategy = Omit<typeof strategies.$inferSelect, "definition"> & {
+  definition: StrategyDefinition;
+};
+export type StrategyVersion = Omit<
+  typeof strategyVersions.$inferSelect,
+  "definition"
+> & {
+  definition: StrategyDefinition;
+};
+
+export type BacktestRequest = z.infer<typeof backtestRequestSchema>;
+export type OptimizationObjective = (typeof optimizationObjectives)[number];
+export type StrategyParameter = z.infer<typeof strategyParameterSchema>;
+export type OptimizationRequest = z.infer<typeof optimizationRequestSchema>;
+export type RecommenderEvaluationRequest = z.infer<
+  typeof recommenderEvaluationRequestSchema
+>;
+
+export type PaperOrderSide = "buy" | "sell";
+export type PaperOrderType = "market" | "limit" | "stop";
+export type PaperOrderStatus = "open" | "filled" | "cancelled" | "rejected";
+export type PaperBookSource = "live" | "stored";
+
+export type InsertPaperAccount = z.infer<typeof insertPaperAccountSchema>;
+export type PaperAccount = typeof paperAccounts.$inferSelect;
+export type InsertPaperOrder = z.infer<typeof insertPaperOrderSchema>;
+export type PaperOrder = Omit<
+  typeof paperOrders.$inferSelect,
+  "side" | "type" | "status" | "bookSource"
+> & {
+  side: PaperOrderSide;
+  type: PaperOrderType;
+  status: PaperOrderStatus;
+  bookSource: PaperBookSource | null;
+};
+export type InsertPaperPosition = z.infer<typeof insertPaperPositionSchema>;
+export type PaperPosition = typeof paperPositions.$inferSelect;
+export type PaperAccountRequest = z.infer<typeof paperAccountRequestSchema>;
+export type PaperOrderRequest = z.infer<typeof paperOrderRequestSchema>;
+
+export type PortfolioTransactionType =
+  (typeof portfolioTransactionTypes)[number];
+
+export type PortfolioCostMethod = (typeof portfolioCostMethods)[number];
+export type TradeImportFormat = (typeof tradeImportFormats)[number];
+
+export type InsertPortfolio = z.infer<typeof insertPortfolioSchema>;
+export type Portfolio = Omit<typeof portfolios.$inferSelect, "costMethod"> & {
+  costMethod: PortfolioCostMethod;
+};
+export type InsertPortfolioTransaction = z.infer<
+  typeof insertPortfolioTransactionSchema
+>;
+export type PortfolioTransaction = Omit<
+  typeof portfolioTransactions.$inferSelect,
+  "type"
+> & {
+  type: PortfolioTransactionType;
+};
+export type PortfolioRequest = z.infer<typeof portfolioRequestSchema>;
+export type UpdatePortfolioRequest = z.infer<
+  typeof updatePortfolioRequestSchema
+>;
+export type PortfolioTransactionRequest = z.infer<
+  typeof portfolioTransactionRequestSchema
+>;
+export type TradeImportQuery = z.infer<typeof tradeImportQuerySchema>;
+
 export type InsertNewsArticle = z.infer<typeof insertNewsArticleSchema>;
 export type NewsArticle = typeof newsArticles.$inferSelect;
 
@@ -163,13 +882,6 @@ export const chatMessageSchema = z.object({
 });
 
 // Additional types
-export type MarketStats = {
-  totalMarketCap: string;
-  totalVolume24h: string;
-  btcDominance: string;
-  fearGreedIndex: number;
-};
-
 export type SentimentAnalysis = {
   label: "positive" | "negative" | "neutral";
   score: number;
@@ -0,0 +1,65 @@
+// Backtest results shared by the backtest service and the client
+
+import type { StrategyDefinition } from "../schema";
+
+export interface BacktestSettings {
+  initialCapital: number;
+  feePercent: number;
+  slippagePercent: number;
+}
+
+export const DEFAULT_BACKTEST_SETTINGS: BacktestSettings = {
+  initialCapital: 10000,
+  feePercent: 0.1,
+  slippagePercent: 0.05,
+};
+
+export interface BacktestTrade {
+  entryTime: number; // Open time of the fill candle
+  entryPrice: number; // After slippage
+  exitTime: number;
+  exitPrice: number;
+  quantity: number;
+  fees: number; // Entry and exit, in the quote asset
+  pnl: number; // Net of fees
+  returnPercent: number; // Net of fees, on the entry cost
+  candles: number; // Candles held
+  exitReason: "signal" | "stop_loss" | "take_profit" | "end";
+}
+
+export interface EquityPoint {
+  time: number;
+  equity: number; // Marked to the candle close
+  drawdown: number; // Percent below the running peak
+}
+
+export interface BacktestMetrics {
+  finalEquity: number;
+  totalReturn: number; // Percent
+  cagr: number | null; // Percent, null for runs shorter than a day
+  sharpe: number | null; // Annualized, risk-free rate of zero
+  sortino: number | null;
+  maxDrawdown: number; // Percent
+  winRate: number | null; // Percent of closed trades, null without trades
+  profitFactor: number | null; // Gross profit over gross loss
+  trades: number;
+  exposure: number; // Percent of candles in a position
+  buyAndHoldReturn: number; // Percent, same fees and slippage
+}
+
+export interface BacktestResult {
+  symbol: string;
+  interval: string;
+  source: string; // Stored interval the candles were read or resampled from
+  startTime: number;
+  endTime: number;
+  candles: number;
+  strategy: StrategyDefinition;
+  strategyId: string | null; // Saved strategy, when one was run
+  version: number | null;
+  settings: BacktestSettings;
+  metrics: BacktestMetrics;
+  equity: EquityPoint[];
+  trades: BacktestTrade[];
+  timestamp: string;
+}
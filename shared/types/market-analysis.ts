@@ -35,14 +35,72 @@ export interface InvestmentRecommendation {
   sentimentScore: number;
   technicalScore: number;
   fundamentalScore: number;
+  technicalFactors?: string[]; // Indicator readings behind the technical score
+}
+
+// How much each score counts toward a coin's overall score
+export interface ScoringWeights {
+  sentiment: number;
+  technical: number;
+  fundamental: number;
+}
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  sentiment: 1,
+  technical: 1,
+  fundamental: 1,
+};
+
+export type InvestmentTimeframe = "short" | "medium" | "long";
+
+// Days an investment is held for each timeframe
+export const INVESTMENT_HORIZON_DAYS: Record<InvestmentTimeframe, number> = {
+  short: 7,
+  medium: 30,
+  long: 90,
+};
+
+export type SimulationMethod = "bootstrap" | "gbm";
+
+// Portfolio value percentiles on one simulated day
+export interface OutcomeBand {
+  day: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface OutcomePercentiles {
+  p5: number;
+  p50: number;
+  p95: number;
+}
+
+// Monte Carlo outcomes of holding the recommended allocations
+export interface OutcomeSimulation {
+  method: SimulationMethod;
+  paths: number;
+  days: number; // Horizon
+  historyDays: number; // Daily returns the paths were drawn from
+  startValue: number; // The amount, unallocated cash included
+  finalValue: OutcomePercentiles;
+  finalReturn: OutcomePercentiles; // Percent
+  probabilityOfLoss: number; // Percent of paths ending below the start
+  expectedMaxDrawdown: number; // Percent, mean over paths
+  maxDrawdownP95: number; // Percent, exceeded by 1 path in 20
+  bands: OutcomeBand[]; // Day 0 through the horizon
 }
 
 export interface InvestmentAnalysisResponse {
   recommendations: InvestmentRecommendation[];
   analysis: string;
   riskAssessment: string;
+  simulation: OutcomeSimulation | null; // Null without enough price history
   metadata: {
     amount: number;
+    currency?: string;
     timeframe: string;
     analysisDate: string;
     disclaimer: string;
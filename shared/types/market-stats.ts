@@ -0,0 +1,46 @@
+// Global market statistics shared by the stats service and the client
+
+export interface MarketBreadth {
+  advancers: number;
+  decliners: number;
+  unchanged: number;
+  advanceDeclineRatio: number | null; // Null when nothing declined
+}
+
+export interface MarketDominance {
+  symbol: string;
+  percent: number;
+}
+
+export interface GlobalMarketStats {
+  totalMarketCap: number; // USD
+  totalVolume24h: number; // USD
+  marketCapChangePercent24h: number;
+  btcDominance: number; // Percent of total market cap
+  ethDominance: number;
+  dominance: MarketDominance[]; // Largest assets first
+  breadth: MarketBreadth;
+  fearGreedIndex: number | null;
+  fearGreedLabel: string | null;
+  coinCount: number;
+  source: string;
+  timestamp: string;
+}
+
+export interface MarketStatsSnapshot {
+  timestamp: string;
+  totalMarketCap: number;
+  totalVolume24h: number;
+  btcDominance: number;
+  advancers: number;
+  decliners: number;
+}
+
+// One daily Fear & Greed reading, from 0 (extreme fear) to 100
+export interface FearGreedReading {
+  time: number; // Start of the UTC day
+  value: number;
+  classification: string;
+}
+
+export type MarketTrend = "bullish" | "bearish" | "neutral";
@@ -0,0 +1,62 @@
+// Live market stream types shared by the stream hub and the client hooks
+
+export type MarketStreamChannel = "ticker" | "trade" | "kline";
+
+export const MARKET_STREAM_CHANNELS: MarketStreamChannel[] = [
+  "ticker",
+  "trade",
+  "kline",
+];
+
+export interface TickerStreamEvent {
+  type: "ticker";
+  symbol: string;
+  price: number;
+  priceChange24h: number;
+  priceChangePercent24h: number;
+  high24h: number;
+  low24h: number;
+  volume24h: number;
+  quoteVolume24h: number;
+  eventTime: number;
+}
+
+export interface TradeStreamEvent {
+  type: "trade";
+  symbol: string;
+  tradeId: number;
+  price: number;
+  quantity: number;
+  time: number;
+  isBuyerMaker: boolean;
+}
+
+export interface KlineStreamEvent {
+  type: "kline";
+  symbol: string;
+  interval: string;
+  candle: {
+    time: number;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+    trades: number;
+  };
+  isClosed: boolean;
+  eventTime: number;
+}
+
+// First message of a stream, once the server has resolved the symbols
+export interface MarketStreamReady {
+  streams: string[];
+  // Requested symbol, upper-cased, to the pair its events carry, e.g.
+  // BTC -> BTCUSDT, ETH-BTC -> ETHBTC
+  pairs: Record<string, string>;
+}
+
+export type MarketStreamEvent =
+  | TickerStreamEvent
+  | TradeStreamEvent
+  | KlineStreamEvent;
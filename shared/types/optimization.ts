@@ -0,0 +1,71 @@
+// Parameter sweep results shared by the optimization service and the client
+
+import type { OptimizationObjective } from "../schema";
+import type { BacktestMetrics, BacktestSettings } from "./backtest";
+
+export type ParameterValues = Record<string, number>;
+
+export interface OptimizationRun {
+  parameters: ParameterValues;
+  // Objective, averaged over the in-sample windows with walk-forward. Null
+  // when no window had enough trades.
+  score: number | null;
+  // Objective per in-sample window, a single entry without walk-forward
+  windowScores: (number | null)[];
+  metrics: BacktestMetrics | null; // Whole range, without walk-forward
+}
+
+export interface OptimizationWindow {
+  startTime: number;
+  endTime: number;
+  candles: number;
+}
+
+export interface WalkForwardWindow {
+  inSample: OptimizationWindow;
+  outOfSample: OptimizationWindow;
+  // Best in-sample parameters, null when no run scored
+  parameters: ParameterValues | null;
+  inSampleScore: number | null;
+  outOfSampleScore: number | null;
+  outOfSampleMetrics: BacktestMetrics | null;
+}
+
+export interface WalkForwardSummary {
+  inSamplePercent: number;
+  windows: WalkForwardWindow[];
+  // Percent, compounded across the out-of-sample windows
+  outOfSampleReturn: number;
+  meanInSampleScore: number | null;
+  meanOutOfSampleScore: number | null;
+}
+
+export interface OptimizationHeatmap {
+  x: string; // Parameter names
+  y: string;
+  xValues: number[];
+  yValues: number[];
+  // cells[y][x], the best score over the other parameters
+  cells: (number | null)[][];
+}
+
+export interface OptimizationResult {
+  symbol: string;
+  interval: string;
+  source: string; // Stored interval the candles were read or resampled from
+  startTime: number;
+  endTime: number;
+  candles: number;
+  objective: OptimizationObjective;
+  search: "grid" | "random";
+  combinations: number; // Parameter sets tested
+  gridSize: number; // Parameter sets in the full grid
+  settings: BacktestSettings;
+  best: OptimizationRun | null;
+  runs: OptimizationRun[]; // Best first
+  heatmaps: OptimizationHeatmap[]; // One per parameter pair
+  walkForward: WalkForwardSummary | null;
+  workers: number;
+  durationMs: number;
+  timestamp: string;
+}
@@ -0,0 +1,32 @@
+// Paper account views shared by the paper trading service and the client.
+// Stored rows keep decimals as strings; these are plain numbers.
+
+import type { PaperAccount, PaperOrder } from "../schema";
+
+export interface PaperPositionView {
+  symbol: string;
+  quantity: number;
+  averageCost: number; // Per unit, including buy fees
+  markPrice: number | null; // Mid price, null when no book could be loaded
+  marketValue: number | null;
+  unrealizedPnl: number | null;
+  unrealizedPnlPercent: number | null;
+  realizedPnl: number;
+}
+
+export interface PaperAccountSummary {
+  account: PaperAccount;
+  cash: number;
+  // Cash held for open buy orders
+  reservedCash: number;
+  availableCash: number;
+  positionsValue: number;
+  equity: number; // Cash plus positions at their mark price
+  realizedPnl: number;
+  unrealizedPnl: number;
+  totalReturn: number; // Percent of the initial balance
+  // Open positions; closed ones only count towards realized P&L
+  positions: PaperPositionView[];
+  openOrders: PaperOrder[];
+  timestamp: string;
+}
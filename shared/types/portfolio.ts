@@ -0,0 +1,128 @@
+// Portfolio views shared by the portfolio service and the client. Amounts are
+// in the portfolio currency; stored rows keep decimals as strings.
+
+import type {
+  Portfolio,
+  PortfolioCostMethod,
+  PortfolioTransactionType,
+  TradeImportFormat,
+} from "../schema";
+
+export interface PortfolioHolding {
+  asset: string;
+  quantity: number; // Zero once the asset has been sold or moved out
+  averageCost: number; // Per unit of the lots held, including buy fees
+  costBasis: number;
+  price: number | null; // Live price, null when the asset couldn't be priced
+  marketValue: number | null;
+  unrealizedPnl: number | null;
+  unrealizedPnlPercent: number | null;
+  realizedPnl: number; // Sells less the cost of their lots and fees
+  allocation: number | null; // Percent of the priced market value
+}
+
+export interface PortfolioSummary {
+  portfolio: Portfolio;
+  // Open holdings, largest first; closed ones only count towards realized P&L
+  holdings: PortfolioHolding[];
+  transactionCount: number;
+  costBasis: number;
+  marketValue: number; // Priced holdings only
+  unrealizedPnl: number;
+  realizedPnl: number;
+  totalPnl: number;
+  totalReturn: number | null; // Total P&L as a percent of all money put in
+  unpriced: string[]; // Open holdings left out of the market value
+  timestamp: string;
+}
+
+export interface PortfolioPerformancePoint {
+  time: number; // Day open, epoch milliseconds
+  value: number; // Holdings at the day's close
+  costBasis: number;
+}
+
+export interface PortfolioPerformance {
+  portfolioId: string;
+  currency: string;
+  points: PortfolioPerformancePoint[];
+  // Assets without daily candles, valued at today's price throughout
+  flat: string[];
+  unpriced: string[]; // Assets without any price, left out of the value
+  timestamp: string;
+}
+
+// A sell matched to one lot, or to the average cost
+export interface RealizedDisposal {
+  transactionId: string;
+  asset: string;
+  quantity: number;
+  acquiredAt: string | null; // Null at average cost
+  disposedAt: string;
+  proceeds: number; // Less the sell's fee, shared out by quantity
+  costBasis: number;
+  gain: number;
+  term: "short" | "long" | null; // Long when held over a year
+}
+
+export interface RealizedGainsTotals {
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  shortTermGain: number;
+  longTermGain: number; // Both exclude gains without a term
+}
+
+export interface RealizedGainsReport {
+  portfolioId: string;
+  currency: string;
+  costMethod: PortfolioCostMethod;
+  year: number;
+  disposals: RealizedDisposal[];
+  totals: RealizedGainsTotals;
+  timestamp: string;
+}
+
+export interface ImportedTransaction {
+  row: number; // CSV record, counting the header
+  type: PortfolioTransactionType;
+  asset: string;
+  quantity: number;
+  price: number | null; // Portfolio currency
+  fee: number;
+  executedAt: string;
+  note: string | null;
+  duplicate: boolean; // Already imported, or repeated in the file
+}
+
+export interface SkippedImportRow {
+  row: number;
+  reason: string;
+}
+
+export interface HoldingChange {
+  asset: string;
+  quantityBefore: number;
+  quantityAfter: number;
+  costBasisBefore: number;
+  costBasisAfter: number;
+  realizedPnlBefore: number;
+  realizedPnlAfter: number;
+}
+
+export interface TradeImportPreview {
+  format: TradeImportFormat;
+  currency: string;
+  costMethod: PortfolioCostMethod;
+  rows: number; // Data rows read
+  transactions: ImportedTransaction[];
+  newCount: number;
+  duplicateCount: number;
+  skipped: SkippedImportRow[];
+  // Assets whose holdings the new transactions change
+  changes: HoldingChange[];
+  // Why the import can't be committed, e.g. a sell exceeding what is held
+  error: string | null;
+  imported: number; // Zero until committed
+  timestamp: string;
+}
@@ -0,0 +1,56 @@
+// Replays of the investment recommender shared by the evaluation service
+// and its API
+
+import type { InvestmentTimeframe, ScoringWeights } from "./market-analysis";
+
+// Percent returns over one holding period, or compounded over all of them
+export interface EvaluationReturns {
+  recommender: number; // Unallocated cash earns nothing
+  btc: number; // The whole amount in BTC
+  equalWeight: number; // The amount split evenly across the universe
+}
+
+export interface EvaluationHolding {
+  symbol: string;
+  allocation: number; // USD
+  weight: number; // Percent of the amount
+  riskLevel: "low" | "medium" | "high";
+  entryPrice: number;
+  exitPrice: number;
+  return: number; // Percent
+}
+
+export interface EvaluationPeriod {
+  time: number; // When the recommendation was made, unix ms
+  exitTime: number;
+  holdings: EvaluationHolding[];
+  invested: number; // Percent of the amount allocated
+  returns: EvaluationReturns;
+}
+
+export interface EvaluationSummary {
+  periods: number;
+  cumulative: EvaluationReturns;
+  mean: EvaluationReturns;
+  worst: EvaluationReturns;
+  // Percent of periods the recommender returned more than the benchmark
+  beatBtcRate: number;
+  beatEqualWeightRate: number;
+  averageInvested: number;
+}
+
+export interface RecommenderEvaluation {
+  timeframe: InvestmentTimeframe;
+  riskTolerance: "conservative" | "moderate" | "aggressive";
+  amount: number; // USD
+  holdDays: number;
+  stepDays: number;
+  weights: ScoringWeights;
+  symbols: string[]; // Universe the recommender chose from
+  skipped: string[]; // Symbols without daily candles for the range
+  startTime: number;
+  endTime: number;
+  periods: EvaluationPeriod[];
+  summary: EvaluationSummary | null; // Null when no period could be held
+  timestamp: string;
+}
@@ -0,0 +1,53 @@
+// Screener results shared by the screener service and the client
+
+import type {
+  ScreenerCondition,
+  ScreenerOperand,
+  ScreenerSort,
+} from "../schema";
+
+export type CoinSentimentLabel = "positive" | "negative" | "neutral";
+
+export interface CoinSentiment {
+  label: CoinSentimentLabel;
+  score: number; // -1 (all negative) to 1 (all positive)
+  confidence: number;
+  articles: number; // News articles mentioning the coin
+}
+
+export interface ScreenerResult {
+  symbol: string;
+  pair: string;
+  name: string;
+  price: number;
+  change24h: number; // Percent
+  volume24h: number; // Quote volume
+  marketCap: number | null;
+  // Values of the metrics used by the conditions and sort, keyed by
+  // getOperandKey, e.g. "rsi:14" or "avgVolume:7"
+  metrics: Record<string, number | null>;
+  sentiment: CoinSentiment | null;
+}
+
+export interface ScreenerRun {
+  results: ScreenerResult[];
+  conditions: ScreenerCondition[];
+  sort: ScreenerSort | null;
+  scanned: number;
+  matched: number;
+  source: string;
+  timestamp: string;
+}
+
+// Periods used when an operand that needs one omits it
+export const DEFAULT_SCREENER_PERIODS: Record<string, number> = {
+  rsi: 14,
+  sma: 20,
+  ema: 20,
+  avgVolume: 7,
+};
+
+export function getOperandKey(operand: ScreenerOperand): string {
+  const period = operand.period ?? DEFAULT_SCREENER_PERIODS[operand.metric];
+  return period ? `${operand.metric}:${period}` : operand.metric;
+}
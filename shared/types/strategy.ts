@@ -0,0 +1,144 @@
+// Plain-text rendering of strategy definitions, shared by the server (chat,
+// alerts) and the client
+
+import type {
+  StrategyCondition,
+  StrategyDefinition,
+  StrategyExitLevel,
+  StrategyOperand,
+  StrategyRule,
+} from "../schema";
+
+export const STRATEGY_OPERATOR_LABELS: Record<
+  StrategyCondition["operator"],
+  string
+> = {
+  "<": "<",
+  "<=": "<=",
+  ">": ">",
+  ">=": ">=",
+  crosses_above: "crosses above",
+  crosses_below: "crosses below",
+};
+
+// e.g. "RSI(14)", "MACD hist(12,26,9)" or "close [1d]"
+export function describeOperand(operand: StrategyOperand): string {
+  const timeframe = operand.timeframe ? ` [${operand.timeframe}]` : "";
+  if ("price" in operand) {
+    return `${operand.price}${timeframe}`;
+  }
+
+  const [name, ...params] = operand.indicator.split(":");
+  const [first, ...rest] = (operand.line ?? name).split("_");
+  const label = [first.toUpperCase(), ...rest].join(" ");
+  return `${label}${params.length ? `(${params.join(",")})` : ""}${timeframe}`;
+}
+
+export function describeCondition(condition: StrategyCondition): string {
+  const right =
+    typeof condition.right === "number"
+      ? String(condition.right)
+      : describeOperand(condition.right);
+  return `${describeOperand(condition.left)} ${
+    STRATEGY_OPERATOR_LABELS[condition.operator]
+  } ${right}`;
+}
+
+// The children of an all/any group, or null for a single condition
+export function getRuleGroup(
+  rule: StrategyRule
+): { rules: StrategyRule[]; match: "all" | "any" } | null {
+  if (Array.isArray(rule)) return { rules: rule, match: "all" };
+  if ("all" in rule) return { rules: rule.all, match: "all" };
+  if ("any" in rule) return { rules: rule.any, match: "any" };
+  return null;
+}
+
+// e.g. "RSI(14) crosses above 30 AND (close > SMA(50) OR volume > 1000)"
+export function describeRule(rule: StrategyRule): string {
+  const group = getRuleGroup(rule);
+  if (!group) return describeCondition(rule as StrategyCondition);
+
+  return group.rules
+    .map((child) => {
+      const nested = getRuleGroup(child);
+      const text = describeRule(child);
+      return nested && nested.rules.length > 1 ? `(${text})` : text;
+    })
+    .join(group.match === "all" ? " AND " : " OR ");
+}
+
+function describeExitLevel(level: StrategyExitLevel, side: string): string {
+  return level.type === "percent"
+    ? `${level.percent}% ${side} entry`
+    : `${level.multiple}× ATR(${level.period ?? 14}) ${side} entry`;
+}
+
+/**
+ * One line per part of the definition, e.g. "Entry: RSI(14) < 30"
+ */
+export function describeStrategy(definition: StrategyDefinition): string[] {
+  const lines = [
+    `Timeframe: ${definition.timeframe}`,
+    `Entry: ${describeRule(definition.entry)}`,
+  ];
+  if (definition.exit) {
+    lines.push(`Exit: ${describeRule(definition.exit)}`);
+  }
+  if (definition.stopLoss) {
+    lines.push(`Stop-loss: ${describeExitLevel(definition.stopLoss, "below")}`);
+  }
+  if (definition.takeProfit) {
+    lines.push(
+      `Take-profit: ${describeExitLevel(definition.takeProfit, "above")}`
+    );
+  }
+
+  const sizing = definition.sizing;
+  lines.push(
+    `Sizing: ${
+      !sizing
+        ? "all equity"
+        : sizing.type === "percent_equity"
+          ? `${sizing.percent}% of equity`
+          : sizing.type === "fixed"
+            ? `${sizing.amount} per trade`
+            : `risk ${sizing.percent}% of equity to the stop`
+    }`
+  );
+  return lines;
+}
+
+// Whether a strategy's rules hold on the last closed candle of a symbol
+export interface StrategySignals {
+  symbol: string;
+  timeframe: string;
+  time: number; // Open time of the last closed candle
+  price: number; // Its close
+  entry: boolean;
+  exit: boolean;
+  // Levels for an entry at that close
+  stopLoss: number | null;
+  takeProfit: number | null;
+  rules: string[]; // describeStrategy output
+  timestamp: string;
+}
+
+/**
+ * One line for prompts, e.g. "BTCUSDT 1h at 64000: entry holds, exit does
+ * not (Entry: RSI(14) < 30; ...)"
+ */
+export function describeStrategySignals(signals: StrategySignals): string {
+  const holds = (value: boolean) => (value ? "holds" : "does not");
+  const levels = [
+    signals.stopLoss !== null ? `stop ${signals.stopLoss.toFixed(2)}` : null,
+    signals.takeProfit !== null
+      ? `target ${signals.takeProfit.toFixed(2)}`
+      : null,
+  ].filter(Boolean);
+  return `${signals.symbol} ${signals.timeframe} at ${signals.price}: entry ${holds(
+    signals.entry
+  )}, exit ${holds(signals.exit)}${
+    levels.length ? `, ${levels.join(", ")} for an entry now` : ""
+  } (${signals.rules.join("; ")})`;
+}